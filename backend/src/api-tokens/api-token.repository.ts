@@ -0,0 +1,12 @@
+import { ApiTokenEntity } from './entities/api-token.entity';
+
+export const API_TOKEN_REPOSITORY = Symbol('API_TOKEN_REPOSITORY');
+
+export interface ApiTokenRepository {
+  /** Every token, revoked ones included, newest first. */
+  findAll(): Promise<ApiTokenEntity[]>;
+  findById(id: string): Promise<ApiTokenEntity | null>;
+  findByHash(tokenHash: string): Promise<ApiTokenEntity | null>;
+  save(token: ApiTokenEntity): Promise<ApiTokenEntity>;
+  workspaceExists(workspaceId: string): Promise<boolean>;
+}
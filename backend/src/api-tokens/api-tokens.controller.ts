@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { ApiTokensService } from './api-tokens.service';
+import {
+  ApiTokenListResponseDto,
+  ApiTokenResponseDto,
+} from './dto/api-token-response.dto';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+
+@Controller('api-tokens')
+@UseGuards(ApiTokenGuard)
+@RequireScopes('admin')
+export class ApiTokensController {
+  constructor(private readonly apiTokensService: ApiTokensService) {}
+
+  @Get()
+  list(@Req() req: AuthenticatedRequest): Promise<ApiTokenListResponseDto> {
+    return this.apiTokensService.listTokens(req);
+  }
+
+  @Post()
+  create(
+    @Body() dto: CreateApiTokenDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiTokenResponseDto> {
+    return this.apiTokensService.createToken(dto, req);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(200)
+  rotate(
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ApiTokenResponseDto> {
+    return this.apiTokensService.rotateToken(id, req);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  revoke(
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.apiTokensService.revokeToken(id, req);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { API_TOKEN_REPOSITORY } from './api-token.repository';
+import { ApiTokensController } from './api-tokens.controller';
+import { ApiTokensService } from './api-tokens.service';
+import { ApiTokenEntity } from './entities/api-token.entity';
+import { TypeOrmApiTokenRepository } from './infrastructure/typeorm-api-token.repository';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiTokenEntity])],
+  controllers: [ApiTokensController],
+  providers: [
+    ApiTokensService,
+    TypeOrmApiTokenRepository,
+    ApiTokenGuard,
+    {
+      provide: API_TOKEN_REPOSITORY,
+      useExisting: TypeOrmApiTokenRepository,
+    },
+  ],
+  exports: [ApiTokensService],
+})
+export class ApiTokensModule {}
@@ -0,0 +1,204 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { assertRole } from '../common/guards/role.guard';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import type { ApiTokenRepository } from './api-token.repository';
+import { API_TOKEN_REPOSITORY } from './api-token.repository';
+import {
+  ApiTokenListResponseDto,
+  ApiTokenResponseDto,
+} from './dto/api-token-response.dto';
+import { CreateApiTokenDto } from './dto/create-api-token.dto';
+import { ApiTokenEntity } from './entities/api-token.entity';
+import {
+  toApiTokenListResponse,
+  toApiTokenResponse,
+} from './mappers/api-token-mapper';
+import { generateApiToken, hashApiToken } from './utils/api-token.util';
+
+/** `lastUsedAt` is only written when it is older than this. */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+/**
+ * The caller managing tokens. One holding a token bound to a workspace only
+ * sees and issues tokens bound to that workspace, and nobody issues a token
+ * with a role above their own.
+ */
+export type ApiTokenPrincipal = Pick<
+  AuthenticatedRequest,
+  'tokenWorkspaceId' | 'role'
+>;
+
+@Injectable()
+export class ApiTokensService {
+  constructor(
+    @Inject(API_TOKEN_REPOSITORY)
+    private readonly repository: ApiTokenRepository,
+  ) {}
+
+  async listTokens(
+    principal: ApiTokenPrincipal = {},
+  ): Promise<ApiTokenListResponseDto> {
+    const tokens = await this.repository.findAll();
+    return toApiTokenListResponse(
+      tokens.filter((token) => this.canManage(principal, token)),
+    );
+  }
+
+  /**
+   * Tokens issued by a workspace-bound token are bound to its workspace. A
+   * role above the caller's answers `403 insufficient-role`.
+   */
+  async createToken(
+    dto: CreateApiTokenDto,
+    principal: ApiTokenPrincipal,
+  ): Promise<ApiTokenResponseDto> {
+    const role = dto.role ?? 'member';
+    assertRole(principal, role);
+    const workspaceId = principal.tokenWorkspaceId ?? dto.workspaceId;
+    if (dto.workspaceId && dto.workspaceId !== workspaceId) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.FORBIDDEN, 'Forbidden', {
+          type: 'https://example.com/problems/workspace-access-denied',
+          detail: `You do not have access to workspace ${dto.workspaceId}.`,
+        }),
+      );
+    }
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.BAD_REQUEST, 'Invalid expiry', {
+          type: 'https://example.com/problems/invalid-token-expiry',
+          detail: 'expiresAt must be in the future.',
+        }),
+      );
+    }
+    if (workspaceId && !(await this.repository.workspaceExists(workspaceId))) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'Workspace not found',
+          {
+            type: 'https://example.com/problems/workspace-not-found',
+            detail: `Workspace with id ${workspaceId} does not exist.`,
+          },
+        ),
+      );
+    }
+    const { token: secret, prefix, tokenHash } = generateApiToken();
+    const token = new ApiTokenEntity();
+    token.name = dto.name.trim();
+    token.prefix = prefix;
+    token.tokenHash = tokenHash;
+    token.scopes = dto.scopes;
+    token.role = role;
+    token.workspaceId = workspaceId ?? null;
+    token.expiresAt = expiresAt;
+    token.lastUsedAt = null;
+    token.revokedAt = null;
+    return toApiTokenResponse(await this.repository.save(token), secret);
+  }
+
+  /**
+   * Issues a new secret for the token, keeping its name, scopes, role,
+   * workspace and expiry. The previous secret stops working straight away.
+   */
+  async rotateToken(
+    id: string,
+    principal: ApiTokenPrincipal = {},
+  ): Promise<ApiTokenResponseDto> {
+    const token = await this.findTokenOrThrow(id, principal);
+    if (token.revokedAt) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.CONFLICT, 'API token is revoked', {
+          type: 'https://example.com/problems/api-token-revoked',
+          detail: `API token ${id} was revoked and cannot be rotated.`,
+        }),
+      );
+    }
+    const { token: secret, prefix, tokenHash } = generateApiToken();
+    token.prefix = prefix;
+    token.tokenHash = tokenHash;
+    return toApiTokenResponse(await this.repository.save(token), secret);
+  }
+
+  /** Revoking twice is a no-op; revoked tokens stay listed for the record. */
+  async revokeToken(
+    id: string,
+    principal: ApiTokenPrincipal = {},
+  ): Promise<void> {
+    const token = await this.findTokenOrThrow(id, principal);
+    if (!token.revokedAt) {
+      token.revokedAt = new Date();
+      await this.repository.save(token);
+    }
+  }
+
+  /**
+   * Resolves a presented secret to its token, or `null` when it is unknown,
+   * revoked or expired. Records when the token was last used.
+   */
+  async authenticate(secret: string): Promise<ApiTokenEntity | null> {
+    const token = await this.repository.findByHash(hashApiToken(secret));
+    const now = new Date();
+    if (
+      !token ||
+      token.revokedAt ||
+      (token.expiresAt && token.expiresAt <= now)
+    ) {
+      return null;
+    }
+    if (
+      !token.lastUsedAt ||
+      now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      token.lastUsedAt = now;
+      await this.repository.save(token);
+    }
+    return token;
+  }
+
+  /**
+   * Whether token `id` may currently work in `workspaceId`: it is neither
+   * revoked nor expired, and bound to that workspace or to none.
+   */
+  async canUseWorkspace(id: string, workspaceId: string): Promise<boolean> {
+    const token = await this.repository.findById(id);
+    return Boolean(
+      token &&
+        !token.revokedAt &&
+        !(token.expiresAt && token.expiresAt <= new Date()) &&
+        (token.workspaceId === null || token.workspaceId === workspaceId),
+    );
+  }
+
+  private canManage(
+    principal: ApiTokenPrincipal,
+    token: ApiTokenEntity,
+  ): boolean {
+    return (
+      !principal.tokenWorkspaceId ||
+      token.workspaceId === principal.tokenWorkspaceId
+    );
+  }
+
+  /** Tokens the caller may not manage are reported as missing. */
+  private async findTokenOrThrow(
+    id: string,
+    principal: ApiTokenPrincipal,
+  ): Promise<ApiTokenEntity> {
+    const token = await this.repository.findById(id);
+    if (!token || !this.canManage(principal, token)) {
+      throw new NotFoundException(`API token with id ${id} not found`);
+    }
+    return token;
+  }
+}
@@ -0,0 +1,47 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type { Role } from '../../common/decorators/require-role.decorator';
+import type { ApiScope } from '../../common/decorators/require-scopes.decorator';
+
+@Exclude()
+export class ApiTokenResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  name!: string;
+
+  @Expose()
+  prefix!: string;
+
+  @Expose()
+  scopes!: ApiScope[];
+
+  @Expose()
+  role!: Role;
+
+  @Expose()
+  workspaceId!: string | null;
+
+  @Expose()
+  expiresAt!: string | null;
+
+  @Expose()
+  lastUsedAt!: string | null;
+
+  @Expose()
+  revokedAt!: string | null;
+
+  /** Only present in the response that created or rotated the token. */
+  @Expose()
+  token?: string;
+
+  @Expose()
+  createdAt!: string;
+}
+
+@Exclude()
+export class ApiTokenListResponseDto {
+  @Expose()
+  @Type(() => ApiTokenResponseDto)
+  data!: ApiTokenResponseDto[];
+}
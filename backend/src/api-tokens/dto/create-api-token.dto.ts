@@ -0,0 +1,44 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Length,
+} from 'class-validator';
+import { ROLES } from '../../common/decorators/require-role.decorator';
+import type { Role } from '../../common/decorators/require-role.decorator';
+import {
+  API_SCOPES,
+  ApiScope,
+} from '../../common/decorators/require-scopes.decorator';
+
+export class CreateApiTokenDto {
+  @IsString()
+  @Length(1, 80)
+  name!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(API_SCOPES, { each: true })
+  scopes!: ApiScope[];
+
+  /** Defaults to `member`. */
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: Role;
+
+  /** Binds the token to one workspace; omit to allow every workspace. */
+  @IsOptional()
+  @IsUUID('4')
+  workspaceId?: string;
+
+  /** Omit for a token that never expires. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  expiresAt?: string;
+}
@@ -0,0 +1,56 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Role } from '../../common/decorators/require-role.decorator';
+import type { ApiScope } from '../../common/decorators/require-scopes.decorator';
+
+/**
+ * A named, scoped credential for scripts and integrations. Only the SHA-256
+ * of the secret is stored; `prefix` is kept so people can tell tokens apart.
+ */
+@Entity({ name: 'api_tokens' })
+export class ApiTokenEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ length: 80 })
+  name!: string;
+
+  /** The first characters of the secret, e.g. `tt_1a2b3c4d`. */
+  @Column({ length: 16 })
+  prefix!: string;
+
+  @Column({ length: 64, unique: true })
+  tokenHash!: string;
+
+  @Column({ type: 'simple-json' })
+  scopes!: ApiScope[];
+
+  /** What the token may do with tasks, on top of its scopes. */
+  @Column({ type: 'varchar', length: 16, default: 'member' })
+  role!: Role;
+
+  /** Limits the token to one workspace; `null` lets it use any. */
+  @Column({ type: 'varchar', nullable: true })
+  workspaceId!: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  expiresAt!: Date | null;
+
+  /** Updated at most once a minute. */
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt!: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt!: Date | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
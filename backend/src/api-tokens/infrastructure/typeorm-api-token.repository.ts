@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { ApiTokenRepository } from '../api-token.repository';
+import { WorkspaceEntity } from '../../workspaces/entities/workspace.entity';
+import { ApiTokenEntity } from '../entities/api-token.entity';
+
+@Injectable()
+export class TypeOrmApiTokenRepository implements ApiTokenRepository {
+  constructor(
+    @InjectRepository(ApiTokenEntity)
+    private readonly repository: Repository<ApiTokenEntity>,
+  ) {}
+
+  async findAll(): Promise<ApiTokenEntity[]> {
+    return this.repository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  async findById(id: string): Promise<ApiTokenEntity | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findByHash(tokenHash: string): Promise<ApiTokenEntity | null> {
+    return this.repository.findOne({ where: { tokenHash } });
+  }
+
+  async save(token: ApiTokenEntity): Promise<ApiTokenEntity> {
+    return this.repository.save(token);
+  }
+
+  async workspaceExists(workspaceId: string): Promise<boolean> {
+    return this.repository.manager
+      .getRepository(WorkspaceEntity)
+      .exists({ where: { id: workspaceId } });
+  }
+}
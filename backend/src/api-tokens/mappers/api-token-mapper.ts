@@ -0,0 +1,39 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  ApiTokenListResponseDto,
+  ApiTokenResponseDto,
+} from '../dto/api-token-response.dto';
+import { ApiTokenEntity } from '../entities/api-token.entity';
+
+const apiTokenToPlain = (token: ApiTokenEntity): Record<string, unknown> => ({
+  id: token.id,
+  name: token.name,
+  prefix: token.prefix,
+  scopes: token.scopes,
+  role: token.role,
+  workspaceId: token.workspaceId,
+  expiresAt: token.expiresAt?.toISOString() ?? null,
+  lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+  revokedAt: token.revokedAt?.toISOString() ?? null,
+  createdAt: token.createdAt.toISOString(),
+});
+
+/** Pass the plain `secret` only when answering a create or rotate request. */
+export const toApiTokenResponse = (
+  token: ApiTokenEntity,
+  secret?: string,
+): ApiTokenResponseDto =>
+  plainToInstance(
+    ApiTokenResponseDto,
+    { ...apiTokenToPlain(token), ...(secret ? { token: secret } : {}) },
+    { excludeExtraneousValues: true },
+  );
+
+export const toApiTokenListResponse = (
+  tokens: ApiTokenEntity[],
+): ApiTokenListResponseDto =>
+  plainToInstance(
+    ApiTokenListResponseDto,
+    { data: tokens.map(apiTokenToPlain) },
+    { excludeExtraneousValues: true },
+  );
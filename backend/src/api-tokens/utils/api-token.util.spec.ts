@@ -0,0 +1,20 @@
+import {
+  generateApiToken,
+  hashApiToken,
+  isApiTokenSecret,
+} from './api-token.util';
+
+describe('generateApiToken', () => {
+  it('creates distinct prefixed secrets with their hash', () => {
+    const first = generateApiToken();
+    const second = generateApiToken();
+
+    expect(first.token).toMatch(/^tt_[\w-]{43}$/);
+    expect(first.token).not.toBe(second.token);
+    expect(first.token.startsWith(first.prefix)).toBe(true);
+    expect(first.prefix).toHaveLength(11);
+    expect(first.tokenHash).toBe(hashApiToken(first.token));
+    expect(isApiTokenSecret(first.token)).toBe(true);
+    expect(isApiTokenSecret('shared-env-token')).toBe(false);
+  });
+});
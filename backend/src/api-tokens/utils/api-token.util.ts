@@ -0,0 +1,31 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/** Marks stored API tokens, so the guard can tell them from JWTs. */
+export const API_TOKEN_PREFIX = 'tt_';
+
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+export interface GeneratedApiToken {
+  token: string;
+  prefix: string;
+  tokenHash: string;
+}
+
+export const isApiTokenSecret = (token: string): boolean =>
+  token.startsWith(API_TOKEN_PREFIX);
+
+/**
+ * The secret has 256 random bits, so a plain SHA-256 is enough to store it;
+ * unlike passwords it cannot be guessed from a dictionary.
+ */
+export const hashApiToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+export const generateApiToken = (): GeneratedApiToken => {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    tokenHash: hashApiToken(token),
+  };
+};
@@ -1,11 +1,27 @@
 import { Module } from '@nestjs/common';
 import { CacheModule } from '@nestjs/cache-manager';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import * as Joi from 'joi';
+import { ApiTokensModule } from './api-tokens/api-tokens.module';
+import { AuthModule } from './auth/auth.module';
+import { RateLimitGuard } from './common/guards/rate-limit.guard';
+import { RateLimitInterceptor } from './common/interceptors/rate-limit.interceptor';
+import { RateLimitService } from './common/rate-limit/rate-limit.service';
 import appConfig from './config/app.config';
 import { createSqlJsDataSourceOptions } from './config/sqljs.config';
+import { NOTIFICATION_CHANNEL_NAMES } from './notifications/notifications.module';
 import { TasksModule } from './tasks/tasks.module';
+import { UsersModule } from './users/users.module';
+import { parseReminderWindows } from './tasks/utils/task-reminder.util';
+import {
+  WIP_LIMIT_ENFORCEMENTS,
+  WIP_LIMIT_SCOPES,
+  parseTaskWorkflow,
+} from './tasks/utils/task-workflow.util';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { WorkspacesModule } from './workspaces/workspaces.module';
 
 @Module({
   imports: [
@@ -18,12 +34,72 @@ import { TasksModule } from './tasks/tasks.module';
       validationSchema: Joi.object({
         PORT: Joi.number().port().default(3000),
         API_TOKEN: Joi.string().required(),
+        JWT_SECRET: Joi.string().min(32).required(),
+        JWT_ISSUER: Joi.string().default('task-tracker'),
+        JWT_ACCESS_TTL_SECONDS: Joi.number().integer().min(60).default(900),
+        JWT_REFRESH_TTL_DAYS: Joi.number().integer().min(1).default(14),
         DATABASE_PATH: Joi.string().default('data/tasks.sqlite'),
         TYPEORM_SYNCHRONIZE: Joi.boolean()
           .truthy('true', '1')
           .falsy('false', '0')
           .optional(),
         CORS_ORIGINS: Joi.string().optional(),
+        TASK_TRASH_RETENTION_DAYS: Joi.number().integer().min(0).default(30),
+        TASK_WORKFLOW: Joi.string()
+          .custom((value: string) => {
+            parseTaskWorkflow(value);
+            return value;
+          })
+          .optional(),
+        TASK_WIP_LIMIT_SCOPE: Joi.string()
+          .valid(...WIP_LIMIT_SCOPES)
+          .default('workspace'),
+        TASK_WIP_LIMIT_ENFORCEMENT: Joi.string()
+          .valid(...WIP_LIMIT_ENFORCEMENTS)
+          .default('reject'),
+        TASK_REMINDER_WINDOWS: Joi.string()
+          .custom((value: string) => {
+            parseReminderWindows(value);
+            return value;
+          })
+          .default('24h,1h,overdue'),
+        TASK_REMINDER_INTERVAL_SECONDS: Joi.number()
+          .integer()
+          .min(1)
+          .default(60),
+        NOTIFICATION_CHANNELS: Joi.string()
+          .custom((value: string) => {
+            const unknown = value
+              .split(',')
+              .map((name) => name.trim())
+              .filter(
+                (name) =>
+                  !(NOTIFICATION_CHANNEL_NAMES as readonly string[]).includes(
+                    name,
+                  ),
+              );
+            if (unknown.length > 0) {
+              throw new Error(`unknown channel(s) ${unknown.join(', ')}`);
+            }
+            return value;
+          })
+          .default('log'),
+        NOTIFICATION_WEBHOOK_URL: Joi.string()
+          .uri({ scheme: ['http', 'https'] })
+          .when('NOTIFICATION_CHANNELS', {
+            is: Joi.string().pattern(/webhook/),
+            then: Joi.required(),
+          }),
+        NOTIFICATION_MAILDIR: Joi.string().default('data/maildir'),
+        NOTIFICATION_EMAIL_FROM: Joi.string().default('tasks@localhost'),
+        NOTIFICATION_EMAIL_TO: Joi.string().default('team@localhost'),
+        WEBHOOK_POLL_INTERVAL_SECONDS: Joi.number().integer().min(1).default(5),
+        WEBHOOK_RETRY_BASE_SECONDS: Joi.number().integer().min(1).default(30),
+        WEBHOOK_MAX_ATTEMPTS: Joi.number().integer().min(1).default(8),
+        RATE_LIMIT_READ_BURST: Joi.number().integer().min(1).default(100),
+        RATE_LIMIT_READ_PER_MINUTE: Joi.number().integer().min(1).default(300),
+        RATE_LIMIT_WRITE_BURST: Joi.number().integer().min(1).default(30),
+        RATE_LIMIT_WRITE_PER_MINUTE: Joi.number().integer().min(1).default(60),
         NODE_ENV: Joi.string()
           .valid('development', 'test', 'production')
           .default('development'),
@@ -34,7 +110,17 @@ import { TasksModule } from './tasks/tasks.module';
       useFactory: (configService: ConfigService) =>
         createSqlJsDataSourceOptions(configService),
     }),
+    ApiTokensModule,
+    WorkspacesModule,
+    UsersModule,
+    AuthModule,
     TasksModule,
+    WebhooksModule,
+  ],
+  providers: [
+    RateLimitService,
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+    { provide: APP_INTERCEPTOR, useClass: RateLimitInterceptor },
   ],
 })
 export class AppModule {}
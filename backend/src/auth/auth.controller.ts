@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Post,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { UserResponseDto } from '../users/dto/user-response.dto';
+import { AuthService, AuthSession } from './auth.service';
+import { AuthSessionResponseDto } from './dto/auth-session-response.dto';
+import { LoginDto } from './dto/login.dto';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  REFRESH_TOKEN_PATH,
+  SESSION_COOKIE_OPTIONS,
+  readCookie,
+} from './utils/auth-cookies.util';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post('login')
+  @HttpCode(200)
+  async login(
+    @Body() dto: LoginDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthSessionResponseDto> {
+    return this.setSessionCookies(res, await this.authService.login(dto));
+  }
+
+  /** Swaps the refresh cookie for a new session; the old token stops working. */
+  @Post('refresh')
+  @HttpCode(200)
+  async refresh(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthSessionResponseDto> {
+    try {
+      const session = await this.authService.refresh(
+        readCookie(req.headers.cookie, REFRESH_TOKEN_COOKIE),
+      );
+      return this.setSessionCookies(res, session);
+    } catch (error) {
+      this.clearSessionCookies(res);
+      throw error;
+    }
+  }
+
+  @Post('logout')
+  @HttpCode(204)
+  async logout(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<void> {
+    await this.authService.logout(
+      readCookie(req.headers.cookie, REFRESH_TOKEN_COOKIE),
+    );
+    this.clearSessionCookies(res);
+  }
+
+  @Get('me')
+  @UseGuards(ApiTokenGuard)
+  me(@Req() req: AuthenticatedRequest): Promise<UserResponseDto> {
+    return this.authService.getCurrentUser(req.userId);
+  }
+
+  private setSessionCookies(
+    res: Response,
+    session: AuthSession,
+  ): AuthSessionResponseDto {
+    const { body } = session;
+    res.cookie(ACCESS_TOKEN_COOKIE, session.accessToken, {
+      ...SESSION_COOKIE_OPTIONS,
+      path: '/',
+      expires: new Date(body.accessTokenExpiresAt),
+    });
+    res.cookie(REFRESH_TOKEN_COOKIE, session.refreshToken, {
+      ...SESSION_COOKIE_OPTIONS,
+      path: REFRESH_TOKEN_PATH,
+      expires: session.refreshTokenExpiresAt,
+    });
+    return body;
+  }
+
+  private clearSessionCookies(res: Response): void {
+    res.clearCookie(ACCESS_TOKEN_COOKIE, {
+      ...SESSION_COOKIE_OPTIONS,
+      path: '/',
+    });
+    res.clearCookie(REFRESH_TOKEN_COOKIE, {
+      ...SESSION_COOKIE_OPTIONS,
+      path: REFRESH_TOKEN_PATH,
+    });
+  }
+}
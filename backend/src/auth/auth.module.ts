@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { UsersModule } from '../users/users.module';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import { TypeOrmRefreshTokenRepository } from './infrastructure/typeorm-refresh-token.repository';
+import { REFRESH_TOKEN_REPOSITORY } from './refresh-token.repository';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RefreshTokenEntity]),
+    UsersModule,
+    ApiTokensModule,
+  ],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    TypeOrmRefreshTokenRepository,
+    ApiTokenGuard,
+    {
+      provide: REFRESH_TOKEN_REPOSITORY,
+      useExisting: TypeOrmRefreshTokenRepository,
+    },
+  ],
+})
+export class AuthModule {}
@@ -0,0 +1,144 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { HttpStatus, Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import { UserResponseDto } from '../users/dto/user-response.dto';
+import { UserEntity } from '../users/entities/user.entity';
+import { toUserResponse } from '../users/mappers/user-mapper';
+import { UsersService } from '../users/users.service';
+import { AuthSessionResponseDto } from './dto/auth-session-response.dto';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+import type { RefreshTokenRepository } from './refresh-token.repository';
+import { REFRESH_TOKEN_REPOSITORY } from './refresh-token.repository';
+import {
+  accessTokenSettings,
+  issueAccessToken,
+} from './utils/access-token.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A signed-in session: the response body plus the cookie-only tokens. */
+export interface AuthSession {
+  body: AuthSessionResponseDto;
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+const unauthorized = (slug: string, detail: string) =>
+  new ProblemDetailsException(
+    createProblemDetails(HttpStatus.UNAUTHORIZED, 'Unauthorized', {
+      type: `https://example.com/problems/${slug}`,
+      detail,
+    }),
+  );
+
+/**
+ * Issues short-lived JWT access tokens and rotating, single-use refresh
+ * tokens. Presenting a refresh token that was already used ends every
+ * session of its user, since only a copied token can be replayed.
+ */
+@Injectable()
+export class AuthService {
+  constructor(
+    @Inject(REFRESH_TOKEN_REPOSITORY)
+    private readonly repository: RefreshTokenRepository,
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async login(dto: LoginDto): Promise<AuthSession> {
+    const user = await this.usersService.authenticate(dto.email, dto.password);
+    if (!user) {
+      throw unauthorized(
+        'invalid-credentials',
+        'Email or password is incorrect.',
+      );
+    }
+    return this.startSession(user);
+  }
+
+  async refresh(refreshToken: string | undefined): Promise<AuthSession> {
+    const now = new Date();
+    const stored = refreshToken
+      ? await this.repository.findByHash(hashToken(refreshToken))
+      : null;
+    if (!stored || stored.expiresAt <= now) {
+      throw unauthorized(
+        'invalid-refresh-token',
+        'The session has expired; sign in again.',
+      );
+    }
+    if (stored.revokedAt) {
+      await this.repository.revokeAllForUser(stored.userId, now);
+      throw unauthorized(
+        'invalid-refresh-token',
+        'The refresh token was already used; every session was ended.',
+      );
+    }
+    const user = await this.usersService.findById(stored.userId);
+    if (!user) {
+      throw unauthorized(
+        'invalid-refresh-token',
+        'The session has expired; sign in again.',
+      );
+    }
+    stored.revokedAt = now;
+    await this.repository.save(stored);
+    return this.startSession(user);
+  }
+
+  async logout(refreshToken: string | undefined): Promise<void> {
+    const stored = refreshToken
+      ? await this.repository.findByHash(hashToken(refreshToken))
+      : null;
+    if (stored && !stored.revokedAt) {
+      stored.revokedAt = new Date();
+      await this.repository.save(stored);
+    }
+  }
+
+  async getCurrentUser(userId: string | undefined): Promise<UserResponseDto> {
+    const user = userId ? await this.usersService.findById(userId) : null;
+    if (!user) {
+      throw unauthorized(
+        'no-user-session',
+        'This endpoint needs a signed-in user rather than an API token.',
+      );
+    }
+    return toUserResponse(user);
+  }
+
+  private async startSession(user: UserEntity): Promise<AuthSession> {
+    const access = issueAccessToken(
+      { userId: user.id, role: user.role },
+      accessTokenSettings(this.configService),
+    );
+    const refreshToken = randomBytes(32).toString('base64url');
+    const stored = new RefreshTokenEntity();
+    stored.userId = user.id;
+    stored.tokenHash = hashToken(refreshToken);
+    stored.expiresAt = new Date(
+      Date.now() +
+        this.configService.get<number>('JWT_REFRESH_TTL_DAYS', 14) * DAY_MS,
+    );
+    stored.revokedAt = null;
+    await this.repository.save(stored);
+    return {
+      body: {
+        user: toUserResponse(user),
+        accessTokenExpiresAt: access.expiresAt.toISOString(),
+      },
+      accessToken: access.token,
+      refreshToken,
+      refreshTokenExpiresAt: stored.expiresAt,
+    };
+  }
+}
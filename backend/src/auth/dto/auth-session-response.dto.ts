@@ -0,0 +1,17 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import { UserResponseDto } from '../../users/dto/user-response.dto';
+
+/**
+ * Body of a login or refresh. The tokens themselves only travel in the
+ * httpOnly cookies set alongside, out of reach of page scripts; scripts
+ * and other non-browser clients use API tokens instead.
+ */
+@Exclude()
+export class AuthSessionResponseDto {
+  @Expose()
+  @Type(() => UserResponseDto)
+  user!: UserResponseDto;
+
+  @Expose()
+  accessTokenExpiresAt!: string;
+}
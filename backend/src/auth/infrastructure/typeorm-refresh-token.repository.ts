@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { RefreshTokenEntity } from '../entities/refresh-token.entity';
+import type { RefreshTokenRepository } from '../refresh-token.repository';
+
+@Injectable()
+export class TypeOrmRefreshTokenRepository implements RefreshTokenRepository {
+  constructor(
+    @InjectRepository(RefreshTokenEntity)
+    private readonly repository: Repository<RefreshTokenEntity>,
+  ) {}
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenEntity | null> {
+    return this.repository.findOne({ where: { tokenHash } });
+  }
+
+  async save(token: RefreshTokenEntity): Promise<RefreshTokenEntity> {
+    return this.repository.save(token);
+  }
+
+  async revokeAllForUser(userId: string, revokedAt: Date): Promise<void> {
+    await this.repository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt },
+    );
+  }
+}
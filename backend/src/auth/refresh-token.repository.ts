@@ -0,0 +1,10 @@
+import { RefreshTokenEntity } from './entities/refresh-token.entity';
+
+export const REFRESH_TOKEN_REPOSITORY = Symbol('REFRESH_TOKEN_REPOSITORY');
+
+export interface RefreshTokenRepository {
+  findByHash(tokenHash: string): Promise<RefreshTokenEntity | null>;
+  save(token: RefreshTokenEntity): Promise<RefreshTokenEntity>;
+  /** Ends every session of the user. */
+  revokeAllForUser(userId: string, revokedAt: Date): Promise<void>;
+}
@@ -0,0 +1,71 @@
+import { randomUUID } from 'node:crypto';
+import type { ConfigService } from '@nestjs/config';
+import { Role, isRole } from '../../common/decorators/require-role.decorator';
+import { JwtClaims, signJwt, verifyJwt } from './jwt.util';
+
+export const ACCESS_TOKEN_AUDIENCE = 'task-tracker-api';
+
+export interface AccessTokenSettings {
+  secret: string;
+  issuer: string;
+  ttlSeconds: number;
+}
+
+export const accessTokenSettings = (
+  configService: ConfigService,
+): AccessTokenSettings => ({
+  secret: configService.getOrThrow<string>('JWT_SECRET'),
+  issuer: configService.get<string>('JWT_ISSUER', 'task-tracker'),
+  ttlSeconds: configService.get<number>('JWT_ACCESS_TTL_SECONDS', 900),
+});
+
+/** The user's role rides along, so it changes once the token is refreshed. */
+interface AccessTokenClaims extends JwtClaims {
+  role: Role;
+}
+
+/** Who an access token was issued to. */
+export interface AccessTokenSubject {
+  userId: string;
+  role: Role;
+}
+
+export const issueAccessToken = (
+  { userId, role }: AccessTokenSubject,
+  settings: AccessTokenSettings,
+  now: Date = new Date(),
+): { token: string; expiresAt: Date } => {
+  const iat = Math.floor(now.getTime() / 1000);
+  const exp = iat + settings.ttlSeconds;
+  const claims: AccessTokenClaims = {
+    iss: settings.issuer,
+    sub: userId,
+    aud: ACCESS_TOKEN_AUDIENCE,
+    iat,
+    exp,
+    jti: randomUUID(),
+    role,
+  };
+  return {
+    token: signJwt(claims, settings.secret),
+    expiresAt: new Date(exp * 1000),
+  };
+};
+
+/**
+ * Resolves the user of a valid access token; throws `JwtError`. Tokens
+ * issued before roles existed count as `member`.
+ */
+export const verifyAccessToken = (
+  token: string,
+  settings: AccessTokenSettings,
+): AccessTokenSubject => {
+  const claims: Partial<AccessTokenClaims> = verifyJwt(token, settings.secret, {
+    issuer: settings.issuer,
+    audience: ACCESS_TOKEN_AUDIENCE,
+  });
+  return {
+    userId: claims.sub as string,
+    role: isRole(claims.role) ? claims.role : 'member',
+  };
+};
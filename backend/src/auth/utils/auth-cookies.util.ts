@@ -0,0 +1,32 @@
+import type { CookieOptions } from 'express';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/** Refresh tokens are only ever sent back to the auth endpoints. */
+export const REFRESH_TOKEN_PATH = '/auth';
+
+/** Script-proof and HTTPS-only (browsers treat `localhost` as secure). */
+export const SESSION_COOKIE_OPTIONS: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: 'strict',
+};
+
+/** Reads one cookie from a `Cookie` header without a parser middleware. */
+export const readCookie = (
+  header: string | undefined,
+  name: string,
+): string | undefined => {
+  for (const pair of header?.split(';') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator > 0 && pair.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+};
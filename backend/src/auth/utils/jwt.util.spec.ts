@@ -0,0 +1,46 @@
+import { JwtClaims, JwtError, signJwt, verifyJwt } from './jwt.util';
+
+const SECRET = 'a-test-secret-that-is-long-enough';
+const options = { issuer: 'task-tracker', audience: 'task-tracker-api' };
+const claims: JwtClaims = {
+  iss: 'task-tracker',
+  sub: 'user-1',
+  aud: 'task-tracker-api',
+  iat: 1760864400,
+  exp: 1760865300,
+  jti: 'token-1',
+};
+const at = (seconds: number) => ({ ...options, now: new Date(seconds * 1000) });
+
+describe('signJwt / verifyJwt', () => {
+  it('round-trips the standard claims until the token expires', () => {
+    const token = signJwt(claims, SECRET);
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(verifyJwt(token, SECRET, at(1760865299))).toEqual(claims);
+    expect(() => verifyJwt(token, SECRET, at(1760865300))).toThrow(
+      'Token has expired',
+    );
+  });
+
+  it('rejects tampered, foreign and unsigned tokens', () => {
+    const token = signJwt(claims, SECRET);
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, sub: 'admin' }),
+    ).toString('base64url');
+    const unsigned = `${Buffer.from('{"alg":"none","typ":"JWT"}').toString('base64url')}.${forged}.`;
+
+    for (const [candidate, secret, verifyOptions] of [
+      [`${header}.${forged}.${signature}`, SECRET, at(1760864400)],
+      [token, 'another-secret-that-is-long-enough', at(1760864400)],
+      [token, SECRET, { ...at(1760864400), audience: 'elsewhere' }],
+      [unsigned, SECRET, at(1760864400)],
+      ['not-a-token', SECRET, at(1760864400)],
+    ] as const) {
+      expect(() => verifyJwt(candidate, secret, verifyOptions)).toThrow(
+        JwtError,
+      );
+    }
+  });
+});
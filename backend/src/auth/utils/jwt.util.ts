@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Registered claims (RFC 7519 §4.1) every token we issue carries. */
+export interface JwtClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  /** Seconds since the epoch. */
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+export interface JwtVerifyOptions {
+  issuer: string;
+  audience: string;
+  now?: Date;
+}
+
+export class JwtError extends Error {}
+
+const HEADER = Buffer.from(
+  JSON.stringify({ alg: 'HS256', typ: 'JWT' }),
+).toString('base64url');
+
+const sign = (input: string, secret: string): Buffer =>
+  createHmac('sha256', secret).update(input).digest();
+
+/** Compact HS256 JWS; HS256 is the only algorithm issued or accepted. */
+export const signJwt = (claims: JwtClaims, secret: string): string => {
+  const input = `${HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${input}.${sign(input, secret).toString('base64url')}`;
+};
+
+/** Checks the signature, `iss`, `aud` and `exp`; throws `JwtError` otherwise. */
+export const verifyJwt = (
+  token: string,
+  secret: string,
+  { issuer, audience, now = new Date() }: JwtVerifyOptions,
+): JwtClaims => {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (header !== HEADER || !payload || signature === undefined || rest.length) {
+    throw new JwtError('Malformed token');
+  }
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError('Invalid signature');
+  }
+  let claims: Partial<JwtClaims>;
+  try {
+    claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString('utf8'),
+    ) as Partial<JwtClaims>;
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+  if (claims.iss !== issuer || claims.aud !== audience) {
+    throw new JwtError('Token was issued for someone else');
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+    throw new JwtError('Token is missing required claims');
+  }
+  if (claims.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new JwtError('Token has expired');
+  }
+  return claims as JwtClaims;
+};
@@ -0,0 +1,11 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import type { AuthenticatedRequest } from '../guards/api-token.guard';
+
+/** Actor recorded for writes made outside an authenticated request. */
+export const SYSTEM_ACTOR = 'system';
+
+export const CurrentActor = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().actor ??
+    SYSTEM_ACTOR,
+);
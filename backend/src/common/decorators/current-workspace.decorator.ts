@@ -0,0 +1,10 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { DEFAULT_WORKSPACE_ID } from '../../workspaces/entities/workspace.entity';
+import type { AuthenticatedRequest } from '../guards/api-token.guard';
+
+/** The id of the workspace `WorkspaceGuard` resolved for the request. */
+export const CurrentWorkspace = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().workspaceId ??
+    DEFAULT_WORKSPACE_ID,
+);
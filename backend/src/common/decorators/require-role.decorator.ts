@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+/** From least to most privileged; each role can do what those before it can. */
+export const ROLES = ['viewer', 'member', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const REQUIRED_ROLE_KEY = 'requiredRole';
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export const grantsRole = (granted: Role, required: Role): boolean =>
+  ROLES.indexOf(granted) >= ROLES.indexOf(required);
+
+/**
+ * Least role `RoleGuard` demands on a route: viewers only read, members also
+ * edit and admins also delete. A handler's role replaces its controller's.
+ */
+export const RequireRole = (role: Role) => SetMetadata(REQUIRED_ROLE_KEY, role);
@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_SCOPES = ['tasks:read', 'tasks:write', 'admin'] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+
+/** Scopes each granted scope includes on top of itself. */
+const IMPLIED_SCOPES: Record<ApiScope, readonly ApiScope[]> = {
+  'tasks:read': [],
+  'tasks:write': ['tasks:read'],
+  admin: ['tasks:read', 'tasks:write'],
+};
+
+export const grantsScope = (
+  granted: readonly ApiScope[],
+  required: ApiScope,
+): boolean =>
+  granted.some(
+    (scope) => scope === required || IMPLIED_SCOPES[scope].includes(required),
+  );
+
+/**
+ * Scopes `ApiTokenGuard` demands on a route. A handler's scopes replace the
+ * ones declared on its controller; without any, signing in is enough.
+ */
+export const RequireScopes = (...scopes: ApiScope[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
@@ -5,47 +5,162 @@ import {
   Injectable,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'node:crypto';
 import type { Request } from 'express';
+import { ApiTokensService } from '../../api-tokens/api-tokens.service';
+import { isApiTokenSecret } from '../../api-tokens/utils/api-token.util';
+import {
+  AccessTokenSubject,
+  accessTokenSettings,
+  verifyAccessToken,
+} from '../../auth/utils/access-token.util';
+import {
+  ACCESS_TOKEN_COOKIE,
+  readCookie,
+} from '../../auth/utils/auth-cookies.util';
+import { JwtError } from '../../auth/utils/jwt.util';
+import { Role } from '../decorators/require-role.decorator';
+import {
+  API_SCOPES,
+  ApiScope,
+  REQUIRED_SCOPES_KEY,
+  grantsScope,
+} from '../decorators/require-scopes.decorator';
 import {
   ProblemDetailsException,
   createProblemDetails,
 } from '../problem-details';
 
+/**
+ * Who made a request; set by `ApiTokenGuard` once the credentials check out.
+ * `userId` is only set for signed-in users, not for the shared API token, and
+ * `tokenWorkspaceId` only for stored tokens bound to one workspace. `role`
+ * comes from the user or token, and the shared token is an admin.
+ * `workspaceId` is set later by `WorkspaceGuard`.
+ */
+export type AuthenticatedRequest = Request & {
+  actor?: string;
+  userId?: string;
+  tokenWorkspaceId?: string;
+  scopes?: readonly ApiScope[];
+  role?: Role;
+  workspaceId?: string;
+};
+
+/** What a signed-in user may do; admins may also manage the service. */
+const userScopesFor = (role: Role): readonly ApiScope[] =>
+  role === 'admin' ? API_SCOPES : ['tasks:read', 'tasks:write'];
+
+/** Names the caller without exposing the token itself. */
+const toTokenActor = (token: string): string =>
+  `api-token:${createHash('sha256').update(token).digest('hex').slice(0, 12)}`;
+
+const unauthorized = (slug: string, detail: string) =>
+  new ProblemDetailsException(
+    createProblemDetails(HttpStatus.UNAUTHORIZED, 'Unauthorized', {
+      type: `https://example.com/problems/${slug}`,
+      detail,
+    }),
+  );
+
+/**
+ * Accepts a stored API token (`tt_…`) or the shared `API_TOKEN` as a bearer
+ * token, or a user's JWT access token either as a bearer token or in the
+ * `access_token` session cookie. The caller then needs every scope the route
+ * declares with `@RequireScopes`; the shared token holds them all.
+ */
 @Injectable()
 export class ApiTokenGuard implements CanActivate {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly reflector: Reflector,
+    private readonly apiTokensService: ApiTokensService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest<Request>();
-    const expectedToken = this.configService.get<string>('API_TOKEN');
-    if (!expectedToken) {
-      throw new ProblemDetailsException(
-        createProblemDetails(HttpStatus.UNAUTHORIZED, 'Unauthorized', {
-          type: 'https://example.com/problems/misconfigured-auth',
-          detail: 'API token is not configured on the server.',
-        }),
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const authHeader = request.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.substring('Bearer '.length).trim()
+      : readCookie(request.headers.cookie, ACCESS_TOKEN_COOKIE);
+    if (!token) {
+      throw unauthorized(
+        'missing-token',
+        'Missing bearer token or session cookie.',
       );
     }
 
-    const authHeader = request.headers.authorization;
-    if (!authHeader?.startsWith('Bearer ')) {
+    request.scopes = await this.authenticate(request, token);
+    const required =
+      this.reflector.getAllAndOverride<ApiScope[] | undefined>(
+        REQUIRED_SCOPES_KEY,
+        [context.getHandler(), context.getClass()],
+      ) ?? [];
+    const missing = required.filter(
+      (scope) => !grantsScope(request.scopes ?? [], scope),
+    );
+    if (missing.length > 0) {
       throw new ProblemDetailsException(
-        createProblemDetails(HttpStatus.UNAUTHORIZED, 'Unauthorized', {
-          type: 'https://example.com/problems/missing-token',
-          detail: 'Missing bearer token.',
+        createProblemDetails(HttpStatus.FORBIDDEN, 'Forbidden', {
+          type: 'https://example.com/problems/insufficient-scope',
+          detail: `This request needs the ${missing.join(', ')} scope.`,
         }),
       );
     }
+    return true;
+  }
 
-    const token = authHeader.substring('Bearer '.length).trim();
-    if (token !== expectedToken) {
-      throw new ProblemDetailsException(
-        createProblemDetails(HttpStatus.UNAUTHORIZED, 'Unauthorized', {
-          type: 'https://example.com/problems/invalid-token',
-          detail: 'Invalid bearer token.',
-        }),
+  /** Sets the request's actor and resolves to the scopes it was granted. */
+  private async authenticate(
+    request: AuthenticatedRequest,
+    token: string,
+  ): Promise<readonly ApiScope[]> {
+    if (token.split('.').length === 3) {
+      let subject: AccessTokenSubject;
+      try {
+        subject = verifyAccessToken(
+          token,
+          accessTokenSettings(this.configService),
+        );
+      } catch (error) {
+        if (error instanceof JwtError) {
+          throw unauthorized('invalid-token', error.message);
+        }
+        throw error;
+      }
+      request.userId = subject.userId;
+      request.actor = `user:${subject.userId}`;
+      request.role = subject.role;
+      return userScopesFor(subject.role);
+    }
+
+    if (isApiTokenSecret(token)) {
+      const apiToken = await this.apiTokensService.authenticate(token);
+      if (!apiToken) {
+        throw unauthorized(
+          'invalid-token',
+          'The API token is unknown, expired or revoked.',
+        );
+      }
+      request.actor = `api-token:${apiToken.id}`;
+      request.tokenWorkspaceId = apiToken.workspaceId ?? undefined;
+      request.role = apiToken.role;
+      return apiToken.scopes;
+    }
+
+    const expectedToken = this.configService.get<string>('API_TOKEN');
+    if (!expectedToken) {
+      throw unauthorized(
+        'misconfigured-auth',
+        'API token is not configured on the server.',
       );
     }
-    return true;
+    if (token !== expectedToken) {
+      throw unauthorized('invalid-token', 'Invalid bearer token.');
+    }
+    request.actor = toTokenActor(token);
+    request.role = 'admin';
+    return API_SCOPES;
   }
 }
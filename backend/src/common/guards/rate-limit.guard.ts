@@ -0,0 +1,28 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+/** The bucket every request starts out charged to. */
+export const ipRateLimitKey = (request: Request): string => `ip:${request.ip}`;
+
+/**
+ * Charges every request to its IP address before any credentials are
+ * checked, so guessing tokens or passwords is throttled like anything else.
+ * Registered globally, it runs ahead of `ApiTokenGuard`; once a caller is
+ * authenticated, `RateLimitInterceptor` moves the charge to its own bucket.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    this.rateLimitService.take(
+      request,
+      http.getResponse<Response>(),
+      ipRateLimitKey(request),
+    );
+    return true;
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  REQUIRED_ROLE_KEY,
+  Role,
+  grantsRole,
+} from '../decorators/require-role.decorator';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../problem-details';
+import type { AuthenticatedRequest } from './api-token.guard';
+
+/** Throws `403 insufficient-role` unless the caller holds `required`. */
+export const assertRole = (
+  request: Pick<AuthenticatedRequest, 'role'>,
+  required: Role,
+): void => {
+  if (!grantsRole(request.role ?? 'viewer', required)) {
+    throw new ProblemDetailsException(
+      createProblemDetails(HttpStatus.FORBIDDEN, 'Forbidden', {
+        type: 'https://example.com/problems/insufficient-role',
+        detail: `This request needs the ${required} role.`,
+      }),
+    );
+  }
+};
+
+/**
+ * Checks the role `ApiTokenGuard` put on the request against the one the
+ * route declares with `@RequireRole`. Runs after `ApiTokenGuard`; routes
+ * without a role are open to every caller.
+ */
+@Injectable()
+export class RoleGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<Role | undefined>(
+      REQUIRED_ROLE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (required) {
+      assertRole(
+        context.switchToHttp().getRequest<AuthenticatedRequest>(),
+        required,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,24 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { WorkspacesService } from '../../workspaces/workspaces.service';
+import type { AuthenticatedRequest } from './api-token.guard';
+
+/**
+ * Picks the workspace a request works in and stores it on the request for
+ * `@CurrentWorkspace()`. Routes under `/workspaces/:workspace/...` name it;
+ * the rest use the caller's own. Runs after `ApiTokenGuard`.
+ */
+@Injectable()
+export class WorkspaceGuard implements CanActivate {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const slug = request.params.workspace as string | undefined;
+    const workspace = await this.workspacesService.resolveWorkspace(
+      request,
+      slug,
+    );
+    request.workspaceId = workspace.id;
+    return true;
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { Observable } from 'rxjs';
+import type { AuthenticatedRequest } from '../guards/api-token.guard';
+import { ipRateLimitKey } from '../guards/rate-limit.guard';
+import { RateLimitService } from '../rate-limit/rate-limit.service';
+
+/**
+ * Limits authenticated callers per actor (user or token) rather than per IP
+ * address. It runs after the guards: `RateLimitGuard` has charged the
+ * request to its IP, and an authenticated request gets that token back and
+ * pays from its actor's bucket instead. Requests whose credentials were
+ * rejected never get here, so they stay charged to their IP.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    if (request.actor) {
+      this.rateLimitService.refund(request, ipRateLimitKey(request));
+      this.rateLimitService.take(
+        request,
+        http.getResponse<Response>(),
+        request.actor,
+      );
+    }
+    return next.handle();
+  }
+}
@@ -31,18 +31,49 @@ export const createProblemDetails = (
   ...('errors' in overrides ? { errors: overrides.errors } : {}),
 });
 
-export const validationErrorsToProblem = (
+const collectFieldErrors = (
   errors: ValidationError[],
-): ProblemDetails => {
-  const fieldErrors: Record<string, string[]> = {};
+  fieldErrors: Record<string, string[]>,
+  parentPath?: string,
+): void => {
   for (const error of errors) {
-    if (!error.constraints) {
-      continue;
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    if (error.constraints) {
+      fieldErrors[path] = Object.values(error.constraints);
+    }
+    if (error.children?.length) {
+      collectFieldErrors(error.children, fieldErrors, path);
     }
-    fieldErrors[error.property] = Object.values(error.constraints);
   }
+};
+
+export const validationErrorsToProblem = (
+  errors: ValidationError[],
+): ProblemDetails => {
+  const fieldErrors: Record<string, string[]> = {};
+  collectFieldErrors(errors, fieldErrors);
   return createProblemDetails(HttpStatus.BAD_REQUEST, 'Validation failed', {
     type: 'https://example.com/problems/validation-error',
     errors: fieldErrors,
   });
 };
+
+export const httpExceptionToProblem = (
+  exception: HttpException,
+): ProblemDetails => {
+  if (exception instanceof ProblemDetailsException) {
+    return exception.getResponse() as ProblemDetails;
+  }
+  const response = exception.getResponse();
+  const title =
+    typeof response === 'object' &&
+    'error' in response &&
+    typeof response.error === 'string'
+      ? response.error
+      : exception.message;
+  return createProblemDetails(exception.getStatus(), title, {
+    detail: exception.message,
+  });
+};
@@ -0,0 +1,78 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../problem-details';
+import { TokenBucketLimiter } from './token-bucket';
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Token buckets shared by `RateLimitGuard` and `RateLimitInterceptor`, one
+ * set for reads and one for writes. Keys are `ip:<address>` for callers not
+ * yet known and the actor (user or token) for authenticated ones.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly reads: TokenBucketLimiter;
+  private readonly writes: TokenBucketLimiter;
+
+  constructor(configService: ConfigService) {
+    this.reads = new TokenBucketLimiter({
+      capacity: configService.get<number>('RATE_LIMIT_READ_BURST', 100),
+      refillPerMinute: configService.get<number>(
+        'RATE_LIMIT_READ_PER_MINUTE',
+        300,
+      ),
+    });
+    this.writes = new TokenBucketLimiter({
+      capacity: configService.get<number>('RATE_LIMIT_WRITE_BURST', 30),
+      refillPerMinute: configService.get<number>(
+        'RATE_LIMIT_WRITE_PER_MINUTE',
+        60,
+      ),
+    });
+  }
+
+  /**
+   * Takes a token from `key`'s bucket and sets the `RateLimit-*` headers;
+   * an empty bucket throws a `429` with `Retry-After`.
+   */
+  take(request: Request, response: Response, key: string): void {
+    const decision = this.limiterFor(request).take(key);
+
+    // Event streams have already sent their headers by now.
+    const setHeader = (name: string, value: number) => {
+      if (!response.headersSent) {
+        response.setHeader(name, String(value));
+      }
+    };
+    setHeader('RateLimit-Limit', decision.limit);
+    setHeader('RateLimit-Remaining', decision.remaining);
+    setHeader('RateLimit-Reset', decision.resetSeconds);
+    if (!decision.allowed) {
+      setHeader('Retry-After', decision.retryAfterSeconds);
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.TOO_MANY_REQUESTS,
+          'Too Many Requests',
+          {
+            type: 'https://example.com/problems/rate-limited',
+            detail: `Rate limit exceeded; retry in ${decision.retryAfterSeconds} second(s).`,
+          },
+        ),
+      );
+    }
+  }
+
+  /** Gives back the token `take` took from `key`'s bucket. */
+  refund(request: Request, key: string): void {
+    this.limiterFor(request).refund(key);
+  }
+
+  private limiterFor(request: Request): TokenBucketLimiter {
+    return READ_METHODS.has(request.method) ? this.reads : this.writes;
+  }
+}
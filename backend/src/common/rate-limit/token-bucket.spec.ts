@@ -0,0 +1,62 @@
+import { TokenBucketLimiter } from './token-bucket';
+
+describe('TokenBucketLimiter', () => {
+  const start = Date.parse('2026-10-19T09:00:00.000Z');
+
+  it('allows a burst, then refills at the configured rate', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, refillPerMinute: 6 });
+
+    expect(limiter.take('a', start)).toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+      resetSeconds: 10,
+      retryAfterSeconds: 0,
+    });
+    expect(limiter.take('a', start).remaining).toBe(0);
+    expect(limiter.take('a', start)).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: 10,
+    });
+    expect(limiter.take('a', start + 4_000)).toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 6,
+    });
+    expect(limiter.take('a', start + 10_000).allowed).toBe(true);
+  });
+
+  it('keeps a separate bucket per key', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1, refillPerMinute: 1 });
+
+    expect(limiter.take('a', start).allowed).toBe(true);
+    expect(limiter.take('a', start).allowed).toBe(false);
+    expect(limiter.take('b', start).allowed).toBe(true);
+  });
+
+  it('gives a refunded token back without going over capacity', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1, refillPerMinute: 1 });
+
+    expect(limiter.take('a', start).allowed).toBe(true);
+    limiter.refund('a', start);
+    limiter.refund('a', start);
+    expect(limiter.take('a', start).allowed).toBe(true);
+    expect(limiter.take('a', start).allowed).toBe(false);
+  });
+
+  it('drops the least recently used bucket once too many keys are tracked', () => {
+    const limiter = new TokenBucketLimiter({
+      capacity: 1,
+      refillPerMinute: 1,
+      maxKeys: 2,
+    });
+
+    limiter.take('a', start);
+    limiter.take('b', start);
+    expect(limiter.take('a', start).allowed).toBe(false);
+    limiter.take('c', start);
+
+    expect(limiter.take('a', start).allowed).toBe(false);
+    expect(limiter.take('b', start).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+export interface TokenBucketOptions {
+  /** Most requests allowed in a burst. */
+  capacity: number;
+  /** Tokens added back per minute. */
+  refillPerMinute: number;
+  /** Most keys tracked at once; defaults to 10,000. */
+  maxKeys?: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next request is allowed; 0 when this one was. */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const DEFAULT_MAX_KEYS = 10_000;
+
+/**
+ * In-memory token buckets, one per key; each request takes one token.
+ * Past `maxKeys` the least recently used bucket is dropped, so memory stays
+ * bounded however many keys are seen; a dropped key starts over full.
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly refillPerMs: number;
+
+  constructor(private readonly options: TokenBucketOptions) {
+    this.refillPerMs = options.refillPerMinute / 60_000;
+  }
+
+  take(key: string, now = Date.now()): RateLimitDecision {
+    const { capacity } = this.options;
+    const bucket = this.refill(key, now);
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    // Maps iterate in insertion order, so re-inserting keeps the least
+    // recently used key first.
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > (this.options.maxKeys ?? DEFAULT_MAX_KEYS)) {
+      const [oldest] = this.buckets.keys();
+      this.buckets.delete(oldest);
+    }
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: this.secondsUntil(capacity - bucket.tokens),
+      retryAfterSeconds: allowed ? 0 : this.secondsUntil(1 - bucket.tokens),
+    };
+  }
+
+  /** Puts back a token taken from `key`, up to the bucket's capacity. */
+  refund(key: string, now = Date.now()): void {
+    if (!this.buckets.has(key)) {
+      return;
+    }
+    const bucket = this.refill(key, now);
+    bucket.tokens = Math.min(this.options.capacity, bucket.tokens + 1);
+    this.buckets.set(key, bucket);
+  }
+
+  private refill(key: string, now: number): Bucket {
+    const { capacity } = this.options;
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return { tokens: capacity, updatedAt: now };
+    }
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return {
+      tokens: Math.min(capacity, bucket.tokens + elapsed * this.refillPerMs),
+      updatedAt: now,
+    };
+  }
+
+  private secondsUntil(missingTokens: number): number {
+    return missingTokens <= 0
+      ? 0
+      : Math.ceil(missingTokens / this.refillPerMs / 1000);
+  }
+}
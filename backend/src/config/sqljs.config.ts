@@ -3,8 +3,21 @@ import { access, mkdir, readFile, writeFile } from 'node:fs/promises';
 import { constants as fsConstants } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import type { SqljsConnectionOptions } from 'typeorm/driver/sqljs/SqljsConnectionOptions';
+import { ApiTokenEntity } from '../api-tokens/entities/api-token.entity';
+import { RefreshTokenEntity } from '../auth/entities/refresh-token.entity';
+import { TagEntity } from '../tasks/entities/tag.entity';
 import { TaskEntity } from '../tasks/entities/task.entity';
+import { TaskActivityEntity } from '../tasks/entities/task-activity.entity';
+import { TaskAssigneeEntity } from '../tasks/entities/task-assignee.entity';
+import { TaskCommentEntity } from '../tasks/entities/task-comment.entity';
+import { TaskDependencyEntity } from '../tasks/entities/task-dependency.entity';
+import { TaskReminderEntity } from '../tasks/entities/task-reminder.entity';
 import { TaskTagEntity } from '../tasks/entities/task-tag.entity';
+import { UserEntity } from '../users/entities/user.entity';
+import { WebhookDeliveryEntity } from '../webhooks/entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from '../webhooks/entities/webhook-subscription.entity';
+import { WorkspaceMemberEntity } from '../workspaces/entities/workspace-member.entity';
+import { WorkspaceEntity } from '../workspaces/entities/workspace.entity';
 
 const fileExists = async (path: string): Promise<boolean> => {
   try {
@@ -44,7 +57,23 @@ export const createSqlJsDataSourceOptions = async (
 
   return {
     type: 'sqljs',
-    entities: [TaskEntity, TaskTagEntity],
+    entities: [
+      TaskEntity,
+      TaskTagEntity,
+      TaskAssigneeEntity,
+      TaskDependencyEntity,
+      TaskCommentEntity,
+      TaskActivityEntity,
+      TaskReminderEntity,
+      TagEntity,
+      WebhookSubscriptionEntity,
+      WebhookDeliveryEntity,
+      UserEntity,
+      RefreshTokenEntity,
+      ApiTokenEntity,
+      WorkspaceEntity,
+      WorkspaceMemberEntity,
+    ],
     synchronize,
     location: resolvedPath,
     autoSave: Boolean(resolvedPath),
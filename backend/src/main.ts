@@ -16,8 +16,21 @@ type AppConfigNamespace = {
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  const configService =
+    app.get<ConfigService<AppConfigNamespace, true>>(ConfigService);
+  const { port, corsOrigins } = configService.getOrThrow<AppConfig>('app');
   app.enableCors({
-    origin: ['http://localhost:5173'],
+    origin: [...corsOrigins],
+    // Session cookies ride along with cross-origin requests from the UI.
+    credentials: true,
+    exposedHeaders: [
+      'ETag',
+      'Retry-After',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'Warning',
+    ],
   });
   app.useGlobalPipes(
     new ValidationPipe({
@@ -31,9 +44,6 @@ async function bootstrap() {
   app.useGlobalFilters(new ErrorFilter());
   app.useGlobalInterceptors(new RequestLoggingInterceptor());
 
-  const configService =
-    app.get<ConfigService<AppConfigNamespace, true>>(ConfigService);
-  const { port } = configService.getOrThrow<AppConfig>('app');
   await app.listen(port);
   Logger.log(
     `Application is running on: http://localhost:${port}`,
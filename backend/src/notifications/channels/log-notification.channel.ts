@@ -0,0 +1,17 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type {
+  Notification,
+  NotificationChannel,
+} from '../notification-channel';
+
+/** Writes notifications to the application log. */
+@Injectable()
+export class LogNotificationChannel implements NotificationChannel {
+  readonly name = 'log';
+  private readonly logger = new Logger(LogNotificationChannel.name);
+
+  send(notification: Notification): Promise<void> {
+    this.logger.log(`[${notification.event}] ${notification.subject}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,83 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MaildirNotificationChannel } from './maildir-notification.channel';
+
+describe('MaildirNotificationChannel', () => {
+  let maildir: string;
+
+  beforeEach(async () => {
+    maildir = join(await mkdtemp(join(tmpdir(), 'tasks-maildir-')), 'inbox');
+  });
+
+  afterEach(async () => {
+    await rm(join(maildir, '..'), { recursive: true, force: true });
+  });
+
+  it('delivers each notification as a message in new/', async () => {
+    const channel = new MaildirNotificationChannel(
+      new ConfigService({
+        NOTIFICATION_MAILDIR: maildir,
+        NOTIFICATION_EMAIL_TO: 'ops@example.com',
+      }),
+    );
+
+    await channel.send({
+      event: 'task.reminder',
+      subject: 'Task "Renew certificate" is overdue',
+      text: 'It was due yesterday.',
+      data: {},
+    });
+
+    const delivered = await readdir(join(maildir, 'new'));
+    expect(delivered).toHaveLength(1);
+    await expect(readdir(join(maildir, 'tmp'))).resolves.toEqual([]);
+    const message = await readFile(join(maildir, 'new', delivered[0]), 'utf8');
+    expect(message).toContain('To: ops@example.com\r\n');
+    expect(message).toContain(
+      'Subject: Task "Renew certificate" is overdue\r\n',
+    );
+    expect(message).toContain('MIME-Version: 1.0\r\n');
+    expect(message).toMatch(/\r\n\r\nIt was due yesterday\.\r\n$/);
+  });
+
+  it('keeps subjects from injecting headers and encodes non-ASCII', async () => {
+    const channel = new MaildirNotificationChannel(
+      new ConfigService({ NOTIFICATION_MAILDIR: maildir }),
+    );
+    const send = async (subject: string) => {
+      await channel.send({
+        event: 'task.assigned',
+        subject,
+        text: '',
+        data: {},
+      });
+      const [file] = await readdir(join(maildir, 'new'));
+      const message = await readFile(join(maildir, 'new', file), 'utf8');
+      await rm(join(maildir, 'new', file));
+      return message.slice(0, message.indexOf('\r\n\r\n') + 2);
+    };
+
+    const injected = await send('Hi\r\nBcc: victim@example.com\nX-Spam: 1');
+    expect(injected).toContain(
+      'Subject: Hi Bcc: victim@example.com X-Spam: 1\r\n',
+    );
+    expect(injected).not.toMatch(/^Bcc:/m);
+
+    const subject = `Überprüfung: ${'Ärger '.repeat(12)}– erledigt`;
+    const encoded = await send(subject);
+    const header = /^Subject: (.*(?:\r\n .*)*)\r\n/m.exec(encoded)?.[1] ?? '';
+    const words = header.split('\r\n ');
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    expect(
+      words
+        .map((word) => Buffer.from(word.slice(10, -2), 'base64').toString())
+        .join(''),
+    ).toBe(subject);
+  });
+});
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join, resolve } from 'node:path';
+import type {
+  Notification,
+  NotificationChannel,
+} from '../notification-channel';
+
+/** Bytes per encoded word, so each stays within RFC 2047's 75 characters. */
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Makes `value` safe for a header: line breaks, which would start new
+ * headers, become spaces, and anything outside printable ASCII is sent as
+ * RFC 2047 encoded words on folded lines.
+ */
+const encodeHeader = (value: string): string => {
+  const line = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(line)) {
+    return line;
+  }
+  const words: string[] = [];
+  let word = '';
+  for (const char of line) {
+    if (Buffer.byteLength(word + char) > ENCODED_WORD_BYTES) {
+      words.push(word);
+      word = '';
+    }
+    word += char;
+  }
+  words.push(word);
+  return words
+    .map((chunk) => `=?UTF-8?B?${Buffer.from(chunk).toString('base64')}?=`)
+    .join('\r\n ');
+};
+
+/**
+ * Delivers notifications as plain-text emails into a local Maildir, so mail
+ * can be inspected with any mail client without an SMTP server. Messages
+ * are written to `tmp/` and renamed into `new/`, as the format requires.
+ */
+@Injectable()
+export class MaildirNotificationChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(notification: Notification): Promise<void> {
+    const maildir = resolve(
+      this.configService.get<string>('NOTIFICATION_MAILDIR', 'data/maildir'),
+    );
+    await Promise.all(
+      ['tmp', 'new', 'cur'].map((folder) =>
+        mkdir(join(maildir, folder), { recursive: true }),
+      ),
+    );
+
+    const id = randomUUID();
+    const fileName = `${Date.now()}.${id}.${hostname()}`;
+    const message = [
+      `From: ${this.configService.get<string>('NOTIFICATION_EMAIL_FROM', 'tasks@localhost')}`,
+      `To: ${this.configService.get<string>('NOTIFICATION_EMAIL_TO', 'team@localhost')}`,
+      `Subject: ${encodeHeader(notification.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${id}@${hostname()}>`,
+      `X-Notification-Event: ${notification.event}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+      '',
+      notification.text,
+      '',
+    ].join('\r\n');
+
+    const draft = join(maildir, 'tmp', fileName);
+    await writeFile(draft, message, 'utf8');
+    await rename(draft, join(maildir, 'new', fileName));
+  }
+}
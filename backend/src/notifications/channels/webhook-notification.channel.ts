@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type {
+  Notification,
+  NotificationChannel,
+} from '../notification-channel';
+
+const TIMEOUT_MS = 10_000;
+
+/** POSTs each notification as JSON to `NOTIFICATION_WEBHOOK_URL`. */
+@Injectable()
+export class WebhookNotificationChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(notification: Notification): Promise<void> {
+    const url = this.configService.getOrThrow<string>(
+      'NOTIFICATION_WEBHOOK_URL',
+    );
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+export const NOTIFICATION_CHANNELS = Symbol('NOTIFICATION_CHANNELS');
+
+export interface Notification {
+  /** Machine-readable kind, such as `task.reminder`. */
+  event: string;
+  subject: string;
+  /** Plain-text body for human readers. */
+  text: string;
+  /** Structured payload for machine consumers. */
+  data: Record<string, unknown>;
+}
+
+/** Delivers notifications to one destination; rejects when delivery fails. */
+export interface NotificationChannel {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LogNotificationChannel } from './channels/log-notification.channel';
+import { MaildirNotificationChannel } from './channels/maildir-notification.channel';
+import { WebhookNotificationChannel } from './channels/webhook-notification.channel';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './notification-channel';
+import { NotificationsService } from './notifications.service';
+
+/** Channel names accepted by `NOTIFICATION_CHANNELS`. */
+export const NOTIFICATION_CHANNEL_NAMES = ['log', 'webhook', 'email'] as const;
+
+@Module({
+  providers: [
+    LogNotificationChannel,
+    WebhookNotificationChannel,
+    MaildirNotificationChannel,
+    {
+      provide: NOTIFICATION_CHANNELS,
+      inject: [
+        ConfigService,
+        LogNotificationChannel,
+        WebhookNotificationChannel,
+        MaildirNotificationChannel,
+      ],
+      useFactory: (
+        configService: ConfigService,
+        ...available: NotificationChannel[]
+      ): NotificationChannel[] => {
+        const enabled = configService
+          .get<string>('NOTIFICATION_CHANNELS', 'log')
+          .split(',')
+          .map((name) => name.trim());
+        return available.filter((channel) => enabled.includes(channel.name));
+      },
+    },
+    NotificationsService,
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
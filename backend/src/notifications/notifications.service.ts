@@ -0,0 +1,34 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  NOTIFICATION_CHANNELS,
+  Notification,
+  NotificationChannel,
+} from './notification-channel';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+  ) {}
+
+  /**
+   * Sends through every configured channel. A failing channel is logged and
+   * does not stop the others; resolves to how many channels delivered.
+   */
+  async notify(notification: Notification): Promise<number> {
+    const results = await Promise.allSettled(
+      this.channels.map((channel) => channel.send(notification)),
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `${this.channels[index].name} channel failed to send "${notification.subject}": ${String(result.reason)}`,
+        );
+      }
+    });
+    return results.filter((result) => result.status === 'fulfilled').length;
+  }
+}
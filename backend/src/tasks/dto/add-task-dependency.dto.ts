@@ -0,0 +1,7 @@
+import { IsUUID } from 'class-validator';
+
+export class AddTaskDependencyDto {
+  /** The task that has to be done before this one can start. */
+  @IsUUID('4')
+  blockerId!: string;
+}
@@ -0,0 +1,41 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type { ProblemDetails } from '../../common/problem-details';
+import type { BulkTaskOperationType } from './bulk-tasks.dto';
+import { TaskResponseDto } from './task-response.dto';
+
+@Exclude()
+export class BulkTaskResultDto {
+  @Expose()
+  index!: number;
+
+  @Expose()
+  op!: BulkTaskOperationType;
+
+  @Expose()
+  id!: string | null;
+
+  @Expose()
+  status!: number;
+
+  @Expose()
+  @Type(() => TaskResponseDto)
+  data?: TaskResponseDto;
+
+  @Expose()
+  problem?: ProblemDetails;
+}
+
+@Exclude()
+export class BulkTasksResponseDto {
+  @Expose()
+  @Type(() => BulkTaskResultDto)
+  results!: BulkTaskResultDto[];
+}
+
+/**
+ * Problem returned when any operation fails; `results` lists every
+ * operation, with the ones that were rolled back reported as `424`.
+ */
+export interface BulkTasksProblemDetails extends ProblemDetails {
+  results: BulkTaskResultDto[];
+}
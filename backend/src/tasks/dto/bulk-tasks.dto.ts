@@ -0,0 +1,58 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { CreateTaskDto } from './create-task.dto';
+
+export type BulkTaskOperationType = 'create' | 'update' | 'delete';
+
+export const bulkTaskOperationTypes: readonly BulkTaskOperationType[] = [
+  'create',
+  'update',
+  'delete',
+];
+
+export class BulkTaskDataDto extends PartialType(CreateTaskDto) {}
+
+export class BulkTaskOperationDto {
+  @IsIn(bulkTaskOperationTypes)
+  op!: BulkTaskOperationType;
+
+  @IsOptional()
+  @IsUUID('4')
+  id?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  version?: number;
+
+  /** Lets an update move a blocked task to `doing` or `done`. */
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkTaskDataDto)
+  data?: BulkTaskDataDto;
+}
+
+export class BulkTasksDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => BulkTaskOperationDto)
+  operations!: BulkTaskOperationDto[];
+}
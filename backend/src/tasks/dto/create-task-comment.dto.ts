@@ -0,0 +1,10 @@
+import { IsString, Matches, MaxLength } from 'class-validator';
+
+/** The author is whoever posts the comment. */
+export class CreateTaskCommentDto {
+  /** Markdown, up to 5,000 characters. */
+  @IsString()
+  @MaxLength(5000)
+  @Matches(/\S/, { message: 'body must contain a non-whitespace character' })
+  body!: string;
+}
@@ -2,17 +2,25 @@ import { Transform } from 'class-transformer';
 import {
   ArrayMaxSize,
   IsArray,
-  IsEnum,
   IsInt,
   IsISO8601,
   IsOptional,
   IsString,
+  IsUUID,
   Length,
   Matches,
   Max,
+  MaxLength,
   Min,
 } from 'class-validator';
-import { TaskStatus } from '../task-status.enum';
+import { TASK_STATUS_PATTERN } from '../utils/task-workflow.util';
+
+/** A principal as actors are named: `user:<id>` or `api-token:<id>`. */
+export const TASK_ASSIGNEE_PATTERN = /^(?:user|api-token):[0-9a-f-]{12,36}$/;
+
+/** Also takes `me`, which stands for the caller. */
+export const TASK_ASSIGNEE_FILTER_PATTERN =
+  /^(?:me|(?:user|api-token):[0-9a-f-]{12,36})$/;
 
 export class CreateTaskDto {
   @IsString()
@@ -20,9 +28,17 @@ export class CreateTaskDto {
   @Matches(/\S/, { message: 'title must contain a non-whitespace character' })
   title!: string;
 
-  @IsEnum(TaskStatus)
+  /** Markdown; blank input clears the description. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(10000)
+  description?: string | null;
+
+  /** A status key of the workflow; the service checks it is one. */
+  @IsString()
+  @Matches(TASK_STATUS_PATTERN)
   @IsOptional()
-  status?: TaskStatus;
+  status?: string;
 
   @IsInt()
   @Min(1)
@@ -34,6 +50,20 @@ export class CreateTaskDto {
   @IsISO8601()
   dueDate?: string | null;
 
+  /**
+   * RFC 5545 RRULE (daily, weekly with `BYDAY`, monthly with `BYMONTHDAY`,
+   * `INTERVAL`, `COUNT`/`UNTIL`); blank input stops the task recurring.
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  recurrence?: string | null;
+
+  /** Nests the task under another; `null` makes it top-level. */
+  @IsOptional()
+  @IsUUID('4')
+  parentId?: string | null;
+
   @IsArray()
   @IsString({ each: true })
   @ArrayMaxSize(20)
@@ -51,4 +81,15 @@ export class CreateTaskDto {
   })
   @IsOptional()
   tags?: string[];
+
+  /** Replaces every assignee; an empty list unassigns the task. */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @Matches(TASK_ASSIGNEE_PATTERN, {
+    each: true,
+    message: 'each assignee must be user:<id> or api-token:<id>',
+  })
+  assignees?: string[];
 }
@@ -0,0 +1,7 @@
+import { PickType } from '@nestjs/mapped-types';
+import { ListTasksQueryDto } from './list-tasks-query.dto';
+
+export class ListActivityQueryDto extends PickType(ListTasksQueryDto, [
+  'page',
+  'pageSize',
+] as const) {}
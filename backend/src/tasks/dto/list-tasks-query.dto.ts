@@ -1,36 +1,58 @@
 import { Transform } from 'class-transformer';
 import {
-  IsEnum,
+  IsBoolean,
   IsIn,
   IsInt,
   IsOptional,
   IsString,
   Length,
+  Matches,
   Max,
   Min,
 } from 'class-validator';
-import { TaskStatus } from '../task-status.enum';
+import { TASK_STATUS_PATTERN } from '../utils/task-workflow.util';
+import { TASK_ASSIGNEE_FILTER_PATTERN } from './create-task.dto';
 
-export type TaskSortBy = 'priority' | 'dueDate';
+/** `relevance` ranks full-text matches and only applies with `search`. */
+export type TaskSortBy = 'priority' | 'dueDate' | 'relevance';
 export type TaskSortOrder = 'asc' | 'desc';
 
 export class ListTasksQueryDto {
   @IsOptional()
-  @IsEnum(TaskStatus)
-  status?: TaskStatus;
+  @IsString()
+  @Matches(TASK_STATUS_PATTERN)
+  status?: string;
 
   @IsOptional()
   @IsString()
   @Length(1, 30)
   tag?: string;
 
+  /** `user:<id>`, `api-token:<id>` or `me` for the caller. */
+  @IsOptional()
+  @IsString()
+  @Matches(TASK_ASSIGNEE_FILTER_PATTERN)
+  assignee?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  unassigned?: boolean;
+
   @IsOptional()
   @IsString()
   @Length(1, 120)
   search?: string;
 
   @IsOptional()
-  @IsIn(['priority', 'dueDate'])
+  @IsString()
+  @Length(1, 512)
+  cursor?: string;
+
+  @IsOptional()
+  @IsIn(['priority', 'dueDate', 'relevance'])
   sortBy?: TaskSortBy;
 
   @IsOptional()
@@ -0,0 +1,23 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class MergeTagsDto {
+  /** Tags folded into `target` and then gone. */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  sources!: string[];
+
+  /** Takes the workspace's spelling when the tag already exists. */
+  @IsString()
+  @MaxLength(30)
+  @Matches(/\S/, { message: 'target must contain a non-whitespace character' })
+  target!: string;
+}
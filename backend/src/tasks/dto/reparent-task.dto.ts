@@ -0,0 +1,8 @@
+import { IsUUID, ValidateIf } from 'class-validator';
+
+export class ReparentTaskDto {
+  /** The new parent task, or `null` to make the task top-level. */
+  @ValidateIf((dto: ReparentTaskDto) => dto.parentId !== null)
+  @IsUUID('4')
+  parentId!: string | null;
+}
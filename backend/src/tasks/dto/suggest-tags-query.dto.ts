@@ -0,0 +1,29 @@
+import { Transform } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SuggestTagsQueryDto {
+  /** Matched against the start of each tag, in any case; empty matches all. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  prefix?: string;
+
+  @Transform(({ value }) => {
+    if (value === undefined || value === null || value === '') {
+      return 10;
+    }
+    const parsed = Number.parseInt(String(value), 10);
+    return Number.isNaN(parsed) ? 10 : parsed;
+  })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  limit: number = 10;
+}
@@ -0,0 +1,25 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+
+@Exclude()
+export class TagResponseDto {
+  @Expose()
+  name!: string;
+
+  /** Untrashed tasks carrying the tag. */
+  @Expose()
+  usageCount!: number;
+
+  @Expose()
+  color!: string | null;
+
+  @Expose()
+  description!: string | null;
+}
+
+@Exclude()
+export class TagListResponseDto {
+  /** Most used first, then by name; suggestions go by likelihood instead. */
+  @Expose()
+  @Type(() => TagResponseDto)
+  data!: TagResponseDto[];
+}
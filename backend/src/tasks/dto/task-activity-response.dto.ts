@@ -0,0 +1,42 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type {
+  TaskActivityAction,
+  TaskFieldChanges,
+} from '../entities/task-activity.entity';
+
+@Exclude()
+export class TaskActivityResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  taskId!: string;
+
+  @Expose()
+  action!: TaskActivityAction;
+
+  /** Identity of the credential that made the change. */
+  @Expose()
+  actor!: string;
+
+  /** Before and after values of every field the write changed. */
+  @Expose()
+  changes!: TaskFieldChanges;
+
+  @Expose()
+  createdAt!: string;
+}
+
+@Exclude()
+export class TaskActivityCollectionResponseDto {
+  @Expose()
+  @Type(() => TaskActivityResponseDto)
+  data!: TaskActivityResponseDto[];
+
+  @Expose()
+  meta!: {
+    total: number;
+    page: number;
+    pageSize: number;
+  };
+}
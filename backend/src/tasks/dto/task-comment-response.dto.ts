@@ -0,0 +1,29 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+
+@Exclude()
+export class TaskCommentResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  taskId!: string;
+
+  @Expose()
+  author!: string;
+
+  @Expose()
+  body!: string;
+
+  @Expose()
+  createdAt!: string;
+
+  @Expose()
+  updatedAt!: string;
+}
+
+@Exclude()
+export class TaskCommentListResponseDto {
+  @Expose()
+  @Type(() => TaskCommentResponseDto)
+  data!: TaskCommentResponseDto[];
+}
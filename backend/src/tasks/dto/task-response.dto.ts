@@ -1,16 +1,26 @@
 import { Exclude, Expose, Transform, Type } from 'class-transformer';
-import { TaskStatus } from '../task-status.enum';
+import type { TaskStatusCategory } from '../utils/task-workflow.util';
 
 @Exclude()
 export class TaskResponseDto {
   @Expose()
   id!: string;
 
+  @Expose()
+  workspaceId!: string;
+
   @Expose()
   title!: string;
 
   @Expose()
-  status!: TaskStatus;
+  description!: string | null;
+
+  @Expose()
+  status!: string;
+
+  /** `todo`, `in-progress` or `done`, whatever the status is called. */
+  @Expose()
+  statusCategory!: TaskStatusCategory;
 
   @Expose()
   priority!: number;
@@ -33,6 +43,27 @@ export class TaskResponseDto {
   @Expose()
   tags!: string[];
 
+  /** Principals such as `user:<id>` or `api-token:<id>`. */
+  @Expose()
+  assignees!: string[];
+
+  @Expose()
+  parentId!: string | null;
+
+  @Expose()
+  recurrence!: string | null;
+
+  /** Done and total counts across all descendants, however deep. */
+  @Expose()
+  progress!: { done: number; total: number };
+
+  /** Whether a task this one depends on is still open. */
+  @Expose()
+  isBlocked!: boolean;
+
+  @Expose()
+  commentCount!: number;
+
   @Expose()
   version!: number;
 
@@ -41,10 +72,32 @@ export class TaskResponseDto {
 
   @Expose()
   updatedAt!: string;
+
+  /** When the task was moved to the trash; `null` for live tasks. */
+  @Expose()
+  deletedAt!: string | null;
+
+  /** Search hits wrapped in `<mark>`; only present on searched lists. */
+  @Expose()
+  snippet?: string;
 }
 
 @Exclude()
-export class TaskCollectionResponseDto {
+export class TaskChildrenResponseDto {
+  @Expose()
+  @Type(() => TaskResponseDto)
+  data!: TaskResponseDto[];
+}
+
+@Exclude()
+export class TaskDependenciesResponseDto {
+  @Expose()
+  @Type(() => TaskResponseDto)
+  data!: TaskResponseDto[];
+}
+
+@Exclude()
+export class TaskTrashResponseDto {
   @Expose()
   @Type(() => TaskResponseDto)
   data!: TaskResponseDto[];
@@ -54,6 +107,23 @@ export class TaskCollectionResponseDto {
     total: number;
     page: number;
     pageSize: number;
-    statusCounts: Record<TaskStatus, number>;
+  };
+}
+
+@Exclude()
+export class TaskCollectionResponseDto {
+  @Expose()
+  @Type(() => TaskResponseDto)
+  data!: TaskResponseDto[];
+
+  @Expose()
+  meta!: {
+    /** Page-number mode only; cursor mode skips the count query. */
+    total?: number;
+    page?: number;
+    pageSize: number;
+    nextCursor: string | null;
+    /** Every status of the workflow, in board order. */
+    statusCounts: Record<string, number>;
   };
 }
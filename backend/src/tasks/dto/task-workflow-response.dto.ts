@@ -0,0 +1,39 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type {
+  TaskStatusCategory,
+  WipLimitPolicy,
+} from '../utils/task-workflow.util';
+
+@Exclude()
+export class WorkflowStatusResponseDto {
+  @Expose()
+  key!: string;
+
+  @Expose()
+  label!: string;
+
+  @Expose()
+  category!: TaskStatusCategory;
+
+  @Expose()
+  transitions!: string[];
+
+  @Expose()
+  wipLimit!: number | null;
+}
+
+@Exclude()
+export class TaskWorkflowResponseDto {
+  /** In board order; new tasks start in the first one. */
+  @Expose()
+  @Type(() => WorkflowStatusResponseDto)
+  statuses!: WorkflowStatusResponseDto[];
+
+  /** Whether limits count per workspace or per assignee. */
+  @Expose()
+  wipLimitScope!: WipLimitPolicy['scope'];
+
+  /** Whether going over a limit is refused or only flagged. */
+  @Expose()
+  wipLimitEnforcement!: WipLimitPolicy['enforcement'];
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { TAG_COLOR_PATTERN } from '../utils/task-tag.util';
+
+export class UpdateTagDto {
+  /** Renames the tag on every task; case-only changes are allowed. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  @Matches(/\S/, { message: 'name must contain a non-whitespace character' })
+  name?: string;
+
+  /** `#rrggbb`; `null` clears it. */
+  @IsOptional()
+  @Matches(TAG_COLOR_PATTERN, { message: 'color must be a #rrggbb hex color' })
+  color?: string | null;
+
+  /** Blank or `null` clears it. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string | null;
+}
@@ -0,0 +1,7 @@
+import { PickType } from '@nestjs/mapped-types';
+import { CreateTaskCommentDto } from './create-task-comment.dto';
+
+/** Only the body can be edited; the author stays as posted. */
+export class UpdateTaskCommentDto extends PickType(CreateTaskCommentDto, [
+  'body',
+] as const) {}
@@ -1,9 +1,19 @@
 import { PartialType } from '@nestjs/mapped-types';
-import { IsInt, Min } from 'class-validator';
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
 import { CreateTaskDto } from './create-task.dto';
 
 export class UpdateTaskDto extends PartialType(CreateTaskDto) {
+  /**
+   * Legacy concurrency token; the `If-Match` header takes precedence when
+   * both are sent.
+   */
   @IsInt()
   @Min(0)
-  version!: number;
+  @IsOptional()
+  version?: number;
+
+  /** Starts or finishes the task even while it is blocked. */
+  @IsBoolean()
+  @IsOptional()
+  force?: boolean;
 }
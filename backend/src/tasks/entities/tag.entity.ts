@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Details a workspace gives one of its tags. Which tasks carry the tag is
+ * kept on the tasks themselves, in `task_tags`.
+ */
+@Entity({ name: 'tags' })
+@Unique(['workspaceId', 'key'])
+export class TagEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  workspaceId!: string;
+
+  /** `tagKey` of the name; tasks' tags are matched against it. */
+  @Column({ length: 30 })
+  key!: string;
+
+  /** Spelling when last saved; used while no task carries the tag. */
+  @Column({ length: 30 })
+  name!: string;
+
+  /** `#rrggbb`. */
+  @Column({ type: 'varchar', length: 7, nullable: true })
+  color!: string | null;
+
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  description!: string | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
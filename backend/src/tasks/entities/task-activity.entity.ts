@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { DEFAULT_WORKSPACE_ID } from '../../workspaces/entities/workspace.entity';
+
+export type TaskActivityAction =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'restored'
+  | 'purged';
+
+/** Field name mapped to its value before and after the change. */
+export type TaskFieldChanges = Record<
+  string,
+  { before: unknown; after: unknown }
+>;
+
+/**
+ * One audited write to a task. There is deliberately no foreign key so the
+ * history outlives the task it describes.
+ */
+@Entity({ name: 'task_activity' })
+export class TaskActivityEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Index()
+  @Column({ type: 'varchar' })
+  taskId!: string;
+
+  /** Copied from the task so the feed can be scoped without joining it. */
+  @Column({ type: 'varchar', default: DEFAULT_WORKSPACE_ID })
+  workspaceId!: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  action!: TaskActivityAction;
+
+  @Column({ type: 'varchar', length: 120 })
+  actor!: string;
+
+  @Column({ type: 'simple-json' })
+  changes!: TaskFieldChanges;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
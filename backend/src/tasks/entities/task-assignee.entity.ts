@@ -0,0 +1,24 @@
+import {
+  Column,
+  Entity,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { TaskEntity } from './task.entity';
+
+@Entity({ name: 'task_assignees' })
+@Unique(['task', 'principal'])
+export class TaskAssigneeEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /** Same form as an actor: `user:<id>` or `api-token:<id>`. */
+  @Column({ length: 80 })
+  principal!: string;
+
+  @ManyToOne(() => TaskEntity, (task) => task.assigneeEntities, {
+    onDelete: 'CASCADE',
+  })
+  task!: TaskEntity;
+}
@@ -0,0 +1,36 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { TaskEntity } from './task.entity';
+
+@Entity({ name: 'task_comments' })
+export class TaskCommentEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  taskId!: string;
+
+  @ManyToOne(() => TaskEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'taskId' })
+  task?: TaskEntity;
+
+  @Column({ length: 80 })
+  author!: string;
+
+  /** Markdown, rendered by clients like task descriptions. */
+  @Column({ type: 'text' })
+  body!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,35 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { TaskEntity } from './task.entity';
+
+/** Records that `taskId` cannot start until `blockerId` is done. */
+@Entity({ name: 'task_dependencies' })
+@Unique(['taskId', 'blockerId'])
+export class TaskDependencyEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  taskId!: string;
+
+  @ManyToOne(() => TaskEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'taskId' })
+  task?: TaskEntity;
+
+  @Column({ type: 'varchar' })
+  blockerId!: string;
+
+  @ManyToOne(() => TaskEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'blockerId' })
+  blocker?: TaskEntity;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
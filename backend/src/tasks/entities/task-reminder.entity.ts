@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { TaskEntity } from './task.entity';
+
+/**
+ * A reminder already sent for one window of a task's due date. Keyed on the
+ * due date too, so moving the deadline arms every window again.
+ */
+@Entity({ name: 'task_reminders' })
+@Unique(['taskId', 'window', 'dueDate'])
+export class TaskReminderEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  taskId!: string;
+
+  @ManyToOne(() => TaskEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'taskId' })
+  task?: TaskEntity;
+
+  @Column({ type: 'varchar', length: 16 })
+  window!: string;
+
+  @Column({ type: 'datetime' })
+  dueDate!: Date;
+
+  @CreateDateColumn()
+  sentAt!: Date;
+}
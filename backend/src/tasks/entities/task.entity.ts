@@ -1,25 +1,60 @@
 import {
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
   OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
   VersionColumn,
+  VirtualColumn,
 } from 'typeorm';
-import { TaskStatus } from '../task-status.enum';
+import { DEFAULT_WORKSPACE_ID } from '../../workspaces/entities/workspace.entity';
+import type { TaskStatusCategory } from '../utils/task-workflow.util';
+import { TaskAssigneeEntity } from './task-assignee.entity';
 import { TaskTagEntity } from './task-tag.entity';
 
+/**
+ * Aggregates over every live descendant of the row aliased `alias`. `UNION`
+ * (not `UNION ALL`) stops the walk even if a cycle slipped into the data.
+ */
+const descendantsQuery = (aggregate: string) => (alias: string) =>
+  `WITH RECURSIVE descendants(id, statusCategory) AS (
+    SELECT id, statusCategory FROM tasks
+      WHERE parentId = ${alias}.id AND deletedAt IS NULL
+    UNION
+    SELECT child.id, child.statusCategory FROM tasks child
+      INNER JOIN descendants ON child.parentId = descendants.id
+      WHERE child.deletedAt IS NULL
+  ) SELECT ${aggregate} FROM descendants`;
+
 @Entity({ name: 'tasks' })
 export class TaskEntity {
   @PrimaryGeneratedColumn('uuid')
   id!: string;
 
+  /** Tasks from before workspaces existed fall into the default one. */
+  @Index()
+  @Column({ type: 'varchar', default: DEFAULT_WORKSPACE_ID })
+  workspaceId!: string;
+
   @Column({ length: 120 })
   title!: string;
 
+  /** Optional Markdown body; stored as written and rendered by clients. */
+  @Column({ type: 'text', nullable: true })
+  description!: string | null;
+
+  /** A status key of the configured workflow. */
   @Column({ type: 'text' })
-  status!: TaskStatus;
+  status!: string;
+
+  /** Category of `status`, kept here so queries need not know the workflow. */
+  @Column({ type: 'varchar', length: 16, default: 'todo' })
+  statusCategory!: TaskStatusCategory;
 
   @Column({ type: 'integer' })
   priority!: number;
@@ -27,6 +62,54 @@ export class TaskEntity {
   @Column({ type: 'datetime', nullable: true })
   dueDate!: Date | null;
 
+  @Column({ type: 'varchar', nullable: true })
+  parentId!: string | null;
+
+  /**
+   * The parent this task was taken off when that parent went to the trash;
+   * restoring the parent takes the task back. Cleared by any reparenting.
+   */
+  @Column({ type: 'varchar', nullable: true })
+  detachedFromId!: string | null;
+
+  /** Normalised RRULE; completing the task spawns its next occurrence. */
+  @Column({ type: 'varchar', length: 200, nullable: true })
+  recurrence!: string | null;
+
+  /** Deleting a parent promotes its children to top-level tasks. */
+  @ManyToOne(() => TaskEntity, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'parentId' })
+  parent?: TaskEntity | null;
+
+  @VirtualColumn({ type: 'integer', query: descendantsQuery('COUNT(*)') })
+  subtaskCount?: number;
+
+  @VirtualColumn({
+    type: 'integer',
+    query: descendantsQuery(
+      "COUNT(CASE WHEN statusCategory = 'done' THEN 1 END)",
+    ),
+  })
+  subtaskDoneCount?: number;
+
+  /** True while any task this one depends on is not yet done. */
+  @VirtualColumn({
+    type: 'boolean',
+    query: (alias) =>
+      `SELECT EXISTS (SELECT 1 FROM task_dependencies dependency
+        INNER JOIN tasks blocker ON blocker.id = dependency.blockerId
+        WHERE dependency.taskId = ${alias}.id AND blocker.statusCategory != 'done'
+          AND blocker.deletedAt IS NULL)`,
+  })
+  isBlocked?: boolean;
+
+  @VirtualColumn({
+    type: 'integer',
+    query: (alias) =>
+      `SELECT COUNT(*) FROM task_comments WHERE taskId = ${alias}.id`,
+  })
+  commentCount?: number;
+
   @OneToMany(() => TaskTagEntity, (tag) => tag.task, {
     cascade: true,
     eager: true,
@@ -34,6 +117,13 @@ export class TaskEntity {
   })
   tagEntities!: TaskTagEntity[];
 
+  @OneToMany(() => TaskAssigneeEntity, (assignee) => assignee.task, {
+    cascade: true,
+    eager: true,
+    orphanedRowAction: 'delete',
+  })
+  assigneeEntities!: TaskAssigneeEntity[];
+
   @VersionColumn()
   version!: number;
 
@@ -42,4 +132,8 @@ export class TaskEntity {
 
   @UpdateDateColumn()
   updatedAt!: Date;
+
+  /** Set while the task is in the trash; queries skip such rows by default. */
+  @DeleteDateColumn({ nullable: true })
+  deletedAt!: Date | null;
 }
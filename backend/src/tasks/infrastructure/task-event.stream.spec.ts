@@ -0,0 +1,117 @@
+import { MessageEvent } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import type { TaskResponseDto } from '../dto/task-response.dto';
+import { TaskEventBus, TaskEventType } from '../task-events';
+import { TASK_STREAM_RESET, TaskEventStream } from './task-event.stream';
+
+describe('TaskEventStream', () => {
+  let bus: TaskEventBus;
+  let stream: TaskEventStream;
+  let subscriptions: Subscription[];
+
+  const publish = (
+    type: TaskEventType,
+    version = 1,
+    workspaceId = 'workspace-1',
+  ) =>
+    bus.publish([
+      {
+        type,
+        task: { id: 'task-1', version, workspaceId } as TaskResponseDto,
+        changes: {},
+        actor: 'system',
+        occurredAt: new Date('2026-10-19T09:00:00.000Z'),
+      },
+    ]);
+
+  const collect = (
+    lastEventId?: string,
+    workspaceId = 'workspace-1',
+  ): MessageEvent[] => {
+    const received: MessageEvent[] = [];
+    subscriptions.push(
+      stream
+        .stream(workspaceId, lastEventId)
+        .subscribe((event) => received.push(event)),
+    );
+    return received;
+  };
+
+  beforeEach(() => {
+    bus = new TaskEventBus();
+    stream = new TaskEventStream(bus);
+    stream.onModuleInit();
+    subscriptions = [];
+  });
+
+  afterEach(() => {
+    subscriptions.forEach((subscription) => subscription.unsubscribe());
+    stream.onModuleDestroy();
+  });
+
+  it('streams changes with sequential ids and skips status duplicates', () => {
+    const received = collect();
+    publish('task.created', 0);
+    publish('task.updated', 1);
+    publish('task.status_changed', 1);
+    publish('task.deleted', 1);
+
+    expect(received.map(({ type }) => type)).toEqual([
+      'task.created',
+      'task.updated',
+      'task.deleted',
+    ]);
+    expect(received.map(({ id }) => id?.split('-')[1])).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+    expect(received[1].data).toEqual({
+      task: { id: 'task-1', version: 1, workspaceId: 'workspace-1' },
+      version: 1,
+      actor: 'system',
+      occurredAt: '2026-10-19T09:00:00.000Z',
+    });
+  });
+
+  it('replays what followed Last-Event-ID before going live', () => {
+    const first = collect();
+    publish('task.created', 0);
+    publish('task.updated', 1);
+    publish('task.updated', 2);
+
+    const resumed = collect(first[0].id);
+    expect(resumed.map(({ id }) => id)).toEqual([first[1].id, first[2].id]);
+    publish('task.deleted', 2);
+    expect(resumed.map(({ id }) => id)).toEqual(
+      first.slice(1).map(({ id }) => id),
+    );
+    expect(collect(first[3].id)).toEqual([]);
+  });
+
+  it("keeps each workspace's changes to its own subscribers", () => {
+    const first = collect();
+    const second = collect(undefined, 'workspace-2');
+    publish('task.created', 0);
+    publish('task.created', 0, 'workspace-2');
+    publish('task.updated', 1);
+
+    expect(first.map(({ type }) => type)).toEqual([
+      'task.created',
+      'task.updated',
+    ]);
+    expect(second.map(({ id }) => id?.split('-')[1])).toEqual(['2']);
+    expect(collect(first[0].id, 'workspace-2').map(({ id }) => id)).toEqual([
+      second[0].id,
+    ]);
+  });
+
+  it('asks clients with unknown or stale ids to reset', () => {
+    publish('task.created');
+    for (const lastEventId of ['previous-run-1', 'garbage', '']) {
+      expect(collect(lastEventId).map(({ type }) => type)).toEqual([
+        TASK_STREAM_RESET,
+      ]);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  Injectable,
+  MessageEvent,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  Subscription,
+  concat,
+  defer,
+  filter,
+  from,
+  map,
+} from 'rxjs';
+import { TaskEvent, TaskEventBus } from '../task-events';
+
+/** How many recent events a reconnecting client can catch up on. */
+const HISTORY_SIZE = 500;
+
+/** Tells a client it missed events and should refetch instead. */
+export const TASK_STREAM_RESET = 'reset';
+
+/** A message together with the workspace whose subscribers may see it. */
+interface WorkspaceMessage {
+  workspaceId: string;
+  message: MessageEvent;
+}
+
+/**
+ * Serves `GET /tasks/events`: committed task changes as Server-Sent Events.
+ * Ids are `<epoch>-<sequence>`, where the epoch changes on every start, so
+ * `Last-Event-ID` replays the buffered events after it. An id from before a
+ * restart, or one older than the buffer, gets a `reset` event instead.
+ * `task.status_changed` is left out because the matching `task.updated`
+ * already carries the new status. Subscribers only see their own
+ * workspace's tasks; ids count across all workspaces.
+ */
+@Injectable()
+export class TaskEventStream implements OnModuleInit, OnModuleDestroy {
+  private readonly epoch = Date.now().toString(36);
+  private readonly history: WorkspaceMessage[] = [];
+  private readonly live = new Subject<WorkspaceMessage>();
+  private sequence = 0;
+  private subscription?: Subscription;
+
+  constructor(private readonly taskEvents: TaskEventBus) {}
+
+  onModuleInit(): void {
+    this.subscription = this.taskEvents.events$.subscribe((event) => {
+      if (event.type === 'task.status_changed') {
+        return;
+      }
+      const message = {
+        workspaceId: event.task.workspaceId,
+        message: this.toMessage(event),
+      };
+      this.history.push(message);
+      if (this.history.length > HISTORY_SIZE) {
+        this.history.shift();
+      }
+      this.live.next(message);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.live.complete();
+  }
+
+  /**
+   * Replays what followed `lastEventId` in the workspace, then streams its
+   * live events.
+   */
+  stream(workspaceId: string, lastEventId?: string): Observable<MessageEvent> {
+    return defer(() =>
+      concat(
+        from(this.replay(workspaceId, lastEventId)),
+        this.live.pipe(
+          filter((entry) => entry.workspaceId === workspaceId),
+          map((entry) => entry.message),
+        ),
+      ),
+    );
+  }
+
+  private replay(
+    workspaceId: string,
+    lastEventId: string | undefined,
+  ): MessageEvent[] {
+    if (lastEventId === undefined) {
+      return [];
+    }
+    const [epoch, rawSequence] = lastEventId.split('-');
+    const sequence = Number(rawSequence);
+    const oldest = this.sequence - this.history.length;
+    if (
+      epoch !== this.epoch ||
+      !Number.isInteger(sequence) ||
+      sequence < oldest ||
+      sequence > this.sequence
+    ) {
+      return [
+        {
+          id: `${this.epoch}-${this.sequence}`,
+          type: TASK_STREAM_RESET,
+          data: {},
+        },
+      ];
+    }
+    return this.history
+      .slice(sequence - oldest)
+      .filter((entry) => entry.workspaceId === workspaceId)
+      .map((entry) => entry.message);
+  }
+
+  private toMessage(event: TaskEvent): MessageEvent {
+    this.sequence += 1;
+    return {
+      id: `${this.epoch}-${this.sequence}`,
+      type: event.type,
+      data: {
+        task: event.task,
+        version: event.task.version,
+        actor: event.actor,
+        occurredAt: event.occurredAt.toISOString(),
+      },
+    };
+  }
+}
@@ -0,0 +1,157 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Notification } from '../../notifications/notification-channel';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { TaskEntity } from '../entities/task.entity';
+import { TaskReminderEntity } from '../entities/task-reminder.entity';
+import type { TaskReminderRepository } from '../task-reminder.repository';
+import { TASK_REMINDER_REPOSITORY } from '../task-reminder.repository';
+import {
+  OVERDUE_WINDOW,
+  ReminderWindow,
+  parseReminderWindows,
+  selectReminderWindow,
+} from '../utils/task-reminder.util';
+
+const reminderKey = (taskId: string, window: string, dueDate: Date) =>
+  `${taskId}:${window}:${dueDate.getTime()}`;
+
+/**
+ * Sends a reminder when an unfinished task's due date enters one of the
+ * `TASK_REMINDER_WINDOWS`, scanning on start-up and then every
+ * `TASK_REMINDER_INTERVAL_SECONDS`. Each reminder is recorded before it is
+ * sent, so a restart never repeats one; a crash mid-send loses it instead.
+ */
+@Injectable()
+export class TaskReminderScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TaskReminderScheduler.name);
+  private readonly windows: ReminderWindow[];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @Inject(TASK_REMINDER_REPOSITORY)
+    private readonly repository: TaskReminderRepository,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+  ) {
+    this.windows = parseReminderWindows(
+      configService.get<string>('TASK_REMINDER_WINDOWS', '24h,1h,overdue'),
+    );
+  }
+
+  /** The first scan starts right away but does not hold up startup. */
+  onApplicationBootstrap(): void {
+    this.runInBackground();
+    const intervalSeconds = this.configService.get<number>(
+      'TASK_REMINDER_INTERVAL_SECONDS',
+      60,
+    );
+    this.timer = setInterval(
+      () => this.runInBackground(),
+      intervalSeconds * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  private runInBackground(): void {
+    void this.run().catch((error: unknown) => {
+      this.logger.error('Reminder scan failed', (error as Error)?.stack);
+    });
+  }
+
+  /** Resolves to the number of reminders sent; overlapping scans are skipped. */
+  async run(now: Date = new Date()): Promise<number> {
+    const widest = this.windows.at(-1);
+    if (!widest || this.running) {
+      return 0;
+    }
+    this.running = true;
+    try {
+      return await this.sendDueReminders(widest, now);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async sendDueReminders(
+    widest: ReminderWindow,
+    now: Date,
+  ): Promise<number> {
+    const tasks = await this.repository.findTasksDueBefore(
+      new Date(now.getTime() + widest.offsetMs),
+    );
+    const sent = new Set(
+      (
+        await this.repository.findSentReminders(tasks.map((task) => task.id))
+      ).map((reminder) =>
+        reminderKey(reminder.taskId, reminder.window, reminder.dueDate),
+      ),
+    );
+
+    let count = 0;
+    for (const task of tasks) {
+      const dueDate = task.dueDate;
+      const window =
+        dueDate && selectReminderWindow(this.windows, dueDate, now);
+      if (
+        !dueDate ||
+        !window ||
+        sent.has(reminderKey(task.id, window.name, dueDate))
+      ) {
+        continue;
+      }
+      const reminder = new TaskReminderEntity();
+      reminder.taskId = task.id;
+      reminder.window = window.name;
+      reminder.dueDate = dueDate;
+      await this.repository.save(reminder);
+      await this.notificationsService.notify(
+        this.toNotification(task, dueDate, window),
+      );
+      count += 1;
+    }
+    return count;
+  }
+
+  private toNotification(
+    task: TaskEntity,
+    dueDate: Date,
+    window: ReminderWindow,
+  ): Notification {
+    const overdue = window.name === OVERDUE_WINDOW;
+    return {
+      event: 'task.reminder',
+      subject: overdue
+        ? `Task "${task.title}" is overdue`
+        : `Task "${task.title}" is due within ${window.name}`,
+      text: [
+        `"${task.title}" ${overdue ? 'was' : 'is'} due ${dueDate.toISOString()}.`,
+        `Status: ${task.status}, priority P${task.priority}.`,
+        `Task id: ${task.id}`,
+      ].join('\n'),
+      data: {
+        window: window.name,
+        task: {
+          id: task.id,
+          title: task.title,
+          status: task.status,
+          priority: task.priority,
+          dueDate: dueDate.toISOString(),
+        },
+      },
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+
+export const TASK_SEARCH_TABLE = 'tasks_fts';
+
+type SearchModule = 'fts5' | 'fts4';
+
+/** Indexed columns with their relevance weights, most important first. */
+const SEARCH_COLUMNS = [
+  { name: 'title', weight: 2 },
+  { name: 'tags', weight: 1 },
+  { name: 'description', weight: 0.5 },
+] as const;
+
+const SNIPPET_TOKENS = 12;
+const COLUMN_NAMES = SEARCH_COLUMNS.map((column) => column.name).join(', ');
+const TAGS_OF = (taskId: string) =>
+  `COALESCE((SELECT group_concat(value, ' ') FROM task_tags WHERE taskId = ${taskId}), '')`;
+const ROWID_OF = (taskId: string) =>
+  `(SELECT rowid FROM tasks WHERE id = ${taskId})`;
+
+const TRIGGERS: Record<string, string> = {
+  tasks_fts_insert: `AFTER INSERT ON tasks BEGIN
+    INSERT INTO ${TASK_SEARCH_TABLE}(rowid, ${COLUMN_NAMES})
+      VALUES (new.rowid, new.title, ${TAGS_OF('new.id')}, COALESCE(new.description, ''));
+  END`,
+  tasks_fts_update: `AFTER UPDATE OF title, description ON tasks BEGIN
+    UPDATE ${TASK_SEARCH_TABLE}
+      SET title = new.title, description = COALESCE(new.description, '')
+      WHERE rowid = new.rowid;
+  END`,
+  tasks_fts_delete: `AFTER DELETE ON tasks BEGIN
+    DELETE FROM ${TASK_SEARCH_TABLE} WHERE rowid = old.rowid;
+  END`,
+  task_tags_fts_insert: `AFTER INSERT ON task_tags BEGIN
+    UPDATE ${TASK_SEARCH_TABLE} SET tags = ${TAGS_OF('new.taskId')}
+      WHERE rowid = ${ROWID_OF('new.taskId')};
+  END`,
+  task_tags_fts_update: `AFTER UPDATE ON task_tags BEGIN
+    UPDATE ${TASK_SEARCH_TABLE} SET tags = ${TAGS_OF('old.taskId')}
+      WHERE rowid = ${ROWID_OF('old.taskId')};
+    UPDATE ${TASK_SEARCH_TABLE} SET tags = ${TAGS_OF('new.taskId')}
+      WHERE rowid = ${ROWID_OF('new.taskId')};
+  END`,
+  task_tags_fts_delete: `AFTER DELETE ON task_tags BEGIN
+    UPDATE ${TASK_SEARCH_TABLE} SET tags = ${TAGS_OF('old.taskId')}
+      WHERE rowid = ${ROWID_OF('old.taskId')};
+  END`,
+};
+
+/**
+ * Scores a row from FTS4 `matchinfo(..., 'pcnx')` output: a weighted
+ * tf-idf over the indexed columns, negated so that ascending order puts the
+ * best match first, matching FTS5's `bm25()`.
+ */
+const rankFromMatchInfo = (matchInfo: Uint8Array): number => {
+  const view = new DataView(
+    matchInfo.buffer,
+    matchInfo.byteOffset,
+    matchInfo.byteLength,
+  );
+  const read = (index: number) => view.getUint32(index * 4, true);
+  const phraseCount = read(0);
+  const columnCount = read(1);
+  const rowCount = read(2);
+
+  let score = 0;
+  for (let phrase = 0; phrase < phraseCount; phrase += 1) {
+    for (let column = 0; column < columnCount; column += 1) {
+      const offset = 3 + (phrase * columnCount + column) * 3;
+      const hits = read(offset);
+      const rowsWithHits = read(offset + 2);
+      if (hits > 0 && rowsWithHits > 0) {
+        const weight = SEARCH_COLUMNS[column]?.weight ?? 1;
+        score +=
+          weight * (hits / (hits + 1)) * Math.log(1 + rowCount / rowsWithHits);
+      }
+    }
+  }
+  return -score;
+};
+
+/**
+ * Owns the full-text index over task titles, tags and descriptions. SQLite
+ * triggers keep it in step with every write, including those inside
+ * transactions, and it is rebuilt on start-up because schema synchronisation
+ * recreates `tasks` (dropping its triggers and renumbering rowids).
+ *
+ * FTS5 is preferred; SQLite builds without it — such as the sql.js bundle —
+ * fall back to FTS4 with an equivalent ranking function.
+ */
+@Injectable()
+export class TaskSearchIndex implements OnModuleInit {
+  private readonly logger = new Logger(TaskSearchIndex.name);
+  private module: SearchModule = 'fts5';
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  async onModuleInit(): Promise<void> {
+    this.module = await this.ensureTable();
+    if (this.module === 'fts4') {
+      this.registerRankFunction();
+    }
+    for (const [name, body] of Object.entries(TRIGGERS)) {
+      await this.dataSource.query(`DROP TRIGGER IF EXISTS ${name}`);
+      await this.dataSource.query(`CREATE TRIGGER ${name} ${body}`);
+    }
+    await this.rebuild();
+  }
+
+  /** Ascending order of this expression ranks the best matches first. */
+  get rankExpression(): string {
+    if (this.module === 'fts5') {
+      const weights = SEARCH_COLUMNS.map((column) => column.weight).join(', ');
+      return `bm25(${TASK_SEARCH_TABLE}, ${weights})`;
+    }
+    return `task_search_rank(matchinfo(${TASK_SEARCH_TABLE}, 'pcnx'))`;
+  }
+
+  /** Best-matching fragment with hits wrapped in `<mark>` tags. */
+  get snippetExpression(): string {
+    const markup = `'<mark>', '</mark>', '…'`;
+    return this.module === 'fts5'
+      ? `snippet(${TASK_SEARCH_TABLE}, -1, ${markup}, ${SNIPPET_TOKENS})`
+      : `snippet(${TASK_SEARCH_TABLE}, ${markup}, -1, ${SNIPPET_TOKENS})`;
+  }
+
+  private async ensureTable(): Promise<SearchModule> {
+    const [existing] = await this.dataSource.query<{ sql: string }[]>(
+      `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+      [TASK_SEARCH_TABLE],
+    );
+    if (existing?.sql.includes(`(${COLUMN_NAMES},`)) {
+      return /using\s+fts5/i.test(existing.sql) ? 'fts5' : 'fts4';
+    }
+    if (existing) {
+      // Indexed columns changed; the rebuild below repopulates the table.
+      await this.dataSource.query(`DROP TABLE ${TASK_SEARCH_TABLE}`);
+    }
+
+    try {
+      await this.dataSource.query(
+        `CREATE VIRTUAL TABLE ${TASK_SEARCH_TABLE} USING fts5(${COLUMN_NAMES}, tokenize = 'unicode61')`,
+      );
+      return 'fts5';
+    } catch {
+      this.logger.log('FTS5 is unavailable; indexing tasks with FTS4.');
+      await this.dataSource.query(
+        `CREATE VIRTUAL TABLE ${TASK_SEARCH_TABLE} USING fts4(${COLUMN_NAMES}, tokenize=unicode61)`,
+      );
+      return 'fts4';
+    }
+  }
+
+  private registerRankFunction(): void {
+    const database = this.dataSource.driver as {
+      databaseConnection?: {
+        create_function?: (
+          name: string,
+          fn: (matchInfo: Uint8Array) => number,
+        ) => void;
+      };
+    };
+    database.databaseConnection?.create_function?.(
+      'task_search_rank',
+      rankFromMatchInfo,
+    );
+  }
+
+  private async rebuild(): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      await manager.query(`DELETE FROM ${TASK_SEARCH_TABLE}`);
+      await manager.query(
+        `INSERT INTO ${TASK_SEARCH_TABLE}(rowid, ${COLUMN_NAMES})
+          SELECT rowid, title, ${TAGS_OF('tasks.id')}, COALESCE(description, '')
+          FROM tasks`,
+      );
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TasksService } from '../tasks.service';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently deletes tasks that have been in the trash for longer than
+ * `TASK_TRASH_RETENTION_DAYS`, once on start-up and hourly after that.
+ */
+@Injectable()
+export class TaskTrashPurger
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(TaskTrashPurger.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** The first purge starts right away but does not hold up startup. */
+  onApplicationBootstrap(): void {
+    this.runInBackground();
+    this.timer = setInterval(() => this.runInBackground(), PURGE_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  private runInBackground(): void {
+    void this.purge().catch((error: unknown) => {
+      this.logger.error('Trash purge failed', (error as Error)?.stack);
+    });
+  }
+
+  /** Resolves to the number of tasks removed for good. */
+  async purge(now: Date = new Date()): Promise<number> {
+    const retentionDays = this.configService.get<number>(
+      'TASK_TRASH_RETENTION_DAYS',
+      30,
+    );
+    const purged = await this.tasksService.purgeTrash(
+      new Date(now.getTime() - retentionDays * DAY_MS),
+    );
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} task(s) from the trash`);
+    }
+    return purged;
+  }
+}
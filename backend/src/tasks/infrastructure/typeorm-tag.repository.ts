@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TagEntity } from '../entities/tag.entity';
+import type { TagRepository } from '../tag.repository';
+
+@Injectable()
+export class TypeOrmTagRepository implements TagRepository {
+  constructor(
+    @InjectRepository(TagEntity)
+    private readonly repository: Repository<TagEntity>,
+  ) {}
+
+  async findByWorkspace(workspaceId: string): Promise<TagEntity[]> {
+    return this.repository.find({ where: { workspaceId } });
+  }
+
+  async findByKey(workspaceId: string, key: string): Promise<TagEntity | null> {
+    return this.repository.findOne({ where: { workspaceId, key } });
+  }
+
+  async save(tag: TagEntity): Promise<TagEntity> {
+    return this.repository.save(tag);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length > 0) {
+      await this.repository.delete(ids);
+    }
+  }
+}
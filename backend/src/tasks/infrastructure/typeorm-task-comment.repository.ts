@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { TaskCommentEntity } from '../entities/task-comment.entity';
+import type { TaskCommentRepository } from '../task-comment.repository';
+
+@Injectable()
+export class TypeOrmTaskCommentRepository implements TaskCommentRepository {
+  constructor(
+    @InjectRepository(TaskCommentEntity)
+    private readonly repository: Repository<TaskCommentEntity>,
+  ) {}
+
+  /**
+   * `createdAt` only has second precision, so insertion order (the rowid)
+   * keeps comments posted within the same second in sequence.
+   */
+  async findByTask(taskId: string): Promise<TaskCommentEntity[]> {
+    return this.repository
+      .createQueryBuilder('comment')
+      .where('comment.taskId = :taskId', { taskId })
+      .orderBy('comment.createdAt', 'ASC')
+      .addOrderBy('comment.rowid', 'ASC')
+      .getMany();
+  }
+
+  async findById(
+    taskId: string,
+    id: string,
+  ): Promise<TaskCommentEntity | null> {
+    return this.repository.findOne({ where: { taskId, id } });
+  }
+
+  async save(comment: TaskCommentEntity): Promise<TaskCommentEntity> {
+    return this.repository.save(comment);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
+}
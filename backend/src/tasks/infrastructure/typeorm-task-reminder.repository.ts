@@ -0,0 +1,35 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { TaskEntity } from '../entities/task.entity';
+import { TaskReminderEntity } from '../entities/task-reminder.entity';
+import type { TaskReminderRepository } from '../task-reminder.repository';
+
+@Injectable()
+export class TypeOrmTaskReminderRepository implements TaskReminderRepository {
+  constructor(
+    @InjectRepository(TaskReminderEntity)
+    private readonly repository: Repository<TaskReminderEntity>,
+  ) {}
+
+  async findTasksDueBefore(before: Date): Promise<TaskEntity[]> {
+    return this.repository.manager.getRepository(TaskEntity).find({
+      where: {
+        dueDate: LessThanOrEqual(before),
+        statusCategory: Not('done'),
+      },
+      order: { dueDate: 'ASC' },
+    });
+  }
+
+  async findSentReminders(taskIds: string[]): Promise<TaskReminderEntity[]> {
+    if (taskIds.length === 0) {
+      return [];
+    }
+    return this.repository.find({ where: { taskId: In(taskIds) } });
+  }
+
+  async save(reminder: TaskReminderEntity): Promise<TaskReminderEntity> {
+    return this.repository.save(reminder);
+  }
+}
@@ -1,22 +1,55 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import {
+  Brackets,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThan,
+  Not,
+  ObjectLiteral,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { TaskActivityEntity } from '../entities/task-activity.entity';
+import { TaskDependencyEntity } from '../entities/task-dependency.entity';
 import { TaskEntity } from '../entities/task.entity';
-import { TaskStatus } from '../task-status.enum';
+import type { TaskEvent, TaskEventOutbox } from '../task-events';
 import type {
+  ListActivityOptions,
+  ListActivityResult,
   ListTasksOptions,
   ListTasksResult,
+  ListTrashResult,
   TaskRepository,
 } from '../task.repository';
+import { resolveTaskSort } from '../utils/task-cursor.util';
+import type { TaskCursor } from '../utils/task-cursor.util';
+import { toTaskSearchQuery } from '../utils/task-search.util';
+import type { TagUsage } from '../utils/task-tag.util';
+import { TASK_STATUS_CATEGORIES } from '../utils/task-workflow.util';
+import type { TaskStatusCategory } from '../utils/task-workflow.util';
+import { TASK_SEARCH_TABLE, TaskSearchIndex } from './task-search.index';
 
 @Injectable()
 export class TypeOrmTaskRepository implements TaskRepository {
+  /** Set on the copies `forWorkspace` hands out. */
+  private workspaceId?: string;
+
   constructor(
     @InjectRepository(TaskEntity)
     private readonly repository: Repository<TaskEntity>,
+    private readonly searchIndex: TaskSearchIndex,
   ) {}
 
+  forWorkspace(workspaceId: string): TaskRepository {
+    return this.bind(this.repository, workspaceId);
+  }
+
   async create(task: TaskEntity): Promise<TaskEntity> {
+    if (this.workspaceId) {
+      task.workspaceId = this.workspaceId;
+    }
     return this.repository.save(task);
   }
 
@@ -25,18 +58,188 @@ export class TypeOrmTaskRepository implements TaskRepository {
   }
 
   async findById(id: string): Promise<TaskEntity | null> {
-    return this.repository.findOne({ where: { id } });
+    return this.repository.findOne({ where: { id, ...this.scope } });
+  }
+
+  async softDelete(id: string): Promise<void> {
+    await this.repository.softDelete({ id, ...this.scope });
+  }
+
+  async restore(id: string): Promise<void> {
+    await this.repository.restore({ id, ...this.scope });
+  }
+
+  async findTrashedById(id: string): Promise<TaskEntity | null> {
+    return this.repository.findOne({
+      where: { id, deletedAt: Not(IsNull()), ...this.scope },
+      withDeleted: true,
+    });
+  }
+
+  async findTrashed(page: number, pageSize: number): Promise<ListTrashResult> {
+    const [data, total] = await this.repository.findAndCount({
+      where: { deletedAt: Not(IsNull()), ...this.scope },
+      withDeleted: true,
+      order: { deletedAt: 'DESC', id: 'ASC' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    });
+    return { data, total };
+  }
+
+  async purgeTrashedBefore(
+    cutoff: Date,
+  ): Promise<Pick<TaskEntity, 'id' | 'workspaceId'>[]> {
+    const expired = await this.repository.find({
+      select: { id: true, workspaceId: true },
+      where: { deletedAt: LessThan(cutoff), ...this.scope },
+      withDeleted: true,
+    });
+    if (expired.length > 0) {
+      await this.repository.delete(expired.map((task) => task.id));
+    }
+    return expired.map(({ id, workspaceId }) => ({ id, workspaceId }));
+  }
+
+  async findChildren(parentId: string): Promise<TaskEntity[]> {
+    return this.repository.find({
+      where: { parentId, ...this.scope },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async findDetachedFrom(parentId: string): Promise<TaskEntity[]> {
+    return this.repository.find({
+      where: { detachedFromId: parentId, parentId: IsNull(), ...this.scope },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async findLineageIds(id: string): Promise<string[]> {
+    const rows = await this.repository.query<{ id: string }[]>(
+      `WITH RECURSIVE lineage(id, parentId, depth) AS (
+        SELECT id, parentId, 0 FROM tasks
+          WHERE id = ? AND deletedAt IS NULL AND (? IS NULL OR workspaceId = ?)
+        UNION
+        SELECT parent.id, parent.parentId, lineage.depth + 1 FROM tasks parent
+          INNER JOIN lineage ON parent.id = lineage.parentId
+          WHERE lineage.depth < 10000
+      ) SELECT id FROM lineage ORDER BY depth`,
+      [id, this.workspaceId ?? null, this.workspaceId ?? null],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  async findBlockers(taskId: string): Promise<TaskEntity[]> {
+    return this.scopeQuery(
+      this.repository
+        .createQueryBuilder('task')
+        .leftJoinAndSelect('task.tagEntities', 'tagEntities')
+        .leftJoinAndSelect('task.assigneeEntities', 'assigneeEntities')
+        .innerJoin(
+          TaskDependencyEntity,
+          'dependency',
+          'dependency.blockerId = task.id',
+        )
+        .where('dependency.taskId = :taskId', { taskId }),
+    )
+      .orderBy('task.createdAt', 'ASC')
+      .addOrderBy('task.id', 'ASC')
+      .getMany();
+  }
+
+  async findUpstreamIds(taskId: string): Promise<string[]> {
+    const rows = await this.repository.query<{ id: string }[]>(
+      `WITH RECURSIVE upstream(id) AS (
+        SELECT ?
+        UNION
+        SELECT dependency.blockerId FROM task_dependencies dependency
+          INNER JOIN upstream ON dependency.taskId = upstream.id
+      ) SELECT id FROM upstream`,
+      [taskId],
+    );
+    return rows.map((row) => row.id);
+  }
+
+  async addDependency(taskId: string, blockerId: string): Promise<void> {
+    await this.dependencies
+      .createQueryBuilder()
+      .insert()
+      .values({ taskId, blockerId })
+      .orIgnore()
+      .execute();
+  }
+
+  async removeDependency(taskId: string, blockerId: string): Promise<boolean> {
+    const result = await this.dependencies.delete({ taskId, blockerId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async syncStatusCategories(
+    categories: ReadonlyMap<string, TaskStatusCategory>,
+  ): Promise<void> {
+    for (const category of TASK_STATUS_CATEGORIES) {
+      const statuses = Array.from(categories)
+        .filter(([, value]) => value === category)
+        .map(([status]) => status);
+      if (statuses.length > 0) {
+        await this.repository.update(
+          { status: In(statuses), statusCategory: Not(category) },
+          { statusCategory: category },
+        );
+      }
+    }
+  }
+
+  async recordActivity(entry: TaskActivityEntity): Promise<void> {
+    await this.repository.manager.getRepository(TaskActivityEntity).save(entry);
+  }
+
+  async recordEvents(
+    events: TaskEvent[],
+    outboxes: readonly TaskEventOutbox[],
+  ): Promise<void> {
+    for (const outbox of outboxes) {
+      await outbox.write(events, this.repository.manager);
+    }
+  }
+
+  async listActivity(
+    options: ListActivityOptions,
+  ): Promise<ListActivityResult> {
+    const qb = this.repository.manager
+      .getRepository(TaskActivityEntity)
+      .createQueryBuilder('activity');
+    if (options.taskId) {
+      qb.andWhere('activity.taskId = :taskId', { taskId: options.taskId });
+    }
+    this.scopeQuery(qb, 'activity');
+    // `createdAt` has second precision; the rowid keeps same-second writes in order.
+    const [data, total] = await qb
+      .orderBy('activity.createdAt', 'DESC')
+      .addOrderBy('activity.rowid', 'DESC')
+      .skip((options.page - 1) * options.pageSize)
+      .take(options.pageSize)
+      .getManyAndCount();
+    return { data, total };
   }
 
-  async delete(id: string): Promise<void> {
-    await this.repository.delete(id);
+  async transaction<T>(
+    work: (repository: TaskRepository) => Promise<T>,
+  ): Promise<T> {
+    return this.repository.manager.transaction((manager) =>
+      work(this.bind(manager.getRepository(TaskEntity), this.workspaceId)),
+    );
   }
 
   async list(options: ListTasksOptions): Promise<ListTasksResult> {
-    const qb = this.repository
-      .createQueryBuilder('task')
-      .leftJoinAndSelect('task.tagEntities', 'tagEntities')
-      .distinct(true);
+    const qb = this.scopeQuery(
+      this.repository
+        .createQueryBuilder('task')
+        .leftJoinAndSelect('task.tagEntities', 'tagEntities')
+        .leftJoinAndSelect('task.assigneeEntities', 'assigneeEntities')
+        .distinct(true),
+    );
     if (options.status) {
       qb.andWhere('task.status = :status', { status: options.status });
     }
@@ -47,22 +250,61 @@ export class TypeOrmTaskRepository implements TaskRepository {
       });
     }
 
-    if (options.search) {
-      qb.andWhere('LOWER(task.title) LIKE :search', {
-        search: `%${options.search.toLowerCase()}%`,
+    // Subqueries, so the filter does not drop the other assignees' rows.
+    const assignedTo =
+      'EXISTS (SELECT 1 FROM task_assignees assigned WHERE assigned.taskId = task.id AND assigned.principal = :assignee)';
+    const unassigned =
+      'NOT EXISTS (SELECT 1 FROM task_assignees assigned WHERE assigned.taskId = task.id)';
+    if (options.assignee && options.unassigned) {
+      qb.andWhere(`(${assignedTo} OR ${unassigned})`, {
+        assignee: options.assignee,
       });
+    } else if (options.assignee) {
+      qb.andWhere(assignedTo, { assignee: options.assignee });
+    } else if (options.unassigned) {
+      qb.andWhere(unassigned);
     }
 
-    const sortDirection = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
-    if (options.sortBy === 'priority') {
-      qb.orderBy('task.priority', sortDirection);
-    } else if (options.sortBy === 'dueDate') {
-      qb.orderBy('task.dueDate IS NULL', 'ASC').addOrderBy(
-        'task.dueDate',
-        sortDirection,
+    const searchQuery = options.search
+      ? toTaskSearchQuery(options.search)
+      : null;
+    if (searchQuery) {
+      this.joinSearchIndex(qb, searchQuery);
+    }
+
+    const sort = resolveTaskSort(options.sortBy, options.sortOrder);
+    const sortDirection = sort.order === 'asc' ? 'ASC' : 'DESC';
+    if (sort.key === 'relevance' && searchQuery) {
+      qb.addSelect(this.searchIndex.rankExpression, 'search_rank').orderBy(
+        'search_rank',
+        'ASC',
       );
+    } else if (sort.key === 'priority') {
+      qb.orderBy('task.priority', sortDirection);
+    } else if (sort.key === 'dueDate') {
+      // Paginated joins can only order by selected aliases, not expressions.
+      qb.addSelect(
+        'CASE WHEN task.dueDate IS NULL THEN 1 ELSE 0 END',
+        'due_date_missing',
+      )
+        .orderBy('due_date_missing', 'ASC')
+        .addOrderBy('task.dueDate', sortDirection);
     } else {
-      qb.orderBy('task.createdAt', 'DESC');
+      qb.orderBy('task.createdAt', sortDirection);
+    }
+    qb.addOrderBy('task.id', sortDirection);
+
+    if (options.cursor) {
+      this.applyCursor(qb, options.cursor);
+      const rows = await qb.take(options.pageSize + 1).getMany();
+      const data = rows.slice(0, options.pageSize);
+      return {
+        data,
+        pageSize: options.pageSize,
+        hasMore: rows.length > options.pageSize,
+        snippets: await this.findSnippets(searchQuery, data),
+        statusCounts: await this.getStatusCounts(),
+      };
     }
 
     qb.skip((options.page - 1) * options.pageSize).take(options.pageSize);
@@ -74,25 +316,171 @@ export class TypeOrmTaskRepository implements TaskRepository {
       total,
       page: options.page,
       pageSize: options.pageSize,
+      hasMore: options.page * options.pageSize < total,
+      snippets: await this.findSnippets(searchQuery, data),
       statusCounts,
     };
   }
 
-  private async getStatusCounts(): Promise<Record<TaskStatus, number>> {
-    const baseCounts: Record<TaskStatus, number> = {
-      todo: 0,
-      doing: 0,
-      done: 0,
-    };
-    const rows = await this.repository
-      .createQueryBuilder('task')
-      .select('task.status', 'status')
-      .addSelect('COUNT(*)', 'count')
+  async getStatusCounts(
+    options: { assignee?: string } = {},
+  ): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    const qb = this.scopeQuery(
+      this.repository
+        .createQueryBuilder('task')
+        .select('task.status', 'status')
+        .addSelect('COUNT(*)', 'count'),
+    );
+    if (options.assignee) {
+      qb.andWhere(
+        'EXISTS (SELECT 1 FROM task_assignees assigned WHERE assigned.taskId = task.id AND assigned.principal = :assignee)',
+        { assignee: options.assignee },
+      );
+    }
+    const rows = await qb
       .groupBy('task.status')
-      .getRawMany<{ status: TaskStatus; count: string }>();
+      .getRawMany<{ status: string; count: string }>();
     for (const row of rows) {
-      baseCounts[row.status] = Number.parseInt(row.count, 10);
+      counts[row.status] = Number.parseInt(row.count, 10);
+    }
+    return counts;
+  }
+
+  async getTagUsage(): Promise<TagUsage[]> {
+    const rows = await this.scopeQuery(
+      this.repository
+        .createQueryBuilder('task')
+        .innerJoin('task.tagEntities', 'tag')
+        .select('tag.value', 'value')
+        .addSelect('COUNT(DISTINCT task.id)', 'count')
+        .addSelect('MAX(task.updatedAt)', 'lastUsedAt'),
+    )
+      .groupBy('tag.value')
+      .getRawMany<{ value: string; count: string; lastUsedAt: string }>();
+    return rows.map((row) => ({
+      value: row.value,
+      count: Number.parseInt(row.count, 10),
+      // Raw SQLite datetimes are UTC and written as `YYYY-MM-DD HH:MM:SS.SSS`.
+      lastUsedAt: new Date(`${row.lastUsedAt.replace(' ', 'T')}Z`),
+    }));
+  }
+
+  async findTagged(keys: string[]): Promise<TaskEntity[]> {
+    if (keys.length === 0) {
+      return [];
     }
-    return baseCounts;
+    return this.scopeQuery(
+      this.repository
+        .createQueryBuilder('task')
+        .withDeleted()
+        .leftJoinAndSelect('task.tagEntities', 'tagEntities')
+        .leftJoinAndSelect('task.assigneeEntities', 'assigneeEntities')
+        .where(
+          'task.id IN (SELECT tagged.taskId FROM task_tags tagged WHERE LOWER(tagged.value) IN (:...keys))',
+          { keys },
+        ),
+    ).getMany();
+  }
+
+  /**
+   * FTS only resolves `MATCH` and its auxiliary functions against the
+   * table's own name, so the index is joined under that name as its alias.
+   */
+  private joinSearchIndex(
+    qb: SelectQueryBuilder<TaskEntity>,
+    searchQuery: string,
+  ): void {
+    qb.innerJoin(
+      TASK_SEARCH_TABLE,
+      TASK_SEARCH_TABLE,
+      `${TASK_SEARCH_TABLE}.rowid = task.rowid`,
+    ).andWhere(`${TASK_SEARCH_TABLE} MATCH :searchQuery`, { searchQuery });
+  }
+
+  private async findSnippets(
+    searchQuery: string | null,
+    tasks: TaskEntity[],
+  ): Promise<ReadonlyMap<string, string> | undefined> {
+    if (!searchQuery || tasks.length === 0) {
+      return undefined;
+    }
+    const qb = this.repository
+      .createQueryBuilder('task')
+      .select('task.id', 'id')
+      .addSelect(this.searchIndex.snippetExpression, 'snippet')
+      .where('task.id IN (:...ids)', { ids: tasks.map((task) => task.id) });
+    this.joinSearchIndex(qb, searchQuery);
+    const rows = await qb.getRawMany<{ id: string; snippet: string }>();
+    return new Map(rows.map((row) => [row.id, row.snippet]));
+  }
+
+  /**
+   * Restricts the query to rows after the cursor in the active ordering.
+   * Cursor dates are ISO strings, so they are normalised to the text format
+   * SQLite stores for each column before comparing.
+   */
+  private applyCursor(
+    qb: SelectQueryBuilder<TaskEntity>,
+    cursor: TaskCursor,
+  ): void {
+    const op = cursor.order === 'asc' ? '>' : '<';
+    const params = { cursorValue: cursor.value, cursorId: cursor.id };
+    const after = (column: string, value: string) =>
+      `(${column} ${op} ${value} OR (${column} = ${value} AND task.id ${op} :cursorId))`;
+
+    if (cursor.key === 'priority') {
+      qb.andWhere(after('task.priority', ':cursorValue'), params);
+    } else if (cursor.key === 'createdAt') {
+      qb.andWhere(after('task.createdAt', 'datetime(:cursorValue)'), params);
+    } else if (cursor.value === null) {
+      // Null due dates sort last, so only the remaining null rows follow.
+      qb.andWhere(`(task.dueDate IS NULL AND task.id ${op} :cursorId)`, params);
+    } else {
+      qb.andWhere(
+        new Brackets((where) => {
+          where
+            .where('task.dueDate IS NULL')
+            .orWhere(
+              after(
+                'task.dueDate',
+                "strftime('%Y-%m-%d %H:%M:%f', :cursorValue)",
+              ),
+              params,
+            );
+        }),
+      );
+    }
+  }
+
+  private bind(
+    repository: Repository<TaskEntity>,
+    workspaceId: string | undefined,
+  ): TypeOrmTaskRepository {
+    const bound = new TypeOrmTaskRepository(repository, this.searchIndex);
+    bound.workspaceId = workspaceId;
+    return bound;
+  }
+
+  /** Narrows `find` conditions to the bound workspace, if any. */
+  private get scope(): FindOptionsWhere<TaskEntity> {
+    return this.workspaceId ? { workspaceId: this.workspaceId } : {};
+  }
+
+  /** Narrows a query on `alias` to the bound workspace, if any. */
+  private scopeQuery<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    alias = 'task',
+  ): SelectQueryBuilder<T> {
+    return this.workspaceId
+      ? qb.andWhere(`${alias}.workspaceId = :workspaceId`, {
+          workspaceId: this.workspaceId,
+        })
+      : qb;
+  }
+
+  /** Bound to the same manager, so it joins any open transaction. */
+  private get dependencies(): Repository<TaskDependencyEntity> {
+    return this.repository.manager.getRepository(TaskDependencyEntity);
   }
 }
@@ -0,0 +1,31 @@
+import { plainToInstance } from 'class-transformer';
+import { TagListResponseDto, TagResponseDto } from '../dto/tag-response.dto';
+import { TagEntity } from '../entities/tag.entity';
+import type { TagTally } from '../utils/task-tag.util';
+
+const tagToPlain = (
+  tally: TagTally,
+  details: TagEntity | undefined,
+): Record<string, unknown> => ({
+  name: tally.name,
+  usageCount: tally.usageCount,
+  color: details?.color ?? null,
+  description: details?.description ?? null,
+});
+
+export const toTagResponse = (
+  tally: TagTally,
+  details: TagEntity | undefined,
+): TagResponseDto =>
+  plainToInstance(TagResponseDto, tagToPlain(tally, details), {
+    excludeExtraneousValues: true,
+  });
+
+export const toTagListResponse = (
+  tags: readonly (readonly [TagTally, TagEntity | undefined])[],
+): TagListResponseDto =>
+  plainToInstance(
+    TagListResponseDto,
+    { data: tags.map(([tally, details]) => tagToPlain(tally, details)) },
+    { excludeExtraneousValues: true },
+  );
@@ -0,0 +1,24 @@
+import { plainToInstance } from 'class-transformer';
+import { TaskActivityCollectionResponseDto } from '../dto/task-activity-response.dto';
+import type { ListActivityResult } from '../task.repository';
+
+export const toTaskActivityCollectionResponse = (
+  result: ListActivityResult,
+  page: number,
+  pageSize: number,
+): TaskActivityCollectionResponseDto =>
+  plainToInstance(
+    TaskActivityCollectionResponseDto,
+    {
+      data: result.data.map((entry) => ({
+        id: entry.id,
+        taskId: entry.taskId,
+        action: entry.action,
+        actor: entry.actor,
+        changes: entry.changes,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+      meta: { total: result.total, page, pageSize },
+    },
+    { excludeExtraneousValues: true },
+  );
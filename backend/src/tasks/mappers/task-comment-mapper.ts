@@ -0,0 +1,33 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  TaskCommentListResponseDto,
+  TaskCommentResponseDto,
+} from '../dto/task-comment-response.dto';
+import { TaskCommentEntity } from '../entities/task-comment.entity';
+
+const taskCommentToPlain = (
+  comment: TaskCommentEntity,
+): Record<string, unknown> => ({
+  id: comment.id,
+  taskId: comment.taskId,
+  author: comment.author,
+  body: comment.body,
+  createdAt: comment.createdAt.toISOString(),
+  updatedAt: comment.updatedAt.toISOString(),
+});
+
+export const toTaskCommentResponse = (
+  comment: TaskCommentEntity,
+): TaskCommentResponseDto =>
+  plainToInstance(TaskCommentResponseDto, taskCommentToPlain(comment), {
+    excludeExtraneousValues: true,
+  });
+
+export const toTaskCommentListResponse = (
+  comments: TaskCommentEntity[],
+): TaskCommentListResponseDto =>
+  plainToInstance(
+    TaskCommentListResponseDto,
+    { data: comments.map(taskCommentToPlain) },
+    { excludeExtraneousValues: true },
+  );
@@ -4,42 +4,92 @@ import {
   ProblemDetailsException,
   createProblemDetails,
 } from '../../common/problem-details';
+import {
+  BulkTaskResultDto,
+  BulkTasksProblemDetails,
+  BulkTasksResponseDto,
+} from '../dto/bulk-tasks-response.dto';
 import { CreateTaskDto } from '../dto/create-task.dto';
-import type { ListTasksResult } from '../task.repository';
-import { TaskStatus } from '../task-status.enum';
+import type { ListTasksResult, ListTrashResult } from '../task.repository';
 import {
+  TaskChildrenResponseDto,
   TaskCollectionResponseDto,
+  TaskDependenciesResponseDto,
   TaskResponseDto,
+  TaskTrashResponseDto,
 } from '../dto/task-response.dto';
 import { TaskEntity } from '../entities/task.entity';
+import { TaskAssigneeEntity } from '../entities/task-assignee.entity';
 import { TaskTagEntity } from '../entities/task-tag.entity';
+import {
+  RecurrenceRuleError,
+  formatRecurrenceRule,
+  parseRecurrenceRule,
+} from '../utils/task-recurrence.util';
+import { tagKey } from '../utils/task-tag.util';
 
-const normalizeTags = (tags: string[] | undefined): string[] | undefined => {
+/**
+ * Trims tags, drops blank ones and keeps one of each regardless of case.
+ * Tags the workspace already uses take its spelling from `spellings`
+ * (keyed by `tagKey`), so "Bug" joins an existing "bug"; others keep the
+ * first spelling given.
+ */
+const normalizeTags = (
+  tags: string[] | undefined,
+  spellings: ReadonlyMap<string, string>,
+): string[] | undefined => {
   if (tags === undefined) {
     return undefined;
   }
 
-  const unique = new Set(
-    tags
-      .map((tag) => tag.trim())
-      .filter((tag): tag is string => tag.length > 0),
-  );
+  const unique = new Map<string, string>();
+  for (const tag of tags) {
+    const value = tag.trim();
+    const key = tagKey(value);
+    if (value.length > 0 && !unique.has(key)) {
+      unique.set(key, spellings.get(key) ?? value);
+    }
+  }
 
-  return Array.from(unique);
+  return Array.from(unique.values());
+};
+
+const normalizeRecurrence = (rule: string): string => {
+  try {
+    return formatRecurrenceRule(parseRecurrenceRule(rule));
+  } catch (error) {
+    if (!(error instanceof RecurrenceRuleError)) {
+      throw error;
+    }
+    throw new ProblemDetailsException(
+      createProblemDetails(
+        HttpStatus.BAD_REQUEST,
+        'Invalid recurrence rule provided',
+        {
+          type: 'https://example.com/problems/invalid-recurrence-rule',
+          detail: `recurrence must be a supported RRULE: ${error.message}.`,
+        },
+      ),
+    );
+  }
 };
 
 export const applyDtoToEntity = (
   entity: TaskEntity,
   dto: Partial<CreateTaskDto>,
+  tagSpellings: ReadonlyMap<string, string> = new Map(),
 ): TaskEntity => {
   if ('title' in dto && dto.title !== undefined) {
     entity.title = dto.title.trim();
   }
 
+  if ('description' in dto && dto.description !== undefined) {
+    const description = dto.description?.trim() ?? '';
+    entity.description = description.length > 0 ? description : null;
+  }
+
   if ('status' in dto && dto.status !== undefined) {
     entity.status = dto.status;
-  } else if (!entity.status) {
-    entity.status = TaskStatus.TODO;
   }
 
   if ('priority' in dto && dto.priority !== undefined) {
@@ -69,7 +119,12 @@ export const applyDtoToEntity = (
     }
   }
 
-  const normalisedTags = normalizeTags(dto.tags);
+  if ('recurrence' in dto && dto.recurrence !== undefined) {
+    const rule = dto.recurrence?.trim() ?? '';
+    entity.recurrence = rule.length > 0 ? normalizeRecurrence(rule) : null;
+  }
+
+  const normalisedTags = normalizeTags(dto.tags, tagSpellings);
   if (normalisedTags !== undefined) {
     entity.tagEntities = normalisedTags.map((value) => {
       const existing = entity.tagEntities?.find((tag) => tag.value === value);
@@ -85,19 +140,51 @@ export const applyDtoToEntity = (
     entity.tagEntities = [];
   }
 
+  if (dto.assignees !== undefined) {
+    entity.assigneeEntities = Array.from(new Set(dto.assignees)).map(
+      (principal) => {
+        const existing = entity.assigneeEntities?.find(
+          (assignee) => assignee.principal === principal,
+        );
+        if (existing) {
+          return existing;
+        }
+        const assigneeEntity = new TaskAssigneeEntity();
+        assigneeEntity.principal = principal;
+        assigneeEntity.task = entity;
+        return assigneeEntity;
+      },
+    );
+  } else if (!entity.assigneeEntities) {
+    entity.assigneeEntities = [];
+  }
+
   return entity;
 };
 
 const taskEntityToPlain = (task: TaskEntity): Record<string, unknown> => ({
   id: task.id,
+  workspaceId: task.workspaceId,
   title: task.title,
+  description: task.description ?? null,
   status: task.status,
+  statusCategory: task.statusCategory,
   priority: task.priority,
   dueDate: task.dueDate ? task.dueDate.toISOString() : null,
   tags: task.tagEntities?.map((tag) => tag.value) ?? [],
+  assignees: task.assigneeEntities?.map((assignee) => assignee.principal) ?? [],
+  parentId: task.parentId ?? null,
+  recurrence: task.recurrence ?? null,
+  progress: {
+    done: Number(task.subtaskDoneCount ?? 0),
+    total: Number(task.subtaskCount ?? 0),
+  },
+  isBlocked: Boolean(task.isBlocked),
+  commentCount: Number(task.commentCount ?? 0),
   version: task.version,
   createdAt: task.createdAt.toISOString(),
   updatedAt: task.updatedAt.toISOString(),
+  deletedAt: task.deletedAt ? task.deletedAt.toISOString() : null,
 });
 
 export const toTaskResponse = (task: TaskEntity): TaskResponseDto =>
@@ -107,17 +194,98 @@ export const toTaskResponse = (task: TaskEntity): TaskResponseDto =>
 
 export const toTaskCollectionResponse = (
   result: ListTasksResult,
+  nextCursor: string | null,
 ): TaskCollectionResponseDto =>
   plainToInstance(
     TaskCollectionResponseDto,
     {
-      data: result.data.map(taskEntityToPlain),
+      data: result.data.map((task) => ({
+        ...taskEntityToPlain(task),
+        snippet: result.snippets?.get(task.id),
+      })),
       meta: {
         total: result.total,
         page: result.page,
         pageSize: result.pageSize,
+        nextCursor,
         statusCounts: result.statusCounts,
       },
     },
     { excludeExtraneousValues: true },
   );
+
+export const toTaskChildrenResponse = (
+  children: TaskEntity[],
+): TaskChildrenResponseDto =>
+  plainToInstance(
+    TaskChildrenResponseDto,
+    { data: children.map(taskEntityToPlain) },
+    { excludeExtraneousValues: true },
+  );
+
+export const toTaskDependenciesResponse = (
+  blockers: TaskEntity[],
+): TaskDependenciesResponseDto =>
+  plainToInstance(
+    TaskDependenciesResponseDto,
+    { data: blockers.map(taskEntityToPlain) },
+    { excludeExtraneousValues: true },
+  );
+
+export const toTaskTrashResponse = (
+  result: ListTrashResult,
+  page: number,
+  pageSize: number,
+): TaskTrashResponseDto =>
+  plainToInstance(
+    TaskTrashResponseDto,
+    {
+      data: result.data.map(taskEntityToPlain),
+      meta: { total: result.total, page, pageSize },
+    },
+    { excludeExtraneousValues: true },
+  );
+
+export const toBulkTasksResponse = (
+  results: BulkTaskResultDto[],
+): BulkTasksResponseDto =>
+  plainToInstance(
+    BulkTasksResponseDto,
+    { results },
+    { excludeExtraneousValues: true },
+  );
+
+export const toBulkTasksFailureProblem = (
+  results: BulkTaskResultDto[],
+): BulkTasksProblemDetails => {
+  const failed = results.filter((result) => result.problem).length;
+  return {
+    ...createProblemDetails(
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      'Bulk operation failed',
+      {
+        type: 'https://example.com/problems/bulk-operation-failed',
+        detail: `${failed} of ${results.length} operations failed; no changes were applied.`,
+      },
+    ),
+    results: results.map((result) =>
+      result.problem
+        ? result
+        : {
+            index: result.index,
+            op: result.op,
+            id: result.op === 'create' ? null : result.id,
+            status: HttpStatus.FAILED_DEPENDENCY,
+            problem: createProblemDetails(
+              HttpStatus.FAILED_DEPENDENCY,
+              'Rolled back',
+              {
+                type: 'https://example.com/problems/bulk-operation-rolled-back',
+                detail:
+                  'The operation succeeded but was rolled back because another operation in the batch failed.',
+              },
+            ),
+          },
+    ),
+  };
+};
@@ -0,0 +1,23 @@
+import { plainToInstance } from 'class-transformer';
+import { TaskWorkflowResponseDto } from '../dto/task-workflow-response.dto';
+import type { TaskWorkflow, WipLimitPolicy } from '../utils/task-workflow.util';
+
+export const toTaskWorkflowResponse = (
+  workflow: TaskWorkflow,
+  wipLimits: WipLimitPolicy,
+): TaskWorkflowResponseDto =>
+  plainToInstance(
+    TaskWorkflowResponseDto,
+    {
+      statuses: workflow.statuses.map((status) => ({
+        key: status.key,
+        label: status.label,
+        category: status.category,
+        transitions: [...status.transitions],
+        wipLimit: status.wipLimit,
+      })),
+      wipLimitScope: wipLimits.scope,
+      wipLimitEnforcement: wipLimits.enforcement,
+    },
+    { excludeExtraneousValues: true },
+  );
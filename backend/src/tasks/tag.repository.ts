@@ -0,0 +1,11 @@
+import { TagEntity } from './entities/tag.entity';
+
+export const TAG_REPOSITORY = Symbol('TAG_REPOSITORY');
+
+export interface TagRepository {
+  /** Details of every tag in the workspace that has any. */
+  findByWorkspace(workspaceId: string): Promise<TagEntity[]>;
+  findByKey(workspaceId: string, key: string): Promise<TagEntity | null>;
+  save(tag: TagEntity): Promise<TagEntity>;
+  delete(ids: string[]): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentWorkspace } from '../common/decorators/current-workspace.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { ListActivityQueryDto } from './dto/list-activity-query.dto';
+import { TaskActivityCollectionResponseDto } from './dto/task-activity-response.dto';
+import { TaskActivityService } from './task-activity.service';
+
+@Controller(['', 'workspaces/:workspace'])
+@UseGuards(ApiTokenGuard, WorkspaceGuard)
+@RequireScopes('tasks:read')
+export class TaskActivityController {
+  constructor(private readonly activityService: TaskActivityService) {}
+
+  @Get('activity')
+  list(
+    @CurrentWorkspace() workspaceId: string,
+    @Query() query: ListActivityQueryDto,
+  ): Promise<TaskActivityCollectionResponseDto> {
+    return this.activityService.listActivity(workspaceId, query);
+  }
+
+  @Get('tasks/:id/history')
+  history(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Query() query: ListActivityQueryDto,
+  ): Promise<TaskActivityCollectionResponseDto> {
+    return this.activityService.listTaskHistory(workspaceId, id, query);
+  }
+}
@@ -0,0 +1,45 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ListActivityQueryDto } from './dto/list-activity-query.dto';
+import { TaskActivityCollectionResponseDto } from './dto/task-activity-response.dto';
+import { toTaskActivityCollectionResponse } from './mappers/task-activity-mapper';
+import type { TaskRepository } from './task.repository';
+import { TASK_REPOSITORY } from './task.repository';
+
+@Injectable()
+export class TaskActivityService {
+  constructor(
+    @Inject(TASK_REPOSITORY)
+    private readonly repository: TaskRepository,
+  ) {}
+
+  async listActivity(
+    workspaceId: string,
+    query: ListActivityQueryDto,
+  ): Promise<TaskActivityCollectionResponseDto> {
+    const result = await this.repository
+      .forWorkspace(workspaceId)
+      .listActivity({
+        page: query.page,
+        pageSize: query.pageSize,
+      });
+    return toTaskActivityCollectionResponse(result, query.page, query.pageSize);
+  }
+
+  /** History stays readable after the task itself is deleted. */
+  async listTaskHistory(
+    workspaceId: string,
+    taskId: string,
+    query: ListActivityQueryDto,
+  ): Promise<TaskActivityCollectionResponseDto> {
+    const repository = this.repository.forWorkspace(workspaceId);
+    const result = await repository.listActivity({
+      taskId,
+      page: query.page,
+      pageSize: query.pageSize,
+    });
+    if (result.total === 0 && !(await repository.findById(taskId))) {
+      throw new NotFoundException(`Task with id ${taskId} not found`);
+    }
+    return toTaskActivityCollectionResponse(result, query.page, query.pageSize);
+  }
+}
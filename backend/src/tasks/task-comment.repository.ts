@@ -0,0 +1,11 @@
+import { TaskCommentEntity } from './entities/task-comment.entity';
+
+export const TASK_COMMENT_REPOSITORY = Symbol('TASK_COMMENT_REPOSITORY');
+
+export interface TaskCommentRepository {
+  /** Comments on the task, oldest first. */
+  findByTask(taskId: string): Promise<TaskCommentEntity[]>;
+  findById(taskId: string, id: string): Promise<TaskCommentEntity | null>;
+  save(comment: TaskCommentEntity): Promise<TaskCommentEntity>;
+  delete(id: string): Promise<void>;
+}
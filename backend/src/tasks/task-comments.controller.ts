@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentActor } from '../common/decorators/current-actor.decorator';
+import { CurrentWorkspace } from '../common/decorators/current-workspace.decorator';
+import { RequireRole } from '../common/decorators/require-role.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { RoleGuard } from '../common/guards/role.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import {
+  TaskCommentListResponseDto,
+  TaskCommentResponseDto,
+} from './dto/task-comment-response.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { TaskCommentsService } from './task-comments.service';
+
+@Controller(['tasks/:id/comments', 'workspaces/:workspace/tasks/:id/comments'])
+@UseGuards(ApiTokenGuard, RoleGuard, WorkspaceGuard)
+@RequireScopes('tasks:read')
+export class TaskCommentsController {
+  constructor(private readonly commentsService: TaskCommentsService) {}
+
+  @Get()
+  list(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) taskId: string,
+  ): Promise<TaskCommentListResponseDto> {
+    return this.commentsService.listComments(workspaceId, taskId);
+  }
+
+  @Post()
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  create(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) taskId: string,
+    @Body() dto: CreateTaskCommentDto,
+    @CurrentActor() actor: string,
+  ): Promise<TaskCommentResponseDto> {
+    return this.commentsService.createComment(workspaceId, taskId, dto, actor);
+  }
+
+  @Patch(':commentId')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  update(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) taskId: string,
+    @Param('commentId', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Body() dto: UpdateTaskCommentDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<TaskCommentResponseDto> {
+    return this.commentsService.updateComment(
+      workspaceId,
+      taskId,
+      id,
+      dto,
+      req,
+    );
+  }
+
+  @Delete(':commentId')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  @HttpCode(204)
+  remove(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) taskId: string,
+    @Param('commentId', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.commentsService.deleteComment(workspaceId, taskId, id, req);
+  }
+}
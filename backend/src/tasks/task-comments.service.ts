@@ -0,0 +1,103 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { assertRole } from '../common/guards/role.guard';
+import { CreateTaskCommentDto } from './dto/create-task-comment.dto';
+import {
+  TaskCommentListResponseDto,
+  TaskCommentResponseDto,
+} from './dto/task-comment-response.dto';
+import { UpdateTaskCommentDto } from './dto/update-task-comment.dto';
+import { TaskCommentEntity } from './entities/task-comment.entity';
+import {
+  toTaskCommentListResponse,
+  toTaskCommentResponse,
+} from './mappers/task-comment-mapper';
+import type { TaskCommentRepository } from './task-comment.repository';
+import { TASK_COMMENT_REPOSITORY } from './task-comment.repository';
+import { TasksService } from './tasks.service';
+
+/** Who is changing a comment: its author, or else someone with `admin`. */
+export type CommentEditor = Pick<AuthenticatedRequest, 'actor' | 'role'>;
+
+@Injectable()
+export class TaskCommentsService {
+  constructor(
+    @Inject(TASK_COMMENT_REPOSITORY)
+    private readonly repository: TaskCommentRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async listComments(
+    workspaceId: string,
+    taskId: string,
+  ): Promise<TaskCommentListResponseDto> {
+    await this.tasksService.getTask(workspaceId, taskId);
+    return toTaskCommentListResponse(await this.repository.findByTask(taskId));
+  }
+
+  async createComment(
+    workspaceId: string,
+    taskId: string,
+    dto: CreateTaskCommentDto,
+    actor: string,
+  ): Promise<TaskCommentResponseDto> {
+    await this.tasksService.getTask(workspaceId, taskId);
+    const comment = new TaskCommentEntity();
+    comment.taskId = taskId;
+    comment.author = actor;
+    comment.body = dto.body.trim();
+    const saved = await this.repository.save(comment);
+    // Task lists carry a comment count.
+    await this.tasksService.clearListCache();
+    return toTaskCommentResponse(saved);
+  }
+
+  async updateComment(
+    workspaceId: string,
+    taskId: string,
+    id: string,
+    dto: UpdateTaskCommentDto,
+    editor: CommentEditor,
+  ): Promise<TaskCommentResponseDto> {
+    await this.tasksService.getTask(workspaceId, taskId);
+    const comment = await this.findCommentOrThrow(taskId, id);
+    this.assertCanChange(comment, editor);
+    comment.body = dto.body.trim();
+    return toTaskCommentResponse(await this.repository.save(comment));
+  }
+
+  async deleteComment(
+    workspaceId: string,
+    taskId: string,
+    id: string,
+    editor: CommentEditor,
+  ): Promise<void> {
+    await this.tasksService.getTask(workspaceId, taskId);
+    this.assertCanChange(await this.findCommentOrThrow(taskId, id), editor);
+    await this.repository.delete(id);
+    await this.tasksService.clearListCache();
+  }
+
+  /** Other people's comments need the `admin` role. */
+  private assertCanChange(
+    comment: TaskCommentEntity,
+    editor: CommentEditor,
+  ): void {
+    if (comment.author !== editor.actor) {
+      assertRole(editor, 'admin');
+    }
+  }
+
+  private async findCommentOrThrow(
+    taskId: string,
+    id: string,
+  ): Promise<TaskCommentEntity> {
+    const comment = await this.repository.findById(taskId, id);
+    if (!comment) {
+      throw new NotFoundException(
+        `Comment with id ${id} not found on task ${taskId}`,
+      );
+    }
+    return comment;
+  }
+}
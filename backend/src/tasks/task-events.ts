@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import type { EntityManager } from 'typeorm';
+import type { TaskResponseDto } from './dto/task-response.dto';
+import type { TaskFieldChanges } from './entities/task-activity.entity';
+
+export const TASK_EVENT_TYPES = [
+  'task.created',
+  'task.updated',
+  'task.status_changed',
+  'task.deleted',
+] as const;
+
+export type TaskEventType = (typeof TASK_EVENT_TYPES)[number];
+
+export interface TaskEvent {
+  type: TaskEventType;
+  /** The task after the change; for deletions, as it was when trashed. */
+  task: TaskResponseDto;
+  /** Field-level before/after values, as recorded in the activity log. */
+  changes: TaskFieldChanges;
+  actor: string;
+  occurredAt: Date;
+}
+
+/**
+ * Stores work that must follow task events, such as webhook deliveries.
+ * `write` runs inside the transaction of the write that raised the events,
+ * through `manager`, so the work is kept exactly when the change commits.
+ */
+export interface TaskEventOutbox {
+  write(events: TaskEvent[], manager: EntityManager): Promise<void>;
+}
+
+/**
+ * In-process stream of committed task changes. `TasksService` publishes
+ * once a write has succeeded (after the whole batch for bulk requests), so
+ * subscribers never see changes that were rolled back. Subscribers that
+ * must not miss an event across a crash register an outbox instead.
+ */
+@Injectable()
+export class TaskEventBus {
+  private readonly subject = new Subject<TaskEvent>();
+  private readonly registeredOutboxes: TaskEventOutbox[] = [];
+
+  get events$(): Observable<TaskEvent> {
+    return this.subject.asObservable();
+  }
+
+  get outboxes(): readonly TaskEventOutbox[] {
+    return this.registeredOutboxes;
+  }
+
+  registerOutbox(outbox: TaskEventOutbox): void {
+    this.registeredOutboxes.push(outbox);
+  }
+
+  publish(events: TaskEvent[]): void {
+    events.forEach((event) => this.subject.next(event));
+  }
+}
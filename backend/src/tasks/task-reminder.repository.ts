@@ -0,0 +1,11 @@
+import { TaskEntity } from './entities/task.entity';
+import { TaskReminderEntity } from './entities/task-reminder.entity';
+
+export const TASK_REMINDER_REPOSITORY = Symbol('TASK_REMINDER_REPOSITORY');
+
+export interface TaskReminderRepository {
+  /** Unfinished live tasks due at or before `before`, soonest first. */
+  findTasksDueBefore(before: Date): Promise<TaskEntity[]>;
+  findSentReminders(taskIds: string[]): Promise<TaskReminderEntity[]>;
+  save(reminder: TaskReminderEntity): Promise<TaskReminderEntity>;
+}
@@ -1,7 +0,0 @@
-export enum TaskStatus {
-  TODO = 'todo',
-  DOING = 'doing',
-  DONE = 'done',
-}
-
-export const taskStatuses = Object.values(TaskStatus);
@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentActor } from '../common/decorators/current-actor.decorator';
+import { CurrentWorkspace } from '../common/decorators/current-workspace.decorator';
+import { RequireRole } from '../common/decorators/require-role.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { RoleGuard } from '../common/guards/role.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { MergeTagsDto } from './dto/merge-tags.dto';
+import { SuggestTagsQueryDto } from './dto/suggest-tags-query.dto';
+import { TagListResponseDto, TagResponseDto } from './dto/tag-response.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { TaskTagsService } from './task-tags.service';
+
+/** Tags are addressed by name, in any case; see `tagKey`. */
+@Controller(['tags', 'workspaces/:workspace/tags'])
+@UseGuards(ApiTokenGuard, RoleGuard, WorkspaceGuard)
+@RequireScopes('tasks:read')
+export class TaskTagsController {
+  constructor(private readonly tagsService: TaskTagsService) {}
+
+  @Get()
+  list(@CurrentWorkspace() workspaceId: string): Promise<TagListResponseDto> {
+    return this.tagsService.listTags(workspaceId);
+  }
+
+  /** For autocomplete: likely tags first, see `tagSuggestionScore`. */
+  @Get('suggest')
+  suggest(
+    @CurrentWorkspace() workspaceId: string,
+    @Query() query: SuggestTagsQueryDto,
+  ): Promise<TagListResponseDto> {
+    return this.tagsService.suggestTags(workspaceId, query);
+  }
+
+  @Post('merge')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  @HttpCode(200)
+  merge(
+    @CurrentWorkspace() workspaceId: string,
+    @Body() dto: MergeTagsDto,
+    @CurrentActor() actor: string,
+  ): Promise<TagResponseDto> {
+    return this.tagsService.mergeTags(workspaceId, dto, actor);
+  }
+
+  @Patch(':name')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  update(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('name') name: string,
+    @Body() dto: UpdateTagDto,
+    @CurrentActor() actor: string,
+  ): Promise<TagResponseDto> {
+    return this.tagsService.updateTag(workspaceId, name, dto, actor);
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import { MergeTagsDto } from './dto/merge-tags.dto';
+import { SuggestTagsQueryDto } from './dto/suggest-tags-query.dto';
+import { TagListResponseDto, TagResponseDto } from './dto/tag-response.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { TagEntity } from './entities/tag.entity';
+import { toTagListResponse, toTagResponse } from './mappers/tag-mapper';
+import type { TagRepository } from './tag.repository';
+import { TAG_REPOSITORY } from './tag.repository';
+import type { TaskRepository } from './task.repository';
+import { TASK_REPOSITORY } from './task.repository';
+import { TasksService } from './tasks.service';
+import {
+  TagTally,
+  tagKey,
+  tagSuggestionScore,
+  tallyTagUsage,
+} from './utils/task-tag.util';
+
+type TagView = readonly [TagTally, TagEntity | undefined];
+
+/**
+ * The tags of a workspace: the ones its tasks carry plus any that only have
+ * details left. Renames and merges rewrite the tasks themselves.
+ */
+@Injectable()
+export class TaskTagsService {
+  constructor(
+    @Inject(TASK_REPOSITORY)
+    private readonly taskRepository: TaskRepository,
+    @Inject(TAG_REPOSITORY)
+    private readonly repository: TagRepository,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async listTags(workspaceId: string): Promise<TagListResponseDto> {
+    const tags = Array.from((await this.loadTags(workspaceId)).values());
+    tags.sort(
+      ([a], [b]) => b.usageCount - a.usageCount || a.name.localeCompare(b.name),
+    );
+    return toTagListResponse(tags);
+  }
+
+  /**
+   * Tags starting with `prefix`, in any case, ranked by `tagSuggestionScore`
+   * and then by name.
+   */
+  async suggestTags(
+    workspaceId: string,
+    query: SuggestTagsQueryDto,
+  ): Promise<TagListResponseDto> {
+    const prefix = tagKey(query.prefix ?? '');
+    const now = new Date();
+    const ranked = Array.from(await this.loadTags(workspaceId))
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, tag]) => ({ tag, score: tagSuggestionScore(tag[0], now) }));
+    ranked.sort(
+      (a, b) => b.score - a.score || a.tag[0].name.localeCompare(b.tag[0].name),
+    );
+    return toTagListResponse(
+      ranked.slice(0, query.limit).map(({ tag }) => tag),
+    );
+  }
+
+  async updateTag(
+    workspaceId: string,
+    name: string,
+    dto: UpdateTagDto,
+    actor?: string,
+  ): Promise<TagResponseDto> {
+    const tags = await this.loadTags(workspaceId);
+    const [tally, existing] = this.findTagOrThrow(tags, name);
+    const renamed = dto.name?.trim() ?? tally.name;
+    const renamedKey = tagKey(renamed);
+    if (renamedKey !== tagKey(tally.name) && tags.has(renamedKey)) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.CONFLICT, 'Tag already exists', {
+          type: 'https://example.com/problems/tag-exists',
+          detail: `The workspace already has a tag "${tags.get(renamedKey)?.[0].name}"; merge the two instead.`,
+        }),
+      );
+    }
+    if (renamed !== tally.name) {
+      await this.tasksService.retagTasks(
+        workspaceId,
+        [tagKey(tally.name)],
+        renamed,
+        actor,
+      );
+    }
+
+    const details =
+      existing ?? Object.assign(new TagEntity(), { workspaceId, color: null });
+    details.key = renamedKey;
+    details.name = renamed;
+    if (dto.color !== undefined) {
+      details.color = dto.color?.toLowerCase() ?? null;
+    }
+    if (dto.description !== undefined) {
+      details.description = dto.description?.trim() || null;
+    }
+    details.description ??= null;
+    const saved =
+      existing || details.color || details.description
+        ? await this.repository.save(details)
+        : undefined;
+    return toTagResponse({ ...tally, name: renamed }, saved);
+  }
+
+  /**
+   * Retags every task carrying one of `sources` with `target`. The target
+   * keeps its details, or takes the first source's when it has none.
+   */
+  async mergeTags(
+    workspaceId: string,
+    dto: MergeTagsDto,
+    actor?: string,
+  ): Promise<TagResponseDto> {
+    const tags = await this.loadTags(workspaceId);
+    const sources = dto.sources.map((source) =>
+      this.findTagOrThrow(tags, source),
+    );
+    const targetKey = tagKey(dto.target);
+    const target = tags.get(targetKey);
+    const name = target?.[0].name ?? dto.target.trim();
+    const merged = sources.filter(
+      ([tally]) => tagKey(tally.name) !== targetKey,
+    );
+    await this.tasksService.retagTasks(
+      workspaceId,
+      merged.map(([tally]) => tagKey(tally.name)),
+      name,
+      actor,
+    );
+
+    const leftovers = merged.flatMap(([, details]) =>
+      details ? [details] : [],
+    );
+    const kept = target?.[1] ?? leftovers.shift();
+    await this.repository.delete(leftovers.map((details) => details.id));
+    if (kept) {
+      kept.key = targetKey;
+      kept.name = name;
+      await this.repository.save(kept);
+    }
+    return toTagResponse(
+      ...this.findTagOrThrow(await this.loadTags(workspaceId), name),
+    );
+  }
+
+  /** Tags by `tagKey`, with their details if they have any. */
+  private async loadTags(workspaceId: string): Promise<Map<string, TagView>> {
+    const tallies = tallyTagUsage(
+      await this.taskRepository.forWorkspace(workspaceId).getTagUsage(),
+    );
+    const tags = new Map<string, TagView>();
+    for (const [key, tally] of tallies) {
+      tags.set(key, [tally, undefined]);
+    }
+    for (const details of await this.repository.findByWorkspace(workspaceId)) {
+      tags.set(details.key, [
+        tallies.get(details.key) ?? {
+          name: details.name,
+          usageCount: 0,
+          lastUsedAt: null,
+        },
+        details,
+      ]);
+    }
+    return tags;
+  }
+
+  private findTagOrThrow(tags: Map<string, TagView>, name: string): TagView {
+    const tag = tags.get(tagKey(name));
+    if (!tag) {
+      throw new NotFoundException(`Tag "${name}" not found`);
+    }
+    return tag;
+  }
+}
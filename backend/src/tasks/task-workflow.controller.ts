@@ -0,0 +1,19 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { TaskWorkflowResponseDto } from './dto/task-workflow-response.dto';
+import { TaskWorkflowService } from './task-workflow.service';
+
+/** The workflow is shared by every workspace but served under each. */
+@Controller(['', 'workspaces/:workspace'])
+@UseGuards(ApiTokenGuard, WorkspaceGuard)
+@RequireScopes('tasks:read')
+export class TaskWorkflowController {
+  constructor(private readonly workflowService: TaskWorkflowService) {}
+
+  @Get('workflow')
+  get(): TaskWorkflowResponseDto {
+    return this.workflowService.getWorkflow();
+  }
+}
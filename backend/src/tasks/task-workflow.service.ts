@@ -0,0 +1,181 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import { TaskWorkflowResponseDto } from './dto/task-workflow-response.dto';
+import { TaskEntity } from './entities/task.entity';
+import { toTaskWorkflowResponse } from './mappers/task-workflow-mapper';
+import type { TaskRepository } from './task.repository';
+import { TASK_REPOSITORY } from './task.repository';
+import {
+  TaskStatusCategory,
+  TaskWorkflow,
+  WipLimitPolicy,
+  canTransition,
+  findWorkflowStatus,
+  parseTaskWorkflow,
+  parseWipLimitPolicy,
+} from './utils/task-workflow.util';
+
+/** The status and assignees of a task, as far as WIP limits care. */
+export interface WipPlacement {
+  status: string;
+  assignees: readonly string[];
+}
+
+/**
+ * The statuses configured through `TASK_WORKFLOW`. Tasks store their status
+ * key along with its category, which is re-synced on start-up in case the
+ * configuration changed.
+ */
+@Injectable()
+export class TaskWorkflowService implements OnApplicationBootstrap {
+  readonly workflow: TaskWorkflow;
+  readonly wipLimits: WipLimitPolicy;
+
+  constructor(
+    configService: ConfigService,
+    @Inject(TASK_REPOSITORY)
+    private readonly repository: TaskRepository,
+  ) {
+    this.workflow = parseTaskWorkflow(
+      configService.get<string>('TASK_WORKFLOW'),
+    );
+    this.wipLimits = parseWipLimitPolicy(
+      configService.get<string>('TASK_WIP_LIMIT_SCOPE'),
+      configService.get<string>('TASK_WIP_LIMIT_ENFORCEMENT'),
+    );
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.repository.syncStatusCategories(
+      new Map(
+        this.workflow.statuses.map((status) => [status.key, status.category]),
+      ),
+    );
+  }
+
+  getWorkflow(): TaskWorkflowResponseDto {
+    return toTaskWorkflowResponse(this.workflow, this.wipLimits);
+  }
+
+  /** Where new tasks start. */
+  get initialStatus(): string {
+    return this.workflow.statuses[0].key;
+  }
+
+  /** Statuses the workflow no longer has count as not started. */
+  categoryOf(status: string): TaskStatusCategory {
+    return findWorkflowStatus(this.workflow, status)?.category ?? 'todo';
+  }
+
+  /** Stores the category of the task's current status alongside it. */
+  categorize(task: TaskEntity): TaskEntity {
+    task.statusCategory = this.categoryOf(task.status);
+    return task;
+  }
+
+  /** Every status with a zero count, in board order, then any leftovers. */
+  countByStatus(counts: Record<string, number>): Record<string, number> {
+    const ordered: Record<string, number> = {};
+    for (const status of this.workflow.statuses) {
+      ordered[status.key] = 0;
+    }
+    return Object.assign(ordered, counts);
+  }
+
+  assertKnownStatus(status: string): void {
+    if (findWorkflowStatus(this.workflow, status)) {
+      return;
+    }
+    throw new ProblemDetailsException(
+      createProblemDetails(HttpStatus.UNPROCESSABLE_ENTITY, 'Unknown status', {
+        type: 'https://example.com/problems/unknown-status',
+        detail: `"${status}" is not a status of the workflow; see GET /workflow.`,
+      }),
+    );
+  }
+
+  assertTransition(from: string, to: string): void {
+    this.assertKnownStatus(to);
+    if (canTransition(this.workflow, from, to)) {
+      return;
+    }
+    const current = findWorkflowStatus(this.workflow, from);
+    const allowed =
+      current?.transitions.map((key) => `"${key}"`).join(', ') || 'nowhere';
+    throw new ProblemDetailsException(
+      createProblemDetails(
+        HttpStatus.CONFLICT,
+        'Status transition not allowed',
+        {
+          type: 'https://example.com/problems/invalid-status-transition',
+          detail: `A task cannot move from "${from}" to "${to}"; from "${from}" it can move to ${allowed}.`,
+        },
+      ),
+    );
+  }
+
+  /**
+   * Checks the WIP limit of the status a task ends up in, counting with
+   * `repository` before the write is saved. Only what the write adds is
+   * checked: the task entering the status, or under the `assignee` scope
+   * each assignee newly holding it there, so tasks already over a lowered
+   * limit can still be edited. Unassigned tasks count against no assignee.
+   * Going over is a 409, or in `warn` mode a note added to `warnings`.
+   */
+  async enforceWipLimit(
+    repository: TaskRepository,
+    before: WipPlacement | null,
+    after: WipPlacement,
+    warnings: string[],
+  ): Promise<void> {
+    const limit = findWorkflowStatus(this.workflow, after.status)?.wipLimit;
+    if (!limit) {
+      return;
+    }
+    const entering = before?.status !== after.status;
+    const over: string[] = [];
+    if (this.wipLimits.scope === 'workspace') {
+      const counts = entering ? await repository.getStatusCounts() : {};
+      if ((counts[after.status] ?? 0) >= limit) {
+        over.push('the workspace');
+      }
+    } else {
+      const added = entering
+        ? after.assignees
+        : after.assignees.filter(
+            (assignee) => !before?.assignees.includes(assignee),
+          );
+      for (const assignee of added) {
+        const counts = await repository.getStatusCounts({ assignee });
+        if ((counts[after.status] ?? 0) >= limit) {
+          over.push(assignee);
+        }
+      }
+    }
+    if (over.length === 0) {
+      return;
+    }
+    const detail = `"${after.status}" is limited to ${limit} ${limit === 1 ? 'task' : 'tasks'} ${
+      this.wipLimits.scope === 'workspace' ? 'per workspace' : 'per assignee'
+    } and is full for ${over.join(', ')}.`;
+    if (this.wipLimits.enforcement === 'warn') {
+      warnings.push(detail);
+      return;
+    }
+    throw new ProblemDetailsException(
+      createProblemDetails(HttpStatus.CONFLICT, 'WIP limit reached', {
+        type: 'https://example.com/problems/wip-limit-exceeded',
+        detail,
+      }),
+    );
+  }
+}
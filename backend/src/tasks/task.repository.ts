@@ -1,31 +1,150 @@
+import { TaskActivityEntity } from './entities/task-activity.entity';
 import { TaskEntity } from './entities/task.entity';
 import { TaskSortBy, TaskSortOrder } from './dto/list-tasks-query.dto';
-import { TaskStatus } from './task-status.enum';
+import type { TaskEvent, TaskEventOutbox } from './task-events';
+import type { TaskCursor } from './utils/task-cursor.util';
+import type { TagUsage } from './utils/task-tag.util';
+import type { TaskStatusCategory } from './utils/task-workflow.util';
 
 export const TASK_REPOSITORY = Symbol('TASK_REPOSITORY');
 
 export interface ListTasksOptions {
-  status?: TaskStatus;
+  status?: string;
   tag?: string;
+  /** A principal such as `user:<id>`; `me` is resolved before this point. */
+  assignee?: string;
+  /**
+   * Tasks nobody is assigned to. Together with `assignee` it widens the
+   * match to "assigned to them or to nobody".
+   */
+  unassigned?: boolean;
   search?: string;
   sortBy?: TaskSortBy;
   sortOrder: TaskSortOrder;
   page: number;
   pageSize: number;
+  /** Switches to keyset pagination; `page` is ignored when set. */
+  cursor?: TaskCursor;
 }
 
 export interface ListTasksResult {
   data: TaskEntity[];
-  total: number;
+  /** Omitted in cursor mode, which skips the count query. */
+  total?: number;
+  page?: number;
+  pageSize: number;
+  hasMore: boolean;
+  /** Highlighted search fragments keyed by task id, when searching. */
+  snippets?: ReadonlyMap<string, string>;
+  /** Only statuses that have tasks; the service adds the rest. */
+  statusCounts: Record<string, number>;
+}
+
+export interface ListActivityOptions {
+  /** Restricts the feed to one task's history. */
+  taskId?: string;
   page: number;
   pageSize: number;
-  statusCounts: Record<TaskStatus, number>;
 }
 
+export interface ListActivityResult {
+  data: TaskActivityEntity[];
+  total: number;
+}
+
+export interface ListTrashResult {
+  data: TaskEntity[];
+  total: number;
+}
+
+/**
+ * Unless noted, queries cover every workspace; `forWorkspace` narrows them to
+ * one. Requests always go through a scoped repository, background jobs may
+ * not.
+ */
 export interface TaskRepository {
+  /**
+   * The same repository limited to one workspace: lookups and lists skip
+   * other workspaces' tasks and activity, and `create` files new tasks under
+   * it. Dependencies and subtasks only ever link tasks of one workspace.
+   */
+  forWorkspace(workspaceId: string): TaskRepository;
   create(task: TaskEntity): Promise<TaskEntity>;
   save(task: TaskEntity): Promise<TaskEntity>;
+  /** Ignores trashed tasks, as do the other lookups unless noted. */
   findById(id: string): Promise<TaskEntity | null>;
-  delete(id: string): Promise<void>;
+  /** Moves the task to the trash; it keeps its tags and relations. */
+  softDelete(id: string): Promise<void>;
+  /** Takes the task back out of the trash. */
+  restore(id: string): Promise<void>;
+  /** A task currently in the trash. */
+  findTrashedById(id: string): Promise<TaskEntity | null>;
+  /** Trashed tasks, most recently deleted first. */
+  findTrashed(page: number, pageSize: number): Promise<ListTrashResult>;
+  /**
+   * Permanently deletes tasks trashed before `cutoff` and resolves to their
+   * ids and workspaces. Subtasks left behind become top-level tasks.
+   */
+  purgeTrashedBefore(
+    cutoff: Date,
+  ): Promise<Pick<TaskEntity, 'id' | 'workspaceId'>[]>;
   list(options: ListTasksOptions): Promise<ListTasksResult>;
+  /**
+   * Untrashed tasks per status, listing only statuses that have any;
+   * `assignee` narrows the count to that principal's tasks.
+   */
+  getStatusCounts(options?: {
+    assignee?: string;
+  }): Promise<Record<string, number>>;
+  /** Every spelling of a tag on untrashed tasks, with how many carry it. */
+  getTagUsage(): Promise<TagUsage[]>;
+  /**
+   * Tasks carrying any of the tags keyed `keys` (see `tagKey`), trashed
+   * ones included.
+   */
+  findTagged(keys: string[]): Promise<TaskEntity[]>;
+  /** Direct children, oldest first. */
+  findChildren(parentId: string): Promise<TaskEntity[]>;
+  /** Top-level tasks detached from `parentId` when it was trashed, oldest first. */
+  findDetachedFrom(parentId: string): Promise<TaskEntity[]>;
+  /**
+   * The task's own id followed by each ancestor's, nearest first; empty
+   * when the task is missing or trashed.
+   */
+  findLineageIds(id: string): Promise<string[]>;
+  /** Tasks that `taskId` depends on, oldest first. */
+  findBlockers(taskId: string): Promise<TaskEntity[]>;
+  /**
+   * The task's own id followed by every task it depends on, directly or
+   * through other dependencies.
+   */
+  findUpstreamIds(taskId: string): Promise<string[]>;
+  /** Records the dependency; adding an existing one is a no-op. */
+  addDependency(taskId: string, blockerId: string): Promise<void>;
+  /** Resolves to `false` when no such dependency exists. */
+  removeDependency(taskId: string, blockerId: string): Promise<boolean>;
+  /**
+   * Sets `statusCategory` on every task, trashed ones included, whose
+   * status is in `categories`. Tasks in other statuses keep theirs.
+   */
+  syncStatusCategories(
+    categories: ReadonlyMap<string, TaskStatusCategory>,
+  ): Promise<void>;
+  /** Appends an audit entry; inside `transaction` it rolls back with it. */
+  recordActivity(entry: TaskActivityEntity): Promise<void>;
+  /**
+   * Hands `events` to every outbox; inside `transaction` what they write
+   * rolls back with it.
+   */
+  recordEvents(
+    events: TaskEvent[],
+    outboxes: readonly TaskEventOutbox[],
+  ): Promise<void>;
+  /** Audit entries, newest first. */
+  listActivity(options: ListActivityOptions): Promise<ListActivityResult>;
+  /**
+   * Runs `work` against a repository bound to a single transaction; a
+   * rejection rolls back every write made through it.
+   */
+  transaction<T>(work: (repository: TaskRepository) => Promise<T>): Promise<T>;
 }
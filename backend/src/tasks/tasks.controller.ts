@@ -3,57 +3,274 @@ import {
   Controller,
   Delete,
   Get,
+  Headers,
   HttpCode,
   Logger,
+  MessageEvent,
   Param,
   ParseUUIDPipe,
   Patch,
   Post,
+  Put,
   Query,
+  Req,
+  Res,
+  Sse,
   UseGuards,
 } from '@nestjs/common';
+import type { Response } from 'express';
+import { Observable } from 'rxjs';
+import { CurrentActor } from '../common/decorators/current-actor.decorator';
+import { CurrentWorkspace } from '../common/decorators/current-workspace.decorator';
+import { RequireRole } from '../common/decorators/require-role.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
 import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { RoleGuard, assertRole } from '../common/guards/role.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { AddTaskDependencyDto } from './dto/add-task-dependency.dto';
+import { BulkTasksDto } from './dto/bulk-tasks.dto';
+import { BulkTasksResponseDto } from './dto/bulk-tasks-response.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
+import { ListTrashQueryDto } from './dto/list-trash-query.dto';
+import { ReparentTaskDto } from './dto/reparent-task.dto';
 import {
+  TaskChildrenResponseDto,
   TaskCollectionResponseDto,
+  TaskDependenciesResponseDto,
   TaskResponseDto,
+  TaskTrashResponseDto,
 } from './dto/task-response.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskEventStream } from './infrastructure/task-event.stream';
 import { TasksService } from './tasks.service';
+import { parseIfMatch, toTaskEtag } from './utils/task-etag.util';
+import { toWarningHeader } from './utils/task-workflow.util';
 
-@Controller('tasks')
+/** Passes on notes about WIP limits a write went over in `warn` mode. */
+const setWarningHeader = (res: Response, warnings: string[]): void => {
+  if (warnings.length > 0) {
+    res.setHeader('Warning', toWarningHeader(warnings));
+  }
+};
+
+/** Also served under `/workspaces/:workspace/tasks`; see `WorkspaceGuard`. */
+@Controller(['tasks', 'workspaces/:workspace/tasks'])
+@UseGuards(ApiTokenGuard, RoleGuard, WorkspaceGuard)
+@RequireScopes('tasks:read')
 export class TasksController {
   private readonly logger = new Logger(TasksController.name);
-  constructor(private readonly tasksService: TasksService) {}
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskEventStream: TaskEventStream,
+  ) {}
 
   @Post()
-  @UseGuards(ApiTokenGuard)
-  create(@Body() dto: CreateTaskDto): Promise<TaskResponseDto> {
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  async create(
+    @CurrentWorkspace() workspaceId: string,
+    @Body() dto: CreateTaskDto,
+    @CurrentActor() actor: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<TaskResponseDto> {
     this.logger.log('Creating a new task', dto);
-    return this.tasksService.createTask(dto);
+    const warnings: string[] = [];
+    const task = await this.tasksService.createTask(
+      workspaceId,
+      dto,
+      actor,
+      warnings,
+    );
+    res.setHeader('ETag', toTaskEtag(task));
+    setWarningHeader(res, warnings);
+    return task;
+  }
+
+  @Post('bulk')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  @HttpCode(200)
+  async bulk(
+    @CurrentWorkspace() workspaceId: string,
+    @Body() dto: BulkTasksDto,
+    @CurrentActor() actor: string,
+    @Req() req: AuthenticatedRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<BulkTasksResponseDto> {
+    // Deleting stays with admins, in a batch as much as on its own.
+    if (dto.operations.some((operation) => operation.op === 'delete')) {
+      assertRole(req, 'admin');
+    }
+    const warnings: string[] = [];
+    const result = await this.tasksService.bulkTasks(
+      workspaceId,
+      dto,
+      actor,
+      warnings,
+    );
+    setWarningHeader(res, warnings);
+    return result;
   }
 
   @Get()
-  list(@Query() query: ListTasksQueryDto): Promise<TaskCollectionResponseDto> {
-    return this.tasksService.listTasks(query);
+  list(
+    @CurrentWorkspace() workspaceId: string,
+    @Query() query: ListTasksQueryDto,
+    @CurrentActor() actor: string,
+  ): Promise<TaskCollectionResponseDto> {
+    return this.tasksService.listTasks(workspaceId, query, actor);
+  }
+
+  @Get('trash')
+  trash(
+    @CurrentWorkspace() workspaceId: string,
+    @Query() query: ListTrashQueryDto,
+  ): Promise<TaskTrashResponseDto> {
+    return this.tasksService.listTrash(workspaceId, query);
+  }
+
+  /**
+   * Server-Sent Events for created, updated and deleted tasks; browsers
+   * resume through `Last-Event-ID` when they reconnect.
+   */
+  @Sse('events')
+  events(
+    @CurrentWorkspace() workspaceId: string,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    return this.taskEventStream.stream(workspaceId, lastEventId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<TaskResponseDto> {
+    const task = await this.tasksService.getTask(workspaceId, id);
+    // Express answers a matching If-None-Match with 304 once the ETag is set.
+    res.setHeader('ETag', toTaskEtag(task));
+    return task;
+  }
+
+  @Get(':id/children')
+  children(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+  ): Promise<TaskChildrenResponseDto> {
+    return this.tasksService.listChildren(workspaceId, id);
+  }
+
+  @Put(':id/parent')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  async reparent(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Body() dto: ReparentTaskDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentActor() actor: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<TaskResponseDto> {
+    const task = await this.tasksService.reparentTask(
+      workspaceId,
+      id,
+      dto.parentId,
+      parseIfMatch(ifMatch),
+      actor,
+    );
+    res.setHeader('ETag', toTaskEtag(task));
+    return task;
+  }
+
+  @Get(':id/dependencies')
+  dependencies(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+  ): Promise<TaskDependenciesResponseDto> {
+    return this.tasksService.listDependencies(workspaceId, id);
+  }
+
+  @Post(':id/dependencies')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  addDependency(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Body() dto: AddTaskDependencyDto,
+  ): Promise<TaskDependenciesResponseDto> {
+    return this.tasksService.addDependency(workspaceId, id, dto.blockerId);
+  }
+
+  @Delete(':id/dependencies/:blockerId')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  @HttpCode(204)
+  removeDependency(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Param('blockerId', new ParseUUIDPipe({ version: '4' })) blockerId: string,
+  ): Promise<void> {
+    return this.tasksService.removeDependency(workspaceId, id, blockerId);
+  }
+
+  @Post(':id/restore')
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  @HttpCode(200)
+  async restore(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @CurrentActor() actor: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<TaskResponseDto> {
+    const task = await this.tasksService.restoreTask(workspaceId, id, actor);
+    res.setHeader('ETag', toTaskEtag(task));
+    return task;
   }
 
   @Patch(':id')
-  @UseGuards(ApiTokenGuard)
-  update(
+  @RequireScopes('tasks:write')
+  @RequireRole('member')
+  async update(
+    @CurrentWorkspace() workspaceId: string,
     @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
     @Body() dto: UpdateTaskDto,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentActor() actor: string,
+    @Res({ passthrough: true }) res: Response,
   ): Promise<TaskResponseDto> {
-    return this.tasksService.updateTask(id, dto);
+    const warnings: string[] = [];
+    const task = await this.tasksService.updateTask(
+      workspaceId,
+      id,
+      dto,
+      parseIfMatch(ifMatch),
+      actor,
+      warnings,
+    );
+    res.setHeader('ETag', toTaskEtag(task));
+    setWarningHeader(res, warnings);
+    return task;
   }
 
   @Delete(':id')
-  @UseGuards(ApiTokenGuard)
+  @RequireScopes('tasks:write')
+  @RequireRole('admin')
   @HttpCode(204)
   remove(
+    @CurrentWorkspace() workspaceId: string,
     @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Headers('if-match') ifMatch: string | undefined,
+    @CurrentActor() actor: string,
   ): Promise<void> {
-    return this.tasksService.deleteTask(id);
+    return this.tasksService.deleteTask(
+      workspaceId,
+      id,
+      parseIfMatch(ifMatch),
+      actor,
+    );
   }
 }
@@ -1,24 +1,101 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
 import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { RoleGuard } from '../common/guards/role.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { TagEntity } from './entities/tag.entity';
+import { TaskActivityEntity } from './entities/task-activity.entity';
+import { TaskAssigneeEntity } from './entities/task-assignee.entity';
+import { TaskCommentEntity } from './entities/task-comment.entity';
+import { TaskDependencyEntity } from './entities/task-dependency.entity';
+import { TaskReminderEntity } from './entities/task-reminder.entity';
 import { TaskEntity } from './entities/task.entity';
 import { TaskTagEntity } from './entities/task-tag.entity';
+import { TaskEventStream } from './infrastructure/task-event.stream';
+import { TaskReminderScheduler } from './infrastructure/task-reminder.scheduler';
+import { TaskSearchIndex } from './infrastructure/task-search.index';
+import { TaskTrashPurger } from './infrastructure/task-trash.purger';
+import { TypeOrmTagRepository } from './infrastructure/typeorm-tag.repository';
+import { TypeOrmTaskCommentRepository } from './infrastructure/typeorm-task-comment.repository';
+import { TypeOrmTaskReminderRepository } from './infrastructure/typeorm-task-reminder.repository';
 import { TypeOrmTaskRepository } from './infrastructure/typeorm-task.repository';
+import { TaskActivityController } from './task-activity.controller';
+import { TaskActivityService } from './task-activity.service';
+import { TaskWorkflowController } from './task-workflow.controller';
+import { TaskWorkflowService } from './task-workflow.service';
+import { TAG_REPOSITORY } from './tag.repository';
+import { TASK_COMMENT_REPOSITORY } from './task-comment.repository';
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskCommentsService } from './task-comments.service';
+import { TaskTagsController } from './task-tags.controller';
+import { TaskTagsService } from './task-tags.service';
+import { TASK_REMINDER_REPOSITORY } from './task-reminder.repository';
 import { TASK_REPOSITORY } from './task.repository';
+import { TaskEventBus } from './task-events';
 import { TasksController } from './tasks.controller';
 import { TasksService } from './tasks.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([TaskEntity, TaskTagEntity])],
-  controllers: [TasksController],
+  imports: [
+    TypeOrmModule.forFeature([
+      TaskEntity,
+      TaskTagEntity,
+      TaskAssigneeEntity,
+      TaskDependencyEntity,
+      TaskCommentEntity,
+      TaskActivityEntity,
+      TaskReminderEntity,
+      TagEntity,
+    ]),
+    ApiTokensModule,
+    WorkspacesModule,
+    NotificationsModule,
+  ],
+  controllers: [
+    TasksController,
+    TaskCommentsController,
+    TaskActivityController,
+    TaskWorkflowController,
+    TaskTagsController,
+  ],
   providers: [
     TasksService,
+    TaskEventBus,
+    TaskEventStream,
+    TaskCommentsService,
+    TaskActivityService,
+    TaskWorkflowService,
+    TaskTagsService,
+    TaskSearchIndex,
+    TaskTrashPurger,
+    TaskReminderScheduler,
     TypeOrmTaskRepository,
     ApiTokenGuard,
+    RoleGuard,
+    WorkspaceGuard,
     {
       provide: TASK_REPOSITORY,
       useExisting: TypeOrmTaskRepository,
     },
+    TypeOrmTaskCommentRepository,
+    {
+      provide: TASK_COMMENT_REPOSITORY,
+      useExisting: TypeOrmTaskCommentRepository,
+    },
+    TypeOrmTaskReminderRepository,
+    {
+      provide: TASK_REMINDER_REPOSITORY,
+      useExisting: TypeOrmTaskReminderRepository,
+    },
+    TypeOrmTagRepository,
+    {
+      provide: TAG_REPOSITORY,
+      useExisting: TypeOrmTagRepository,
+    },
   ],
+  exports: [TaskEventBus],
 })
 export class TasksModule {}
@@ -1,21 +1,44 @@
 import { randomUUID } from 'node:crypto';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { ApiTokensService } from '../api-tokens/api-tokens.service';
 import { ProblemDetailsException } from '../common/problem-details';
 import type { Cache } from 'cache-manager';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { ListTasksQueryDto } from './dto/list-tasks-query.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { TaskActivityEntity } from './entities/task-activity.entity';
 import {
+  ListActivityOptions,
+  ListActivityResult,
   ListTasksOptions,
   ListTasksResult,
+  ListTrashResult,
   TaskRepository,
 } from './task.repository';
-import { TaskStatus } from './task-status.enum';
+import { TaskEvent, TaskEventBus } from './task-events';
+import { TaskWorkflowService } from './task-workflow.service';
+import { tagKey } from './utils/task-tag.util';
+import type { TagUsage } from './utils/task-tag.util';
+import type { TaskStatusCategory } from './utils/task-workflow.util';
 import { TaskEntity } from './entities/task.entity';
 import { TasksService } from './tasks.service';
 import { TaskTagEntity } from './entities/task-tag.entity';
+import type { WorkspacesService } from '../workspaces/workspaces.service';
+
+const WORKSPACE_ID = 'workspace-1';
 
 class InMemoryTaskRepository implements TaskRepository {
   private readonly store = new Map<string, TaskEntity>();
+  private readonly dependencies = new Map<string, Set<string>>();
+  private readonly activity: TaskActivityEntity[] = [];
+  /** Events handed to the outboxes, kept unless their transaction fails. */
+  readonly recordedEvents: TaskEvent[] = [];
+
+  /** The service always scopes; these tests use a single workspace. */
+  forWorkspace(): TaskRepository {
+    return this;
+  }
 
   create(task: TaskEntity): Promise<TaskEntity> {
     const now = new Date();
@@ -47,16 +70,158 @@ class InMemoryTaskRepository implements TaskRepository {
 
   findById(id: string): Promise<TaskEntity | null> {
     const item = this.store.get(id);
-    return Promise.resolve(item ? this.clone(item) : null);
+    return Promise.resolve(item && !item.deletedAt ? this.clone(item) : null);
   }
 
-  delete(id: string): Promise<void> {
-    this.store.delete(id);
+  softDelete(id: string): Promise<void> {
+    this.setDeletedAt(id, new Date());
     return Promise.resolve();
   }
 
+  restore(id: string): Promise<void> {
+    this.setDeletedAt(id, null);
+    return Promise.resolve();
+  }
+
+  findTrashedById(id: string): Promise<TaskEntity | null> {
+    const item = this.store.get(id);
+    return Promise.resolve(item?.deletedAt ? this.clone(item) : null);
+  }
+
+  findTrashed(page: number, pageSize: number): Promise<ListTrashResult> {
+    const trashed = this.trashed();
+    const offset = (page - 1) * pageSize;
+    return Promise.resolve({
+      data: trashed.slice(offset, offset + pageSize),
+      total: trashed.length,
+    });
+  }
+
+  purgeTrashedBefore(
+    cutoff: Date,
+  ): Promise<Pick<TaskEntity, 'id' | 'workspaceId'>[]> {
+    const purged = this.trashed()
+      .filter((task) => task.deletedAt && task.deletedAt < cutoff)
+      .map(({ id, workspaceId }) => ({ id, workspaceId }));
+    purged.forEach(({ id }) => this.store.delete(id));
+    return Promise.resolve(purged);
+  }
+
+  findChildren(parentId: string): Promise<TaskEntity[]> {
+    return Promise.resolve(
+      Array.from(this.store.values())
+        .filter((task) => task.parentId === parentId)
+        .map((task) => this.clone(task)),
+    );
+  }
+
+  findDetachedFrom(parentId: string): Promise<TaskEntity[]> {
+    return Promise.resolve(
+      Array.from(this.store.values())
+        .filter(
+          (task) =>
+            !task.deletedAt &&
+            task.parentId === null &&
+            task.detachedFromId === parentId,
+        )
+        .map((task) => this.clone(task)),
+    );
+  }
+
+  findLineageIds(id: string): Promise<string[]> {
+    const lineage: string[] = [];
+    let current = this.store.get(id);
+    while (current && !lineage.includes(current.id)) {
+      lineage.push(current.id);
+      current = current.parentId ? this.store.get(current.parentId) : undefined;
+    }
+    return Promise.resolve(lineage);
+  }
+
+  findBlockers(taskId: string): Promise<TaskEntity[]> {
+    const blockerIds = Array.from(this.dependencies.get(taskId) ?? []);
+    return Promise.resolve(
+      blockerIds
+        .map((id) => this.store.get(id))
+        .filter((task): task is TaskEntity => task !== undefined)
+        .map((task) => this.clone(task)),
+    );
+  }
+
+  findUpstreamIds(taskId: string): Promise<string[]> {
+    const upstream = [taskId];
+    for (let index = 0; index < upstream.length; index += 1) {
+      for (const blockerId of this.dependencies.get(upstream[index]) ?? []) {
+        if (!upstream.includes(blockerId)) {
+          upstream.push(blockerId);
+        }
+      }
+    }
+    return Promise.resolve(upstream);
+  }
+
+  addDependency(taskId: string, blockerId: string): Promise<void> {
+    const blockerIds = this.dependencies.get(taskId) ?? new Set<string>();
+    this.dependencies.set(taskId, blockerIds.add(blockerId));
+    return Promise.resolve();
+  }
+
+  removeDependency(taskId: string, blockerId: string): Promise<boolean> {
+    return Promise.resolve(
+      this.dependencies.get(taskId)?.delete(blockerId) ?? false,
+    );
+  }
+
+  syncStatusCategories(
+    categories: ReadonlyMap<string, TaskStatusCategory>,
+  ): Promise<void> {
+    for (const task of this.store.values()) {
+      task.statusCategory = categories.get(task.status) ?? task.statusCategory;
+    }
+    return Promise.resolve();
+  }
+
+  recordActivity(entry: TaskActivityEntity): Promise<void> {
+    this.activity.push({ ...entry, id: randomUUID(), createdAt: new Date() });
+    return Promise.resolve();
+  }
+
+  recordEvents(events: TaskEvent[]): Promise<void> {
+    this.recordedEvents.push(...events);
+    return Promise.resolve();
+  }
+
+  listActivity(options: ListActivityOptions): Promise<ListActivityResult> {
+    const entries = this.activity
+      .filter((entry) => !options.taskId || entry.taskId === options.taskId)
+      .reverse();
+    const offset = (options.page - 1) * options.pageSize;
+    return Promise.resolve({
+      data: entries.slice(offset, offset + options.pageSize),
+      total: entries.length,
+    });
+  }
+
+  async transaction<T>(
+    work: (repository: TaskRepository) => Promise<T>,
+  ): Promise<T> {
+    const snapshot = new Map(this.store);
+    const activityCount = this.activity.length;
+    const eventCount = this.recordedEvents.length;
+    try {
+      return await work(this);
+    } catch (error) {
+      this.store.clear();
+      snapshot.forEach((task, id) => this.store.set(id, task));
+      this.activity.splice(activityCount);
+      this.recordedEvents.splice(eventCount);
+      throw error;
+    }
+  }
+
   list(options: ListTasksOptions): Promise<ListTasksResult> {
     const items = Array.from(this.store.values())
+      .filter((task) => !task.deletedAt)
       .map((task) => this.clone(task))
       .filter((task) =>
         options.status ? task.status === options.status : true,
@@ -75,23 +240,83 @@ class InMemoryTaskRepository implements TaskRepository {
 
     const offset = (options.page - 1) * options.pageSize;
     const data = items.slice(offset, offset + options.pageSize);
-    const statusCounts: Record<TaskStatus, number> = {
-      todo: 0,
-      doing: 0,
-      done: 0,
-    };
+    const statusCounts: Record<string, number> = {};
     for (const task of this.store.values()) {
-      statusCounts[task.status] += 1;
+      if (!task.deletedAt) {
+        statusCounts[task.status] = (statusCounts[task.status] ?? 0) + 1;
+      }
     }
     return Promise.resolve({
       data,
       total: items.length,
       page: options.page,
       pageSize: options.pageSize,
+      hasMore: offset + options.pageSize < items.length,
       statusCounts,
     });
   }
 
+  getStatusCounts(
+    options: { assignee?: string } = {},
+  ): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const task of this.store.values()) {
+      const assigned =
+        !options.assignee ||
+        task.assigneeEntities?.some(
+          (assignee) => assignee.principal === options.assignee,
+        );
+      if (!task.deletedAt && assigned) {
+        counts[task.status] = (counts[task.status] ?? 0) + 1;
+      }
+    }
+    return Promise.resolve(counts);
+  }
+
+  getTagUsage(): Promise<TagUsage[]> {
+    const usage = new Map<string, TagUsage>();
+    for (const task of this.store.values()) {
+      for (const tag of task.deletedAt ? [] : (task.tagEntities ?? [])) {
+        const entry = usage.get(tag.value);
+        usage.set(tag.value, {
+          value: tag.value,
+          count: (entry?.count ?? 0) + 1,
+          lastUsedAt:
+            entry && entry.lastUsedAt > task.updatedAt
+              ? entry.lastUsedAt
+              : task.updatedAt,
+        });
+      }
+    }
+    return Promise.resolve(Array.from(usage.values()));
+  }
+
+  findTagged(keys: string[]): Promise<TaskEntity[]> {
+    return Promise.resolve(
+      Array.from(this.store.values())
+        .filter((task) =>
+          task.tagEntities?.some((tag) => keys.includes(tagKey(tag.value))),
+        )
+        .map((task) => this.clone(task)),
+    );
+  }
+
+  private setDeletedAt(id: string, deletedAt: Date | null): void {
+    const task = this.store.get(id);
+    if (task) {
+      this.store.set(id, this.clone({ ...task, deletedAt }));
+    }
+  }
+
+  private trashed(): TaskEntity[] {
+    return Array.from(this.store.values())
+      .filter((task) => task.deletedAt)
+      .sort(
+        (a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0),
+      )
+      .map((task) => this.clone(task));
+  }
+
   private clone(task: TaskEntity): TaskEntity {
     const copy = new TaskEntity();
     Object.assign(copy, task);
@@ -108,8 +333,12 @@ class InMemoryTaskRepository implements TaskRepository {
 describe('TasksService', () => {
   let repository: InMemoryTaskRepository;
   let service: TasksService;
+  let taskEvents: TaskEventBus;
   let cache: Cache;
   let cacheMock: ReturnType<typeof createCacheMock>;
+  /** Every principal may be assigned unless a test says otherwise. */
+  let workspaces: { isMember: jest.Mock<Promise<boolean>> };
+  let apiTokens: { canUseWorkspace: jest.Mock<Promise<boolean>> };
 
   const createCacheMock = () => {
     const store = new Map<string, unknown>();
@@ -126,50 +355,513 @@ describe('TasksService', () => {
     };
   };
 
+  const createService = (config: Record<string, string> = {}) =>
+    new TasksService(
+      repository,
+      cache,
+      taskEvents,
+      new TaskWorkflowService(new ConfigService(config), repository),
+      workspaces as unknown as WorkspacesService,
+      apiTokens as unknown as ApiTokensService,
+    );
+
   beforeEach(() => {
     repository = new InMemoryTaskRepository();
+    workspaces = { isMember: jest.fn(() => Promise.resolve(true)) };
+    apiTokens = { canUseWorkspace: jest.fn(() => Promise.resolve(true)) };
     cacheMock = createCacheMock();
     cache = cacheMock as unknown as Cache;
-    service = new TasksService(repository, cache);
+    taskEvents = new TaskEventBus();
+    service = createService();
   });
 
   it('creates a task with sensible defaults', async () => {
     const payload = new CreateTaskDto();
     payload.title = 'Draft PRD';
 
-    const task = await service.createTask(payload);
+    const task = await service.createTask(WORKSPACE_ID, payload);
 
     expect(task.id).toBeDefined();
-    expect(task.status).toBe(TaskStatus.TODO);
+    expect(task.status).toBe('todo');
     expect(task.priority).toBe(3);
     expect(task.tags).toEqual([]);
   });
 
+  it('spells tags the way the workspace already does, whatever the case', async () => {
+    await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'First', tags: ['bug'] }),
+    );
+
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), {
+        title: 'Second',
+        tags: ['Bug', ' BUG ', 'Ops', 'ops'],
+      }),
+    );
+
+    expect(task.tags).toEqual(['bug', 'Ops']);
+  });
+
+  it('looks up a single task by id', async () => {
+    const createDto = new CreateTaskDto();
+    createDto.title = 'Deep link';
+    const created = await service.createTask(WORKSPACE_ID, createDto);
+
+    await expect(
+      service.getTask(WORKSPACE_ID, created.id),
+    ).resolves.toMatchObject({
+      id: created.id,
+      title: 'Deep link',
+      version: created.version,
+    });
+    await expect(
+      service.getTask(WORKSPACE_ID, randomUUID()),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
   it('enforces optimistic concurrency on updates', async () => {
     const createDto = new CreateTaskDto();
     createDto.title = 'Prototype feature';
     createDto.priority = 2;
-    const created = await service.createTask(createDto);
+    const created = await service.createTask(WORKSPACE_ID, createDto);
 
     const updateDto = new UpdateTaskDto();
     updateDto.title = 'Updated feature';
     updateDto.version = created.version - 1;
 
     await expect(
-      service.updateTask(created.id, updateDto),
+      service.updateTask(WORKSPACE_ID, created.id, updateDto),
     ).rejects.toBeInstanceOf(ProblemDetailsException);
   });
 
+  it('prefers If-Match over the body version', async () => {
+    const createDto = new CreateTaskDto();
+    createDto.title = 'Header precondition';
+    const created = await service.createTask(WORKSPACE_ID, createDto);
+
+    const updateDto = new UpdateTaskDto();
+    updateDto.title = 'Header precondition v2';
+    updateDto.version = created.version - 1;
+
+    const updated = await service.updateTask(
+      WORKSPACE_ID,
+      created.id,
+      updateDto,
+      [created.version],
+    );
+    expect(updated.title).toBe('Header precondition v2');
+
+    await expect(
+      service.updateTask(WORKSPACE_ID, created.id, updateDto, [
+        created.version,
+      ]),
+    ).rejects.toMatchObject({ status: 412 });
+  });
+
+  it('requires a precondition for updates and deletes', async () => {
+    const createDto = new CreateTaskDto();
+    createDto.title = 'Unguarded write';
+    const created = await service.createTask(WORKSPACE_ID, createDto);
+
+    const updateDto = new UpdateTaskDto();
+    updateDto.title = 'Blind overwrite';
+
+    await expect(
+      service.updateTask(WORKSPACE_ID, created.id, updateDto),
+    ).rejects.toMatchObject({ status: 428 });
+    await expect(
+      service.deleteTask(WORKSPACE_ID, created.id),
+    ).rejects.toMatchObject({
+      status: 428,
+    });
+    await expect(
+      service.deleteTask(WORKSPACE_ID, created.id, '*'),
+    ).resolves.toBeUndefined();
+    await expect(repository.findById(created.id)).resolves.toBeNull();
+  });
+
+  it('moves deleted tasks to the trash until restored or purged', async () => {
+    const create = (title: string) =>
+      service.createTask(
+        WORKSPACE_ID,
+        Object.assign(new CreateTaskDto(), { title }),
+      );
+    const kept = await create('Restore me');
+    const purged = await create('Purge me');
+    await service.deleteTask(WORKSPACE_ID, kept.id, '*');
+    await service.deleteTask(WORKSPACE_ID, purged.id, '*');
+
+    const listed = await service.listTasks(
+      WORKSPACE_ID,
+      new ListTasksQueryDto(),
+    );
+    expect(listed.data).toHaveLength(0);
+    expect(listed.meta.statusCounts.todo).toBe(0);
+    const trash = await service.listTrash(WORKSPACE_ID, {
+      page: 1,
+      pageSize: 25,
+    });
+    expect(trash.meta.total).toBe(2);
+
+    await expect(
+      service.restoreTask(WORKSPACE_ID, kept.id),
+    ).resolves.toMatchObject({
+      id: kept.id,
+      deletedAt: null,
+    });
+    await expect(
+      service.restoreTask(WORKSPACE_ID, kept.id),
+    ).rejects.toBeInstanceOf(NotFoundException);
+
+    await expect(service.purgeTrash(new Date(Date.now() + 1000))).resolves.toBe(
+      1,
+    );
+    await expect(repository.findTrashedById(purged.id)).resolves.toBeNull();
+    await expect(service.getTask(WORKSPACE_ID, kept.id)).resolves.toMatchObject(
+      {
+        title: 'Restore me',
+      },
+    );
+  });
+
+  it('spawns the next occurrence when a recurring task is completed', async () => {
+    const created = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), {
+        title: 'Release checklist',
+        priority: 2,
+        tags: ['release'],
+        dueDate: '2026-10-19T09:00:00.000Z',
+        recurrence: 'freq=weekly;byday=mo,th;count=2',
+      }),
+    );
+    expect(created.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=2');
+
+    const done = Object.assign(new UpdateTaskDto(), {
+      status: 'done',
+    });
+    const completed = await service.updateTask(
+      WORKSPACE_ID,
+      created.id,
+      done,
+      '*',
+    );
+    expect(completed.recurrence).toBeNull();
+
+    const listed = await service.listTasks(
+      WORKSPACE_ID,
+      new ListTasksQueryDto(),
+    );
+    const next = listed.data.find((task) => task.id !== created.id);
+    expect(next).toMatchObject({
+      title: 'Release checklist',
+      status: 'todo',
+      priority: 2,
+      tags: ['release'],
+      dueDate: '2026-10-22T09:00:00.000Z',
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO,TH;COUNT=1',
+    });
+
+    await service.updateTask(WORKSPACE_ID, next!.id, done, '*');
+    const after = await service.listTasks(
+      WORKSPACE_ID,
+      new ListTasksQueryDto(),
+    );
+    expect(after.meta.total).toBe(2);
+  });
+
+  it('records who changed which fields in the activity log', async () => {
+    const created = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Audit me' }),
+      'api-token:alice',
+    );
+    await service.updateTask(
+      WORKSPACE_ID,
+      created.id,
+      Object.assign(new UpdateTaskDto(), { title: 'Audit me', priority: 1 }),
+      '*',
+      'api-token:bob',
+    );
+    await service.deleteTask(WORKSPACE_ID, created.id, '*');
+
+    const { data, total } = await repository.listActivity({
+      taskId: created.id,
+      page: 1,
+      pageSize: 10,
+    });
+    expect(total).toBe(3);
+    expect(data.map(({ action, actor }) => ({ action, actor }))).toEqual([
+      { action: 'deleted', actor: 'system' },
+      { action: 'updated', actor: 'api-token:bob' },
+      { action: 'created', actor: 'api-token:alice' },
+    ]);
+    expect(data[1].changes).toEqual({ priority: { before: 3, after: 1 } });
+  });
+
+  it('refuses to nest a task under itself or its descendants', async () => {
+    const create = (title: string, parentId?: string) =>
+      service.createTask(
+        WORKSPACE_ID,
+        Object.assign(new CreateTaskDto(), { title, parentId }),
+      );
+    const epic = await create('Epic');
+    const story = await create('Story', epic.id);
+    const subtask = await create('Subtask', story.id);
+
+    for (const parentId of [epic.id, subtask.id]) {
+      await expect(
+        service.reparentTask(WORKSPACE_ID, epic.id, parentId, '*'),
+      ).rejects.toMatchObject({
+        response: {
+          status: 422,
+          type: 'https://example.com/problems/task-hierarchy-cycle',
+        },
+      });
+    }
+    await expect(create('Orphan', randomUUID())).rejects.toMatchObject({
+      response: { type: 'https://example.com/problems/parent-not-found' },
+    });
+    await expect(
+      service.reparentTask(WORKSPACE_ID, subtask.id, null, '*'),
+    ).resolves.toMatchObject({ parentId: null });
+  });
+
+  it('only assigns principals that may work in the workspace', async () => {
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), {
+        title: 'Staffed',
+        assignees: ['user:ada', 'api-token:bot'],
+      }),
+    );
+    expect(workspaces.isMember).toHaveBeenCalledWith(WORKSPACE_ID, 'ada');
+    expect(apiTokens.canUseWorkspace).toHaveBeenCalledWith('bot', WORKSPACE_ID);
+
+    workspaces.isMember.mockResolvedValue(false);
+    const assign = (assignees: string[]) =>
+      service.updateTask(
+        WORKSPACE_ID,
+        task.id,
+        Object.assign(new UpdateTaskDto(), { assignees }),
+        '*',
+      );
+    await expect(assign(['user:ada', 'user:eve'])).rejects.toMatchObject({
+      response: {
+        status: 422,
+        type: 'https://example.com/problems/unknown-assignee',
+      },
+    });
+    // Ada was assigned while still a member, so the assignment stays.
+    await expect(assign(['user:ada'])).resolves.toMatchObject({
+      assignees: ['user:ada'],
+    });
+  });
+
+  it('keeps blocked tasks from starting unless forced', async () => {
+    const create = (title: string) =>
+      service.createTask(
+        WORKSPACE_ID,
+        Object.assign(new CreateTaskDto(), { title }),
+      );
+    const design = await create('Design');
+    const build = await create('Build');
+    const ship = await create('Ship');
+
+    await service.addDependency(WORKSPACE_ID, build.id, design.id);
+    await service.addDependency(WORKSPACE_ID, ship.id, build.id);
+    for (const blockerId of [ship.id, build.id]) {
+      await expect(
+        service.addDependency(WORKSPACE_ID, build.id, blockerId),
+      ).rejects.toMatchObject({
+        response: {
+          status: 422,
+          type: 'https://example.com/problems/task-dependency-cycle',
+        },
+      });
+    }
+
+    const start = Object.assign(new UpdateTaskDto(), {
+      status: 'doing',
+    });
+    await expect(
+      service.updateTask(WORKSPACE_ID, build.id, start, '*'),
+    ).rejects.toMatchObject({
+      response: {
+        status: 409,
+        type: 'https://example.com/problems/task-blocked',
+      },
+    });
+    await expect(
+      service.updateTask(
+        WORKSPACE_ID,
+        build.id,
+        { ...start, force: true },
+        '*',
+      ),
+    ).resolves.toMatchObject({ status: 'doing' });
+
+    await service.updateTask(
+      WORKSPACE_ID,
+      design.id,
+      Object.assign(new UpdateTaskDto(), { status: 'done' }),
+      '*',
+    );
+    await service.removeDependency(WORKSPACE_ID, ship.id, build.id);
+    await expect(
+      service.updateTask(WORKSPACE_ID, ship.id, start, '*'),
+    ).resolves.toMatchObject({ status: 'doing' });
+  });
+
+  it('applies bulk operations and clears the list cache once', async () => {
+    const first = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Close me' }),
+    );
+    const second = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Delete me' }),
+    );
+    await service.listTasks(WORKSPACE_ID, new ListTasksQueryDto());
+    cacheMock.del.mockClear();
+
+    const response = await service.bulkTasks(WORKSPACE_ID, {
+      operations: [
+        { op: 'create', data: { title: 'Fresh task' } },
+        {
+          op: 'update',
+          id: first.id,
+          version: first.version,
+          data: { status: 'done' },
+        },
+        { op: 'delete', id: second.id, version: second.version },
+      ],
+    });
+
+    expect(response.results.map((result) => result.status)).toEqual([
+      201, 200, 204,
+    ]);
+    expect(response.results[1].data?.status).toBe('done');
+    await expect(repository.findById(second.id)).resolves.toBeNull();
+    expect(cacheMock.del).toHaveBeenCalledTimes(1);
+  });
+
+  it('publishes task events once the batch commits', async () => {
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Ship it' }),
+    );
+    const published: TaskEvent[] = [];
+    taskEvents.events$.subscribe((event) => published.push(event));
+
+    await expect(
+      service.bulkTasks(WORKSPACE_ID, {
+        operations: [
+          {
+            op: 'update',
+            id: task.id,
+            version: task.version,
+            data: { title: 'Renamed' },
+          },
+          { op: 'delete', id: randomUUID(), version: 0 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(ProblemDetailsException);
+    expect(published).toEqual([]);
+
+    await service.bulkTasks(WORKSPACE_ID, {
+      operations: [
+        {
+          op: 'update',
+          id: task.id,
+          version: task.version,
+          data: { status: 'done' },
+        },
+      ],
+    });
+    expect(published.map((event) => event.type)).toEqual([
+      'task.updated',
+      'task.status_changed',
+    ]);
+    expect(published[1]).toMatchObject({
+      actor: 'system',
+      task: { id: task.id, status: 'done' },
+      changes: { status: { before: 'todo', after: 'done' } },
+    });
+  });
+
+  it('records events for the outboxes only when the write commits', async () => {
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Ship it' }),
+    );
+    expect(repository.recordedEvents.map((event) => event.type)).toEqual([
+      'task.created',
+    ]);
+
+    await expect(
+      service.bulkTasks(WORKSPACE_ID, {
+        operations: [
+          {
+            op: 'update',
+            id: task.id,
+            version: task.version,
+            data: { title: 'Renamed' },
+          },
+          { op: 'delete', id: randomUUID(), version: 0 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(ProblemDetailsException);
+    expect(repository.recordedEvents).toHaveLength(1);
+
+    await service.deleteTask(WORKSPACE_ID, task.id, [task.version]);
+    expect(repository.recordedEvents.map((event) => event.type)).toEqual([
+      'task.created',
+      'task.deleted',
+    ]);
+  });
+
+  it('rolls back the whole batch when one operation fails', async () => {
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Stays put' }),
+    );
+
+    const attempt = service.bulkTasks(WORKSPACE_ID, {
+      operations: [
+        {
+          op: 'update',
+          id: task.id,
+          version: task.version,
+          data: { title: 'Renamed' },
+        },
+        { op: 'delete', id: task.id, version: task.version },
+      ],
+    });
+
+    await expect(attempt).rejects.toBeInstanceOf(ProblemDetailsException);
+    const problem = (await attempt.catch((error: ProblemDetailsException) =>
+      error.getResponse(),
+    )) as { results: { status: number }[] };
+    expect(problem.results.map((result) => result.status)).toEqual([424, 409]);
+    await expect(repository.findById(task.id)).resolves.toMatchObject({
+      title: 'Stays put',
+      version: task.version,
+    });
+  });
+
   it('returns cached list results for identical queries', async () => {
     const createDto = new CreateTaskDto();
     createDto.title = 'Draft release notes';
-    await service.createTask(createDto);
+    await service.createTask(WORKSPACE_ID, createDto);
 
     const query = new ListTasksQueryDto();
     const listSpy = jest.spyOn(repository, 'list');
 
-    await service.listTasks(query);
-    await service.listTasks(query);
+    await service.listTasks(WORKSPACE_ID, query);
+    await service.listTasks(WORKSPACE_ID, query);
 
     expect(listSpy).toHaveBeenCalledTimes(1);
     expect(cacheMock.get).toHaveBeenCalledTimes(2);
@@ -179,11 +871,11 @@ describe('TasksService', () => {
   it('invalidates cached list results after an update', async () => {
     const createDto = new CreateTaskDto();
     createDto.title = 'Refine cache behaviour';
-    const created = await service.createTask(createDto);
+    const created = await service.createTask(WORKSPACE_ID, createDto);
 
     const query = new ListTasksQueryDto();
-    await service.listTasks(query);
-    await service.listTasks(query);
+    await service.listTasks(WORKSPACE_ID, query);
+    await service.listTasks(WORKSPACE_ID, query);
 
     cacheMock.del.mockClear();
     cacheMock.get.mockClear();
@@ -192,31 +884,34 @@ describe('TasksService', () => {
     const updateDto = new UpdateTaskDto();
     updateDto.title = 'Refined cache behaviour';
     updateDto.version = created.version;
-    await service.updateTask(created.id, updateDto);
+    await service.updateTask(WORKSPACE_ID, created.id, updateDto);
 
     expect(cacheMock.del).toHaveBeenCalled();
 
     const listSpy = jest.spyOn(repository, 'list');
-    await service.listTasks(query);
+    await service.listTasks(WORKSPACE_ID, query);
     expect(listSpy).toHaveBeenCalledTimes(1);
   });
 
   it('includes global status counts in list responses', async () => {
     const todoDto = new CreateTaskDto();
     todoDto.title = 'Todo task';
-    await service.createTask(todoDto);
+    await service.createTask(WORKSPACE_ID, todoDto);
 
     const doingDto = new CreateTaskDto();
     doingDto.title = 'Doing task';
-    doingDto.status = TaskStatus.DOING;
-    await service.createTask(doingDto);
+    doingDto.status = 'doing';
+    await service.createTask(WORKSPACE_ID, doingDto);
 
     const doneDto = new CreateTaskDto();
     doneDto.title = 'Done task';
-    doneDto.status = TaskStatus.DONE;
-    await service.createTask(doneDto);
+    doneDto.status = 'done';
+    await service.createTask(WORKSPACE_ID, doneDto);
 
-    const response = await service.listTasks(new ListTasksQueryDto());
+    const response = await service.listTasks(
+      WORKSPACE_ID,
+      new ListTasksQueryDto(),
+    );
 
     expect(response.meta.statusCounts).toEqual({
       todo: 1,
@@ -224,4 +919,133 @@ describe('TasksService', () => {
       done: 1,
     });
   });
+
+  it('follows a configured workflow and counts its statuses', async () => {
+    service = createService({
+      TASK_WORKFLOW: JSON.stringify([
+        { key: 'backlog', category: 'todo', transitions: ['review'] },
+        { key: 'review', category: 'in-progress', transitions: ['shipped'] },
+        { key: 'shipped', category: 'done', transitions: [] },
+      ]),
+    });
+    const task = await service.createTask(
+      WORKSPACE_ID,
+      Object.assign(new CreateTaskDto(), { title: 'Write docs' }),
+    );
+    expect(task.status).toBe('backlog');
+
+    const ship = Object.assign(new UpdateTaskDto(), { status: 'shipped' });
+    await expect(
+      service.updateTask(WORKSPACE_ID, task.id, ship, '*'),
+    ).rejects.toMatchObject({
+      response: {
+        status: 409,
+        type: 'https://example.com/problems/invalid-status-transition',
+      },
+    });
+    await expect(
+      service.updateTask(
+        WORKSPACE_ID,
+        task.id,
+        Object.assign(new UpdateTaskDto(), { status: 'todo' }),
+        '*',
+      ),
+    ).rejects.toMatchObject({
+      response: {
+        status: 422,
+        type: 'https://example.com/problems/unknown-status',
+      },
+    });
+
+    await service.updateTask(
+      WORKSPACE_ID,
+      task.id,
+      Object.assign(new UpdateTaskDto(), { status: 'review' }),
+      '*',
+    );
+    await service.updateTask(WORKSPACE_ID, task.id, ship, '*');
+
+    const response = await service.listTasks(
+      WORKSPACE_ID,
+      new ListTasksQueryDto(),
+    );
+    expect(response.meta.statusCounts).toEqual({
+      backlog: 0,
+      review: 0,
+      shipped: 1,
+    });
+  });
+
+  describe('WIP limits', () => {
+    const limitedWorkflow = JSON.stringify([
+      { key: 'todo', category: 'todo' },
+      { key: 'doing', category: 'in-progress', wipLimit: 1 },
+      { key: 'done', category: 'done' },
+    ]);
+    const draft = (title: string, status: string, assignees: string[] = []) =>
+      Object.assign(new CreateTaskDto(), { title, status, assignees });
+
+    it('rejects a task moving into a full status', async () => {
+      service = createService({ TASK_WORKFLOW: limitedWorkflow });
+      await service.createTask(WORKSPACE_ID, draft('First', 'doing'));
+      const waiting = await service.createTask(
+        WORKSPACE_ID,
+        draft('Second', 'todo'),
+      );
+
+      await expect(
+        service.createTask(WORKSPACE_ID, draft('Third', 'doing')),
+      ).rejects.toMatchObject({
+        response: {
+          status: 409,
+          type: 'https://example.com/problems/wip-limit-exceeded',
+        },
+      });
+      await expect(
+        service.updateTask(
+          WORKSPACE_ID,
+          waiting.id,
+          Object.assign(new UpdateTaskDto(), { status: 'doing' }),
+          '*',
+        ),
+      ).rejects.toBeInstanceOf(ProblemDetailsException);
+    });
+
+    it('only warns when configured to, and counts per assignee', async () => {
+      service = createService({
+        TASK_WORKFLOW: limitedWorkflow,
+        TASK_WIP_LIMIT_SCOPE: 'assignee',
+        TASK_WIP_LIMIT_ENFORCEMENT: 'warn',
+      });
+      const warnings: string[] = [];
+      const first = await service.createTask(
+        WORKSPACE_ID,
+        draft('First', 'doing', ['user:ada']),
+        undefined,
+        warnings,
+      );
+      await service.createTask(
+        WORKSPACE_ID,
+        draft('Second', 'doing', ['user:bob']),
+        undefined,
+        warnings,
+      );
+      expect(warnings).toEqual([]);
+
+      await service.updateTask(
+        WORKSPACE_ID,
+        first.id,
+        Object.assign(new UpdateTaskDto(), {
+          assignees: ['user:ada', 'user:bob'],
+        }),
+        '*',
+        undefined,
+        warnings,
+      );
+
+      expect(warnings).toEqual([
+        '"doing" is limited to 1 task per assignee and is full for user:bob.',
+      ]);
+    });
+  });
 });
@@ -1,31 +1,103 @@
 import {
+  HttpException,
   HttpStatus,
   Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ApiTokensService } from '../api-tokens/api-tokens.service';
+import { SYSTEM_ACTOR } from '../common/decorators/current-actor.decorator';
 import {
   ProblemDetailsException,
   createProblemDetails,
+  httpExceptionToProblem,
 } from '../common/problem-details';
+import { BulkTaskOperationDto, BulkTasksDto } from './dto/bulk-tasks.dto';
+import {
+  BulkTaskResultDto,
+  BulkTasksResponseDto,
+} from './dto/bulk-tasks-response.dto';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { ListTasksQueryDto, TaskSortOrder } from './dto/list-tasks-query.dto';
 import {
+  TaskChildrenResponseDto,
   TaskCollectionResponseDto,
+  TaskDependenciesResponseDto,
   TaskResponseDto,
+  TaskTrashResponseDto,
 } from './dto/task-response.dto';
+import { ListTrashQueryDto } from './dto/list-trash-query.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import {
+  TaskActivityAction,
+  TaskActivityEntity,
+  TaskFieldChanges,
+} from './entities/task-activity.entity';
 import { TaskEntity } from './entities/task.entity';
 import type { TaskRepository } from './task.repository';
 import { TASK_REPOSITORY } from './task.repository';
+import { TaskEvent, TaskEventBus, TaskEventType } from './task-events';
+import { TaskWorkflowService } from './task-workflow.service';
+import type { WipPlacement } from './task-workflow.service';
+import { WorkspacesService } from '../workspaces/workspaces.service';
 import type { Cache } from 'cache-manager';
 import {
   applyDtoToEntity,
+  toBulkTasksFailureProblem,
+  toBulkTasksResponse,
+  toTaskChildrenResponse,
   toTaskCollectionResponse,
+  toTaskDependenciesResponse,
   toTaskResponse,
+  toTaskTrashResponse,
 } from './mappers/task-mapper';
+import {
+  TaskSnapshot,
+  diffTaskSnapshots,
+  snapshotTask,
+} from './utils/task-activity.util';
 import { createListCacheKey } from './utils/task-cache.util';
+import { tagKey, tallyTagUsage } from './utils/task-tag.util';
+import {
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from './utils/task-recurrence.util';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  resolveTaskSort,
+} from './utils/task-cursor.util';
+import type { IfMatchPrecondition } from './utils/task-etag.util';
+
+/** Aborts the bulk transaction once every operation has reported back. */
+class BulkRollbackError extends Error {}
+
+/**
+ * Who is writing, the events to publish once the write commits, and notes
+ * on WIP limits the write went over in `warn` mode.
+ */
+interface TaskWriteContext {
+  workspaceId: string;
+  actor: string;
+  events: TaskEvent[];
+  warnings: string[];
+}
+
+const wipPlacementOf = (task: TaskEntity): WipPlacement => ({
+  status: task.status,
+  assignees: task.assigneeEntities?.map((assignee) => assignee.principal) ?? [],
+});
+
+/** Restoring a task brings it back, which subscribers see as an update. */
+const TASK_EVENT_BY_ACTION: Partial<Record<TaskActivityAction, TaskEventType>> =
+  {
+    created: 'task.created',
+    updated: 'task.updated',
+    restored: 'task.updated',
+    deleted: 'task.deleted',
+  };
 
 @Injectable()
 export class TasksService {
@@ -36,30 +108,56 @@ export class TasksService {
     private readonly repository: TaskRepository,
     @Inject(CACHE_MANAGER)
     private readonly cacheManager: Cache,
+    private readonly taskEvents: TaskEventBus,
+    private readonly workflowService: TaskWorkflowService,
+    private readonly workspacesService: WorkspacesService,
+    private readonly apiTokensService: ApiTokensService,
   ) {}
 
-  async createTask(dto: CreateTaskDto): Promise<TaskResponseDto> {
-    const entity = applyDtoToEntity(new TaskEntity(), dto);
-    const saved = await this.repository.create(entity);
-    await this.clearListCache();
+  /** `warnings` receives a note for each WIP limit the task goes over. */
+  async createTask(
+    workspaceId: string,
+    dto: CreateTaskDto,
+    actor: string = SYSTEM_ACTOR,
+    warnings: string[] = [],
+  ): Promise<TaskResponseDto> {
+    const context = this.writeContext(workspaceId, actor, warnings);
+    const saved = await this.repository
+      .forWorkspace(workspaceId)
+      .transaction((repository) => this.insertTask(repository, dto, context));
+    await this.afterWrite(context);
     return toTaskResponse(saved);
   }
 
+  /** `actor` stands in for `assignee=me`. */
   async listTasks(
+    workspaceId: string,
     query: ListTasksQueryDto,
+    actor: string = SYSTEM_ACTOR,
   ): Promise<TaskCollectionResponseDto> {
+    if (query.status !== undefined) {
+      this.workflowService.assertKnownStatus(query.status);
+    }
     const sortOrder: TaskSortOrder = query.sortOrder ?? 'asc';
     const search = query.search?.trim();
     const tag = query.tag?.trim();
+    const assignee = query.assignee === 'me' ? actor : query.assignee;
+    // Relevance needs search terms; without them keep the default order.
+    const sortBy =
+      query.sortBy === 'relevance' && !search ? undefined : query.sortBy;
 
     const cacheKey = createListCacheKey({
+      workspaceId,
       status: query.status,
       tag,
+      assignee,
+      unassigned: query.unassigned,
       search,
-      sortBy: query.sortBy,
+      sortBy,
       sortOrder,
       page: query.page,
       pageSize: query.pageSize,
+      cursor: query.cursor,
     });
 
     const cached =
@@ -68,54 +166,915 @@ export class TasksService {
       return cached;
     }
 
-    const result = await this.repository.list({
+    const sort = resolveTaskSort(sortBy, sortOrder);
+    const result = await this.repository.forWorkspace(workspaceId).list({
       status: query.status,
       tag: tag && tag.length > 0 ? tag : undefined,
+      assignee,
+      unassigned: query.unassigned,
       search: search && search.length > 0 ? search : undefined,
-      sortBy: query.sortBy,
+      sortBy,
       sortOrder,
       page: query.page,
       pageSize: query.pageSize,
+      cursor: query.cursor ? decodeTaskCursor(query.cursor, sort) : undefined,
     });
 
-    const response = toTaskCollectionResponse(result);
+    const lastTask = result.data.at(-1);
+    const nextCursor =
+      result.hasMore && lastTask ? encodeTaskCursor(lastTask, sort) : null;
+    const response = toTaskCollectionResponse(
+      {
+        ...result,
+        statusCounts: this.workflowService.countByStatus(result.statusCounts),
+      },
+      nextCursor,
+    );
 
     await this.cacheManager.set(cacheKey, response);
     this.listCacheKeys.add(cacheKey);
     return response;
   }
 
-  async updateTask(id: string, dto: UpdateTaskDto): Promise<TaskResponseDto> {
-    const task = await this.repository.findById(id);
-    if (!task) {
-      throw new NotFoundException(`Task with id ${id} not found`);
+  async getTask(workspaceId: string, id: string): Promise<TaskResponseDto> {
+    const task = await this.findTaskOrThrow(
+      this.repository.forWorkspace(workspaceId),
+      id,
+    );
+    return toTaskResponse(task);
+  }
+
+  /** `warnings` receives a note for each WIP limit the task goes over. */
+  async updateTask(
+    workspaceId: string,
+    id: string,
+    dto: UpdateTaskDto,
+    ifMatch?: IfMatchPrecondition,
+    actor: string = SYSTEM_ACTOR,
+    warnings: string[] = [],
+  ): Promise<TaskResponseDto> {
+    const context = this.writeContext(workspaceId, actor, warnings);
+    const updated = await this.repository
+      .forWorkspace(workspaceId)
+      .transaction((repository) =>
+        this.modifyTask(
+          repository,
+          id,
+          dto,
+          ifMatch,
+          dto.version,
+          context,
+          dto.force,
+        ),
+      );
+    await this.afterWrite(context);
+    return toTaskResponse(updated);
+  }
+
+  async listChildren(
+    workspaceId: string,
+    id: string,
+  ): Promise<TaskChildrenResponseDto> {
+    const repository = this.repository.forWorkspace(workspaceId);
+    await this.findTaskOrThrow(repository, id);
+    return toTaskChildrenResponse(await repository.findChildren(id));
+  }
+
+  async reparentTask(
+    workspaceId: string,
+    id: string,
+    parentId: string | null,
+    ifMatch?: IfMatchPrecondition,
+    actor: string = SYSTEM_ACTOR,
+  ): Promise<TaskResponseDto> {
+    const context = this.writeContext(workspaceId, actor);
+    const updated = await this.repository
+      .forWorkspace(workspaceId)
+      .transaction((repository) =>
+        this.modifyTask(
+          repository,
+          id,
+          { parentId },
+          ifMatch,
+          undefined,
+          context,
+        ),
+      );
+    await this.afterWrite(context);
+    return toTaskResponse(updated);
+  }
+
+  async listDependencies(
+    workspaceId: string,
+    id: string,
+  ): Promise<TaskDependenciesResponseDto> {
+    const repository = this.repository.forWorkspace(workspaceId);
+    await this.findTaskOrThrow(repository, id);
+    return toTaskDependenciesResponse(await repository.findBlockers(id));
+  }
+
+  /**
+   * Makes `id` wait on `blockerId`. The blocker must not already depend on
+   * `id`, directly or transitively, or neither task could ever start.
+   */
+  async addDependency(
+    workspaceId: string,
+    id: string,
+    blockerId: string,
+  ): Promise<TaskDependenciesResponseDto> {
+    const repository = this.repository.forWorkspace(workspaceId);
+    await this.findTaskOrThrow(repository, id);
+    if (!(await repository.findById(blockerId))) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'Blocking task not found',
+          {
+            type: 'https://example.com/problems/blocking-task-not-found',
+            detail: `Task with id ${blockerId} does not exist.`,
+          },
+        ),
+      );
     }
+    const upstream = await repository.findUpstreamIds(blockerId);
+    if (upstream.includes(id)) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'Task dependency cycle',
+          {
+            type: 'https://example.com/problems/task-dependency-cycle',
+            detail:
+              'A task cannot depend on itself or on a task that already depends on it.',
+          },
+        ),
+      );
+    }
+    await repository.addDependency(id, blockerId);
+    await this.clearListCache();
+    return this.listDependencies(workspaceId, id);
+  }
+
+  async removeDependency(
+    workspaceId: string,
+    id: string,
+    blockerId: string,
+  ): Promise<void> {
+    const repository = this.repository.forWorkspace(workspaceId);
+    await this.findTaskOrThrow(repository, id);
+    if (!(await repository.removeDependency(id, blockerId))) {
+      throw new NotFoundException(
+        `Task with id ${id} does not depend on task ${blockerId}`,
+      );
+    }
+    await this.clearListCache();
+  }
 
-    if (task.version !== dto.version) {
+  async deleteTask(
+    workspaceId: string,
+    id: string,
+    ifMatch?: IfMatchPrecondition,
+    actor: string = SYSTEM_ACTOR,
+  ): Promise<void> {
+    const context = this.writeContext(workspaceId, actor);
+    await this.repository
+      .forWorkspace(workspaceId)
+      .transaction((repository) =>
+        this.removeTask(repository, id, ifMatch, undefined, context),
+      );
+    await this.afterWrite(context);
+  }
+
+  async listTrash(
+    workspaceId: string,
+    query: ListTrashQueryDto,
+  ): Promise<TaskTrashResponseDto> {
+    const result = await this.repository
+      .forWorkspace(workspaceId)
+      .findTrashed(query.page, query.pageSize);
+    return toTaskTrashResponse(result, query.page, query.pageSize);
+  }
+
+  async restoreTask(
+    workspaceId: string,
+    id: string,
+    actor: string = SYSTEM_ACTOR,
+  ): Promise<TaskResponseDto> {
+    const context = this.writeContext(workspaceId, actor);
+    const restored = await this.repository
+      .forWorkspace(workspaceId)
+      .transaction(async (repository) => {
+        if (!(await repository.findTrashedById(id))) {
+          throw new NotFoundException(`Task with id ${id} is not in the trash`);
+        }
+        await repository.restore(id);
+        const task = await this.findTaskOrThrow(repository, id);
+        await this.recordChange(
+          repository,
+          context,
+          'restored',
+          task,
+          null,
+          snapshotTask(task),
+        );
+        // Subtasks detached when the task was trashed come back under it.
+        for (const child of await repository.findDetachedFrom(id)) {
+          await this.moveUnder(repository, child, id, context);
+        }
+        // A parent that is itself in the trash cannot take the task back.
+        const parentGone =
+          task.parentId !== null &&
+          (await repository.findLineageIds(task.parentId)).length === 0;
+        return parentGone
+          ? this.moveUnder(repository, task, null, context)
+          : task;
+      });
+    await this.afterWrite(context);
+    return toTaskResponse(restored);
+  }
+
+  /**
+   * Permanently deletes tasks trashed before `cutoff`, in every workspace;
+   * returns how many.
+   */
+  async purgeTrash(cutoff: Date): Promise<number> {
+    const purged = await this.repository.purgeTrashedBefore(cutoff);
+    for (const task of purged) {
+      await this.recordActivity(
+        this.repository,
+        'purged',
+        task,
+        SYSTEM_ACTOR,
+        null,
+        null,
+      );
+    }
+    if (purged.length > 0) {
+      await this.clearListCache();
+    }
+    return purged.length;
+  }
+
+  /**
+   * Replaces the tags keyed `keys` with `name` on every task carrying one.
+   * Trashed tasks change too, so restoring one does not bring an old name
+   * back; the others record an update like any edit. Resolves to how many
+   * tasks changed.
+   */
+  async retagTasks(
+    workspaceId: string,
+    keys: string[],
+    name: string,
+    actor: string = SYSTEM_ACTOR,
+  ): Promise<number> {
+    const context = this.writeContext(workspaceId, actor);
+    const spellings = new Map([[tagKey(name), name]]);
+    const retagged = await this.repository
+      .forWorkspace(workspaceId)
+      .transaction(async (repository) => {
+        const tasks = await repository.findTagged(keys);
+        for (const task of tasks) {
+          const before = snapshotTask(task);
+          const tags = task.tagEntities.map((tag) =>
+            keys.includes(tagKey(tag.value)) ? name : tag.value,
+          );
+          applyDtoToEntity(task, { tags }, spellings);
+          // Only tag rows change otherwise, which leaves the version and
+          // with it the ETag as they were.
+          task.updatedAt = new Date();
+          const saved = await repository.save(task);
+          if (!saved.deletedAt) {
+            await this.recordChange(
+              repository,
+              context,
+              'updated',
+              saved,
+              before,
+              snapshotTask(saved),
+            );
+          }
+        }
+        return tasks.length;
+      });
+    await this.afterWrite(context);
+    return retagged;
+  }
+
+  /**
+   * Applies every operation inside one transaction. Failures are collected
+   * rather than thrown so the caller sees the outcome of the whole batch
+   * before anything is rolled back. `warnings` gathers the WIP limit notes
+   * of every operation.
+   */
+  async bulkTasks(
+    workspaceId: string,
+    dto: BulkTasksDto,
+    actor: string = SYSTEM_ACTOR,
+    warnings: string[] = [],
+  ): Promise<BulkTasksResponseDto> {
+    const results: BulkTaskResultDto[] = [];
+    const context = this.writeContext(workspaceId, actor, warnings);
+    try {
+      await this.repository
+        .forWorkspace(workspaceId)
+        .transaction(async (repository) => {
+          for (const [index, operation] of dto.operations.entries()) {
+            results.push(
+              await this.runBulkOperation(
+                repository,
+                index,
+                operation,
+                context,
+              ),
+            );
+          }
+          if (results.some((result) => result.problem)) {
+            throw new BulkRollbackError();
+          }
+        });
+    } catch (error) {
+      if (error instanceof BulkRollbackError) {
+        throw new ProblemDetailsException(toBulkTasksFailureProblem(results));
+      }
+      throw error;
+    }
+
+    await this.afterWrite(context);
+    return toBulkTasksResponse(results);
+  }
+
+  private async runBulkOperation(
+    repository: TaskRepository,
+    index: number,
+    operation: BulkTaskOperationDto,
+    context: TaskWriteContext,
+  ): Promise<BulkTaskResultDto> {
+    const { op } = operation;
+    try {
+      switch (op) {
+        case 'create': {
+          const created = await this.insertTask(
+            repository,
+            this.requireCreateData(operation),
+            context,
+          );
+          return {
+            index,
+            op,
+            id: created.id,
+            status: HttpStatus.CREATED,
+            data: toTaskResponse(created),
+          };
+        }
+        case 'update': {
+          const updated = await this.modifyTask(
+            repository,
+            this.requireOperationId(operation),
+            operation.data ?? {},
+            undefined,
+            operation.version,
+            context,
+            operation.force,
+          );
+          return {
+            index,
+            op,
+            id: updated.id,
+            status: HttpStatus.OK,
+            data: toTaskResponse(updated),
+          };
+        }
+        case 'delete': {
+          const id = this.requireOperationId(operation);
+          await this.removeTask(
+            repository,
+            id,
+            undefined,
+            operation.version,
+            context,
+          );
+          return { index, op, id, status: HttpStatus.NO_CONTENT };
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      return {
+        index,
+        op,
+        id: operation.id ?? null,
+        status: error.getStatus(),
+        problem: httpExceptionToProblem(error),
+      };
+    }
+  }
+
+  private requireCreateData(operation: BulkTaskOperationDto): CreateTaskDto {
+    const data = operation.data;
+    if (!data?.title) {
+      throw this.invalidOperation(
+        'data.title',
+        'title is required to create a task',
+      );
+    }
+    return { ...data, title: data.title };
+  }
+
+  private requireOperationId(operation: BulkTaskOperationDto): string {
+    if (!operation.id) {
+      throw this.invalidOperation(
+        'id',
+        `id is required to ${operation.op} a task`,
+      );
+    }
+    return operation.id;
+  }
+
+  private invalidOperation(
+    field: string,
+    message: string,
+  ): ProblemDetailsException {
+    return new ProblemDetailsException(
+      createProblemDetails(HttpStatus.BAD_REQUEST, 'Validation failed', {
+        type: 'https://example.com/problems/validation-error',
+        errors: { [field]: [message] },
+      }),
+    );
+  }
+
+  private async insertTask(
+    repository: TaskRepository,
+    dto: CreateTaskDto,
+    context: TaskWriteContext,
+  ): Promise<TaskEntity> {
+    if (dto.status !== undefined) {
+      this.workflowService.assertKnownStatus(dto.status);
+    }
+    const task = applyDtoToEntity(
+      new TaskEntity(),
+      {
+        ...dto,
+        status: dto.status ?? this.workflowService.initialStatus,
+      },
+      await this.tagSpellings(repository, dto.tags),
+    );
+    await this.assertAssignable(context, dto.assignees ?? [], []);
+    task.parentId = await this.resolveParentId(
+      repository,
+      null,
+      dto.parentId ?? null,
+    );
+    await this.workflowService.enforceWipLimit(
+      repository,
+      null,
+      wipPlacementOf(task),
+      context.warnings,
+    );
+    return this.createAndRecord(repository, task, context);
+  }
+
+  private async createAndRecord(
+    repository: TaskRepository,
+    task: TaskEntity,
+    context: TaskWriteContext,
+  ): Promise<TaskEntity> {
+    const created = await repository.create(
+      this.workflowService.categorize(task),
+    );
+    await this.recordChange(
+      repository,
+      context,
+      'created',
+      created,
+      null,
+      snapshotTask(created),
+    );
+    return created;
+  }
+
+  private async modifyTask(
+    repository: TaskRepository,
+    id: string,
+    changes: Partial<CreateTaskDto>,
+    ifMatch: IfMatchPrecondition | undefined,
+    bodyVersion: number | undefined,
+    context: TaskWriteContext,
+    force = false,
+  ): Promise<TaskEntity> {
+    const task = await this.findTaskOrThrow(repository, id);
+    this.assertPrecondition(task, ifMatch, bodyVersion);
+    const before = snapshotTask(task);
+    const placement = wipPlacementOf(task);
+    if (changes.assignees !== undefined) {
+      await this.assertAssignable(
+        context,
+        changes.assignees,
+        placement.assignees,
+      );
+    }
+    const target =
+      changes.status !== undefined && changes.status !== task.status
+        ? changes.status
+        : null;
+    if (target !== null) {
+      this.workflowService.assertTransition(task.status, target);
+    }
+    const category =
+      target === null ? null : this.workflowService.categoryOf(target);
+    const starts = category !== null && category !== 'todo';
+    if (starts && !force) {
+      await this.assertNotBlocked(repository, task);
+    }
+    if (changes.parentId !== undefined) {
+      task.parentId = await this.resolveParentId(
+        repository,
+        task.id,
+        changes.parentId,
+      );
+      task.detachedFromId = null;
+    }
+    const completes =
+      category === 'done' &&
+      this.workflowService.categoryOf(task.status) !== 'done';
+    applyDtoToEntity(
+      task,
+      changes,
+      await this.tagSpellings(repository, changes.tags),
+    );
+    this.workflowService.categorize(task);
+    await this.workflowService.enforceWipLimit(
+      repository,
+      placement,
+      wipPlacementOf(task),
+      context.warnings,
+    );
+    // The rule moves to the next occurrence, so reopening and completing
+    // this one again cannot spawn a duplicate.
+    const recurrence = completes ? task.recurrence : null;
+    if (recurrence) {
+      task.recurrence = null;
+    }
+    const saved = await repository.save(task);
+    await this.recordChange(
+      repository,
+      context,
+      'updated',
+      saved,
+      before,
+      snapshotTask(saved),
+    );
+    if (recurrence) {
+      await this.spawnNextOccurrence(repository, saved, recurrence, context);
+    }
+    return saved;
+  }
+
+  /** How the workspace already spells tags, when a write sets any. */
+  private async tagSpellings(
+    repository: TaskRepository,
+    tags: string[] | undefined,
+  ): Promise<Map<string, string>> {
+    const spellings = new Map<string, string>();
+    if (!tags?.length) {
+      return spellings;
+    }
+    for (const [key, { name }] of tallyTagUsage(
+      await repository.getTagUsage(),
+    )) {
+      spellings.set(key, name);
+    }
+    return spellings;
+  }
+
+  /**
+   * Creates the occurrence after `completed`, due one step of `recurrence`
+   * after its due date (or after now when it had none). Nothing is created
+   * once `COUNT` or `UNTIL` ends the series.
+   */
+  private async spawnNextOccurrence(
+    repository: TaskRepository,
+    completed: TaskEntity,
+    recurrence: string,
+    context: TaskWriteContext,
+  ): Promise<void> {
+    const next = nextOccurrence(
+      parseRecurrenceRule(recurrence),
+      completed.dueDate ?? new Date(),
+    );
+    if (!next) {
+      return;
+    }
+    const task = applyDtoToEntity(new TaskEntity(), {
+      title: completed.title,
+      description: completed.description,
+      status: this.workflowService.initialStatus,
+      priority: completed.priority,
+      dueDate: next.dueDate.toISOString(),
+      tags: completed.tagEntities.map((tag) => tag.value),
+      assignees: completed.assigneeEntities.map(
+        (assignee) => assignee.principal,
+      ),
+      recurrence: formatRecurrenceRule(next.rule),
+    });
+    task.parentId = completed.parentId;
+    await this.createAndRecord(repository, task, context);
+  }
+
+  /**
+   * Checks that each assignee not in `current` may work in the workspace: a
+   * user who is a member, or an API token that is live and not bound to
+   * another workspace. Assignees already on the task stay even if they no
+   * longer qualify, so unrelated edits keep working.
+   */
+  private async assertAssignable(
+    context: TaskWriteContext,
+    assignees: string[],
+    current: readonly string[],
+  ): Promise<void> {
+    for (const assignee of new Set(assignees)) {
+      if (current.includes(assignee)) {
+        continue;
+      }
+      const [kind, id] = assignee.split(':', 2);
+      const assignable =
+        kind === 'user'
+          ? await this.workspacesService.isMember(context.workspaceId, id)
+          : await this.apiTokensService.canUseWorkspace(
+              id,
+              context.workspaceId,
+            );
+      if (!assignable) {
+        throw new ProblemDetailsException(
+          createProblemDetails(
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            'Unknown assignee',
+            {
+              type: 'https://example.com/problems/unknown-assignee',
+              detail: `${assignee} cannot be assigned tasks in this workspace.`,
+            },
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks that `parentId` names an existing task outside the subtree of
+   * `taskId`; nesting a task under itself or a descendant would form a cycle.
+   */
+  private async resolveParentId(
+    repository: TaskRepository,
+    taskId: string | null,
+    parentId: string | null,
+  ): Promise<string | null> {
+    if (parentId === null) {
+      return null;
+    }
+    const lineage = await repository.findLineageIds(parentId);
+    if (lineage.length === 0) {
       throw new ProblemDetailsException(
-        createProblemDetails(HttpStatus.CONFLICT, 'Version conflict', {
-          type: 'https://example.com/problems/version-conflict',
-          detail:
-            'The task was updated by another request. Please refetch and try again.',
-        }),
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'Parent task not found',
+          {
+            type: 'https://example.com/problems/parent-not-found',
+            detail: `Task with id ${parentId} does not exist.`,
+          },
+        ),
+      );
+    }
+    if (taskId !== null && lineage.includes(taskId)) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'Task hierarchy cycle',
+          {
+            type: 'https://example.com/problems/task-hierarchy-cycle',
+            detail:
+              'A task cannot be nested under itself or one of its subtasks.',
+          },
+        ),
       );
     }
+    return parentId;
+  }
+
+  private async assertNotBlocked(
+    repository: TaskRepository,
+    task: TaskEntity,
+  ): Promise<void> {
+    const openBlockers = (await repository.findBlockers(task.id)).filter(
+      (blocker) => this.workflowService.categoryOf(blocker.status) !== 'done',
+    );
+    if (openBlockers.length === 0) {
+      return;
+    }
+    const titles = openBlockers.map((blocker) => `"${blocker.title}"`);
+    throw new ProblemDetailsException(
+      createProblemDetails(HttpStatus.CONFLICT, 'Task is blocked', {
+        type: 'https://example.com/problems/task-blocked',
+        detail: `Finish ${titles.join(', ')} first, or send force: true to move the task anyway.`,
+      }),
+    );
+  }
+
+  private async removeTask(
+    repository: TaskRepository,
+    id: string,
+    ifMatch: IfMatchPrecondition | undefined,
+    bodyVersion: number | undefined,
+    context: TaskWriteContext,
+  ): Promise<void> {
+    const task = await this.findTaskOrThrow(repository, id);
+    this.assertPrecondition(task, ifMatch, bodyVersion);
+    await repository.softDelete(id);
+    await this.recordChange(
+      repository,
+      context,
+      'deleted',
+      task,
+      snapshotTask(task),
+      null,
+    );
+    // Subtasks stay out of the trash as top-level tasks until the parent is
+    // restored, and for good once it is purged.
+    for (const child of await repository.findChildren(id)) {
+      await this.moveUnder(repository, child, null, context);
+    }
+  }
 
-    const updated = await this.repository.save(applyDtoToEntity(task, dto));
+  /**
+   * Sets the parent without the checks of a reparent, for the trash. A task
+   * moved to the top level remembers its parent so it can be moved back.
+   */
+  private async moveUnder(
+    repository: TaskRepository,
+    task: TaskEntity,
+    parentId: string | null,
+    context: TaskWriteContext,
+  ): Promise<TaskEntity> {
+    const before = snapshotTask(task);
+    task.detachedFromId = parentId === null ? task.parentId : null;
+    task.parentId = parentId;
+    const saved = await repository.save(task);
+    await this.recordChange(
+      repository,
+      context,
+      'updated',
+      saved,
+      before,
+      snapshotTask(saved),
+    );
+    return saved;
+  }
+
+  /**
+   * Audits a change to `task` and raises the matching events: the outboxes
+   * store them with the write, and they are published once it commits.
+   */
+  private async recordChange(
+    repository: TaskRepository,
+    context: TaskWriteContext,
+    action: TaskActivityAction,
+    task: TaskEntity,
+    before: TaskSnapshot | null,
+    after: TaskSnapshot | null,
+  ): Promise<void> {
+    const changes = await this.recordActivity(
+      repository,
+      action,
+      task,
+      context.actor,
+      before,
+      after,
+    );
+    if (!changes) {
+      return;
+    }
+    const event = {
+      task: toTaskResponse(task),
+      changes,
+      actor: context.actor,
+      occurredAt: new Date(),
+    };
+    const raised: TaskEvent[] = [];
+    const type = TASK_EVENT_BY_ACTION[action];
+    if (type) {
+      raised.push({ ...event, type });
+    }
+    if (action === 'updated' && changes.status) {
+      raised.push({ ...event, type: 'task.status_changed' });
+    }
+    if (raised.length > 0) {
+      await repository.recordEvents(raised, this.taskEvents.outboxes);
+      context.events.push(...raised);
+    }
+  }
+
+  /**
+   * Writes an audit entry; updates that changed nothing are skipped, which
+   * resolves to `null`.
+   */
+  private async recordActivity(
+    repository: TaskRepository,
+    action: TaskActivityAction,
+    task: Pick<TaskEntity, 'id' | 'workspaceId'>,
+    actor: string,
+    before: TaskSnapshot | null,
+    after: TaskSnapshot | null,
+  ): Promise<TaskFieldChanges | null> {
+    const changes = diffTaskSnapshots(before, after);
+    if (action === 'updated' && Object.keys(changes).length === 0) {
+      return null;
+    }
+    const entry = new TaskActivityEntity();
+    entry.taskId = task.id;
+    entry.workspaceId = task.workspaceId;
+    entry.action = action;
+    entry.actor = actor;
+    entry.changes = changes;
+    await repository.recordActivity(entry);
+    return changes;
+  }
+
+  private writeContext(
+    workspaceId: string,
+    actor: string,
+    warnings: string[] = [],
+  ): TaskWriteContext {
+    return { workspaceId, actor, events: [], warnings };
+  }
+
+  private async afterWrite(context: TaskWriteContext): Promise<void> {
     await this.clearListCache();
-    return toTaskResponse(updated);
+    this.taskEvents.publish(context.events);
   }
 
-  async deleteTask(id: string): Promise<void> {
-    const task = await this.repository.findById(id);
+  private async findTaskOrThrow(
+    repository: TaskRepository,
+    id: string,
+  ): Promise<TaskEntity> {
+    const task = await repository.findById(id);
     if (!task) {
       throw new NotFoundException(`Task with id ${id} not found`);
     }
-    await this.repository.delete(id);
-    await this.clearListCache();
+    return task;
+  }
+
+  /**
+   * `If-Match` wins over the legacy body `version`; a request carrying
+   * neither is rejected so stale clients cannot overwrite blindly.
+   */
+  private assertPrecondition(
+    task: TaskEntity,
+    ifMatch: IfMatchPrecondition | undefined,
+    bodyVersion?: number,
+  ): void {
+    if (ifMatch !== undefined) {
+      if (ifMatch !== '*' && !ifMatch.includes(task.version)) {
+        throw new ProblemDetailsException(
+          createProblemDetails(
+            HttpStatus.PRECONDITION_FAILED,
+            'Precondition failed',
+            {
+              type: 'https://example.com/problems/precondition-failed',
+              detail:
+                'The task was updated by another request. Please refetch and try again.',
+            },
+          ),
+        );
+      }
+      return;
+    }
+
+    if (bodyVersion === undefined) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.PRECONDITION_REQUIRED,
+          'Precondition required',
+          {
+            type: 'https://example.com/problems/precondition-required',
+            detail:
+              'Send an If-Match header with the task ETag to modify this task.',
+          },
+        ),
+      );
+    }
+
+    if (task.version !== bodyVersion) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.CONFLICT, 'Version conflict', {
+          type: 'https://example.com/problems/version-conflict',
+          detail:
+            'The task was updated by another request. Please refetch and try again.',
+        }),
+      );
+    }
   }
 
-  private async clearListCache(): Promise<void> {
+  /** Drops every cached list page; call after writes that change them. */
+  async clearListCache(): Promise<void> {
     if (this.listCacheKeys.size === 0) {
       return;
     }
@@ -0,0 +1,41 @@
+import { TaskEntity } from '../entities/task.entity';
+import { TaskTagEntity } from '../entities/task-tag.entity';
+import { diffTaskSnapshots, snapshotTask } from './task-activity.util';
+
+const buildTask = (overrides: Partial<TaskEntity> = {}): TaskEntity =>
+  Object.assign(new TaskEntity(), {
+    title: 'Write changelog',
+    description: null,
+    status: 'todo',
+    priority: 3,
+    dueDate: new Date('2025-01-10T00:00:00.000Z'),
+    tagEntities: ['docs'].map((value) =>
+      Object.assign(new TaskTagEntity(), { value }),
+    ),
+    parentId: null,
+    recurrence: null,
+    ...overrides,
+  });
+
+describe('diffTaskSnapshots', () => {
+  it('reports only the fields that changed', () => {
+    const before = snapshotTask(buildTask());
+    const after = snapshotTask(buildTask({ status: 'done', dueDate: null }));
+
+    expect(diffTaskSnapshots(before, after)).toEqual({
+      status: { before: 'todo', after: 'done' },
+      dueDate: { before: '2025-01-10T00:00:00.000Z', after: null },
+    });
+    expect(diffTaskSnapshots(before, before)).toEqual({});
+  });
+
+  it('reports every field when the task is created or deleted', () => {
+    const snapshot = snapshotTask(buildTask());
+
+    expect(diffTaskSnapshots(null, snapshot)).toMatchObject({
+      title: { before: null, after: 'Write changelog' },
+      tags: { before: null, after: ['docs'] },
+    });
+    expect(Object.keys(diffTaskSnapshots(snapshot, null))).toHaveLength(9);
+  });
+});
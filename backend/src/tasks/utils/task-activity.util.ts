@@ -0,0 +1,58 @@
+import type { TaskFieldChanges } from '../entities/task-activity.entity';
+import { TaskEntity } from '../entities/task.entity';
+
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'dueDate',
+  'tags',
+  'assignees',
+  'parentId',
+  'recurrence',
+] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export type TaskSnapshot = Record<TrackedField, unknown>;
+
+/** The audited fields of a task, in their JSON representation. */
+export const snapshotTask = (task: TaskEntity): TaskSnapshot => ({
+  title: task.title,
+  description: task.description ?? null,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+  tags: task.tagEntities?.map((tag) => tag.value) ?? [],
+  assignees: task.assigneeEntities?.map((assignee) => assignee.principal) ?? [],
+  parentId: task.parentId ?? null,
+  recurrence: task.recurrence ?? null,
+});
+
+/**
+ * Lists the fields whose value differs between two snapshots. A missing
+ * snapshot stands for a task that does not exist yet (or any more), so every
+ * field is reported; with neither there is nothing to compare.
+ */
+export const diffTaskSnapshots = (
+  before: TaskSnapshot | null,
+  after: TaskSnapshot | null,
+): TaskFieldChanges => {
+  const changes: TaskFieldChanges = {};
+  if (before === null && after === null) {
+    return changes;
+  }
+  for (const field of TRACKED_FIELDS) {
+    const previous = before ? before[field] : null;
+    const next = after ? after[field] : null;
+    if (
+      before === null ||
+      after === null ||
+      JSON.stringify(previous) !== JSON.stringify(next)
+    ) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+};
@@ -2,25 +2,32 @@ import type {
   ListTasksQueryDto,
   TaskSortOrder,
 } from '../dto/list-tasks-query.dto';
-import type { TaskStatus } from '../task-status.enum';
 
 type CacheKeyOptions = {
-  status?: TaskStatus;
+  workspaceId: string;
+  status?: string;
   tag?: string;
+  assignee?: string;
+  unassigned?: boolean;
   search?: string;
   sortBy?: ListTasksQueryDto['sortBy'];
   sortOrder: TaskSortOrder;
   page?: number;
   pageSize?: number;
+  cursor?: string;
 };
 
 export const createListCacheKey = (options: CacheKeyOptions): string =>
   `tasks:list:${JSON.stringify({
+    workspaceId: options.workspaceId,
     status: options.status ?? null,
     tag: options.tag ?? null,
+    assignee: options.assignee ?? null,
+    unassigned: options.unassigned ?? null,
     search: options.search ?? null,
     sortBy: options.sortBy ?? null,
     sortOrder: options.sortOrder,
     page: options.page ?? null,
     pageSize: options.pageSize ?? null,
+    cursor: options.cursor ?? null,
   })}`;
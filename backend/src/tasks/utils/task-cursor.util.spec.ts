@@ -0,0 +1,70 @@
+import { ProblemDetailsException } from '../../common/problem-details';
+import { TaskEntity } from '../entities/task.entity';
+import {
+  decodeTaskCursor,
+  encodeTaskCursor,
+  resolveTaskSort,
+} from './task-cursor.util';
+import type { TaskSort } from './task-cursor.util';
+
+const buildTask = (overrides: Partial<TaskEntity> = {}): TaskEntity =>
+  Object.assign(new TaskEntity(), {
+    id: '2ebb0d3e-4816-4d8f-80c5-91a8beb783d5',
+    priority: 2,
+    dueDate: null,
+    createdAt: new Date('2030-01-01T08:00:00.000Z'),
+    ...overrides,
+  });
+
+const cursorFor = (task: TaskEntity, sort: TaskSort): string => {
+  const cursor = encodeTaskCursor(task, sort);
+  if (cursor === null) {
+    throw new Error(`no cursor for ${sort.key}`);
+  }
+  return cursor;
+};
+
+describe('task cursor', () => {
+  it('defaults to newest-first when no sort is requested', () => {
+    expect(resolveTaskSort(undefined, 'asc')).toEqual({
+      key: 'createdAt',
+      order: 'desc',
+    });
+  });
+
+  it('round-trips the sort key value and id', () => {
+    const sort = resolveTaskSort('dueDate', 'asc');
+    const task = buildTask({ dueDate: new Date('2030-02-01T00:00:00.000Z') });
+
+    expect(decodeTaskCursor(cursorFor(task, sort), sort)).toEqual({
+      key: 'dueDate',
+      order: 'asc',
+      value: '2030-02-01T00:00:00.000Z',
+      id: task.id,
+    });
+  });
+
+  it('rejects cursors issued for another sort or tampered with', () => {
+    const cursor = cursorFor(buildTask(), resolveTaskSort('priority', 'asc'));
+
+    expect(() =>
+      decodeTaskCursor(cursor, resolveTaskSort('priority', 'desc')),
+    ).toThrow(ProblemDetailsException);
+    expect(() =>
+      decodeTaskCursor('not-a-cursor', resolveTaskSort('priority', 'asc')),
+    ).toThrow(ProblemDetailsException);
+  });
+
+  it('does not page relevance-ranked results by cursor', () => {
+    const sort = resolveTaskSort('relevance', 'desc');
+
+    expect(sort.order).toBe('asc');
+    expect(encodeTaskCursor(buildTask(), sort)).toBeNull();
+    expect(() =>
+      decodeTaskCursor(
+        cursorFor(buildTask(), resolveTaskSort('priority', 'asc')),
+        sort,
+      ),
+    ).toThrow(ProblemDetailsException);
+  });
+});
@@ -0,0 +1,119 @@
+import { HttpStatus } from '@nestjs/common';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../../common/problem-details';
+import type { TaskSortBy, TaskSortOrder } from '../dto/list-tasks-query.dto';
+import type { TaskEntity } from '../entities/task.entity';
+
+/** Relevance depends on the search terms, so it cannot seed a cursor. */
+export type TaskCursorKey = Exclude<TaskSortBy, 'relevance'> | 'createdAt';
+
+export interface TaskSort {
+  key: TaskSortBy | 'createdAt';
+  order: TaskSortOrder;
+}
+
+/**
+ * Decoded keyset position: the sort key value of the last row served plus
+ * its id, which breaks ties between rows sharing the same key value.
+ */
+export interface TaskCursor extends TaskSort {
+  key: TaskCursorKey;
+  value: string | number | null;
+  id: string;
+}
+
+/**
+ * Without an explicit `sortBy` the list is newest-first; relevance always
+ * lists the best match first.
+ */
+export const resolveTaskSort = (
+  sortBy: TaskSortBy | undefined,
+  sortOrder: TaskSortOrder,
+): TaskSort => {
+  if (!sortBy) {
+    return { key: 'createdAt', order: 'desc' };
+  }
+  return { key: sortBy, order: sortBy === 'relevance' ? 'asc' : sortOrder };
+};
+
+const cursorValueOf = (task: TaskEntity, key: TaskCursorKey) => {
+  switch (key) {
+    case 'priority':
+      return task.priority;
+    case 'dueDate':
+      return task.dueDate ? task.dueDate.toISOString() : null;
+    case 'createdAt':
+      return task.createdAt.toISOString();
+  }
+};
+
+/** Returns `null` for sorts that cannot be paged by cursor. */
+export const encodeTaskCursor = (
+  task: TaskEntity,
+  sort: TaskSort,
+): string | null => {
+  if (sort.key === 'relevance') {
+    return null;
+  }
+  return Buffer.from(
+    JSON.stringify([
+      sort.key,
+      sort.order,
+      cursorValueOf(task, sort.key),
+      task.id,
+    ]),
+  ).toString('base64url');
+};
+
+const invalidCursor = (detail: string): ProblemDetailsException =>
+  new ProblemDetailsException(
+    createProblemDetails(HttpStatus.BAD_REQUEST, 'Invalid cursor', {
+      type: 'https://example.com/problems/invalid-cursor',
+      detail,
+    }),
+  );
+
+const isCursorValue = (key: TaskCursorKey, value: unknown): boolean => {
+  switch (key) {
+    case 'priority':
+      return typeof value === 'number';
+    case 'dueDate':
+      return value === null || typeof value === 'string';
+    case 'createdAt':
+      return typeof value === 'string';
+  }
+};
+
+export const decodeTaskCursor = (raw: string, sort: TaskSort): TaskCursor => {
+  if (sort.key === 'relevance') {
+    throw invalidCursor(
+      'cursor pagination is not available when sorting by relevance; use page instead.',
+    );
+  }
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw invalidCursor('cursor is malformed.');
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw invalidCursor('cursor is malformed.');
+  }
+  const [key, order, value, id] = decoded as unknown[];
+  if (key !== sort.key || order !== sort.order) {
+    throw invalidCursor(
+      'cursor was issued for a different sort; restart from the first page.',
+    );
+  }
+  if (typeof id !== 'string' || !isCursorValue(sort.key, value)) {
+    throw invalidCursor('cursor is malformed.');
+  }
+  return {
+    key: sort.key,
+    order: sort.order,
+    value: value as TaskCursor['value'],
+    id,
+  };
+};
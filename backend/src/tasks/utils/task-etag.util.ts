@@ -0,0 +1,43 @@
+import { createHash } from 'node:crypto';
+import type { TaskResponseDto } from '../dto/task-response.dto';
+
+/**
+ * Parsed `If-Match` header: either the `*` wildcard or the task versions the
+ * client is willing to overwrite.
+ */
+export type IfMatchPrecondition = '*' | readonly number[];
+
+/** `"<version>"`, optionally weak and followed by a representation hash. */
+const ETAG_PATTERN = /^(?:W\/)?"(\d+)(?:-[\w-]+)?"$/;
+
+/**
+ * A weak ETag over the whole representation, led by the task's version.
+ * Derived fields such as `commentCount`, `isBlocked` and `progress` change
+ * without a version bump, so the hash keeps `If-None-Match` from serving a
+ * stale copy; `If-Match` only compares the version.
+ */
+export const toTaskEtag = (task: TaskResponseDto): string => {
+  const hash = createHash('sha256')
+    .update(JSON.stringify(task))
+    .digest('base64url')
+    .slice(0, 16);
+  return `W/"${task.version}-${hash}"`;
+};
+
+export const parseIfMatch = (
+  header: string | undefined,
+): IfMatchPrecondition | undefined => {
+  const value = header?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (value === '*') {
+    return '*';
+  }
+  // Unrecognised tags are dropped so they can never match a stored version.
+  return value
+    .split(',')
+    .map((tag) => ETAG_PATTERN.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number.parseInt(match[1], 10));
+};
@@ -0,0 +1,93 @@
+import {
+  RecurrenceRuleError,
+  formatRecurrenceRule,
+  nextOccurrence,
+  parseRecurrenceRule,
+} from './task-recurrence.util';
+
+const next = (rule: string, after: string) =>
+  nextOccurrence(
+    parseRecurrenceRule(rule),
+    new Date(after),
+  )?.dueDate.toISOString();
+
+describe('parseRecurrenceRule', () => {
+  it('normalises the supported subset', () => {
+    expect(
+      formatRecurrenceRule(
+        parseRecurrenceRule('RRULE:byday=fr,mo,MO;FREQ=weekly;interval=2'),
+      ),
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR');
+    expect(
+      formatRecurrenceRule(parseRecurrenceRule('FREQ=MONTHLY;UNTIL=20270131')),
+    ).toBe('FREQ=MONTHLY;UNTIL=20270131T235959Z');
+  });
+
+  it.each([
+    ['', 'is not a NAME=VALUE pair'],
+    ['INTERVAL=2', 'FREQ is required'],
+    ['FREQ=YEARLY', 'FREQ must be one of'],
+    ['FREQ=DAILY;BYDAY=MO', 'BYDAY is only supported when weekly'],
+    ['FREQ=MONTHLY;BYMONTHDAY=32', 'BYMONTHDAY must be between 1 and 31'],
+    ['FREQ=DAILY;COUNT=0', 'COUNT must be a positive integer'],
+    ['FREQ=DAILY;COUNT=2;UNTIL=20270101', 'COUNT and UNTIL cannot be combined'],
+    ['FREQ=DAILY;UNTIL=20270230', 'UNTIL must be a valid date'],
+    ['FREQ=DAILY;BYHOUR=9', 'BYHOUR is not supported'],
+  ])('rejects %p', (rule, message) => {
+    expect(() => parseRecurrenceRule(rule)).toThrow(RecurrenceRuleError);
+    expect(() => parseRecurrenceRule(rule)).toThrow(message);
+  });
+});
+
+describe('nextOccurrence', () => {
+  it('steps daily and weekly rules by their interval', () => {
+    expect(next('FREQ=DAILY;INTERVAL=3', '2026-10-19T09:00:00.000Z')).toBe(
+      '2026-10-22T09:00:00.000Z',
+    );
+    expect(next('FREQ=WEEKLY', '2026-10-19T09:00:00.000Z')).toBe(
+      '2026-10-26T09:00:00.000Z',
+    );
+  });
+
+  it('walks BYDAY weekdays before moving to the next interval', () => {
+    // 2026-10-19 is a Monday.
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+    expect(next(rule, '2026-10-19T09:00:00.000Z')).toBe(
+      '2026-10-22T09:00:00.000Z',
+    );
+    expect(next(rule, '2026-10-22T09:00:00.000Z')).toBe(
+      '2026-11-02T09:00:00.000Z',
+    );
+  });
+
+  it('skips months too short for BYMONTHDAY', () => {
+    expect(
+      next('FREQ=MONTHLY;BYMONTHDAY=15,31', '2026-10-31T08:00:00.000Z'),
+    ).toBe('2026-11-15T08:00:00.000Z');
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2026-12-31T08:00:00.000Z')).toBe(
+      '2027-01-31T08:00:00.000Z',
+    );
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', '2027-01-31T08:00:00.000Z')).toBe(
+      '2027-03-31T08:00:00.000Z',
+    );
+    expect(next('FREQ=MONTHLY', '2026-10-19T08:00:00.000Z')).toBe(
+      '2026-11-19T08:00:00.000Z',
+    );
+  });
+
+  it('ends the series at COUNT or UNTIL', () => {
+    const counted = nextOccurrence(
+      parseRecurrenceRule('FREQ=DAILY;COUNT=2'),
+      new Date('2026-10-19T09:00:00.000Z'),
+    );
+    expect(counted?.rule.count).toBe(1);
+    expect(counted && nextOccurrence(counted.rule, counted.dueDate)).toBeNull();
+
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-19T09:00:00.000Z')).toBe(
+      '2026-10-20T09:00:00.000Z',
+    );
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-20T09:00:00.000Z')).toBe(
+      undefined,
+    );
+  });
+});
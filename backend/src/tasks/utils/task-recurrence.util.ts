@@ -0,0 +1,248 @@
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * The RFC 5545 RRULE subset tasks support: daily, weekly (optionally on
+ * `BYDAY` weekdays) and monthly (optionally on `BYMONTHDAY` days), bounded
+ * by `COUNT` or `UNTIL`.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Weekdays as offsets from Monday (0 = MO … 6 = SU), ascending. */
+  byDay: number[];
+  /** Days of the month (1–31), ascending. */
+  byMonthDay: number[];
+  /** Occurrences left in the series, counting the current one. */
+  count: number | null;
+  until: Date | null;
+}
+
+export interface NextOccurrence {
+  dueDate: Date;
+  /** The rule the next occurrence carries, with `COUNT` used up by one. */
+  rule: RecurrenceRule;
+}
+
+export class RecurrenceRuleError extends Error {}
+
+const FREQUENCIES: readonly RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+];
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNTIL_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/;
+/** Bounds the search for a month containing a day such as the 31st. */
+const MAX_MONTH_STEPS = 120;
+
+const parsePositiveInt = (name: string, value: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new RecurrenceRuleError(`${name} must be a positive integer`);
+  }
+  return Number(value);
+};
+
+const parseUntil = (value: string): Date => {
+  const match = UNTIL_PATTERN.exec(value);
+  if (!match) {
+    throw new RecurrenceRuleError(
+      'UNTIL must be a date (YYYYMMDD) or UTC date-time (YYYYMMDDTHHMMSSZ)',
+    );
+  }
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  // A bare date includes every occurrence on that day.
+  const until =
+    match[4] === undefined
+      ? new Date(Date.UTC(year, month - 1, day, 23, 59, 59))
+      : new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  if (until.getUTCDate() !== day || until.getUTCMonth() !== month - 1) {
+    throw new RecurrenceRuleError('UNTIL must be a valid date');
+  }
+  return until;
+};
+
+const parseList = (value: string, parse: (item: string) => number) =>
+  Array.from(new Set(value.split(',').map(parse))).sort((a, b) => a - b);
+
+/** Parses an RRULE value, with or without its `RRULE:` prefix. */
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  for (const part of value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')) {
+    const [name, partValue, ...rest] = part.split('=');
+    const key = name.trim().toUpperCase();
+    if (!key || partValue === undefined || rest.length > 0) {
+      throw new RecurrenceRuleError(`"${part}" is not a NAME=VALUE pair`);
+    }
+    if (parts.has(key)) {
+      throw new RecurrenceRuleError(`${key} may only appear once`);
+    }
+    parts.set(key, partValue.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new RecurrenceRuleError('FREQ is required');
+  }
+  if (!FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    throw new RecurrenceRuleError(
+      `FREQ must be one of ${FREQUENCIES.join(', ')}`,
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    count: null,
+    until: null,
+  };
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(key, partValue);
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(key, partValue);
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(partValue);
+        break;
+      case 'BYDAY':
+        if (rule.freq !== 'WEEKLY') {
+          throw new RecurrenceRuleError('BYDAY is only supported when weekly');
+        }
+        rule.byDay = parseList(partValue, (day) => {
+          const index = WEEKDAYS.indexOf(day);
+          if (index === -1) {
+            throw new RecurrenceRuleError(
+              `BYDAY must list weekdays from ${WEEKDAYS.join(', ')}`,
+            );
+          }
+          return index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (rule.freq !== 'MONTHLY') {
+          throw new RecurrenceRuleError(
+            'BYMONTHDAY is only supported when monthly',
+          );
+        }
+        rule.byMonthDay = parseList(partValue, (day) => {
+          const parsed = parsePositiveInt(key, day);
+          if (parsed > 31) {
+            throw new RecurrenceRuleError(
+              'BYMONTHDAY must be between 1 and 31',
+            );
+          }
+          return parsed;
+        });
+        break;
+      default:
+        throw new RecurrenceRuleError(`${key} is not supported`);
+    }
+  }
+  if (rule.count !== null && rule.until !== null) {
+    throw new RecurrenceRuleError('COUNT and UNTIL cannot be combined');
+  }
+  return rule;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Serialises a rule in a stable order, so equal rules compare equal. */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    const until = rule.until;
+    parts.push(
+      `UNTIL=${pad(until.getUTCFullYear(), 4)}${pad(until.getUTCMonth() + 1)}${pad(until.getUTCDate())}` +
+        `T${pad(until.getUTCHours())}${pad(until.getUTCMinutes())}${pad(until.getUTCSeconds())}Z`,
+    );
+  }
+  return parts.join(';');
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+const nextWeekly = (rule: RecurrenceRule, after: Date): Date => {
+  if (rule.byDay.length === 0) {
+    return addDays(after, 7 * rule.interval);
+  }
+  const weekday = (after.getUTCDay() + 6) % 7;
+  const laterThisWeek = rule.byDay.find((day) => day > weekday);
+  if (laterThisWeek !== undefined) {
+    return addDays(after, laterThisWeek - weekday);
+  }
+  return addDays(after, rule.interval * 7 - weekday + rule.byDay[0]);
+};
+
+const nextMonthly = (rule: RecurrenceRule, after: Date): Date | null => {
+  const days =
+    rule.byMonthDay.length > 0 ? rule.byMonthDay : [after.getUTCDate()];
+  for (let step = 0; step <= MAX_MONTH_STEPS; step += rule.interval) {
+    const month = after.getUTCMonth() + step;
+    for (const day of days) {
+      const candidate = new Date(after);
+      candidate.setUTCDate(1);
+      candidate.setUTCMonth(month);
+      candidate.setUTCDate(day);
+      // Months too short for the day are skipped, as RFC 5545 specifies.
+      if (candidate.getUTCDate() === day && candidate > after) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Computes the occurrence that follows one due at `after`, keeping its time
+ * of day. Returns `null` once `COUNT` or `UNTIL` ends the series.
+ */
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  after: Date,
+): NextOccurrence | null => {
+  if (rule.count !== null && rule.count <= 1) {
+    return null;
+  }
+  let dueDate: Date | null;
+  switch (rule.freq) {
+    case 'DAILY':
+      dueDate = addDays(after, rule.interval);
+      break;
+    case 'WEEKLY':
+      dueDate = nextWeekly(rule, after);
+      break;
+    case 'MONTHLY':
+      dueDate = nextMonthly(rule, after);
+      break;
+  }
+  if (dueDate === null || (rule.until !== null && dueDate > rule.until)) {
+    return null;
+  }
+  return {
+    dueDate,
+    rule: { ...rule, count: rule.count === null ? null : rule.count - 1 },
+  };
+};
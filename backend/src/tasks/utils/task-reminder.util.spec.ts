@@ -0,0 +1,41 @@
+import {
+  parseReminderWindows,
+  selectReminderWindow,
+} from './task-reminder.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('parseReminderWindows', () => {
+  it('orders windows from the tightest to the widest', () => {
+    expect(parseReminderWindows('24h, overdue,30m,1d')).toEqual([
+      { name: 'overdue', offsetMs: 0 },
+      { name: '30m', offsetMs: HOUR_MS / 2 },
+      { name: '24h', offsetMs: 24 * HOUR_MS },
+      { name: '1d', offsetMs: 24 * HOUR_MS },
+    ]);
+  });
+
+  it('rejects unknown units and empty offsets', () => {
+    expect(() => parseReminderWindows('2w')).toThrow('"2w" is not a reminder');
+    expect(() => parseReminderWindows('0h')).toThrow('"0h" is not a reminder');
+  });
+});
+
+describe('selectReminderWindow', () => {
+  const windows = parseReminderWindows('24h,1h,overdue');
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const dueIn = (hours: number) => new Date(now.getTime() + hours * HOUR_MS);
+
+  it('picks the tightest window covering the due date', () => {
+    expect(selectReminderWindow(windows, dueIn(30), now)).toBeNull();
+    expect(selectReminderWindow(windows, dueIn(5), now)?.name).toBe('24h');
+    expect(selectReminderWindow(windows, dueIn(0.5), now)?.name).toBe('1h');
+    expect(selectReminderWindow(windows, dueIn(-2), now)?.name).toBe('overdue');
+  });
+
+  it('sends nothing for past due dates without an overdue window', () => {
+    expect(
+      selectReminderWindow(parseReminderWindows('1h'), dueIn(-1), now),
+    ).toBeNull();
+  });
+});
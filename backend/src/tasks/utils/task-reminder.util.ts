@@ -0,0 +1,62 @@
+export const OVERDUE_WINDOW = 'overdue';
+
+/** A reminder fires once a task is due within `offsetMs` of now. */
+export interface ReminderWindow {
+  name: string;
+  offsetMs: number;
+}
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a comma-separated list such as `24h,1h,overdue` (units `m`, `h`
+ * and `d`) into windows ordered from the tightest to the widest.
+ */
+export const parseReminderWindows = (value: string): ReminderWindow[] => {
+  const windows = new Map<string, ReminderWindow>();
+  for (const raw of value.split(',')) {
+    const name = raw.trim().toLowerCase();
+    if (name.length === 0) {
+      continue;
+    }
+    if (name === OVERDUE_WINDOW) {
+      windows.set(name, { name, offsetMs: 0 });
+      continue;
+    }
+    const match = /^(\d+)([mhd])$/.exec(name);
+    if (!match || Number(match[1]) === 0) {
+      throw new Error(
+        `"${raw.trim()}" is not a reminder window; use e.g. 30m, 24h, 7d or overdue`,
+      );
+    }
+    windows.set(name, { name, offsetMs: Number(match[1]) * UNIT_MS[match[2]] });
+  }
+  return Array.from(windows.values()).sort((a, b) => a.offsetMs - b.offsetMs);
+};
+
+/**
+ * Picks the tightest window a due date falls into, so a task created an
+ * hour before its deadline gets the "1h" reminder rather than both "24h"
+ * and "1h". `overdue` only applies once the due date has passed, and the
+ * other windows only before it.
+ */
+export const selectReminderWindow = (
+  windows: ReminderWindow[],
+  dueDate: Date,
+  now: Date,
+): ReminderWindow | null => {
+  const remaining = dueDate.getTime() - now.getTime();
+  if (remaining <= 0) {
+    return windows.find((window) => window.name === OVERDUE_WINDOW) ?? null;
+  }
+  return (
+    windows.find(
+      (window) =>
+        window.name !== OVERDUE_WINDOW && remaining <= window.offsetMs,
+    ) ?? null
+  );
+};
@@ -0,0 +1,20 @@
+import { toTaskSearchQuery } from './task-search.util';
+
+describe('toTaskSearchQuery', () => {
+  it('prefix-matches bare words', () => {
+    expect(toTaskSearchQuery('Ship rel')).toBe('ship* rel*');
+  });
+
+  it('keeps quoted segments as phrases', () => {
+    expect(toTaskSearchQuery('"release notes" draft')).toBe(
+      '"release notes" draft*',
+    );
+  });
+
+  it('strips query syntax from user input', () => {
+    expect(toTaskSearchQuery('title:NEAR(a OR -b)')).toBe(
+      'title* near* a* or* b*',
+    );
+    expect(toTaskSearchQuery('"*" ()')).toBeNull();
+  });
+});
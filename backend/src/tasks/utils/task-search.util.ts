@@ -0,0 +1,27 @@
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const SEGMENT_PATTERN = /"([^"]*)"|([^\s"]+)/g;
+
+const wordsOf = (text: string): string[] =>
+  text.toLowerCase().match(WORD_PATTERN) ?? [];
+
+/**
+ * Translates free-text search input into a full-text MATCH expression.
+ * Quoted segments become phrase queries and bare words are prefix-matched,
+ * so partial input such as `rel` still finds "release". Anything other than
+ * letters and digits is dropped, which keeps FTS operators out of user input.
+ * Returns `null` when nothing searchable remains.
+ */
+export const toTaskSearchQuery = (input: string): string | null => {
+  const terms: string[] = [];
+  for (const [, phrase, bare] of input.matchAll(SEGMENT_PATTERN)) {
+    if (phrase !== undefined) {
+      const words = wordsOf(phrase);
+      if (words.length > 0) {
+        terms.push(`"${words.join(' ')}"`);
+      }
+    } else {
+      terms.push(...wordsOf(bare).map((word) => `${word}*`));
+    }
+  }
+  return terms.length > 0 ? terms.join(' ') : null;
+};
@@ -0,0 +1,54 @@
+import { tagKey, tagSuggestionScore, tallyTagUsage } from './task-tag.util';
+
+describe('tagKey', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(tagKey('  Bug ')).toBe(tagKey('bug'));
+  });
+});
+
+describe('tallyTagUsage', () => {
+  it('folds spellings together under the most used one', () => {
+    const early = new Date('2024-05-01T00:00:00Z');
+    const late = new Date('2024-05-02T00:00:00Z');
+    const tallies = tallyTagUsage([
+      { value: 'Bug', count: 1, lastUsedAt: late },
+      { value: 'bug', count: 3, lastUsedAt: early },
+      { value: 'Ops', count: 2, lastUsedAt: early },
+      { value: 'OPS', count: 2, lastUsedAt: early },
+    ]);
+
+    expect(tallies.get('bug')).toEqual({
+      name: 'bug',
+      usageCount: 4,
+      lastUsedAt: late,
+    });
+    expect(tallies.get('ops')).toEqual({
+      name: 'OPS',
+      usageCount: 4,
+      lastUsedAt: early,
+    });
+  });
+});
+
+describe('tagSuggestionScore', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  it('halves the usage for every 30 days since the tag was last used', () => {
+    const score = (usageCount: number, lastUsedAt: string | null) =>
+      tagSuggestionScore(
+        {
+          name: 'tag',
+          usageCount,
+          lastUsedAt: lastUsedAt ? new Date(lastUsedAt) : null,
+        },
+        now,
+      );
+
+    expect(score(4, '2024-06-01T00:00:00Z')).toBe(4);
+    expect(score(8, '2024-05-02T00:00:00Z')).toBe(4);
+    expect(score(3, '2024-05-31T00:00:00Z')).toBeGreaterThan(
+      score(8, '2024-03-01T00:00:00Z'),
+    );
+    expect(score(0, null)).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+/** Tags match regardless of case; this is the form they are compared in. */
+export const tagKey = (tag: string): string => tag.trim().toLowerCase();
+
+/** `#rrggbb`, as tag colors are given. */
+export const TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/** One spelling of a tag and how many tasks carry it. */
+export interface TagUsage {
+  value: string;
+  count: number;
+  /** When the latest of those tasks last changed. */
+  lastUsedAt: Date;
+}
+
+export interface TagTally {
+  /** The spelling the tag goes by. */
+  name: string;
+  usageCount: number;
+  /** `null` for tags no task carries any more. */
+  lastUsedAt: Date | null;
+}
+
+/**
+ * Folds the spellings of each tag together, keyed by `tagKey`. A tag goes by
+ * its spelling on the most tasks, then the first alphabetically, so tags
+ * written before canonicalization settle on one name.
+ */
+export const tallyTagUsage = (
+  usage: readonly TagUsage[],
+): Map<string, TagTally> => {
+  const tallies = new Map<string, TagTally & { top: number }>();
+  for (const { value, count, lastUsedAt } of usage) {
+    const key = tagKey(value);
+    const tally = tallies.get(key);
+    if (!tally) {
+      tallies.set(key, {
+        name: value,
+        usageCount: count,
+        lastUsedAt,
+        top: count,
+      });
+      continue;
+    }
+    tally.usageCount += count;
+    if (tally.lastUsedAt === null || lastUsedAt > tally.lastUsedAt) {
+      tally.lastUsedAt = lastUsedAt;
+    }
+    if (count > tally.top || (count === tally.top && value < tally.name)) {
+      tally.name = value;
+      tally.top = count;
+    }
+  }
+  return new Map(
+    Array.from(tallies, ([key, { name, usageCount, lastUsedAt }]) => [
+      key,
+      { name, usageCount, lastUsedAt },
+    ]),
+  );
+};
+
+/** Days after which a tag's last use weighs half as much. */
+const SUGGESTION_HALF_LIFE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How high to suggest a tag: its usage, halved for every
+ * `SUGGESTION_HALF_LIFE_DAYS` since a task carrying it last changed, so a
+ * busy tag nobody touches any more sinks below one in use this week.
+ */
+export const tagSuggestionScore = (tally: TagTally, now: Date): number => {
+  if (tally.lastUsedAt === null) {
+    return 0;
+  }
+  const ageDays =
+    Math.max(0, now.getTime() - tally.lastUsedAt.getTime()) / DAY_MS;
+  return tally.usageCount * 0.5 ** (ageDays / SUGGESTION_HALF_LIFE_DAYS);
+};
@@ -0,0 +1,116 @@
+import {
+  DEFAULT_TASK_WORKFLOW,
+  canTransition,
+  parseTaskWorkflow,
+  parseWipLimitPolicy,
+  toWarningHeader,
+} from './task-workflow.util';
+
+describe('parseTaskWorkflow', () => {
+  it('falls back to the todo/doing/done workflow', () => {
+    expect(parseTaskWorkflow(undefined)).toBe(DEFAULT_TASK_WORKFLOW);
+    expect(parseTaskWorkflow(' ')).toBe(DEFAULT_TASK_WORKFLOW);
+  });
+
+  it('keeps the order and lets statuses without transitions go anywhere', () => {
+    const workflow = parseTaskWorkflow(
+      JSON.stringify([
+        { key: 'backlog', category: 'todo', transitions: ['in-review'] },
+        {
+          key: 'in-review',
+          label: 'In review',
+          category: 'in-progress',
+          wipLimit: 3,
+        },
+        { key: 'shipped', label: 'Shipped', category: 'done', transitions: [] },
+      ]),
+    );
+
+    expect(workflow.statuses).toEqual([
+      {
+        key: 'backlog',
+        label: 'backlog',
+        category: 'todo',
+        transitions: ['in-review'],
+        wipLimit: null,
+      },
+      {
+        key: 'in-review',
+        label: 'In review',
+        category: 'in-progress',
+        transitions: ['backlog', 'shipped'],
+        wipLimit: 3,
+      },
+      {
+        key: 'shipped',
+        label: 'Shipped',
+        category: 'done',
+        transitions: [],
+        wipLimit: null,
+      },
+    ]);
+  });
+
+  it('rejects duplicate keys, unknown categories and dangling transitions', () => {
+    expect(() => parseTaskWorkflow('{')).toThrow('it is not JSON');
+    expect(() =>
+      parseTaskWorkflow(
+        '[{"key":"todo","category":"todo"},{"key":"todo","category":"done"}]',
+      ),
+    ).toThrow('"todo" is listed twice');
+    expect(() =>
+      parseTaskWorkflow('[{"key":"todo","category":"later"}]'),
+    ).toThrow('"todo" needs a category');
+    expect(() =>
+      parseTaskWorkflow(
+        '[{"key":"todo","category":"todo","transitions":["done"]}]',
+      ),
+    ).toThrow('"todo" may only move to statuses of the workflow');
+    expect(() =>
+      parseTaskWorkflow('[{"key":"todo","category":"todo","wipLimit":0}]'),
+    ).toThrow('"todo" needs a wipLimit that is a positive integer');
+  });
+});
+
+describe('parseWipLimitPolicy', () => {
+  it('defaults to rejecting writes over a workspace-wide limit', () => {
+    expect(parseWipLimitPolicy(undefined, '')).toEqual({
+      scope: 'workspace',
+      enforcement: 'reject',
+    });
+    expect(parseWipLimitPolicy(' Assignee', 'warn')).toEqual({
+      scope: 'assignee',
+      enforcement: 'warn',
+    });
+  });
+
+  it('rejects unknown options', () => {
+    expect(() => parseWipLimitPolicy('team', undefined)).toThrow(
+      'TASK_WIP_LIMIT_SCOPE must be one of workspace, assignee',
+    );
+  });
+});
+
+describe('canTransition', () => {
+  const workflow = parseTaskWorkflow(
+    '[{"key":"open","category":"todo","transitions":["closed"]},{"key":"closed","category":"done","transitions":[]}]',
+  );
+
+  it('follows the configured transitions', () => {
+    expect(canTransition(workflow, 'open', 'closed')).toBe(true);
+    expect(canTransition(workflow, 'closed', 'open')).toBe(false);
+    expect(canTransition(workflow, 'closed', 'closed')).toBe(true);
+  });
+
+  it('lets tasks leave a status the workflow no longer has', () => {
+    expect(canTransition(workflow, 'archived', 'open')).toBe(true);
+  });
+});
+
+describe('toWarningHeader', () => {
+  it('quotes each note under code 299', () => {
+    expect(toWarningHeader(['"doing" is full', 'a \\ b'])).toBe(
+      '299 - "\\"doing\\" is full", 299 - "a \\\\ b"',
+    );
+  });
+});
@@ -0,0 +1,195 @@
+export const TASK_STATUS_CATEGORIES = ['todo', 'in-progress', 'done'] as const;
+
+/**
+ * What a status means regardless of its name: not started, being worked on
+ * or finished. Blocking, progress, reminders and recurrence go by this.
+ */
+export type TaskStatusCategory = (typeof TASK_STATUS_CATEGORIES)[number];
+
+/** Status keys as stored on tasks and sent by clients. */
+export const TASK_STATUS_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  category: TaskStatusCategory;
+  /** Statuses a task in this one may move to. */
+  transitions: string[];
+  /** Most tasks the status may hold at once; `null` for no limit. */
+  wipLimit: number | null;
+}
+
+/** Statuses in board order; new tasks start in the first one. */
+export interface TaskWorkflow {
+  statuses: WorkflowStatus[];
+}
+
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflow = {
+  statuses: [
+    {
+      key: 'todo',
+      label: 'Todo',
+      category: 'todo',
+      transitions: ['doing', 'done'],
+      wipLimit: null,
+    },
+    {
+      key: 'doing',
+      label: 'Doing',
+      category: 'in-progress',
+      transitions: ['todo', 'done'],
+      wipLimit: null,
+    },
+    {
+      key: 'done',
+      label: 'Done',
+      category: 'done',
+      transitions: ['todo', 'doing'],
+      wipLimit: null,
+    },
+  ],
+};
+
+const isCategory = (value: unknown): value is TaskStatusCategory =>
+  TASK_STATUS_CATEGORIES.some((category) => category === value);
+
+const invalid = (message: string): Error =>
+  new Error(`TASK_WORKFLOW is invalid: ${message}`);
+
+/**
+ * Parses `TASK_WORKFLOW`, a JSON array of `{ key, label?, category,
+ * transitions?, wipLimit? }` in board order. A status without `transitions`
+ * may move to every other status; `[]` makes it final. Unset means the
+ * default todo/doing/done workflow.
+ */
+export const parseTaskWorkflow = (value: string | undefined): TaskWorkflow => {
+  if (!value || value.trim().length === 0) {
+    return DEFAULT_TASK_WORKFLOW;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw invalid('it is not JSON');
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw invalid('expected a non-empty array of statuses');
+  }
+  const entries = parsed as Record<string, unknown>[];
+  const keys = entries.map((entry) => entry?.key);
+  const statuses = entries.map((entry, index): WorkflowStatus => {
+    const { key, label, category, transitions, wipLimit } = entry ?? {};
+    if (typeof key !== 'string' || !TASK_STATUS_PATTERN.test(key)) {
+      throw invalid(
+        `status ${index + 1} needs a key of lowercase letters, digits and dashes`,
+      );
+    }
+    if (keys.indexOf(key) !== index) {
+      throw invalid(`"${key}" is listed twice`);
+    }
+    if (!isCategory(category)) {
+      throw invalid(
+        `"${key}" needs a category of ${TASK_STATUS_CATEGORIES.join(', ')}`,
+      );
+    }
+    if (
+      transitions !== undefined &&
+      (!Array.isArray(transitions) ||
+        transitions.some((target) => !keys.includes(target)))
+    ) {
+      throw invalid(`"${key}" may only move to statuses of the workflow`);
+    }
+    if (
+      wipLimit !== undefined &&
+      wipLimit !== null &&
+      !(Number.isInteger(wipLimit) && (wipLimit as number) > 0)
+    ) {
+      throw invalid(`"${key}" needs a wipLimit that is a positive integer`);
+    }
+    return {
+      key,
+      label: typeof label === 'string' && label.trim() ? label.trim() : key,
+      category,
+      transitions: transitions
+        ? Array.from(new Set(transitions as string[])).filter(
+            (target) => target !== key,
+          )
+        : (keys as string[]).filter((target) => target !== key),
+      wipLimit: (wipLimit as number | undefined) ?? null,
+    };
+  });
+  return { statuses };
+};
+
+export const WIP_LIMIT_SCOPES = ['workspace', 'assignee'] as const;
+
+export const WIP_LIMIT_ENFORCEMENTS = ['reject', 'warn'] as const;
+
+/**
+ * How `wipLimit`s apply: to everything in the workspace or to each
+ * assignee's tasks, and whether going over is refused or only flagged.
+ */
+export interface WipLimitPolicy {
+  scope: (typeof WIP_LIMIT_SCOPES)[number];
+  enforcement: (typeof WIP_LIMIT_ENFORCEMENTS)[number];
+}
+
+const pickOption = <T extends string>(
+  name: string,
+  options: readonly T[],
+  value: string | undefined,
+): T => {
+  const normalized = value?.trim().toLowerCase() || options[0];
+  const option = options.find((candidate) => candidate === normalized);
+  if (!option) {
+    throw new Error(`${name} must be one of ${options.join(', ')}`);
+  }
+  return option;
+};
+
+/**
+ * Reads `TASK_WIP_LIMIT_SCOPE` and `TASK_WIP_LIMIT_ENFORCEMENT`; they
+ * default to `workspace` and `reject`.
+ */
+export const parseWipLimitPolicy = (
+  scope: string | undefined,
+  enforcement: string | undefined,
+): WipLimitPolicy => ({
+  scope: pickOption('TASK_WIP_LIMIT_SCOPE', WIP_LIMIT_SCOPES, scope),
+  enforcement: pickOption(
+    'TASK_WIP_LIMIT_ENFORCEMENT',
+    WIP_LIMIT_ENFORCEMENTS,
+    enforcement,
+  ),
+});
+
+export const findWorkflowStatus = (
+  workflow: TaskWorkflow,
+  key: string,
+): WorkflowStatus | undefined =>
+  workflow.statuses.find((status) => status.key === key);
+
+/**
+ * Staying put is always allowed, and so is leaving a status the workflow no
+ * longer has, so tasks are never stranded by a configuration change.
+ */
+export const canTransition = (
+  workflow: TaskWorkflow,
+  from: string,
+  to: string,
+): boolean => {
+  if (from === to) {
+    return true;
+  }
+  const current = findWorkflowStatus(workflow, from);
+  return !current || current.transitions.includes(to);
+};
+
+/**
+ * A `Warning` header value carrying each note under code 299, the code for
+ * warnings that stick around.
+ */
+export const toWarningHeader = (warnings: readonly string[]): string =>
+  warnings
+    .map((warning) => `299 - "${warning.replace(/["\\]/g, '\\$&')}"`)
+    .join(', ');
@@ -0,0 +1,33 @@
+import {
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ROLES } from '../../common/decorators/require-role.decorator';
+import type { Role } from '../../common/decorators/require-role.decorator';
+
+export class CreateUserDto {
+  @IsEmail()
+  @MaxLength(254)
+  email!: string;
+
+  @IsString()
+  @Length(1, 80)
+  @Matches(/\S/, {
+    message: 'displayName must contain a non-whitespace character',
+  })
+  displayName!: string;
+
+  @IsString()
+  @Length(12, 200)
+  password!: string;
+
+  /** Defaults to `member`. */
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: Role;
+}
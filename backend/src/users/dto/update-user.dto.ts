@@ -0,0 +1,9 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { ROLES } from '../../common/decorators/require-role.decorator';
+import type { Role } from '../../common/decorators/require-role.decorator';
+
+export class UpdateUserDto {
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: Role;
+}
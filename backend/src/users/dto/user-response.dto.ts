@@ -0,0 +1,20 @@
+import { Exclude, Expose } from 'class-transformer';
+import type { Role } from '../../common/decorators/require-role.decorator';
+
+@Exclude()
+export class UserResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  email!: string;
+
+  @Expose()
+  displayName!: string;
+
+  @Expose()
+  role!: Role;
+
+  @Expose()
+  createdAt!: string;
+}
@@ -0,0 +1,35 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { Role } from '../../common/decorators/require-role.decorator';
+
+@Entity({ name: 'users' })
+export class UserEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /** Stored lower-cased; used to sign in. */
+  @Column({ length: 254, unique: true })
+  email!: string;
+
+  @Column({ length: 80 })
+  displayName!: string;
+
+  /** `scrypt$N$r$p$salt$hash`, see `hashPassword`. */
+  @Column({ length: 255 })
+  passwordHash!: string;
+
+  /** What the user may do with tasks; see `RequireRole`. */
+  @Column({ type: 'varchar', length: 16, default: 'member' })
+  role!: Role;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,27 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../entities/user.entity';
+import type { UserRepository } from '../user.repository';
+
+@Injectable()
+export class TypeOrmUserRepository implements UserRepository {
+  constructor(
+    @InjectRepository(UserEntity)
+    private readonly repository: Repository<UserEntity>,
+  ) {}
+
+  async findById(id: string): Promise<UserEntity | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findByEmail(email: string): Promise<UserEntity | null> {
+    return this.repository.findOne({
+      where: { email: email.trim().toLowerCase() },
+    });
+  }
+
+  async save(user: UserEntity): Promise<UserEntity> {
+    return this.repository.save(user);
+  }
+}
@@ -0,0 +1,16 @@
+import { plainToInstance } from 'class-transformer';
+import { UserResponseDto } from '../dto/user-response.dto';
+import { UserEntity } from '../entities/user.entity';
+
+export const toUserResponse = (user: UserEntity): UserResponseDto =>
+  plainToInstance(
+    UserResponseDto,
+    {
+      id: user.id,
+      email: user.email,
+      displayName: user.displayName,
+      role: user.role,
+      createdAt: user.createdAt.toISOString(),
+    },
+    { excludeExtraneousValues: true },
+  );
@@ -0,0 +1,10 @@
+import { UserEntity } from './entities/user.entity';
+
+export const USER_REPOSITORY = Symbol('USER_REPOSITORY');
+
+export interface UserRepository {
+  findById(id: string): Promise<UserEntity | null>;
+  /** Case-insensitive. */
+  findByEmail(email: string): Promise<UserEntity | null>;
+  save(user: UserEntity): Promise<UserEntity>;
+}
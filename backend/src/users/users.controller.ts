@@ -0,0 +1,43 @@
+import {
+  Body,
+  Controller,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UserResponseDto } from './dto/user-response.dto';
+import { UsersService } from './users.service';
+
+@Controller('users')
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Post()
+  @UseGuards(ApiTokenGuard)
+  @RequireScopes('admin')
+  create(
+    @Body() dto: CreateUserDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<UserResponseDto> {
+    return this.usersService.createUser(dto, req);
+  }
+
+  @Patch(':id')
+  @UseGuards(ApiTokenGuard)
+  @RequireScopes('admin')
+  update(
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Body() dto: UpdateUserDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<UserResponseDto> {
+    return this.usersService.updateUser(id, dto, req);
+  }
+}
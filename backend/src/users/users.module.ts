@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { UserEntity } from './entities/user.entity';
+import { TypeOrmUserRepository } from './infrastructure/typeorm-user.repository';
+import { USER_REPOSITORY } from './user.repository';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([UserEntity]),
+    ApiTokensModule,
+    WorkspacesModule,
+  ],
+  controllers: [UsersController],
+  providers: [
+    UsersService,
+    TypeOrmUserRepository,
+    ApiTokenGuard,
+    {
+      provide: USER_REPOSITORY,
+      useExisting: TypeOrmUserRepository,
+    },
+  ],
+  exports: [UsersService],
+})
+export class UsersModule {}
@@ -0,0 +1,108 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import type { WorkspacePrincipal } from '../workspaces/workspaces.service';
+import { WorkspacesService } from '../workspaces/workspaces.service';
+import { CreateUserDto } from './dto/create-user.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UserResponseDto } from './dto/user-response.dto';
+import { UserEntity } from './entities/user.entity';
+import { toUserResponse } from './mappers/user-mapper';
+import type { UserRepository } from './user.repository';
+import { USER_REPOSITORY } from './user.repository';
+import {
+  hashPassword,
+  needsRehash,
+  verifyPassword,
+} from './utils/password.util';
+
+@Injectable()
+export class UsersService {
+  /** Compared against for unknown emails, so both paths cost one hash. */
+  private readonly dummyHash = hashPassword('not-a-real-password');
+
+  constructor(
+    @Inject(USER_REPOSITORY)
+    private readonly repository: UserRepository,
+    private readonly workspacesService: WorkspacesService,
+  ) {}
+
+  /**
+   * Accounts span workspaces, so tokens bound to one may not create or
+   * change them.
+   */
+  async createUser(
+    dto: CreateUserDto,
+    principal: WorkspacePrincipal = {},
+  ): Promise<UserResponseDto> {
+    this.workspacesService.assertNotWorkspaceBound(principal, 'create users');
+    const email = dto.email.trim().toLowerCase();
+    if (await this.repository.findByEmail(email)) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.CONFLICT, 'Email already registered', {
+          type: 'https://example.com/problems/email-taken',
+          detail: `A user with email ${email} already exists.`,
+        }),
+      );
+    }
+    const user = new UserEntity();
+    user.email = email;
+    user.displayName = dto.displayName.trim();
+    user.passwordHash = await hashPassword(dto.password);
+    user.role = dto.role ?? 'member';
+    const saved = await this.repository.save(user);
+    await this.workspacesService.joinDefaultWorkspace(saved.id);
+    return toUserResponse(saved);
+  }
+
+  /** Takes effect when the user's access token is next refreshed. */
+  async updateUser(
+    id: string,
+    dto: UpdateUserDto,
+    principal: WorkspacePrincipal = {},
+  ): Promise<UserResponseDto> {
+    this.workspacesService.assertNotWorkspaceBound(principal, 'change users');
+    const user = await this.repository.findById(id);
+    if (!user) {
+      throw new NotFoundException(`User with id ${id} not found`);
+    }
+    if (dto.role) {
+      user.role = dto.role;
+    }
+    return toUserResponse(await this.repository.save(user));
+  }
+
+  findById(id: string): Promise<UserEntity | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Resolves to the user only when the password matches. Hashes from an
+   * older scheme are replaced on the way.
+   */
+  async authenticate(
+    email: string,
+    password: string,
+  ): Promise<UserEntity | null> {
+    const user = await this.repository.findByEmail(email);
+    const matches = await verifyPassword(
+      password,
+      user?.passwordHash ?? (await this.dummyHash),
+    );
+    if (!user || !matches) {
+      return null;
+    }
+    if (needsRehash(user.passwordHash)) {
+      user.passwordHash = await hashPassword(password);
+      return this.repository.save(user);
+    }
+    return user;
+  }
+}
@@ -0,0 +1,42 @@
+import { hashPassword, needsRehash, verifyPassword } from './password.util';
+
+describe('password hashing', () => {
+  it('verifies the original password against a salted bcrypt hash', async () => {
+    const hash = await hashPassword('correct horse battery');
+
+    expect(hash).toMatch(/^\$2b\$12\$[./A-Za-z0-9]{53}$/);
+    expect(needsRehash(hash)).toBe(false);
+    await expect(hashPassword('correct horse battery')).resolves.not.toBe(hash);
+    await expect(verifyPassword('correct horse battery', hash)).resolves.toBe(
+      true,
+    );
+    await expect(verifyPassword('correct horse battery!', hash)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('keeps characters past the 72nd byte significant', async () => {
+    const long = 'x'.repeat(80);
+    const hash = await hashPassword(long);
+
+    await expect(verifyPassword(long, hash)).resolves.toBe(true);
+    await expect(verifyPassword(`${long}y`, hash)).resolves.toBe(false);
+  });
+
+  it('still verifies scrypt hashes and asks for them to be replaced', async () => {
+    const legacy =
+      'scrypt$1024$8$1$c2FsdHNhbHRzYWx0c2FsdA$' +
+      'fXnS5Awj6eMC-z1SbPBpyxEKbW7GHGyuCeVjw7IJSMLSOhVRXfXPJ8NcRqW7sk6Nifmr2ikZV0Uq0_U4TepgtA';
+
+    expect(needsRehash(legacy)).toBe(true);
+    await expect(verifyPassword('correct horse battery', legacy)).resolves.toBe(
+      true,
+    );
+    await expect(verifyPassword('secret', legacy)).resolves.toBe(false);
+  });
+
+  it('rejects hashes in an unknown format', async () => {
+    await expect(verifyPassword('secret', '$2b$10$abc')).resolves.toBe(false);
+    await expect(verifyPassword('secret', '')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import bcrypt from 'bcryptjs';
+import { createHash, scrypt, timingSafeEqual } from 'node:crypto';
+
+/** About 100 ms per hash; stored with each hash so it can grow. */
+const BCRYPT_ROUNDS = 12;
+
+/**
+ * bcrypt only reads the first 72 bytes, so longer passwords would collide.
+ * Hashing them first keeps every character significant; base64 keeps the
+ * input free of the NUL bytes bcrypt stops at.
+ */
+const prehash = (password: string): string =>
+  createHash('sha256').update(password.normalize('NFKC')).digest('base64');
+
+/** Hashes with bcrypt, encoded as the usual `$2b$<rounds>$<salt+hash>`. */
+export const hashPassword = (password: string): Promise<string> =>
+  bcrypt.hash(prehash(password), BCRYPT_ROUNDS);
+
+/**
+ * Whether `encoded` predates the current scheme or cost, so the password
+ * should be hashed again the next time it is known.
+ */
+export const needsRehash = (encoded: string): boolean =>
+  !encoded.startsWith('$2') || bcrypt.getRounds(encoded) < BCRYPT_ROUNDS;
+
+/**
+ * Resolves to `false` for a wrong password or an unreadable hash. Hashes
+ * from before bcrypt (`scrypt$N$r$p$<salt>$<hash>`) still verify.
+ */
+export const verifyPassword = async (
+  password: string,
+  encoded: string,
+): Promise<boolean> => {
+  if (encoded.startsWith('scrypt$')) {
+    return verifyScrypt(password, encoded);
+  }
+  if (!/^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/.test(encoded)) {
+    return false;
+  }
+  return bcrypt.compare(prehash(password), encoded);
+};
+
+const verifyScrypt = async (
+  password: string,
+  encoded: string,
+): Promise<boolean> => {
+  const [, N, r, p, salt, hash] = encoded.split('$');
+  const cost = { N: Number(N), r: Number(r), p: Number(p) };
+  if (!salt || !hash || !Object.values(cost).every(Number.isSafeInteger)) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'base64url');
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(
+      password.normalize('NFKC'),
+      Buffer.from(salt, 'base64url'),
+      expected.length,
+      { ...cost, maxmem: 256 * cost.N * cost.r },
+      (error, derived) => (error ? reject(error) : resolve(derived)),
+    );
+  });
+  return timingSafeEqual(key, expected);
+};
@@ -0,0 +1,30 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Length,
+  MaxLength,
+} from 'class-validator';
+import { TASK_EVENT_TYPES, TaskEventType } from '../../tasks/task-events';
+
+export class CreateWebhookDto {
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2000)
+  url!: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(TASK_EVENT_TYPES, { each: true })
+  events!: TaskEventType[];
+
+  /** HMAC signing secret; one is generated when omitted. */
+  @IsOptional()
+  @IsString()
+  @Length(16, 128)
+  secret?: string;
+}
@@ -0,0 +1,19 @@
+import { PickType } from '@nestjs/mapped-types';
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+import { ListTasksQueryDto } from '../../tasks/dto/list-tasks-query.dto';
+import type { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { WEBHOOK_DELIVERY_STATUSES } from '../entities/webhook-delivery.entity';
+
+export class ListWebhookDeliveriesQueryDto extends PickType(ListTasksQueryDto, [
+  'page',
+  'pageSize',
+] as const) {
+  @IsOptional()
+  @IsUUID('4')
+  subscriptionId?: string;
+
+  /** `dead` lists the dead letters. */
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+}
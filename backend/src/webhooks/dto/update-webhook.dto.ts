@@ -0,0 +1,10 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateWebhookDto } from './create-webhook.dto';
+
+export class UpdateWebhookDto extends PartialType(CreateWebhookDto) {
+  /** Paused subscriptions queue nothing until they are re-activated. */
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
@@ -0,0 +1,53 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type { TaskEventType } from '../../tasks/task-events';
+import type { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+
+@Exclude()
+export class WebhookDeliveryResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  subscriptionId!: string;
+
+  @Expose()
+  event!: TaskEventType;
+
+  @Expose()
+  payload!: Record<string, unknown>;
+
+  @Expose()
+  status!: WebhookDeliveryStatus;
+
+  @Expose()
+  attempts!: number;
+
+  @Expose()
+  nextAttemptAt!: string | null;
+
+  @Expose()
+  lastAttemptAt!: string | null;
+
+  @Expose()
+  responseStatus!: number | null;
+
+  @Expose()
+  lastError!: string | null;
+
+  @Expose()
+  createdAt!: string;
+}
+
+@Exclude()
+export class WebhookDeliveryCollectionResponseDto {
+  @Expose()
+  @Type(() => WebhookDeliveryResponseDto)
+  data!: WebhookDeliveryResponseDto[];
+
+  @Expose()
+  meta!: {
+    total: number;
+    page: number;
+    pageSize: number;
+  };
+}
@@ -0,0 +1,37 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+import type { TaskEventType } from '../../tasks/task-events';
+
+@Exclude()
+export class WebhookResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  workspaceId!: string;
+
+  @Expose()
+  url!: string;
+
+  @Expose()
+  events!: TaskEventType[];
+
+  @Expose()
+  active!: boolean;
+
+  /** Only present in the response that created the subscription. */
+  @Expose()
+  secret?: string;
+
+  @Expose()
+  createdAt!: string;
+
+  @Expose()
+  updatedAt!: string;
+}
+
+@Exclude()
+export class WebhookListResponseDto {
+  @Expose()
+  @Type(() => WebhookResponseDto)
+  data!: WebhookResponseDto[];
+}
@@ -0,0 +1,72 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { TaskEventType } from '../../tasks/task-events';
+import { WebhookSubscriptionEntity } from './webhook-subscription.entity';
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'delivered',
+  'dead',
+] as const;
+
+/**
+ * `pending` deliveries are (re)tried once `nextAttemptAt` passes; `dead`
+ * ones ran out of attempts and wait in the dead-letter list for a manual
+ * retry.
+ */
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/** One event queued for one subscription, with the outcome of its attempts. */
+@Entity({ name: 'webhook_deliveries' })
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDeliveryEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  subscriptionId!: string;
+
+  @ManyToOne(() => WebhookSubscriptionEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription?: WebhookSubscriptionEntity;
+
+  @Column({ type: 'varchar', length: 32 })
+  event!: TaskEventType;
+
+  /** The exact JSON body sent, frozen when the event happened. */
+  @Column({ type: 'simple-json' })
+  payload!: Record<string, unknown>;
+
+  @Column({ type: 'varchar', length: 16, default: 'pending' })
+  status!: WebhookDeliveryStatus;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  nextAttemptAt!: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastAttemptAt!: Date | null;
+
+  /** HTTP status of the last attempt; `null` if no response arrived. */
+  @Column({ type: 'integer', nullable: true })
+  responseStatus!: number | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  lastError!: string | null;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
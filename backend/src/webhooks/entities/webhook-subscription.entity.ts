@@ -0,0 +1,44 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import type { TaskEventType } from '../../tasks/task-events';
+import { DEFAULT_WORKSPACE_ID } from '../../workspaces/entities/workspace.entity';
+
+@Entity({ name: 'webhook_subscriptions' })
+export class WebhookSubscriptionEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  /**
+   * Only this workspace's tasks are delivered. Subscriptions from before
+   * workspaces existed fall into the default one.
+   */
+  @Index()
+  @Column({ type: 'varchar', default: DEFAULT_WORKSPACE_ID })
+  workspaceId!: string;
+
+  @Column({ length: 2000 })
+  url!: string;
+
+  /** Task events this endpoint receives. */
+  @Column({ type: 'simple-json' })
+  events!: TaskEventType[];
+
+  /** Signs every payload; only revealed when the subscription is created. */
+  @Column({ length: 128 })
+  secret!: string;
+
+  @Column({ type: 'boolean', default: true })
+  active!: boolean;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,125 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import type { TaskEventType } from '../../tasks/task-events';
+import { WebhookDeliveryEntity } from '../entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+import type {
+  ListDeliveriesOptions,
+  ListDeliveriesResult,
+  WebhookRepository,
+} from '../webhook.repository';
+
+@Injectable()
+export class TypeOrmWebhookRepository implements WebhookRepository {
+  constructor(
+    @InjectRepository(WebhookSubscriptionEntity)
+    private readonly subscriptions: Repository<WebhookSubscriptionEntity>,
+    @InjectRepository(WebhookDeliveryEntity)
+    private readonly deliveries: Repository<WebhookDeliveryEntity>,
+  ) {}
+
+  withManager(manager: EntityManager): WebhookRepository {
+    return new TypeOrmWebhookRepository(
+      manager.getRepository(WebhookSubscriptionEntity),
+      manager.getRepository(WebhookDeliveryEntity),
+    );
+  }
+
+  async findSubscriptions(
+    workspaceId: string,
+  ): Promise<WebhookSubscriptionEntity[]> {
+    return this.subscriptions.find({
+      where: { workspaceId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findSubscriptionById(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookSubscriptionEntity | null> {
+    return this.subscriptions.findOne({ where: { id, workspaceId } });
+  }
+
+  async findSubscribers(
+    workspaceId: string,
+    event: TaskEventType,
+  ): Promise<WebhookSubscriptionEntity[]> {
+    // The filter is a JSON column; there are few subscriptions, so match here.
+    const active = await this.subscriptions.find({
+      where: { workspaceId, active: true },
+    });
+    return active.filter((subscription) => subscription.events.includes(event));
+  }
+
+  async saveSubscription(
+    subscription: WebhookSubscriptionEntity,
+  ): Promise<WebhookSubscriptionEntity> {
+    return this.subscriptions.save(subscription);
+  }
+
+  async deleteSubscription(id: string): Promise<void> {
+    await this.subscriptions.delete(id);
+  }
+
+  async listDeliveries({
+    workspaceId,
+    page,
+    pageSize,
+    subscriptionId,
+    status,
+  }: ListDeliveriesOptions): Promise<ListDeliveriesResult> {
+    const query = this.deliveries
+      .createQueryBuilder('delivery')
+      .where(
+        'delivery.subscriptionId IN (SELECT id FROM webhook_subscriptions WHERE workspaceId = :workspaceId)',
+        { workspaceId },
+      )
+      .orderBy('delivery.createdAt', 'DESC')
+      .addOrderBy('delivery.rowid', 'DESC')
+      .skip((page - 1) * pageSize)
+      .take(pageSize);
+    if (subscriptionId) {
+      query.andWhere('delivery.subscriptionId = :subscriptionId', {
+        subscriptionId,
+      });
+    }
+    if (status) {
+      query.andWhere('delivery.status = :status', { status });
+    }
+    const [data, total] = await query.getManyAndCount();
+    return { data, total };
+  }
+
+  async findDeliveryById(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookDeliveryEntity | null> {
+    return this.deliveries.findOne({
+      where: { id, subscription: { workspaceId } },
+    });
+  }
+
+  async findDueDeliveries(
+    now: Date,
+    limit: number,
+  ): Promise<WebhookDeliveryEntity[]> {
+    return this.deliveries.find({
+      where: {
+        status: 'pending',
+        nextAttemptAt: LessThanOrEqual(now),
+        subscription: { active: true },
+      },
+      relations: { subscription: true },
+      order: { nextAttemptAt: 'ASC', createdAt: 'ASC' },
+      take: limit,
+    });
+  }
+
+  async saveDeliveries(
+    deliveries: WebhookDeliveryEntity[],
+  ): Promise<WebhookDeliveryEntity[]> {
+    return this.deliveries.save(deliveries);
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookDeliveryEntity } from '../entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  retryDelayMs,
+  signWebhookPayload,
+} from '../utils/webhook-delivery.util';
+import type { WebhookRepository } from '../webhook.repository';
+import { WEBHOOK_REPOSITORY } from '../webhook.repository';
+
+const BATCH_SIZE = 50;
+const TIMEOUT_MS = 10_000;
+
+/**
+ * Sends queued webhook deliveries on start-up and then every
+ * `WEBHOOK_POLL_INTERVAL_SECONDS`. A delivery succeeds on any 2xx answer;
+ * otherwise it is retried after `WEBHOOK_RETRY_BASE_SECONDS`, doubling
+ * each time, and becomes a dead letter after `WEBHOOK_MAX_ATTEMPTS`.
+ * Outcomes are stored before the next delivery is sent, so a restart
+ * resumes the queue and at worst repeats the attempt that was in flight.
+ */
+@Injectable()
+export class WebhookDeliveryWorker
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhookDeliveryWorker.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @Inject(WEBHOOK_REPOSITORY)
+    private readonly repository: WebhookRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /** The first run starts right away but does not hold up startup. */
+  onApplicationBootstrap(): void {
+    this.runInBackground();
+    const intervalSeconds = this.configService.get<number>(
+      'WEBHOOK_POLL_INTERVAL_SECONDS',
+      5,
+    );
+    this.timer = setInterval(
+      () => this.runInBackground(),
+      intervalSeconds * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  private runInBackground(): void {
+    void this.run().catch((error: unknown) => {
+      this.logger.error('Webhook delivery run failed', (error as Error)?.stack);
+    });
+  }
+
+  /** Resolves to the number of attempts made; overlapping runs are skipped. */
+  async run(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+    try {
+      const due = await this.repository.findDueDeliveries(now, BATCH_SIZE);
+      for (const delivery of due) {
+        await this.attempt(delivery, now);
+      }
+      return due.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async attempt(
+    delivery: WebhookDeliveryEntity,
+    now: Date,
+  ): Promise<void> {
+    const { subscription } = delivery;
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = now;
+    delivery.responseStatus = null;
+    delivery.lastError = null;
+    try {
+      if (!subscription) {
+        throw new Error('Subscription no longer exists');
+      }
+      const status = await this.send(subscription, delivery);
+      delivery.responseStatus = status;
+      if (status < 200 || status >= 300) {
+        throw new Error(`Endpoint answered ${status}`);
+      }
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = null;
+    } catch (error) {
+      delivery.lastError = ((error as Error)?.message ?? String(error)).slice(
+        0,
+        500,
+      );
+      this.scheduleRetry(delivery, now);
+    }
+    delete delivery.subscription;
+    await this.repository.saveDeliveries([delivery]);
+  }
+
+  private async send(
+    subscription: WebhookSubscriptionEntity,
+    delivery: WebhookDeliveryEntity,
+  ): Promise<number> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          subscription.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    // The body is not used; drain it so the connection can be reused.
+    await response.arrayBuffer().catch(() => undefined);
+    return response.status;
+  }
+
+  private scheduleRetry(delivery: WebhookDeliveryEntity, now: Date): void {
+    const maxAttempts = this.configService.get<number>(
+      'WEBHOOK_MAX_ATTEMPTS',
+      8,
+    );
+    if (delivery.attempts >= maxAttempts) {
+      delivery.status = 'dead';
+      delivery.nextAttemptAt = null;
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} is dead after ${delivery.attempts} attempts: ${delivery.lastError}`,
+      );
+      return;
+    }
+    const baseSeconds = this.configService.get<number>(
+      'WEBHOOK_RETRY_BASE_SECONDS',
+      30,
+    );
+    delivery.nextAttemptAt = new Date(
+      now.getTime() + retryDelayMs(delivery.attempts, baseSeconds * 1000),
+    );
+  }
+}
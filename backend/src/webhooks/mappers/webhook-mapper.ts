@@ -0,0 +1,84 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  WebhookDeliveryCollectionResponseDto,
+  WebhookDeliveryResponseDto,
+} from '../dto/webhook-delivery-response.dto';
+import {
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from '../dto/webhook-response.dto';
+import { WebhookDeliveryEntity } from '../entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from '../entities/webhook-subscription.entity';
+import type { ListDeliveriesResult } from '../webhook.repository';
+
+const webhookToPlain = (
+  subscription: WebhookSubscriptionEntity,
+): Record<string, unknown> => ({
+  id: subscription.id,
+  workspaceId: subscription.workspaceId,
+  url: subscription.url,
+  events: subscription.events,
+  active: subscription.active,
+  createdAt: subscription.createdAt.toISOString(),
+  updatedAt: subscription.updatedAt.toISOString(),
+});
+
+const deliveryToPlain = (
+  delivery: WebhookDeliveryEntity,
+): Record<string, unknown> => ({
+  id: delivery.id,
+  subscriptionId: delivery.subscriptionId,
+  event: delivery.event,
+  payload: delivery.payload,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+  lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+  responseStatus: delivery.responseStatus,
+  lastError: delivery.lastError,
+  createdAt: delivery.createdAt.toISOString(),
+});
+
+/** Pass `withSecret` only when answering the create request. */
+export const toWebhookResponse = (
+  subscription: WebhookSubscriptionEntity,
+  withSecret = false,
+): WebhookResponseDto =>
+  plainToInstance(
+    WebhookResponseDto,
+    {
+      ...webhookToPlain(subscription),
+      ...(withSecret ? { secret: subscription.secret } : {}),
+    },
+    { excludeExtraneousValues: true },
+  );
+
+export const toWebhookListResponse = (
+  subscriptions: WebhookSubscriptionEntity[],
+): WebhookListResponseDto =>
+  plainToInstance(
+    WebhookListResponseDto,
+    { data: subscriptions.map(webhookToPlain) },
+    { excludeExtraneousValues: true },
+  );
+
+export const toWebhookDeliveryResponse = (
+  delivery: WebhookDeliveryEntity,
+): WebhookDeliveryResponseDto =>
+  plainToInstance(WebhookDeliveryResponseDto, deliveryToPlain(delivery), {
+    excludeExtraneousValues: true,
+  });
+
+export const toWebhookDeliveryCollectionResponse = (
+  result: ListDeliveriesResult,
+  page: number,
+  pageSize: number,
+): WebhookDeliveryCollectionResponseDto =>
+  plainToInstance(
+    WebhookDeliveryCollectionResponseDto,
+    {
+      data: result.data.map(deliveryToPlain),
+      meta: { total: result.total, page, pageSize },
+    },
+    { excludeExtraneousValues: true },
+  );
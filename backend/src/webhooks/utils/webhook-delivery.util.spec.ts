@@ -0,0 +1,39 @@
+import { createHmac } from 'node:crypto';
+import {
+  generateWebhookSecret,
+  retryDelayMs,
+  signWebhookPayload,
+} from './webhook-delivery.util';
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp and body with the subscription secret', () => {
+    const body = JSON.stringify({ event: 'task.created' });
+    const expected = createHmac('sha256', 'shh')
+      .update(`1760864400.${body}`)
+      .digest('hex');
+
+    expect(signWebhookPayload('shh', 1760864400, body)).toBe(
+      `sha256=${expected}`,
+    );
+    expect(signWebhookPayload('other', 1760864400, body)).not.toBe(
+      `sha256=${expected}`,
+    );
+    expect(signWebhookPayload('shh', 1760864401, body)).not.toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it('generates distinct prefixed secrets', () => {
+    const secret = generateWebhookSecret();
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles the base delay after every failed attempt', () => {
+    expect([1, 2, 3, 4].map((attempts) => retryDelayMs(attempts, 30))).toEqual([
+      30, 60, 120, 240,
+    ]);
+  });
+});
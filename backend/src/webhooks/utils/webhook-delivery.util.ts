@@ -0,0 +1,26 @@
+import { createHmac, randomBytes } from 'node:crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/** Secret handed out when a subscription does not bring its own. */
+export const generateWebhookSecret = (): string =>
+  `whsec_${randomBytes(24).toString('hex')}`;
+
+/**
+ * `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>`.
+ * Receivers recompute it from the raw body and the `X-Webhook-Timestamp`
+ * header, and can reject stale timestamps to stop replays.
+ */
+export const signWebhookPayload = (
+  secret: string,
+  timestamp: number,
+  body: string,
+): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Delay before the next attempt after `attempts` failures: the base delay,
+ * doubled after every failure.
+ */
+export const retryDelayMs = (attempts: number, baseMs: number): number =>
+  baseMs * 2 ** Math.max(attempts - 1, 0);
@@ -0,0 +1,62 @@
+import type { EntityManager } from 'typeorm';
+import type { TaskEventType } from '../tasks/task-events';
+import {
+  WebhookDeliveryEntity,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+
+export const WEBHOOK_REPOSITORY = Symbol('WEBHOOK_REPOSITORY');
+
+export interface ListDeliveriesOptions {
+  /** Only deliveries for this workspace's subscriptions. */
+  workspaceId: string;
+  page: number;
+  pageSize: number;
+  subscriptionId?: string;
+  status?: WebhookDeliveryStatus;
+}
+
+export interface ListDeliveriesResult {
+  data: WebhookDeliveryEntity[];
+  total: number;
+}
+
+/**
+ * Subscriptions belong to a workspace; lookups by id only find those of the
+ * workspace given.
+ */
+export interface WebhookRepository {
+  /** The same repository working through `manager`, joining its transaction. */
+  withManager(manager: EntityManager): WebhookRepository;
+  /** Subscriptions, oldest first. */
+  findSubscriptions(workspaceId: string): Promise<WebhookSubscriptionEntity[]>;
+  findSubscriptionById(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookSubscriptionEntity | null>;
+  /** The workspace's active subscriptions whose filter includes `event`. */
+  findSubscribers(
+    workspaceId: string,
+    event: TaskEventType,
+  ): Promise<WebhookSubscriptionEntity[]>;
+  saveSubscription(
+    subscription: WebhookSubscriptionEntity,
+  ): Promise<WebhookSubscriptionEntity>;
+  deleteSubscription(id: string): Promise<void>;
+
+  /** Newest first. */
+  listDeliveries(options: ListDeliveriesOptions): Promise<ListDeliveriesResult>;
+  findDeliveryById(
+    id: string,
+    workspaceId: string,
+  ): Promise<WebhookDeliveryEntity | null>;
+  /**
+   * Pending deliveries of active subscriptions due at or before `now`,
+   * oldest first.
+   */
+  findDueDeliveries(now: Date, limit: number): Promise<WebhookDeliveryEntity[]>;
+  saveDeliveries(
+    deliveries: WebhookDeliveryEntity[],
+  ): Promise<WebhookDeliveryEntity[]>;
+}
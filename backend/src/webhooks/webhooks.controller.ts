@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CurrentWorkspace } from '../common/decorators/current-workspace.decorator';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  WebhookDeliveryCollectionResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/webhook-delivery-response.dto';
+import {
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { WebhooksService } from './webhooks.service';
+
+/** Subscriptions and deliveries only ever cover one workspace's tasks. */
+@Controller(['webhooks', 'workspaces/:workspace/webhooks'])
+@UseGuards(ApiTokenGuard, WorkspaceGuard)
+@RequireScopes('admin')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Get()
+  list(
+    @CurrentWorkspace() workspaceId: string,
+  ): Promise<WebhookListResponseDto> {
+    return this.webhooksService.listWebhooks(workspaceId);
+  }
+
+  @Post()
+  create(
+    @CurrentWorkspace() workspaceId: string,
+    @Body() dto: CreateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.createWebhook(workspaceId, dto);
+  }
+
+  /** The delivery log; `status=dead` lists the dead letters. */
+  @Get('deliveries')
+  listDeliveries(
+    @CurrentWorkspace() workspaceId: string,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryCollectionResponseDto> {
+    return this.webhooksService.listDeliveries(workspaceId, query);
+  }
+
+  @Post('deliveries/:deliveryId/retry')
+  @HttpCode(200)
+  retryDelivery(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('deliveryId', new ParseUUIDPipe({ version: '4' })) id: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    return this.webhooksService.retryDelivery(workspaceId, id);
+  }
+
+  @Get(':id')
+  get(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.getWebhook(workspaceId, id);
+  }
+
+  @Patch(':id')
+  update(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+    @Body() dto: UpdateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    return this.webhooksService.updateWebhook(workspaceId, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  remove(
+    @CurrentWorkspace() workspaceId: string,
+    @Param('id', new ParseUUIDPipe({ version: '4' })) id: string,
+  ): Promise<void> {
+    return this.webhooksService.deleteWebhook(workspaceId, id);
+  }
+}
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspaceGuard } from '../common/guards/workspace.guard';
+import { TasksModule } from '../tasks/tasks.module';
+import { WorkspacesModule } from '../workspaces/workspaces.module';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import { TypeOrmWebhookRepository } from './infrastructure/typeorm-webhook.repository';
+import { WebhookDeliveryWorker } from './infrastructure/webhook-delivery.worker';
+import { WEBHOOK_REPOSITORY } from './webhook.repository';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      WebhookSubscriptionEntity,
+      WebhookDeliveryEntity,
+    ]),
+    ApiTokensModule,
+    TasksModule,
+    WorkspacesModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [
+    WebhooksService,
+    WebhookDeliveryWorker,
+    TypeOrmWebhookRepository,
+    ApiTokenGuard,
+    WorkspaceGuard,
+    {
+      provide: WEBHOOK_REPOSITORY,
+      useExisting: TypeOrmWebhookRepository,
+    },
+  ],
+})
+export class WebhooksModule {}
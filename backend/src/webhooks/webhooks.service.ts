@@ -0,0 +1,206 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import type { EntityManager } from 'typeorm';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import { TaskEvent, TaskEventBus, TaskEventOutbox } from '../tasks/task-events';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { ListWebhookDeliveriesQueryDto } from './dto/list-webhook-deliveries-query.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import {
+  WebhookDeliveryCollectionResponseDto,
+  WebhookDeliveryResponseDto,
+} from './dto/webhook-delivery-response.dto';
+import {
+  WebhookListResponseDto,
+  WebhookResponseDto,
+} from './dto/webhook-response.dto';
+import { WebhookDeliveryEntity } from './entities/webhook-delivery.entity';
+import { WebhookSubscriptionEntity } from './entities/webhook-subscription.entity';
+import {
+  toWebhookDeliveryCollectionResponse,
+  toWebhookDeliveryResponse,
+  toWebhookListResponse,
+  toWebhookResponse,
+} from './mappers/webhook-mapper';
+import { generateWebhookSecret } from './utils/webhook-delivery.util';
+import type { WebhookRepository } from './webhook.repository';
+import { WEBHOOK_REPOSITORY } from './webhook.repository';
+
+/**
+ * Manages each workspace's subscriptions and, as an outbox on the task
+ * event bus, turns every task event into one queued delivery per matching
+ * subscription of the task's workspace, for `WebhookDeliveryWorker` to
+ * send. Deliveries are queued in the task write's own transaction, so a
+ * committed change always has its deliveries and a rolled-back one none.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, TaskEventOutbox {
+  constructor(
+    @Inject(WEBHOOK_REPOSITORY)
+    private readonly repository: WebhookRepository,
+    private readonly taskEvents: TaskEventBus,
+  ) {}
+
+  onModuleInit(): void {
+    this.taskEvents.registerOutbox(this);
+  }
+
+  async write(events: TaskEvent[], manager: EntityManager): Promise<void> {
+    const repository = this.repository.withManager(manager);
+    for (const event of events) {
+      await this.enqueue(repository, event);
+    }
+  }
+
+  async listWebhooks(workspaceId: string): Promise<WebhookListResponseDto> {
+    return toWebhookListResponse(
+      await this.repository.findSubscriptions(workspaceId),
+    );
+  }
+
+  async getWebhook(
+    workspaceId: string,
+    id: string,
+  ): Promise<WebhookResponseDto> {
+    return toWebhookResponse(await this.findWebhookOrThrow(workspaceId, id));
+  }
+
+  async createWebhook(
+    workspaceId: string,
+    dto: CreateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    const subscription = new WebhookSubscriptionEntity();
+    subscription.workspaceId = workspaceId;
+    subscription.url = dto.url;
+    subscription.events = dto.events;
+    subscription.secret = dto.secret ?? generateWebhookSecret();
+    subscription.active = true;
+    const saved = await this.repository.saveSubscription(subscription);
+    return toWebhookResponse(saved, true);
+  }
+
+  async updateWebhook(
+    workspaceId: string,
+    id: string,
+    dto: UpdateWebhookDto,
+  ): Promise<WebhookResponseDto> {
+    const subscription = await this.findWebhookOrThrow(workspaceId, id);
+    if (dto.url !== undefined) {
+      subscription.url = dto.url;
+    }
+    if (dto.events !== undefined) {
+      subscription.events = dto.events;
+    }
+    if (dto.secret !== undefined) {
+      subscription.secret = dto.secret;
+    }
+    if (dto.active !== undefined) {
+      subscription.active = dto.active;
+    }
+    return toWebhookResponse(
+      await this.repository.saveSubscription(subscription),
+    );
+  }
+
+  /** Deletes the subscription together with its delivery log. */
+  async deleteWebhook(workspaceId: string, id: string): Promise<void> {
+    await this.findWebhookOrThrow(workspaceId, id);
+    await this.repository.deleteSubscription(id);
+  }
+
+  async listDeliveries(
+    workspaceId: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryCollectionResponseDto> {
+    const { page, pageSize, subscriptionId, status } = query;
+    const result = await this.repository.listDeliveries({
+      workspaceId,
+      page,
+      pageSize,
+      ...(subscriptionId ? { subscriptionId } : {}),
+      ...(status ? { status } : {}),
+    });
+    return toWebhookDeliveryCollectionResponse(result, page, pageSize);
+  }
+
+  /** Moves a dead letter back into the queue with a fresh set of attempts. */
+  async retryDelivery(
+    workspaceId: string,
+    id: string,
+  ): Promise<WebhookDeliveryResponseDto> {
+    const delivery = await this.repository.findDeliveryById(id, workspaceId);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery with id ${id} not found`);
+    }
+    if (delivery.status !== 'dead') {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.CONFLICT,
+          'Webhook delivery is not dead',
+          {
+            type: 'https://example.com/problems/webhook-delivery-not-dead',
+            detail: `Delivery ${id} is ${delivery.status}; only dead deliveries can be retried.`,
+          },
+        ),
+      );
+    }
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date();
+    const [saved] = await this.repository.saveDeliveries([delivery]);
+    return toWebhookDeliveryResponse(saved);
+  }
+
+  private async enqueue(
+    repository: WebhookRepository,
+    event: TaskEvent,
+  ): Promise<void> {
+    const subscribers = await repository.findSubscribers(
+      event.task.workspaceId,
+      event.type,
+    );
+    if (subscribers.length === 0) {
+      return;
+    }
+    const payload = {
+      event: event.type,
+      occurredAt: event.occurredAt.toISOString(),
+      actor: event.actor,
+      data: { task: event.task, changes: event.changes },
+    };
+    await repository.saveDeliveries(
+      subscribers.map((subscriber) => {
+        const delivery = new WebhookDeliveryEntity();
+        delivery.subscriptionId = subscriber.id;
+        delivery.event = event.type;
+        delivery.payload = payload;
+        delivery.status = 'pending';
+        delivery.attempts = 0;
+        delivery.nextAttemptAt = event.occurredAt;
+        return delivery;
+      }),
+    );
+  }
+
+  private async findWebhookOrThrow(
+    workspaceId: string,
+    id: string,
+  ): Promise<WebhookSubscriptionEntity> {
+    const subscription = await this.repository.findSubscriptionById(
+      id,
+      workspaceId,
+    );
+    if (!subscription) {
+      throw new NotFoundException(`Webhook with id ${id} not found`);
+    }
+    return subscription;
+  }
+}
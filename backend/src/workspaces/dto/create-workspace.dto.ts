@@ -0,0 +1,16 @@
+import { IsString, Length, Matches } from 'class-validator';
+
+export class CreateWorkspaceDto {
+  @IsString()
+  @Length(1, 80)
+  @Matches(/\S/, { message: 'name must contain a non-whitespace character' })
+  name!: string;
+
+  /** Lower-case words joined by hyphens, e.g. `platform-team`. */
+  @IsString()
+  @Length(1, 40)
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'slug must be lower-case letters and digits joined by hyphens',
+  })
+  slug!: string;
+}
@@ -0,0 +1,45 @@
+import { Exclude, Expose, Type } from 'class-transformer';
+
+@Exclude()
+export class WorkspaceResponseDto {
+  @Expose()
+  id!: string;
+
+  @Expose()
+  name!: string;
+
+  @Expose()
+  slug!: string;
+
+  @Expose()
+  createdAt!: string;
+}
+
+@Exclude()
+export class WorkspaceListResponseDto {
+  @Expose()
+  @Type(() => WorkspaceResponseDto)
+  data!: WorkspaceResponseDto[];
+}
+
+@Exclude()
+export class WorkspaceMemberResponseDto {
+  @Expose()
+  userId!: string;
+
+  @Expose()
+  email!: string;
+
+  @Expose()
+  displayName!: string;
+
+  @Expose()
+  joinedAt!: string;
+}
+
+@Exclude()
+export class WorkspaceMemberListResponseDto {
+  @Expose()
+  @Type(() => WorkspaceMemberResponseDto)
+  data!: WorkspaceMemberResponseDto[];
+}
@@ -0,0 +1,36 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+} from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { WorkspaceEntity } from './workspace.entity';
+
+/** Lets `userId` see and change the tasks of `workspaceId`. */
+@Entity({ name: 'workspace_members' })
+@Unique(['workspaceId', 'userId'])
+export class WorkspaceMemberEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar' })
+  workspaceId!: string;
+
+  @ManyToOne(() => WorkspaceEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspaceId' })
+  workspace?: WorkspaceEntity;
+
+  @Column({ type: 'varchar' })
+  userId!: string;
+
+  @ManyToOne(() => UserEntity, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user?: UserEntity;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Created on start-up. Tasks from before workspaces existed, and callers with
+ * no other workspace, land here.
+ */
+export const DEFAULT_WORKSPACE_ID = '00000000-0000-4000-8000-000000000000';
+export const DEFAULT_WORKSPACE_SLUG = 'default';
+
+/** A tenant; every task belongs to exactly one. */
+@Entity({ name: 'workspaces' })
+export class WorkspaceEntity {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ length: 80 })
+  name!: string;
+
+  /** Names the workspace in `/workspaces/:workspace/...` routes. */
+  @Column({ length: 40, unique: true })
+  slug!: string;
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,105 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { UserEntity } from '../../users/entities/user.entity';
+import { WorkspaceMemberEntity } from '../entities/workspace-member.entity';
+import { WorkspaceEntity } from '../entities/workspace.entity';
+import type { WorkspaceRepository } from '../workspace.repository';
+
+@Injectable()
+export class TypeOrmWorkspaceRepository implements WorkspaceRepository {
+  constructor(
+    @InjectRepository(WorkspaceEntity)
+    private readonly repository: Repository<WorkspaceEntity>,
+    @InjectRepository(WorkspaceMemberEntity)
+    private readonly members: Repository<WorkspaceMemberEntity>,
+  ) {}
+
+  async findAll(): Promise<WorkspaceEntity[]> {
+    return this.repository.find({ order: { createdAt: 'ASC', slug: 'ASC' } });
+  }
+
+  async findById(id: string): Promise<WorkspaceEntity | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  async findBySlug(slug: string): Promise<WorkspaceEntity | null> {
+    return this.repository.findOne({ where: { slug } });
+  }
+
+  async findByMember(userId: string): Promise<WorkspaceEntity[]> {
+    return this.repository
+      .createQueryBuilder('workspace')
+      .innerJoin(
+        WorkspaceMemberEntity,
+        'member',
+        'member.workspaceId = workspace.id',
+      )
+      .where('member.userId = :userId', { userId })
+      .orderBy('member.createdAt', 'ASC')
+      .addOrderBy('workspace.slug', 'ASC')
+      .getMany();
+  }
+
+  async save(workspace: WorkspaceEntity): Promise<WorkspaceEntity> {
+    return this.repository.save(workspace);
+  }
+
+  async insertIfMissing(workspace: WorkspaceEntity): Promise<void> {
+    await this.repository
+      .createQueryBuilder()
+      .insert()
+      .values(workspace)
+      .orIgnore()
+      .execute();
+  }
+
+  async findMembers(workspaceId: string): Promise<WorkspaceMemberEntity[]> {
+    return this.members.find({
+      where: { workspaceId },
+      relations: { user: true },
+      order: { createdAt: 'ASC', userId: 'ASC' },
+    });
+  }
+
+  async isMember(workspaceId: string, userId: string): Promise<boolean> {
+    return this.members.exists({ where: { workspaceId, userId } });
+  }
+
+  async addMember(workspaceId: string, userId: string): Promise<boolean> {
+    const userExists = await this.members.manager
+      .getRepository(UserEntity)
+      .exists({ where: { id: userId } });
+    if (!userExists) {
+      return false;
+    }
+    await this.members
+      .createQueryBuilder()
+      .insert()
+      .values({ workspaceId, userId })
+      .orIgnore()
+      .execute();
+    return true;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await this.members.delete({ workspaceId, userId });
+    return (result.affected ?? 0) > 0;
+  }
+
+  async adoptUsersWithoutWorkspace(workspaceId: string): Promise<void> {
+    const users = await this.members.manager
+      .getRepository(UserEntity)
+      .createQueryBuilder('user')
+      .select('user.id', 'id')
+      .where(
+        'NOT EXISTS (SELECT 1 FROM workspace_members member WHERE member.userId = user.id)',
+      )
+      .getRawMany<{ id: string }>();
+    if (users.length > 0) {
+      await this.members.insert(
+        users.map(({ id }) => ({ workspaceId, userId: id })),
+      );
+    }
+  }
+}
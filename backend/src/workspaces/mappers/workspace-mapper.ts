@@ -0,0 +1,50 @@
+import { plainToInstance } from 'class-transformer';
+import {
+  WorkspaceListResponseDto,
+  WorkspaceMemberListResponseDto,
+  WorkspaceResponseDto,
+} from '../dto/workspace-response.dto';
+import { WorkspaceMemberEntity } from '../entities/workspace-member.entity';
+import { WorkspaceEntity } from '../entities/workspace.entity';
+
+const workspaceToPlain = (
+  workspace: WorkspaceEntity,
+): Record<string, unknown> => ({
+  id: workspace.id,
+  name: workspace.name,
+  slug: workspace.slug,
+  createdAt: workspace.createdAt.toISOString(),
+});
+
+export const toWorkspaceResponse = (
+  workspace: WorkspaceEntity,
+): WorkspaceResponseDto =>
+  plainToInstance(WorkspaceResponseDto, workspaceToPlain(workspace), {
+    excludeExtraneousValues: true,
+  });
+
+export const toWorkspaceListResponse = (
+  workspaces: WorkspaceEntity[],
+): WorkspaceListResponseDto =>
+  plainToInstance(
+    WorkspaceListResponseDto,
+    { data: workspaces.map(workspaceToPlain) },
+    { excludeExtraneousValues: true },
+  );
+
+/** Expects the members to be loaded with their users. */
+export const toWorkspaceMemberListResponse = (
+  members: WorkspaceMemberEntity[],
+): WorkspaceMemberListResponseDto =>
+  plainToInstance(
+    WorkspaceMemberListResponseDto,
+    {
+      data: members.map((member) => ({
+        userId: member.userId,
+        email: member.user?.email,
+        displayName: member.user?.displayName,
+        joinedAt: member.createdAt.toISOString(),
+      })),
+    },
+    { excludeExtraneousValues: true },
+  );
@@ -0,0 +1,28 @@
+import { WorkspaceMemberEntity } from './entities/workspace-member.entity';
+import { WorkspaceEntity } from './entities/workspace.entity';
+
+export const WORKSPACE_REPOSITORY = Symbol('WORKSPACE_REPOSITORY');
+
+export interface WorkspaceRepository {
+  /** Every workspace, oldest first. */
+  findAll(): Promise<WorkspaceEntity[]>;
+  findById(id: string): Promise<WorkspaceEntity | null>;
+  findBySlug(slug: string): Promise<WorkspaceEntity | null>;
+  /** The workspaces `userId` belongs to, in the order they were joined. */
+  findByMember(userId: string): Promise<WorkspaceEntity[]>;
+  save(workspace: WorkspaceEntity): Promise<WorkspaceEntity>;
+  /** Inserts the workspace unless one with its id already exists. */
+  insertIfMissing(workspace: WorkspaceEntity): Promise<void>;
+  /** Members with their users, in the order they joined. */
+  findMembers(workspaceId: string): Promise<WorkspaceMemberEntity[]>;
+  isMember(workspaceId: string, userId: string): Promise<boolean>;
+  /**
+   * Adding an existing member is a no-op. Resolves to `false` when there is
+   * no user `userId`.
+   */
+  addMember(workspaceId: string, userId: string): Promise<boolean>;
+  /** Resolves to `false` when the user was not a member. */
+  removeMember(workspaceId: string, userId: string): Promise<boolean>;
+  /** Makes every user who belongs to no workspace a member of this one. */
+  adoptUsersWithoutWorkspace(workspaceId: string): Promise<void>;
+}
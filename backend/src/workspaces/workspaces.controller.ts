@@ -0,0 +1,74 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { RequireScopes } from '../common/decorators/require-scopes.decorator';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import {
+  WorkspaceListResponseDto,
+  WorkspaceMemberListResponseDto,
+  WorkspaceResponseDto,
+} from './dto/workspace-response.dto';
+import { WorkspacesService } from './workspaces.service';
+
+@Controller('workspaces')
+@UseGuards(ApiTokenGuard)
+export class WorkspacesController {
+  constructor(private readonly workspacesService: WorkspacesService) {}
+
+  @Get()
+  list(@Req() req: AuthenticatedRequest): Promise<WorkspaceListResponseDto> {
+    return this.workspacesService.listWorkspaces(req);
+  }
+
+  @Post()
+  @RequireScopes('admin')
+  create(
+    @Body() dto: CreateWorkspaceDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<WorkspaceResponseDto> {
+    return this.workspacesService.createWorkspace(dto, req);
+  }
+
+  /** Open to everyone who works in the workspace, e.g. to pick assignees. */
+  @Get(':workspace/members')
+  @RequireScopes('tasks:read')
+  members(
+    @Param('workspace') slug: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<WorkspaceMemberListResponseDto> {
+    return this.workspacesService.listMembers(slug, req);
+  }
+
+  @Put(':workspace/members/:userId')
+  @RequireScopes('admin')
+  addMember(
+    @Param('workspace') slug: string,
+    @Param('userId', new ParseUUIDPipe({ version: '4' })) userId: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<WorkspaceMemberListResponseDto> {
+    return this.workspacesService.addMember(slug, userId, req);
+  }
+
+  @Delete(':workspace/members/:userId')
+  @RequireScopes('admin')
+  @HttpCode(204)
+  removeMember(
+    @Param('workspace') slug: string,
+    @Param('userId', new ParseUUIDPipe({ version: '4' })) userId: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<void> {
+    return this.workspacesService.removeMember(slug, userId, req);
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiTokensModule } from '../api-tokens/api-tokens.module';
+import { ApiTokenGuard } from '../common/guards/api-token.guard';
+import { WorkspaceMemberEntity } from './entities/workspace-member.entity';
+import { WorkspaceEntity } from './entities/workspace.entity';
+import { TypeOrmWorkspaceRepository } from './infrastructure/typeorm-workspace.repository';
+import { WORKSPACE_REPOSITORY } from './workspace.repository';
+import { WorkspacesController } from './workspaces.controller';
+import { WorkspacesService } from './workspaces.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WorkspaceEntity, WorkspaceMemberEntity]),
+    ApiTokensModule,
+  ],
+  controllers: [WorkspacesController],
+  providers: [
+    WorkspacesService,
+    TypeOrmWorkspaceRepository,
+    ApiTokenGuard,
+    {
+      provide: WORKSPACE_REPOSITORY,
+      useExisting: TypeOrmWorkspaceRepository,
+    },
+  ],
+  exports: [WorkspacesService],
+})
+export class WorkspacesModule {}
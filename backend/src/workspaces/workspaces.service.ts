@@ -0,0 +1,241 @@
+import {
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import type { AuthenticatedRequest } from '../common/guards/api-token.guard';
+import {
+  ProblemDetailsException,
+  createProblemDetails,
+} from '../common/problem-details';
+import { CreateWorkspaceDto } from './dto/create-workspace.dto';
+import {
+  WorkspaceListResponseDto,
+  WorkspaceMemberListResponseDto,
+  WorkspaceResponseDto,
+} from './dto/workspace-response.dto';
+import {
+  DEFAULT_WORKSPACE_ID,
+  DEFAULT_WORKSPACE_SLUG,
+  WorkspaceEntity,
+} from './entities/workspace.entity';
+import {
+  toWorkspaceListResponse,
+  toWorkspaceMemberListResponse,
+  toWorkspaceResponse,
+} from './mappers/workspace-mapper';
+import type { WorkspaceRepository } from './workspace.repository';
+import { WORKSPACE_REPOSITORY } from './workspace.repository';
+
+/**
+ * The parts of an authenticated request that decide which workspaces the
+ * caller may use. Callers with neither, such as the shared `API_TOKEN`, may
+ * use every workspace.
+ */
+export type WorkspacePrincipal = Pick<
+  AuthenticatedRequest,
+  'userId' | 'tokenWorkspaceId'
+>;
+
+const accessDenied = (detail: string) =>
+  new ProblemDetailsException(
+    createProblemDetails(HttpStatus.FORBIDDEN, 'Forbidden', {
+      type: 'https://example.com/problems/workspace-access-denied',
+      detail,
+    }),
+  );
+
+@Injectable()
+export class WorkspacesService implements OnModuleInit {
+  constructor(
+    @Inject(WORKSPACE_REPOSITORY)
+    private readonly repository: WorkspaceRepository,
+  ) {}
+
+  /** Accounts from before workspaces existed join the default one. */
+  async onModuleInit(): Promise<void> {
+    const workspace = new WorkspaceEntity();
+    workspace.id = DEFAULT_WORKSPACE_ID;
+    workspace.name = 'Default';
+    workspace.slug = DEFAULT_WORKSPACE_SLUG;
+    await this.repository.insertIfMissing(workspace);
+    await this.repository.adoptUsersWithoutWorkspace(DEFAULT_WORKSPACE_ID);
+  }
+
+  /** The workspaces the caller may use. */
+  async listWorkspaces(
+    principal: WorkspacePrincipal,
+  ): Promise<WorkspaceListResponseDto> {
+    return toWorkspaceListResponse(await this.findAccessible(principal));
+  }
+
+  async createWorkspace(
+    dto: CreateWorkspaceDto,
+    principal: WorkspacePrincipal = {},
+  ): Promise<WorkspaceResponseDto> {
+    this.assertNotWorkspaceBound(principal, 'create workspaces');
+    if (await this.repository.findBySlug(dto.slug)) {
+      throw new ProblemDetailsException(
+        createProblemDetails(HttpStatus.CONFLICT, 'Workspace slug taken', {
+          type: 'https://example.com/problems/workspace-slug-taken',
+          detail: `A workspace with slug ${dto.slug} already exists.`,
+        }),
+      );
+    }
+    const workspace = new WorkspaceEntity();
+    workspace.name = dto.name.trim();
+    workspace.slug = dto.slug;
+    return toWorkspaceResponse(await this.repository.save(workspace));
+  }
+
+  /** With a `principal`, only workspaces the caller may use are listed. */
+  async listMembers(
+    slug: string,
+    principal?: WorkspacePrincipal,
+  ): Promise<WorkspaceMemberListResponseDto> {
+    const workspace = principal
+      ? await this.resolveWorkspace(principal, slug)
+      : await this.findBySlugOrThrow(slug);
+    return toWorkspaceMemberListResponse(
+      await this.repository.findMembers(workspace.id),
+    );
+  }
+
+  /** With a `principal`, only workspaces the caller may use are changed. */
+  async addMember(
+    slug: string,
+    userId: string,
+    principal?: WorkspacePrincipal,
+  ): Promise<WorkspaceMemberListResponseDto> {
+    const workspace = principal
+      ? await this.resolveWorkspace(principal, slug)
+      : await this.findBySlugOrThrow(slug);
+    if (!(await this.repository.addMember(workspace.id, userId))) {
+      throw new ProblemDetailsException(
+        createProblemDetails(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'User not found',
+          {
+            type: 'https://example.com/problems/user-not-found',
+            detail: `User with id ${userId} does not exist.`,
+          },
+        ),
+      );
+    }
+    return this.listMembers(slug);
+  }
+
+  async removeMember(
+    slug: string,
+    userId: string,
+    principal?: WorkspacePrincipal,
+  ): Promise<void> {
+    const workspace = principal
+      ? await this.resolveWorkspace(principal, slug)
+      : await this.findBySlugOrThrow(slug);
+    if (!(await this.repository.removeMember(workspace.id, userId))) {
+      throw new NotFoundException(
+        `User ${userId} is not a member of workspace ${slug}`,
+      );
+    }
+  }
+
+  /**
+   * Refuses `action` to tokens bound to one workspace, for calls that reach
+   * beyond it such as creating workspaces or accounts.
+   */
+  assertNotWorkspaceBound(principal: WorkspacePrincipal, action: string): void {
+    if (principal.tokenWorkspaceId) {
+      throw accessDenied(`Tokens bound to a workspace cannot ${action}.`);
+    }
+  }
+
+  async isMember(workspaceId: string, userId: string): Promise<boolean> {
+    return this.repository.isMember(workspaceId, userId);
+  }
+
+  /** New accounts start out in the default workspace. */
+  async joinDefaultWorkspace(userId: string): Promise<void> {
+    await this.repository.addMember(DEFAULT_WORKSPACE_ID, userId);
+  }
+
+  /**
+   * The workspace a request works in: the one its route names, which the
+   * caller must be allowed to use, or else the caller's own. Users get the
+   * default workspace when they belong to it and their first one otherwise;
+   * tokens bound to a workspace get that one.
+   */
+  async resolveWorkspace(
+    principal: WorkspacePrincipal,
+    slug?: string,
+  ): Promise<WorkspaceEntity> {
+    if (slug !== undefined) {
+      const workspace = await this.findBySlugOrThrow(slug);
+      if (!(await this.canUse(principal, workspace))) {
+        throw accessDenied(`You do not have access to workspace ${slug}.`);
+      }
+      return workspace;
+    }
+
+    if (principal.tokenWorkspaceId) {
+      return this.findByIdOrThrow(principal.tokenWorkspaceId);
+    }
+    if (principal.userId) {
+      const workspaces = await this.repository.findByMember(principal.userId);
+      const workspace =
+        workspaces.find(({ id }) => id === DEFAULT_WORKSPACE_ID) ??
+        workspaces[0];
+      if (!workspace) {
+        throw accessDenied('You are not a member of any workspace.');
+      }
+      return workspace;
+    }
+    return this.findByIdOrThrow(DEFAULT_WORKSPACE_ID);
+  }
+
+  private async findAccessible(
+    principal: WorkspacePrincipal,
+  ): Promise<WorkspaceEntity[]> {
+    if (principal.tokenWorkspaceId) {
+      const workspace = await this.repository.findById(
+        principal.tokenWorkspaceId,
+      );
+      return workspace ? [workspace] : [];
+    }
+    if (principal.userId) {
+      return this.repository.findByMember(principal.userId);
+    }
+    return this.repository.findAll();
+  }
+
+  private async canUse(
+    principal: WorkspacePrincipal,
+    workspace: WorkspaceEntity,
+  ): Promise<boolean> {
+    if (principal.tokenWorkspaceId) {
+      return principal.tokenWorkspaceId === workspace.id;
+    }
+    if (principal.userId) {
+      return this.repository.isMember(workspace.id, principal.userId);
+    }
+    return true;
+  }
+
+  private async findBySlugOrThrow(slug: string): Promise<WorkspaceEntity> {
+    const workspace = await this.repository.findBySlug(slug);
+    if (!workspace) {
+      throw new NotFoundException(`Workspace ${slug} not found`);
+    }
+    return workspace;
+  }
+
+  private async findByIdOrThrow(id: string): Promise<WorkspaceEntity> {
+    const workspace = await this.repository.findById(id);
+    if (!workspace) {
+      throw new NotFoundException(`Workspace with id ${id} not found`);
+    }
+    return workspace;
+  }
+}
@@ -1,12 +1,24 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import request from 'supertest';
 import type { Test as SupertestRequest } from 'supertest';
 
 process.env.API_TOKEN = process.env.API_TOKEN ?? 'test-token';
+process.env.JWT_SECRET =
+  process.env.JWT_SECRET ?? 'test-jwt-secret-that-is-long-enough';
 process.env.DATABASE_PATH = ':memory:';
 
 import { AppModule } from '../src/app.module';
+import { NotificationsService } from '../src/notifications/notifications.service';
+import { TaskReminderScheduler } from '../src/tasks/infrastructure/task-reminder.scheduler';
+import { TaskTrashPurger } from '../src/tasks/infrastructure/task-trash.purger';
+import { WebhookDeliveryWorker } from '../src/webhooks/infrastructure/webhook-delivery.worker';
+import { DEFAULT_WORKSPACE_ID } from '../src/workspaces/entities/workspace.entity';
+import { signWebhookPayload } from '../src/webhooks/utils/webhook-delivery.util';
 import { ErrorFilter } from '../src/common/filters/error.filter';
 import { RequestLoggingInterceptor } from '../src/common/interceptors/request-logging.interceptor';
 import {
@@ -18,6 +30,7 @@ import {
 type TaskResponse = {
   readonly id: string;
   readonly title: string;
+  readonly description: string | null;
   readonly status: string;
   readonly priority: number;
   readonly dueDate: string | null;
@@ -39,10 +52,14 @@ type TaskListResponse = {
 
 type TaskRequestPayload = {
   readonly title?: string;
+  readonly parentId?: string | null;
+  readonly description?: string | null;
   readonly status?: string;
   readonly priority?: number;
   readonly dueDate?: string | null;
   readonly tags?: string[];
+  readonly assignees?: string[];
+  readonly recurrence?: string | null;
 };
 
 const parseTaskResponse = (value: unknown): TaskResponse => {
@@ -71,6 +88,8 @@ const parseTaskResponse = (value: unknown): TaskResponse => {
   return {
     id: requiredString('id'),
     title: requiredString('title'),
+    description:
+      typeof record.description === 'string' ? record.description : null,
     status: requiredString('status'),
     priority: requiredNumber('priority'),
     dueDate:
@@ -172,6 +191,8 @@ const parseProblemDetailsResponse = (value: unknown): ProblemDetails => {
   return problem;
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 describe('Task Tracker API (e2e)', () => {
   let app: INestApplication;
   let server: Parameters<typeof request>[0];
@@ -224,6 +245,718 @@ describe('Task Tracker API (e2e)', () => {
     return parseTaskResponse(response.body);
   };
 
+  describe('user sessions', () => {
+    type SessionResponse = {
+      user: { id: string; email: string; displayName: string };
+      accessTokenExpiresAt: string;
+    };
+    const password = 'correct horse battery staple';
+
+    const registerUser = async (email = 'Ada@Example.com') => {
+      const response = await withAuth(request(server).post('/users'))
+        .send({ email, displayName: 'Ada', password })
+        .expect(201);
+      return response.body as SessionResponse['user'];
+    };
+
+    /** `name=value` pairs from `Set-Cookie`, for replaying as `Cookie`. */
+    const sessionCookies = (response: request.Response) => {
+      const header = response.headers['set-cookie'] as unknown as string[];
+      return Object.fromEntries(
+        header.map((cookie) => {
+          const [pair] = cookie.split(';');
+          const separator = pair.indexOf('=');
+          return [pair.slice(0, separator), pair] as const;
+        }),
+      );
+    };
+
+    const login = async () => {
+      const response = await request(server)
+        .post('/auth/login')
+        .send({ email: 'ada@example.com', password })
+        .expect(200);
+      return {
+        body: response.body as SessionResponse,
+        cookies: sessionCookies(response),
+        rawCookies: response.headers['set-cookie'] as unknown as string[],
+      };
+    };
+
+    it('signs users in with httpOnly cookies the guard accepts', async () => {
+      await request(server)
+        .post('/users')
+        .send({ email: 'ada@example.com', displayName: 'Ada', password })
+        .expect(401);
+      const user = await registerUser();
+      expect(user).toEqual({
+        id: expect.any(String) as unknown,
+        email: 'ada@example.com',
+        displayName: 'Ada',
+        role: 'member',
+        createdAt: expect.any(String) as unknown,
+      });
+      await withAuth(request(server).post('/users'))
+        .send({ email: 'ADA@example.com', displayName: 'Ada 2', password })
+        .expect(409);
+
+      const wrong = await request(server)
+        .post('/auth/login')
+        .send({ email: 'ada@example.com', password: 'not the password' })
+        .expect(401);
+      expect(parseProblemDetailsResponse(wrong.body).type).toBe(
+        'https://example.com/problems/invalid-credentials',
+      );
+
+      const { body, cookies, rawCookies } = await login();
+      expect(body.user.id).toBe(user.id);
+      expect(body).not.toHaveProperty('accessToken');
+      const accessToken = cookies.access_token.slice('access_token='.length);
+      expect(accessToken.split('.')).toHaveLength(3);
+      expect(rawCookies).toEqual([
+        expect.stringMatching(
+          /^access_token=[\w.-]+; Path=\/; Expires=.+; HttpOnly; Secure; SameSite=Strict$/,
+        ),
+        expect.stringMatching(
+          /^refresh_token=[\w-]+; Path=\/auth; Expires=.+; HttpOnly; Secure; SameSite=Strict$/,
+        ),
+      ]);
+
+      const me = await request(server)
+        .get('/auth/me')
+        .set('Cookie', cookies.access_token)
+        .expect(200);
+      expect(me.body).toMatchObject({ id: user.id, email: 'ada@example.com' });
+      await withAuth(request(server).get('/auth/me')).expect(401);
+
+      const created = await request(server)
+        .post('/tasks')
+        .set('Cookie', cookies.access_token)
+        .send({ title: 'From a session' })
+        .expect(201);
+      const task = parseTaskResponse(created.body);
+      await request(server)
+        .patch(`/tasks/${task.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .set('If-Match', `"${task.version}"`)
+        .send({ priority: 1 })
+        .expect(200);
+      const history = await withAuth(
+        request(server).get(`/tasks/${task.id}/history`),
+      ).expect(200);
+      expect(
+        (history.body as { data: { actor: string }[] }).data.map(
+          ({ actor }) => actor,
+        ),
+      ).toEqual([`user:${user.id}`, `user:${user.id}`]);
+
+      const [header, payload] = accessToken.split('.');
+      const forged = await request(server)
+        .post('/tasks')
+        .set('Authorization', `Bearer ${header}.${payload}.c2lnbmF0dXJl`)
+        .send({ title: 'Forged' })
+        .expect(401);
+      expect(parseProblemDetailsResponse(forged.body).type).toBe(
+        'https://example.com/problems/invalid-token',
+      );
+    });
+
+    it('gives admin users the admin scope', async () => {
+      const user = await registerUser();
+      const asMember = await login();
+      const denied = await request(server)
+        .get('/api-tokens')
+        .set('Cookie', asMember.cookies.access_token)
+        .expect(403);
+      expect(parseProblemDetailsResponse(denied.body).type).toBe(
+        'https://example.com/problems/insufficient-scope',
+      );
+
+      await withAuth(request(server).patch(`/users/${user.id}`))
+        .send({ role: 'admin' })
+        .expect(200);
+      const asAdmin = await login();
+      await request(server)
+        .get('/api-tokens')
+        .set('Cookie', asAdmin.cookies.access_token)
+        .expect(200);
+      await request(server)
+        .post('/workspaces')
+        .set('Cookie', asAdmin.cookies.access_token)
+        .send({ name: 'Ops', slug: 'ops' })
+        .expect(201);
+    });
+
+    it('rotates refresh tokens and ends every session on reuse', async () => {
+      await registerUser();
+      const first = await login();
+
+      const refreshed = await request(server)
+        .post('/auth/refresh')
+        .set('Cookie', first.cookies.refresh_token)
+        .expect(200);
+      const second = sessionCookies(refreshed);
+      expect(second.refresh_token).not.toBe(first.cookies.refresh_token);
+      await request(server)
+        .get('/auth/me')
+        .set('Cookie', second.access_token)
+        .expect(200);
+
+      const replayed = await request(server)
+        .post('/auth/refresh')
+        .set('Cookie', first.cookies.refresh_token)
+        .expect(401);
+      expect(replayed.headers['set-cookie']).toEqual([
+        expect.stringMatching(
+          /^access_token=; Path=\/; Expires=Thu, 01 Jan 1970/,
+        ),
+        expect.stringMatching(
+          /^refresh_token=; Path=\/auth; Expires=Thu, 01 Jan 1970/,
+        ),
+      ]);
+      await request(server)
+        .post('/auth/refresh')
+        .set('Cookie', second.refresh_token)
+        .expect(401);
+
+      const third = await login();
+      await request(server)
+        .post('/auth/logout')
+        .set('Cookie', third.cookies.refresh_token)
+        .expect(204);
+      await request(server)
+        .post('/auth/refresh')
+        .set('Cookie', third.cookies.refresh_token)
+        .expect(401);
+    });
+  });
+
+  describe('api tokens', () => {
+    type ApiTokenResponse = {
+      id: string;
+      prefix: string;
+      scopes: string[];
+      token?: string;
+      lastUsedAt: string | null;
+      revokedAt: string | null;
+    };
+
+    const createApiToken = async (scopes: string[]) => {
+      const response = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: `Script with ${scopes.join(' ')}`, scopes })
+        .expect(201);
+      return response.body as ApiTokenResponse;
+    };
+
+    const bearer = (token: string | undefined) => `Bearer ${token ?? ''}`;
+
+    const problemType = (response: request.Response) =>
+      parseProblemDetailsResponse(response.body).type;
+
+    it('enforces the scopes each route declares', async () => {
+      const reader = await createApiToken(['tasks:read']);
+      const writer = await createApiToken(['tasks:write']);
+      expect(reader.token).toMatch(/^tt_/);
+      expect(reader.token?.startsWith(reader.prefix)).toBe(true);
+
+      expect(problemType(await request(server).get('/tasks').expect(401))).toBe(
+        'https://example.com/problems/missing-token',
+      );
+      await request(server)
+        .get('/tasks')
+        .set('Authorization', bearer(reader.token))
+        .expect(200);
+      const denied = await request(server)
+        .post('/tasks')
+        .set('Authorization', bearer(reader.token))
+        .send({ title: 'Not allowed' })
+        .expect(403);
+      expect(problemType(denied)).toBe(
+        'https://example.com/problems/insufficient-scope',
+      );
+
+      const created = await request(server)
+        .post('/tasks')
+        .set('Authorization', bearer(writer.token))
+        .send({ title: 'Written by a script' })
+        .expect(201);
+      const task = parseTaskResponse(created.body);
+      const history = await request(server)
+        .get(`/tasks/${task.id}/history`)
+        .set('Authorization', bearer(writer.token))
+        .expect(200);
+      expect(
+        (history.body as { data: { actor: string }[] }).data[0].actor,
+      ).toBe(`api-token:${writer.id}`);
+      await request(server)
+        .get('/api-tokens')
+        .set('Authorization', bearer(writer.token))
+        .expect(403);
+
+      const listed = await withAuth(request(server).get('/api-tokens')).expect(
+        200,
+      );
+      const tokens = (listed.body as { data: ApiTokenResponse[] }).data;
+      expect(tokens.map(({ id }) => id).sort()).toEqual(
+        [writer.id, reader.id].sort(),
+      );
+      for (const token of tokens) {
+        expect(token).not.toHaveProperty('token');
+        expect(token.lastUsedAt).toEqual(expect.any(String));
+      }
+    });
+
+    it('rotates and revokes tokens', async () => {
+      const original = await createApiToken(['admin']);
+
+      const rotated = await withAuth(
+        request(server).post(`/api-tokens/${original.id}/rotate`),
+      ).expect(200);
+      const replacement = rotated.body as ApiTokenResponse;
+      expect(replacement.id).toBe(original.id);
+      expect(replacement.token).not.toBe(original.token);
+      expect(
+        problemType(
+          await request(server)
+            .get('/tasks')
+            .set('Authorization', bearer(original.token))
+            .expect(401),
+        ),
+      ).toBe('https://example.com/problems/invalid-token');
+      await request(server)
+        .get('/webhooks')
+        .set('Authorization', bearer(replacement.token))
+        .expect(200);
+
+      await withAuth(
+        request(server).delete(`/api-tokens/${original.id}`),
+      ).expect(204);
+      await request(server)
+        .get('/tasks')
+        .set('Authorization', bearer(replacement.token))
+        .expect(401);
+      await withAuth(
+        request(server).post(`/api-tokens/${original.id}/rotate`),
+      ).expect(409);
+    });
+
+    it('validates scopes and expiry', async () => {
+      await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'Bad scope', scopes: ['tasks:delete'] })
+        .expect(400);
+      const expired = await withAuth(request(server).post('/api-tokens'))
+        .send({
+          name: 'Already expired',
+          scopes: ['tasks:read'],
+          expiresAt: '2020-01-01T00:00:00.000Z',
+        })
+        .expect(400);
+      expect(problemType(expired)).toBe(
+        'https://example.com/problems/invalid-token-expiry',
+      );
+    });
+  });
+
+  describe('workspaces', () => {
+    type WorkspaceResponse = { id: string; slug: string };
+    type ListResponse<T> = { data: T[]; meta: { statusCounts: object } };
+
+    const createWorkspace = async (slug = 'ops') => {
+      const response = await withAuth(request(server).post('/workspaces'))
+        .send({ name: 'Operations', slug })
+        .expect(201);
+      return response.body as WorkspaceResponse;
+    };
+
+    const problemType = (response: request.Response) =>
+      parseProblemDetailsResponse(response.body).type;
+
+    it('keeps tasks, counts and activity inside their workspace', async () => {
+      const ops = await createWorkspace();
+      await withAuth(request(server).post('/workspaces'))
+        .send({ name: 'Ops again', slug: 'ops' })
+        .expect(409);
+      const shared = await createTask();
+      const created = await withAuth(
+        request(server).post('/workspaces/ops/tasks'),
+      )
+        .send({ title: 'Rotate keys', status: 'doing' })
+        .expect(201);
+      const scoped = created.body as TaskResponse & { workspaceId: string };
+      expect(scoped.workspaceId).toBe(ops.id);
+
+      const defaultList = await withAuth(request(server).get('/tasks')).expect(
+        200,
+      );
+      const opsList = await withAuth(
+        request(server).get('/workspaces/ops/tasks'),
+      ).expect(200);
+      const defaultBody = defaultList.body as ListResponse<TaskResponse>;
+      const opsBody = opsList.body as ListResponse<TaskResponse>;
+      expect(defaultBody.data.map(({ id }) => id)).toEqual([shared.id]);
+      expect(defaultBody.meta.statusCounts).toEqual({
+        todo: 1,
+        doing: 0,
+        done: 0,
+      });
+      expect(opsBody.data.map(({ id }) => id)).toEqual([scoped.id]);
+      expect(opsBody.meta.statusCounts).toEqual({ todo: 0, doing: 1, done: 0 });
+
+      await withAuth(request(server).get(`/tasks/${scoped.id}`)).expect(404);
+      await withAuth(
+        request(server).get(`/workspaces/ops/tasks/${shared.id}`),
+      ).expect(404);
+      const activity = await withAuth(
+        request(server).get('/workspaces/ops/activity'),
+      ).expect(200);
+      expect(
+        (activity.body as ListResponse<{ taskId: string }>).data.map(
+          ({ taskId }) => taskId,
+        ),
+      ).toEqual([scoped.id]);
+      await withAuth(request(server).get('/workspaces/nope/tasks')).expect(404);
+    });
+
+    it('resolves the workspace from tokens and memberships', async () => {
+      const ops = await createWorkspace();
+      await withAuth(request(server).post('/api-tokens'))
+        .send({
+          name: 'Nowhere',
+          scopes: ['tasks:read'],
+          workspaceId: '6f1c3a52-0d9e-4b8f-9a51-2f7d3c1e8b40',
+        })
+        .expect(422);
+      const issued = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'Ops bot', scopes: ['tasks:write'], workspaceId: ops.id })
+        .expect(201);
+      const bot = `Bearer ${(issued.body as { token: string }).token}`;
+
+      const created = await request(server)
+        .post('/tasks')
+        .set('Authorization', bot)
+        .send({ title: 'Filed by the bot' })
+        .expect(201);
+      const task = created.body as TaskResponse & { workspaceId: string };
+      expect(task.workspaceId).toBe(ops.id);
+      const denied = await request(server)
+        .get('/workspaces/default/tasks')
+        .set('Authorization', bot)
+        .expect(403);
+      expect(problemType(denied)).toBe(
+        'https://example.com/problems/workspace-access-denied',
+      );
+      const botWorkspaces = await request(server)
+        .get('/workspaces')
+        .set('Authorization', bot)
+        .expect(200);
+      expect(
+        (botWorkspaces.body as ListResponse<WorkspaceResponse>).data.map(
+          ({ slug }) => slug,
+        ),
+      ).toEqual(['ops']);
+
+      const password = 'correct horse battery staple';
+      const registered = await withAuth(request(server).post('/users'))
+        .send({ email: 'grace@example.com', displayName: 'Grace', password })
+        .expect(201);
+      const userId = (registered.body as { id: string }).id;
+      const session = await request(server)
+        .post('/auth/login')
+        .send({ email: 'grace@example.com', password })
+        .expect(200);
+      const cookies = session.headers['set-cookie'] as unknown as string[];
+
+      const userWorkspaces = await request(server)
+        .get('/workspaces')
+        .set('Cookie', cookies)
+        .expect(200);
+      expect(
+        (userWorkspaces.body as ListResponse<WorkspaceResponse>).data.map(
+          ({ slug }) => slug,
+        ),
+      ).toEqual(['default']);
+      await request(server)
+        .get('/workspaces/ops/tasks')
+        .set('Cookie', cookies)
+        .expect(403);
+
+      await withAuth(
+        request(server).put(`/workspaces/ops/members/${userId}`),
+      ).expect(200);
+      const opsTasks = await request(server)
+        .get('/workspaces/ops/tasks')
+        .set('Cookie', cookies)
+        .expect(200);
+      expect(
+        (opsTasks.body as ListResponse<TaskResponse>).data.map(({ id }) => id),
+      ).toEqual([task.id]);
+    });
+
+    it('keeps workspace-bound admin tokens inside their workspace', async () => {
+      const ops = await createWorkspace();
+      const shared = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'Everywhere', scopes: ['tasks:read'] })
+        .expect(201);
+      const sharedId = (shared.body as { id: string }).id;
+      const issued = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'Ops admin', scopes: ['admin'], workspaceId: ops.id })
+        .expect(201);
+      const admin = `Bearer ${(issued.body as { token: string }).token}`;
+      const asAdmin = (req: SupertestRequest) =>
+        req.set('Authorization', admin);
+
+      const minted = await asAdmin(request(server).post('/api-tokens'))
+        .send({ name: 'Unbound?', scopes: ['tasks:read'] })
+        .expect(201);
+      expect((minted.body as { workspaceId: string }).workspaceId).toBe(ops.id);
+      const elsewhere = await asAdmin(request(server).post('/api-tokens'))
+        .send({
+          name: 'Default bot',
+          scopes: ['tasks:read'],
+          workspaceId: DEFAULT_WORKSPACE_ID,
+        })
+        .expect(403);
+      expect(problemType(elsewhere)).toBe(
+        'https://example.com/problems/workspace-access-denied',
+      );
+      const listed = await asAdmin(request(server).get('/api-tokens')).expect(
+        200,
+      );
+      expect(
+        (listed.body as { data: { name: string }[] }).data
+          .map(({ name }) => name)
+          .sort(),
+      ).toEqual(['Ops admin', 'Unbound?']);
+      await asAdmin(
+        request(server).post(`/api-tokens/${sharedId}/rotate`),
+      ).expect(404);
+      await asAdmin(request(server).delete(`/api-tokens/${sharedId}`)).expect(
+        404,
+      );
+
+      await asAdmin(request(server).post('/workspaces'))
+        .send({ name: 'Sneaky', slug: 'sneaky' })
+        .expect(403);
+      const registered = await withAuth(request(server).post('/users'))
+        .send({
+          email: 'ada@example.com',
+          displayName: 'Ada',
+          password: 'correct horse battery staple',
+        })
+        .expect(201);
+      const userId = (registered.body as { id: string }).id;
+      await asAdmin(request(server).post('/users'))
+        .send({
+          email: 'mallory@example.com',
+          displayName: 'Mallory',
+          password: 'correct horse battery staple',
+        })
+        .expect(403);
+      await asAdmin(request(server).patch(`/users/${userId}`))
+        .send({ role: 'admin' })
+        .expect(403);
+
+      await asAdmin(
+        request(server).put(`/workspaces/default/members/${userId}`),
+      ).expect(403);
+      await asAdmin(
+        request(server).delete(`/workspaces/default/members/${userId}`),
+      ).expect(403);
+      await asAdmin(
+        request(server).put(`/workspaces/ops/members/${userId}`),
+      ).expect(200);
+      await asAdmin(
+        request(server).delete(`/workspaces/ops/members/${userId}`),
+      ).expect(204);
+    });
+  });
+
+  describe('roles', () => {
+    const problemType = (response: request.Response) =>
+      parseProblemDetailsResponse(response.body).type;
+
+    const tokenWithRole = async (role: string) => {
+      const response = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: `${role} script`, scopes: ['tasks:write'], role })
+        .expect(201);
+      expect((response.body as { role: string }).role).toBe(role);
+      return `Bearer ${(response.body as { token: string }).token}`;
+    };
+
+    it('keeps tokens from issuing roles above their own', async () => {
+      const created = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'member admin', scopes: ['admin'], role: 'member' })
+        .expect(201);
+      const member = `Bearer ${(created.body as { token: string }).token}`;
+
+      const escalated = await request(server)
+        .post('/api-tokens')
+        .set('Authorization', member)
+        .send({ name: 'escalated', scopes: ['admin'], role: 'admin' })
+        .expect(403);
+      expect(problemType(escalated)).toBe(
+        'https://example.com/problems/insufficient-role',
+      );
+      const issued = await request(server)
+        .post('/api-tokens')
+        .set('Authorization', member)
+        .send({ name: 'reader', scopes: ['tasks:read'], role: 'viewer' })
+        .expect(201);
+      expect((issued.body as { role: string }).role).toBe('viewer');
+      await request(server)
+        .post('/api-tokens')
+        .set('Authorization', member)
+        .send({ name: 'default', scopes: ['tasks:read'] })
+        .expect(201);
+    });
+
+    it('lets viewers read, members edit and only admins delete', async () => {
+      const viewer = await tokenWithRole('viewer');
+      const member = await tokenWithRole('member');
+      const admin = await tokenWithRole('admin');
+      const task = await createTask({ title: 'Guarded' });
+
+      await request(server)
+        .get('/tasks')
+        .set('Authorization', viewer)
+        .expect(200);
+      const denied = await request(server)
+        .post('/tasks')
+        .set('Authorization', viewer)
+        .send({ title: 'Not allowed' })
+        .expect(403);
+      expect(problemType(denied)).toBe(
+        'https://example.com/problems/insufficient-role',
+      );
+      await request(server)
+        .post(`/tasks/${task.id}/comments`)
+        .set('Authorization', viewer)
+        .send({ body: 'Not allowed either' })
+        .expect(403);
+
+      const updated = await request(server)
+        .patch(`/tasks/${task.id}`)
+        .set('Authorization', member)
+        .set('If-Match', `"${task.version}"`)
+        .send({ status: 'doing' })
+        .expect(200);
+      const etag = updated.headers.etag;
+      const memberDelete = await request(server)
+        .delete(`/tasks/${task.id}`)
+        .set('Authorization', member)
+        .set('If-Match', etag)
+        .expect(403);
+      expect(problemType(memberDelete)).toBe(
+        'https://example.com/problems/insufficient-role',
+      );
+      await request(server)
+        .post('/tasks/bulk')
+        .set('Authorization', member)
+        .send({ operations: [{ op: 'delete', id: task.id }] })
+        .expect(403);
+
+      await request(server)
+        .delete(`/tasks/${task.id}`)
+        .set('Authorization', admin)
+        .set('If-Match', etag)
+        .expect(204);
+    });
+
+    it('carries a user role changed by an admin into the next session', async () => {
+      const password = 'correct horse battery staple';
+      const credentials = { email: 'viv@example.com', password };
+      const registered = await withAuth(request(server).post('/users'))
+        .send({ ...credentials, displayName: 'Viv', role: 'viewer' })
+        .expect(201);
+      const userId = (registered.body as { id: string }).id;
+      const first = await request(server)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+      await request(server)
+        .post('/tasks')
+        .set('Cookie', first.headers['set-cookie'] as unknown as string[])
+        .send({ title: 'Not yet' })
+        .expect(403);
+
+      await withAuth(request(server).patch(`/users/${userId}`))
+        .send({ role: 'owner' })
+        .expect(400);
+      const promoted = await withAuth(request(server).patch(`/users/${userId}`))
+        .send({ role: 'member' })
+        .expect(200);
+      expect((promoted.body as { role: string }).role).toBe('member');
+      const second = await request(server)
+        .post('/auth/login')
+        .send(credentials)
+        .expect(200);
+      await request(server)
+        .post('/tasks')
+        .set('Cookie', second.headers['set-cookie'] as unknown as string[])
+        .send({ title: 'Now allowed' })
+        .expect(201);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('answers a drained write bucket with a problem+json 429', async () => {
+      const burst = app
+        .get(ConfigService)
+        .getOrThrow<number>('RATE_LIMIT_WRITE_BURST');
+
+      const first = await withAuth(request(server).post('/tasks'))
+        .send({})
+        .expect(400);
+      expect(first.headers).toMatchObject({
+        'ratelimit-limit': String(burst),
+        'ratelimit-remaining': String(burst - 1),
+      });
+      for (let sent = 1; sent < burst; sent += 1) {
+        await withAuth(request(server).post('/tasks')).send({}).expect(400);
+      }
+
+      const limited = await withAuth(request(server).post('/tasks'))
+        .send({ title: 'One too many' })
+        .expect(429)
+        .expect('Content-Type', /application\/problem\+json/);
+      expect(parseProblemDetailsResponse(limited.body).type).toBe(
+        'https://example.com/problems/rate-limited',
+      );
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+      expect(limited.headers['ratelimit-remaining']).toBe('0');
+
+      // Reads have their own bucket, and other callers are keyed apart.
+      await withAuth(request(server).get('/tasks')).expect(200);
+      await request(server)
+        .post('/auth/login')
+        .send({ email: 'nobody@example.com', password: 'irrelevant' })
+        .expect(401);
+    });
+
+    it('throttles rejected credentials by IP before checking them', async () => {
+      const burst = app
+        .get(ConfigService)
+        .getOrThrow<number>('RATE_LIMIT_WRITE_BURST');
+      const guess = () =>
+        request(server)
+          .post('/tasks')
+          .set('Authorization', 'Bearer not-the-token')
+          .send({ title: 'Guess' });
+
+      for (let sent = 0; sent < burst; sent += 1) {
+        await guess().expect(401);
+      }
+      const limited = await guess().expect(429);
+      expect(parseProblemDetailsResponse(limited.body).type).toBe(
+        'https://example.com/problems/rate-limited',
+      );
+      await request(server)
+        .post('/auth/login')
+        .send({ email: 'nobody@example.com', password: 'irrelevant' })
+        .expect(429);
+    });
+  });
+
   describe('POST /tasks', () => {
     it('rejects writes without a bearer token', async () => {
       const response = await request(server)
@@ -257,6 +990,26 @@ describe('Task Tracker API (e2e)', () => {
       expect(created.tags).toContain('release');
     });
 
+    it('stores a trimmed Markdown description and clears it when blank', async () => {
+      const created = await createTask({
+        title: 'Write runbook',
+        description: '  ## Steps\n\n- restart the *worker*  ',
+      });
+      expect(created.description).toBe('## Steps\n\n- restart the *worker*');
+
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .set('If-Match', `"${created.version}"`)
+        .send({ description: '   ' })
+        .expect(200);
+      expect(parseTaskResponse(response.body).description).toBeNull();
+
+      await withAuth(request(server).post('/tasks'))
+        .send({ title: 'Too long', description: 'x'.repeat(10001) })
+        .expect(400);
+    });
+
     it('validates payloads and returns problem details', async () => {
       const response = await withAuth(request(server).post('/tasks'))
         .send({
@@ -294,7 +1047,9 @@ describe('Task Tracker API (e2e)', () => {
 
   describe('GET /tasks', () => {
     it('returns an empty collection initially', async () => {
-      const response = await request(server).get('/tasks').expect(200);
+      const response = await withAuth(request(server).get('/tasks')).expect(
+        200,
+      );
       const list = parseTaskListResponse(response.body);
       expect(list.data).toHaveLength(0);
       expect(list.meta.total).toBe(0);
@@ -314,16 +1069,14 @@ describe('Task Tracker API (e2e)', () => {
         tags: ['ops'],
       });
 
-      const filteredResponse = await request(server)
-        .get('/tasks')
+      const filteredResponse = await withAuth(request(server).get('/tasks'))
         .query({ status: 'doing', tag: 'ops', search: 'Second' })
         .expect(200);
       const filtered = parseTaskListResponse(filteredResponse.body);
       expect(filtered.data).toHaveLength(1);
       expect(filtered.data[0].title).toBe('Second task');
 
-      const pagedResponse = await request(server)
-        .get('/tasks')
+      const pagedResponse = await withAuth(request(server).get('/tasks'))
         .query({ page: 2, pageSize: 1, sortBy: 'priority', sortOrder: 'desc' })
         .expect(200);
       const paged = parseTaskListResponse(pagedResponse.body);
@@ -332,74 +1085,1872 @@ describe('Task Tracker API (e2e)', () => {
     });
   });
 
-  describe('PATCH /tasks/:id', () => {
-    it('updates a task when the version matches', async () => {
-      const created = await createTask({ title: 'Needs update' });
-      const response = await withAuth(
-        request(server).patch(`/tasks/${created.id}`),
-      )
-        .send({
-          title: 'Updated title',
-          version: created.version,
-        })
-        .expect(200);
-      const updated = parseTaskResponse(response.body);
-      expect(updated.title).toBe('Updated title');
-      expect(updated.version).toBeGreaterThan(created.version);
-    });
+  describe('GET /tasks (cursor mode)', () => {
+    const walkPages = async (
+      query: Record<string, string | number>,
+    ): Promise<string[]> => {
+      const titles: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const response: request.Response = await withAuth(
+          request(server).get('/tasks'),
+        )
+          .query({ ...query, pageSize: 2, ...(cursor ? { cursor } : {}) })
+          .expect(200);
+        const list = parseTaskListResponse(response.body);
+        titles.push(...list.data.map((task) => task.title));
+        cursor = (response.body as { meta: { nextCursor: string | null } }).meta
+          .nextCursor;
+      } while (cursor);
+      return titles;
+    };
 
-    it('rejects updates with mismatched versions', async () => {
-      const created = await createTask({ title: 'Conflict task' });
-      const response = await withAuth(
-        request(server).patch(`/tasks/${created.id}`),
-      )
-        .send({
-          title: 'Attempted update',
-          version: created.version + 1,
-        })
-        .expect(409);
-      const problem = parseProblemDetailsResponse(response.body);
-      expect(problem.type).toBe(
-        'https://example.com/problems/version-conflict',
-      );
+    it('walks every sort order with an opaque cursor', async () => {
+      await createTask({ title: 'A', priority: 2, dueDate: null });
+      await createTask({
+        title: 'B',
+        priority: 2,
+        dueDate: '2030-01-02T00:00:00.000Z',
+      });
+      await createTask({
+        title: 'C',
+        priority: 1,
+        dueDate: '2030-01-01T00:00:00.000Z',
+      });
+      await createTask({ title: 'D', priority: 5, dueDate: null });
+      await createTask({
+        title: 'E',
+        priority: 2,
+        dueDate: '2030-01-02T00:00:00.000Z',
+      });
+
+      const byCreated = await walkPages({});
+      expect(byCreated.slice().sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+
+      const byPriority = await walkPages({
+        sortBy: 'priority',
+        sortOrder: 'asc',
+      });
+      expect(byPriority).toHaveLength(5);
+      expect(byPriority[0]).toBe('C');
+      expect(byPriority[4]).toBe('D');
+
+      const byDueDate = await walkPages({
+        sortBy: 'dueDate',
+        sortOrder: 'desc',
+      });
+      expect(byDueDate).toHaveLength(5);
+      expect(byDueDate.slice(0, 2).sort()).toEqual(['B', 'E']);
+      expect(byDueDate[2]).toBe('C');
+      expect(byDueDate.slice(3).sort()).toEqual(['A', 'D']);
     });
 
-    it('returns 404 when the task does not exist', async () => {
-      await withAuth(
-        request(server).patch('/tasks/00000000-0000-4000-8000-000000000000'),
-      )
-        .send({
-          title: 'Non-existent',
-          version: 0,
+    it('omits the total and keeps pages stable across inserts', async () => {
+      for (const priority of [1, 2, 3]) {
+        await createTask({ title: `P${priority}`, priority });
+      }
+      const first = await withAuth(request(server).get('/tasks'))
+        .query({ sortBy: 'priority', sortOrder: 'asc', pageSize: 2 })
+        .expect(200);
+      const { nextCursor } = (
+        first.body as { meta: { nextCursor: string | null } }
+      ).meta;
+      expect(nextCursor).toEqual(expect.any(String));
+
+      await createTask({ title: 'P0', priority: 1 });
+
+      const second = await withAuth(request(server).get('/tasks'))
+        .query({
+          sortBy: 'priority',
+          sortOrder: 'asc',
+          pageSize: 2,
+          cursor: nextCursor,
         })
-        .expect(404);
+        .expect(200);
+      const list = parseTaskListResponse(second.body);
+      expect(list.data.map((task) => task.title)).toEqual(['P3']);
+      expect(list.meta.total).toBeUndefined();
     });
-  });
 
-  describe('DELETE /tasks/:id', () => {
-    it('requires authentication', async () => {
-      const created = await createTask({ title: 'Delete auth' });
-      const response = await request(server).delete(`/tasks/${created.id}`);
-      expect(response.status).toBe(401);
+    it('rejects cursors issued for another sort', async () => {
+      await createTask({ title: 'One' });
+      await createTask({ title: 'Two' });
+      const first = await withAuth(request(server).get('/tasks'))
+        .query({ pageSize: 1 })
+        .expect(200);
+      const { nextCursor } = (
+        first.body as { meta: { nextCursor: string | null } }
+      ).meta;
+
+      const response = await withAuth(request(server).get('/tasks'))
+        .query({ sortBy: 'priority', cursor: nextCursor })
+        .expect(400);
       const problem = parseProblemDetailsResponse(response.body);
-      expect(problem.type).toBe('https://example.com/problems/missing-token');
+      expect(problem.type).toBe('https://example.com/problems/invalid-cursor');
     });
+  });
 
-    it('removes a task and makes it disappear from listings', async () => {
-      const created = await createTask({ title: 'To be deleted' });
-      await withAuth(request(server).delete(`/tasks/${created.id}`)).expect(
-        204,
+  describe('GET /tasks (full-text search)', () => {
+    const searchTitles = async (
+      query: Record<string, string>,
+    ): Promise<string[]> => {
+      const response = await withAuth(request(server).get('/tasks'))
+        .query(query)
+        .expect(200);
+      return parseTaskListResponse(response.body).data.map(
+        (task) => task.title,
       );
+    };
 
-      const listResponse = await request(server).get('/tasks');
-      const list = parseTaskListResponse(listResponse.body);
-      expect(list.data.find((task) => task.id === created.id)).toBeUndefined();
+    it('matches word prefixes, phrases, tags and descriptions', async () => {
+      await createTask({ title: 'Write release notes', tags: ['docs'] });
+      await createTask({ title: 'Notes on the release', tags: ['ops'] });
+      await createTask({ title: 'Fix login bug', tags: ['releases'] });
+      await createTask({
+        title: 'Tidy backlog',
+        tags: [],
+        description: 'Close anything older than a *quarter*.',
+      });
+
+      expect((await searchTitles({ search: 'rel' })).sort()).toEqual([
+        'Fix login bug',
+        'Notes on the release',
+        'Write release notes',
+      ]);
+      expect(await searchTitles({ search: '"release notes"' })).toEqual([
+        'Write release notes',
+      ]);
+      expect(await searchTitles({ search: 'docs' })).toEqual([
+        'Write release notes',
+      ]);
+      expect(await searchTitles({ search: 'quarter' })).toEqual([
+        'Tidy backlog',
+      ]);
+      expect(await searchTitles({ search: 'OR NOT (' })).toEqual([]);
     });
 
-    it('returns 404 for unknown identifiers', async () => {
+    it('ranks by relevance and returns highlighted snippets', async () => {
+      await createTask({ title: 'Plan sprint', tags: ['deploy'] });
+      await createTask({ title: 'Deploy the deploy script', tags: ['deploy'] });
+      await createTask({ title: 'Unrelated chore', tags: ['misc'] });
+
+      const response = await withAuth(request(server).get('/tasks'))
+        .query({ search: 'deploy', sortBy: 'relevance' })
+        .expect(200);
+      const body = response.body as {
+        data: { title: string; snippet?: string }[];
+        meta: { nextCursor: string | null };
+      };
+      expect(body.data.map((task) => task.title)).toEqual([
+        'Deploy the deploy script',
+        'Plan sprint',
+      ]);
+      expect(body.data[0].snippet).toBe(
+        '<mark>Deploy</mark> the <mark>deploy</mark> script',
+      );
+      expect(body.meta.nextCursor).toBeNull();
+
+      const unsearched = await withAuth(request(server).get('/tasks')).expect(
+        200,
+      );
+      const unsearchedBody = unsearched.body as {
+        data: { snippet?: string }[];
+      };
+      expect(unsearchedBody.data[0]).not.toHaveProperty('snippet');
+    });
+
+    it('keeps the index in step with updates and deletes', async () => {
+      const renamed = await createTask({ title: 'Draft budget', tags: [] });
+      const removed = await createTask({ title: 'Draft roadmap', tags: [] });
+
+      await withAuth(request(server).patch(`/tasks/${renamed.id}`))
+        .set('If-Match', `"${renamed.version}"`)
+        .send({ title: 'Final budget', tags: ['finance'] })
+        .expect(200);
+      await withAuth(request(server).delete(`/tasks/${removed.id}`))
+        .set('If-Match', `"${removed.version}"`)
+        .expect(204);
+
+      expect(await searchTitles({ search: 'draft' })).toEqual([]);
+      expect(await searchTitles({ search: 'financ' })).toEqual([
+        'Final budget',
+      ]);
+    });
+
+    it('rejects cursors when sorting by relevance', async () => {
+      const response = await withAuth(request(server).get('/tasks'))
+        .query({ search: 'deploy', sortBy: 'relevance', cursor: 'abc' })
+        .expect(400);
+      expect(parseProblemDetailsResponse(response.body).type).toBe(
+        'https://example.com/problems/invalid-cursor',
+      );
+    });
+  });
+
+  describe('task hierarchy', () => {
+    const getTaskBody = async (id: string) => {
+      const response = await withAuth(
+        request(server).get(`/tasks/${id}`),
+      ).expect(200);
+      return response.body as {
+        parentId: string | null;
+        progress: { done: number; total: number };
+        version: number;
+      };
+    };
+
+    it('rolls up progress across nested subtasks', async () => {
+      const epic = await createTask({ title: 'Epic' });
+      const story = await createTask({ title: 'Story', parentId: epic.id });
+      const subtask = await createTask({
+        title: 'Subtask',
+        parentId: story.id,
+        status: 'done',
+      });
+
+      expect(await getTaskBody(epic.id)).toMatchObject({
+        parentId: null,
+        progress: { done: 1, total: 2 },
+      });
+      expect(await getTaskBody(subtask.id)).toMatchObject({
+        parentId: story.id,
+        progress: { done: 0, total: 0 },
+      });
+
+      const children = await withAuth(
+        request(server).get(`/tasks/${epic.id}/children`),
+      ).expect(200);
+      const childBody = children.body as {
+        data: { id: string; progress: { done: number; total: number } }[];
+      };
+      expect(childBody.data).toHaveLength(1);
+      expect(childBody.data[0]).toMatchObject({
+        id: story.id,
+        progress: { done: 1, total: 1 },
+      });
+
+      const list = await withAuth(request(server).get('/tasks'))
+        .query({ tag: 'product', sortBy: 'dueDate' })
+        .expect(200);
+      const listed = (
+        list.body as {
+          data: { id: string; progress: { total: number } }[];
+        }
+      ).data.find((task) => task.id === epic.id);
+      expect(listed?.progress.total).toBe(2);
+    });
+
+    it('changes the ETag of a parent as its subtasks progress', async () => {
+      const epic = await createTask({ title: 'Epic' });
+      const getEpic = (etag: string) =>
+        withAuth(request(server).get(`/tasks/${epic.id}`))
+          .set('If-None-Match', etag)
+          .expect(200);
+
+      const empty = await withAuth(
+        request(server).get(`/tasks/${epic.id}`),
+      ).expect(200);
+      const story = await createTask({ title: 'Story', parentId: epic.id });
+      const started = await getEpic(empty.headers.etag);
+      expect(started.body).toMatchObject({ progress: { done: 0, total: 1 } });
+
+      await withAuth(request(server).patch(`/tasks/${story.id}`))
+        .set('If-Match', `"${story.version}"`)
+        .send({ status: 'done' })
+        .expect(200);
+      const finished = await getEpic(started.headers.etag);
+      expect(finished.body).toMatchObject({
+        version: epic.version,
+        progress: { done: 1, total: 1 },
+      });
+    });
+
+    it('reparents tasks and rejects cycles', async () => {
+      const epic = await createTask({ title: 'Epic' });
+      const story = await createTask({ title: 'Story', parentId: epic.id });
+
+      const cycle = await withAuth(
+        request(server).put(`/tasks/${epic.id}/parent`),
+      )
+        .set('If-Match', `"${epic.version}"`)
+        .send({ parentId: story.id })
+        .expect(422);
+      expect(parseProblemDetailsResponse(cycle.body).type).toBe(
+        'https://example.com/problems/task-hierarchy-cycle',
+      );
+
+      const moved = await withAuth(
+        request(server).put(`/tasks/${story.id}/parent`),
+      )
+        .set('If-Match', `"${story.version}"`)
+        .send({ parentId: null })
+        .expect(200);
+      expect(moved.headers.etag).toMatch(
+        new RegExp(`^W/"${story.version + 1}-`),
+      );
+      expect((moved.body as { parentId: string | null }).parentId).toBeNull();
+      expect((await getTaskBody(epic.id)).progress.total).toBe(0);
+
+      await withAuth(request(server).put(`/tasks/${story.id}/parent`))
+        .set('If-Match', '*')
+        .send({})
+        .expect(400);
+    });
+
+    it('promotes children once their parent is trashed', async () => {
+      const epic = await createTask({ title: 'Epic' });
+      const story = await createTask({ title: 'Story', parentId: epic.id });
+
+      await withAuth(request(server).delete(`/tasks/${epic.id}`))
+        .set('If-Match', `"${epic.version}"`)
+        .expect(204);
+
+      await withAuth(request(server).get(`/tasks/${epic.id}/children`)).expect(
+        404,
+      );
+      expect((await getTaskBody(story.id)).parentId).toBeNull();
+    });
+  });
+
+  describe('task dependencies', () => {
+    const addDependency = (taskId: string, blockerId: string) =>
+      withAuth(request(server).post(`/tasks/${taskId}/dependencies`)).send({
+        blockerId,
+      });
+
+    it('flags blocked tasks and guards status changes', async () => {
+      const design = await createTask({ title: 'Design' });
+      const build = await createTask({ title: 'Build' });
+
+      const added = await addDependency(build.id, design.id).expect(201);
+      expect(
+        (added.body as { data: { id: string }[] }).data.map((task) => task.id),
+      ).toEqual([design.id]);
+      await addDependency(build.id, design.id).expect(201);
+
+      const list = await withAuth(request(server).get('/tasks')).expect(200);
+      const flags = Object.fromEntries(
+        (list.body as { data: { id: string; isBlocked: boolean }[] }).data.map(
+          (task) => [task.id, task.isBlocked],
+        ),
+      );
+      expect(flags).toEqual({ [design.id]: false, [build.id]: true });
+
+      const blocked = await withAuth(
+        request(server).patch(`/tasks/${build.id}`),
+      )
+        .set('If-Match', `"${build.version}"`)
+        .send({ status: 'doing' })
+        .expect(409);
+      expect(parseProblemDetailsResponse(blocked.body)).toMatchObject({
+        type: 'https://example.com/problems/task-blocked',
+        detail: expect.stringContaining('"Design"') as unknown as string,
+      });
+
+      const forced = await withAuth(request(server).patch(`/tasks/${build.id}`))
+        .set('If-Match', `"${build.version}"`)
+        .send({ status: 'doing', force: true })
+        .expect(200);
+      expect((forced.body as { isBlocked: boolean }).isBlocked).toBe(true);
+
+      await withAuth(request(server).patch(`/tasks/${design.id}`))
+        .set('If-Match', `"${design.version}"`)
+        .send({ status: 'done' })
+        .expect(200);
+      const unblocked = await withAuth(
+        request(server).get(`/tasks/${build.id}`),
+      ).expect(200);
+      expect((unblocked.body as { isBlocked: boolean }).isBlocked).toBe(false);
+    });
+
+    it('changes the ETag of a task as its blockers come and go', async () => {
+      const blocker = await createTask({ title: 'Pour foundation' });
+      const task = await createTask({ title: 'Raise walls' });
+      const getTask = (etag: string) =>
+        withAuth(request(server).get(`/tasks/${task.id}`))
+          .set('If-None-Match', etag)
+          .expect(200);
+
+      const free = await withAuth(
+        request(server).get(`/tasks/${task.id}`),
+      ).expect(200);
+      await addDependency(task.id, blocker.id).expect(201);
+      const blocked = await getTask(free.headers.etag);
+      expect(blocked.body).toMatchObject({ isBlocked: true });
+
+      await withAuth(request(server).patch(`/tasks/${blocker.id}`))
+        .set('If-Match', `"${blocker.version}"`)
+        .send({ status: 'done' })
+        .expect(200);
+      const unblocked = await getTask(blocked.headers.etag);
+      expect(unblocked.body).toMatchObject({
+        version: task.version,
+        isBlocked: false,
+      });
+    });
+
+    it('rejects cycles and unknown blockers with problem details', async () => {
+      const first = await createTask({ title: 'First' });
+      const second = await createTask({ title: 'Second' });
+      const third = await createTask({ title: 'Third' });
+      await addDependency(second.id, first.id).expect(201);
+      await addDependency(third.id, second.id).expect(201);
+
+      for (const blockerId of [third.id, first.id]) {
+        const cycle = await addDependency(first.id, blockerId).expect(422);
+        expect(parseProblemDetailsResponse(cycle.body).type).toBe(
+          'https://example.com/problems/task-dependency-cycle',
+        );
+      }
+      const missing = await addDependency(
+        first.id,
+        '8f14e45f-ceea-4e6b-9b5c-9a1b2c3d4e5f',
+      ).expect(422);
+      expect(parseProblemDetailsResponse(missing.body).type).toBe(
+        'https://example.com/problems/blocking-task-not-found',
+      );
+      await request(server)
+        .post(`/tasks/${first.id}/dependencies`)
+        .send({ blockerId: third.id })
+        .expect(401);
+    });
+
+    it('removes dependencies and drops them with their tasks', async () => {
+      const blocker = await createTask({ title: 'Blocker' });
+      const other = await createTask({ title: 'Other' });
+      const task = await createTask({ title: 'Waiting' });
+      await addDependency(task.id, blocker.id).expect(201);
+      await addDependency(task.id, other.id).expect(201);
+
       await withAuth(
-        request(server).delete('/tasks/00000000-0000-4000-8000-000000000001'),
+        request(server).delete(`/tasks/${task.id}/dependencies/${blocker.id}`),
+      ).expect(204);
+      await withAuth(
+        request(server).delete(`/tasks/${task.id}/dependencies/${blocker.id}`),
+      ).expect(404);
+
+      await withAuth(request(server).delete(`/tasks/${other.id}`))
+        .set('If-Match', `"${other.version}"`)
+        .expect(204);
+      const remaining = await withAuth(
+        request(server).get(`/tasks/${task.id}/dependencies`),
+      ).expect(200);
+      expect((remaining.body as { data: unknown[] }).data).toEqual([]);
+    });
+  });
+
+  describe('recurring tasks', () => {
+    it('spawns the next occurrence when one is completed', async () => {
+      const chore = await createTask({
+        title: 'Water plants',
+        priority: 2,
+        tags: ['home'],
+        dueDate: '2026-10-31T08:00:00.000Z',
+        recurrence: 'FREQ=MONTHLY;BYMONTHDAY=15,31;UNTIL=20261231',
+      });
+
+      const completed = await withAuth(
+        request(server).patch(`/tasks/${chore.id}`),
+      )
+        .set('If-Match', `"${chore.version}"`)
+        .send({ status: 'done' })
+        .expect(200);
+      expect((completed.body as { recurrence: string | null }).recurrence).toBe(
+        null,
+      );
+
+      const list = await withAuth(request(server).get('/tasks'))
+        .query({ status: 'todo' })
+        .expect(200);
+      expect(list.body).toMatchObject({
+        data: [
+          {
+            title: 'Water plants',
+            priority: 2,
+            tags: ['home'],
+            dueDate: '2026-11-15T08:00:00.000Z',
+            recurrence: 'FREQ=MONTHLY;BYMONTHDAY=15,31;UNTIL=20261231T235959Z',
+          },
+        ],
+        meta: { total: 1 },
+      });
+    });
+
+    it('rejects unsupported rules with problem details', async () => {
+      const response = await withAuth(request(server).post('/tasks'))
+        .send({ title: 'Yearly review', recurrence: 'FREQ=YEARLY' })
+        .expect(400);
+      expect(parseProblemDetailsResponse(response.body)).toMatchObject({
+        type: 'https://example.com/problems/invalid-recurrence-rule',
+        detail: expect.stringContaining(
+          'FREQ must be one of',
+        ) as unknown as string,
+      });
+    });
+  });
+
+  describe('due-date reminders', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+
+    it('sends each window once and re-arms when the due date moves', async () => {
+      const notify = jest
+        .spyOn(app.get(NotificationsService), 'notify')
+        .mockResolvedValue(1);
+      const scheduler = app.get(TaskReminderScheduler);
+      const now = Date.now();
+      const task = await createTask({
+        title: 'Renew certificate',
+        dueDate: new Date(now + 30 * 60 * 1000).toISOString(),
+      });
+      await createTask({
+        title: 'Later',
+        dueDate: new Date(now + 48 * HOUR_MS).toISOString(),
+      });
+      const finished = await createTask({
+        title: 'Finished',
+        status: 'done',
+        dueDate: new Date(now - HOUR_MS).toISOString(),
+      });
+
+      await expect(scheduler.run(new Date(now))).resolves.toBe(1);
+      expect(notify).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          event: 'task.reminder',
+          subject: 'Task "Renew certificate" is due within 1h',
+          data: expect.objectContaining({ window: '1h' }) as unknown,
+        }),
+      );
+      await expect(scheduler.run(new Date(now))).resolves.toBe(0);
+
+      await expect(scheduler.run(new Date(now + HOUR_MS))).resolves.toBe(1);
+      expect(notify).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          subject: 'Task "Renew certificate" is overdue',
+        }),
+      );
+
+      await withAuth(request(server).patch(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .send({ dueDate: new Date(now + 2 * HOUR_MS).toISOString() })
+        .expect(200);
+      await expect(scheduler.run(new Date(now + HOUR_MS))).resolves.toBe(1);
+      expect(notify).toHaveBeenCalledTimes(3);
+      expect(notify).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            task: expect.objectContaining({ id: finished.id }) as unknown,
+          }) as unknown,
+        }),
+      );
+    });
+  });
+
+  describe('webhooks', () => {
+    type WebhookResponse = {
+      id: string;
+      workspaceId: string;
+      url: string;
+      events: string[];
+      active: boolean;
+      secret?: string;
+    };
+    type DeliveryCollection = {
+      data: {
+        id: string;
+        event: string;
+        status: string;
+        attempts: number;
+        responseStatus: number | null;
+        payload: Record<string, unknown>;
+      }[];
+      meta: { total: number; page: number; pageSize: number };
+    };
+
+    let receiver: Server;
+    let receiverUrl: string;
+    let received: { headers: IncomingHttpHeaders; body: string }[];
+    let answers: number[];
+
+    beforeEach(async () => {
+      received = [];
+      answers = [];
+      receiver = createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.statusCode = answers.shift() ?? 200;
+          res.end();
+        });
+      });
+      await new Promise<void>((resolve) =>
+        receiver.listen(0, '127.0.0.1', resolve),
+      );
+      receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterEach(async () => {
+      await new Promise((resolve) => receiver.close(resolve));
+    });
+
+    const createWebhook = async (events: string[], secret?: string) => {
+      const response = await withAuth(request(server).post('/webhooks'))
+        .send({ url: receiverUrl, events, ...(secret ? { secret } : {}) })
+        .expect(201);
+      return response.body as WebhookResponse;
+    };
+
+    /** Deliveries are queued with the task write, so the log is current. */
+    const listDeliveries = async (
+      path = '/webhooks/deliveries',
+    ): Promise<DeliveryCollection> => {
+      const response = await withAuth(request(server).get(path)).expect(200);
+      return response.body as DeliveryCollection;
+    };
+
+    it('manages subscriptions without revealing their secret again', async () => {
+      await request(server)
+        .post('/webhooks')
+        .send({ url: receiverUrl, events: ['task.created'] })
+        .expect(401);
+      const invalid = await withAuth(request(server).post('/webhooks'))
+        .send({ url: 'ftp://example.com', events: ['task.archived'] })
+        .expect(400);
+      expect(
+        Object.keys(parseProblemDetailsResponse(invalid.body).errors ?? {}),
+      ).toEqual(['url', 'events']);
+
+      const created = await createWebhook(['task.created']);
+      expect(created).toMatchObject({
+        url: receiverUrl,
+        events: ['task.created'],
+        active: true,
+      });
+      expect(created.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+      const listed = await withAuth(request(server).get('/webhooks')).expect(
+        200,
+      );
+      const [listedWebhook] = (listed.body as { data: WebhookResponse[] }).data;
+      expect(listedWebhook.id).toBe(created.id);
+      expect(listedWebhook).not.toHaveProperty('secret');
+
+      const paused = await withAuth(
+        request(server).patch(`/webhooks/${created.id}`),
+      )
+        .send({ active: false, events: ['task.created', 'task.deleted'] })
+        .expect(200);
+      expect(paused.body).toMatchObject({
+        active: false,
+        events: ['task.created', 'task.deleted'],
+      });
+      await createTask();
+      await expect(listDeliveries()).resolves.toMatchObject({
+        meta: { total: 0 },
+      });
+
+      await withAuth(request(server).delete(`/webhooks/${created.id}`)).expect(
+        204,
+      );
+      await withAuth(request(server).get(`/webhooks/${created.id}`)).expect(
+        404,
+      );
+    });
+
+    it('holds pending deliveries while their subscription is paused', async () => {
+      const webhook = await createWebhook(['task.created']);
+      await createTask({ title: 'Queued before the pause' });
+      await withAuth(request(server).patch(`/webhooks/${webhook.id}`))
+        .send({ active: false })
+        .expect(200);
+
+      const worker = app.get(WebhookDeliveryWorker);
+      await expect(worker.run(new Date())).resolves.toBe(0);
+      expect(received).toHaveLength(0);
+      await expect(listDeliveries()).resolves.toMatchObject({
+        data: [{ status: 'pending', attempts: 0 }],
+      });
+
+      await withAuth(request(server).patch(`/webhooks/${webhook.id}`))
+        .send({ active: true })
+        .expect(200);
+      await expect(worker.run(new Date())).resolves.toBe(1);
+      expect(received).toHaveLength(1);
+    });
+
+    it('signs deliveries and retries failures with backoff', async () => {
+      const secret = 'a-shared-secret-of-some-length';
+      const webhook = await createWebhook(['task.status_changed'], secret);
+      const task = await createTask({ title: 'Notify me' });
+      await withAuth(request(server).patch(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .send({ status: 'doing' })
+        .expect(200);
+
+      const queued = await listDeliveries();
+      expect(queued.data).toEqual([
+        expect.objectContaining({ event: 'task.status_changed', attempts: 0 }),
+      ]);
+
+      const worker = app.get(WebhookDeliveryWorker);
+      const now = Date.now();
+      answers.push(500);
+      await expect(worker.run(new Date(now))).resolves.toBe(1);
+      await expect(worker.run(new Date(now))).resolves.toBe(0);
+      const failed = await withAuth(request(server).get('/webhooks/deliveries'))
+        .query({ subscriptionId: webhook.id, status: 'pending' })
+        .expect(200);
+      expect((failed.body as DeliveryCollection).data[0]).toMatchObject({
+        attempts: 1,
+        responseStatus: 500,
+      });
+
+      await expect(worker.run(new Date(now + 30_000))).resolves.toBe(1);
+      expect(received).toHaveLength(2);
+      const [, { headers, body }] = received;
+      expect(headers['x-webhook-event']).toBe('task.status_changed');
+      expect(headers['x-webhook-delivery']).toBe(queued.data[0].id);
+      expect(headers['x-webhook-signature']).toBe(
+        signWebhookPayload(
+          secret,
+          Number(headers['x-webhook-timestamp']),
+          body,
+        ),
+      );
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'task.status_changed',
+        actor: expect.stringMatching(/^api-token:/) as unknown,
+        data: {
+          task: { id: task.id, status: 'doing' },
+          changes: { status: { before: 'todo', after: 'doing' } },
+        },
+      });
+      const delivered = await listDeliveries();
+      expect(delivered.data[0]).toMatchObject({
+        status: 'delivered',
+        attempts: 2,
+        responseStatus: 200,
+      });
+    });
+
+    it('dead-letters deliveries after the last attempt until retried', async () => {
+      await createWebhook(['task.deleted']);
+      const task = await createTask({ title: 'Short-lived' });
+      await withAuth(request(server).delete(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .expect(204);
+      await listDeliveries();
+
+      const worker = app.get(WebhookDeliveryWorker);
+      const now = Date.now();
+      answers.push(...Array<number>(8).fill(503));
+      for (let day = 0; day < 8; day += 1) {
+        await expect(worker.run(new Date(now + day * DAY_MS))).resolves.toBe(1);
+      }
+      await expect(worker.run(new Date(now + 9 * DAY_MS))).resolves.toBe(0);
+
+      const dead = await withAuth(request(server).get('/webhooks/deliveries'))
+        .query({ status: 'dead' })
+        .expect(200);
+      const [letter] = (dead.body as DeliveryCollection).data;
+      expect(letter).toMatchObject({
+        event: 'task.deleted',
+        attempts: 8,
+        responseStatus: 503,
+      });
+
+      const retried = await withAuth(
+        request(server).post(`/webhooks/deliveries/${letter.id}/retry`),
+      ).expect(200);
+      expect(retried.body).toMatchObject({ status: 'pending', attempts: 0 });
+      await withAuth(
+        request(server).post(`/webhooks/deliveries/${letter.id}/retry`),
+      ).expect(409);
+      await expect(worker.run(new Date(now + 10 * DAY_MS))).resolves.toBe(1);
+      expect(received).toHaveLength(9);
+    });
+
+    it("only delivers and shows a workspace's own tasks", async () => {
+      await withAuth(request(server).post('/workspaces'))
+        .send({ name: 'Operations', slug: 'ops' })
+        .expect(201);
+      const ownHook = await createWebhook(['task.created']);
+      const opsCreated = await withAuth(
+        request(server).post('/workspaces/ops/webhooks'),
+      )
+        .send({ url: receiverUrl, events: ['task.created'] })
+        .expect(201);
+      const opsHook = opsCreated.body as WebhookResponse;
+      const own = await createTask({ title: 'Default work' });
+      const opsTask = await withAuth(
+        request(server).post('/workspaces/ops/tasks'),
+      )
+        .send({ title: 'Ops work' })
+        .expect(201);
+
+      const ownLog = await listDeliveries();
+      const opsLog = await listDeliveries(
+        '/workspaces/ops/webhooks/deliveries',
+      );
+      expect(ownLog.meta.total).toBe(1);
+      expect(ownLog.data[0].payload).toMatchObject({
+        data: { task: { id: own.id } },
+      });
+      expect(opsLog.meta.total).toBe(1);
+      expect(opsLog.data[0].payload).toMatchObject({
+        data: { task: { id: (opsTask.body as TaskResponse).id } },
+      });
+
+      const listed = await withAuth(request(server).get('/webhooks')).expect(
+        200,
+      );
+      expect(
+        (listed.body as { data: WebhookResponse[] }).data.map(({ id }) => id),
+      ).toEqual([ownHook.id]);
+      await withAuth(request(server).get(`/webhooks/${opsHook.id}`)).expect(
+        404,
+      );
+      await withAuth(request(server).patch(`/webhooks/${opsHook.id}`))
+        .send({ active: false })
+        .expect(404);
+      await withAuth(request(server).delete(`/webhooks/${opsHook.id}`)).expect(
+        404,
+      );
+
+      const issued = await withAuth(request(server).post('/api-tokens'))
+        .send({
+          name: 'Ops admin',
+          scopes: ['admin'],
+          workspaceId: opsHook.workspaceId,
+        })
+        .expect(201);
+      const opsAdmin = `Bearer ${(issued.body as { token: string }).token}`;
+      const botList = await request(server)
+        .get('/webhooks')
+        .set('Authorization', opsAdmin)
+        .expect(200);
+      expect(
+        (botList.body as { data: WebhookResponse[] }).data.map(({ id }) => id),
+      ).toEqual([opsHook.id]);
+      await request(server)
+        .get('/workspaces/default/webhooks/deliveries')
+        .set('Authorization', opsAdmin)
+        .expect(403);
+      await request(server)
+        .post(`/webhooks/deliveries/${ownLog.data[0].id}/retry`)
+        .set('Authorization', opsAdmin)
+        .expect(404);
+    });
+  });
+
+  describe('workflow', () => {
+    it('serves the status workflow under every prefix', async () => {
+      const response = await withAuth(request(server).get('/workflow')).expect(
+        200,
+      );
+      expect(response.body).toEqual({
+        statuses: [
+          {
+            key: 'todo',
+            label: 'Todo',
+            category: 'todo',
+            transitions: ['doing', 'done'],
+            wipLimit: null,
+          },
+          {
+            key: 'doing',
+            label: 'Doing',
+            category: 'in-progress',
+            transitions: ['todo', 'done'],
+            wipLimit: null,
+          },
+          {
+            key: 'done',
+            label: 'Done',
+            category: 'done',
+            transitions: ['todo', 'doing'],
+            wipLimit: null,
+          },
+        ],
+        wipLimitScope: 'workspace',
+        wipLimitEnforcement: 'reject',
+      });
+      await withAuth(request(server).get('/workspaces/default/workflow'))
+        .expect(200)
+        .expect(({ body }) => expect(body).toEqual(response.body));
+      await request(server).get('/workflow').expect(401);
+    });
+
+    it('rejects statuses the workflow does not have', async () => {
+      const created = await withAuth(request(server).post('/tasks'))
+        .send({ title: 'Triage', status: 'blocked' })
+        .expect(422);
+      expect(parseProblemDetailsResponse(created.body).type).toBe(
+        'https://example.com/problems/unknown-status',
+      );
+      await withAuth(request(server).get('/tasks'))
+        .query({ status: 'blocked' })
+        .expect(422);
+
+      const task = await createTask();
+      await withAuth(request(server).patch(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .send({ status: 'blocked' })
+        .expect(422);
+    });
+  });
+
+  describe('tags', () => {
+    type TagResponse = {
+      name: string;
+      usageCount: number;
+      color: string | null;
+      description: string | null;
+    };
+
+    const listTags = async () =>
+      (
+        (await withAuth(request(server).get('/tags')).expect(200)).body as {
+          data: TagResponse[];
+        }
+      ).data;
+
+    it('lists tags with usage counts and keeps their details', async () => {
+      await createTask({ tags: ['bug', 'ops'] });
+      await createTask({ tags: ['Bug'] });
+
+      expect(await listTags()).toEqual([
+        { name: 'bug', usageCount: 2, color: null, description: null },
+        { name: 'ops', usageCount: 1, color: null, description: null },
+      ]);
+
+      const updated = await withAuth(request(server).patch('/tags/OPS'))
+        .send({ color: '#FF8800', description: ' Operations ' })
+        .expect(200);
+      expect(updated.body).toEqual({
+        name: 'ops',
+        usageCount: 1,
+        color: '#ff8800',
+        description: 'Operations',
+      });
+      await withAuth(request(server).get('/workspaces/default/tags'))
+        .expect(200)
+        .expect(({ body }) =>
+          expect((body as { data: TagResponse[] }).data[1]).toEqual(
+            updated.body,
+          ),
+        );
+
+      await withAuth(request(server).patch('/tags/ops'))
+        .send({ color: 'orange' })
+        .expect(400);
+      await withAuth(request(server).patch('/tags/missing'))
+        .send({ color: null })
+        .expect(404);
+    });
+
+    it('renames a tag on every task and refuses to rename onto another', async () => {
+      const task = await createTask({ tags: ['bgu', 'ops'] });
+      await createTask({ tags: ['ops'] });
+
+      await withAuth(request(server).patch('/tags/bgu'))
+        .send({ name: 'bug' })
+        .expect(200)
+        .expect(({ body }) =>
+          expect(body).toMatchObject({ name: 'bug', usageCount: 1 }),
+        );
+      const renamed = parseTaskResponse(
+        (await withAuth(request(server).get(`/tasks/${task.id}`)).expect(200))
+          .body,
+      );
+      expect(renamed.tags).toEqual(['bug', 'ops']);
+      expect(renamed.version).toBe(task.version + 1);
+
+      const conflict = await withAuth(request(server).patch('/tags/bug'))
+        .send({ name: 'OPS' })
+        .expect(409);
+      expect(parseProblemDetailsResponse(conflict.body).type).toBe(
+        'https://example.com/problems/tag-exists',
+      );
+    });
+
+    it('merges tags into one, keeping a single tag per task', async () => {
+      const both = await createTask({ tags: ['bug', 'bugs'] });
+      await createTask({ tags: ['bugs'] });
+      await withAuth(request(server).patch('/tags/bugs'))
+        .send({ color: '#aa0000' })
+        .expect(200);
+
+      const merged = await withAuth(request(server).post('/tags/merge'))
+        .send({ sources: ['bugs'], target: 'BUG' })
+        .expect(200);
+      expect(merged.body).toEqual({
+        name: 'bug',
+        usageCount: 2,
+        color: '#aa0000',
+        description: null,
+      });
+      expect(await listTags()).toEqual([merged.body]);
+
+      const task = parseTaskResponse(
+        (await withAuth(request(server).get(`/tasks/${both.id}`)).expect(200))
+          .body,
+      );
+      expect(task.tags).toEqual(['bug']);
+      await withAuth(request(server).post('/tags/merge'))
+        .send({ sources: ['nope'], target: 'bug' })
+        .expect(404);
+    });
+
+    it('suggests tags starting with a prefix, most likely first', async () => {
+      await createTask({ tags: ['bug', 'ops'] });
+      await createTask({ tags: ['bug', 'Backend'] });
+
+      const suggest = async (query: Record<string, string>) =>
+        (
+          (
+            await withAuth(
+              request(server).get('/tags/suggest').query(query),
+            ).expect(200)
+          ).body as { data: TagResponse[] }
+        ).data.map(({ name }) => name);
+
+      expect(await suggest({ prefix: 'B' })).toEqual(['bug', 'Backend']);
+      expect(await suggest({ prefix: 'b', limit: '1' })).toEqual(['bug']);
+      expect(await suggest({ prefix: 'op' })).toEqual(['ops']);
+      expect(await suggest({ prefix: 'x' })).toEqual([]);
+      await withAuth(
+        request(server).get('/tags/suggest').query({ limit: '50' }),
+      ).expect(400);
+    });
+  });
+
+  describe('task assignees', () => {
+    type AssignedTask = TaskResponse & { assignees: string[] };
+    type AssignedList = { data: AssignedTask[] };
+
+    const listIds = async (
+      query: Record<string, string>,
+      cookies?: string[],
+    ) => {
+      const req = request(server).get('/tasks').query(query);
+      const response = cookies
+        ? await req.set('Cookie', cookies).expect(200)
+        : await withAuth(req).expect(200);
+      return (response.body as AssignedList).data
+        .map(({ title }) => title)
+        .sort();
+    };
+
+    const createBotToken = async (workspaceId?: string) => {
+      const response = await withAuth(request(server).post('/api-tokens'))
+        .send({ name: 'Bot', scopes: ['tasks:write'], workspaceId })
+        .expect(201);
+      return `api-token:${(response.body as { id: string }).id}`;
+    };
+
+    it('filters by assignee, by "me" and by unassigned tasks', async () => {
+      const password = 'correct horse battery staple';
+      const registered = await withAuth(request(server).post('/users'))
+        .send({ email: 'sam@example.com', displayName: 'Sam', password })
+        .expect(201);
+      const sam = `user:${(registered.body as { id: string }).id}`;
+      const bot = await createBotToken();
+
+      const mine = await withAuth(request(server).post('/tasks'))
+        .send({ title: 'Mine', assignees: [sam, sam] })
+        .expect(201);
+      expect((mine.body as AssignedTask).assignees).toEqual([sam]);
+      await createTask({ title: 'Shared', assignees: [bot, sam] });
+      await createTask({ title: 'Bot only', assignees: [bot] });
+      await createTask({ title: 'Nobody' });
+
+      expect(await listIds({ assignee: sam })).toEqual(['Mine', 'Shared']);
+      expect(await listIds({ unassigned: 'true' })).toEqual(['Nobody']);
+      expect(await listIds({ assignee: bot, unassigned: 'true' })).toEqual([
+        'Bot only',
+        'Nobody',
+        'Shared',
+      ]);
+
+      const session = await request(server)
+        .post('/auth/login')
+        .send({ email: 'sam@example.com', password })
+        .expect(200);
+      const cookies = session.headers['set-cookie'] as unknown as string[];
+      expect(await listIds({ assignee: 'me' }, cookies)).toEqual([
+        'Mine',
+        'Shared',
+      ]);
+
+      const shared = await withAuth(
+        request(server).get('/tasks').query({ assignee: bot }),
+      ).expect(200);
+      const listed = (shared.body as AssignedList).data.find(
+        ({ title }) => title === 'Shared',
+      );
+      expect(listed?.assignees.sort()).toEqual([bot, sam].sort());
+    });
+
+    it('replaces assignees on update and validates principals', async () => {
+      const bot = await createBotToken();
+      const task = await createTask({ assignees: [bot] });
+      const updated = await withAuth(request(server).patch(`/tasks/${task.id}`))
+        .send({ assignees: [], version: task.version })
+        .expect(200);
+      expect((updated.body as AssignedTask).assignees).toEqual([]);
+
+      await withAuth(request(server).post('/tasks'))
+        .send({ title: 'Bad', assignees: ['sam'] })
+        .expect(400);
+      const elsewhere = await withAuth(request(server).post('/workspaces'))
+        .send({ name: 'Elsewhere', slug: 'elsewhere' })
+        .expect(201);
+      const strangers = [
+        'user:6f1c3a52-0d9e-4b8f-9a51-2f7d3c1e8b40',
+        'api-token:6f1c3a52-0d9e-4b8f-9a51-2f7d3c1e8b40',
+        await createBotToken((elsewhere.body as { id: string }).id),
+      ];
+      for (const stranger of strangers) {
+        const rejected = await withAuth(request(server).post('/tasks'))
+          .send({ title: 'Unstaffed', assignees: [stranger] })
+          .expect(422);
+        expect(parseProblemDetailsResponse(rejected.body).type).toBe(
+          'https://example.com/problems/unknown-assignee',
+        );
+      }
+      await withAuth(
+        request(server).get('/tasks').query({ assignee: 'everyone' }),
+      ).expect(400);
+    });
+  });
+
+  describe('task comments', () => {
+    type CommentResponse = {
+      id: string;
+      taskId: string;
+      author: string;
+      body: string;
+    };
+
+    const postComment = (taskId: string, body: Record<string, unknown>) =>
+      withAuth(request(server).post(`/tasks/${taskId}/comments`)).send(body);
+
+    it('creates, edits, lists and deletes comments', async () => {
+      const task = await createTask({ title: 'Discuss me' });
+
+      const created = await postComment(task.id, {
+        body: 'First **thoughts**',
+      }).expect(201);
+      const comment = created.body as CommentResponse;
+      expect(comment).toMatchObject({
+        taskId: task.id,
+        body: 'First **thoughts**',
+      });
+      expect(comment.author).toMatch(/^api-token:/);
+      await postComment(task.id, { body: 'Agreed' }).expect(201);
+
+      const edited = await withAuth(
+        request(server).patch(`/tasks/${task.id}/comments/${comment.id}`),
+      )
+        .send({ body: 'Revised thoughts' })
+        .expect(200);
+      expect((edited.body as CommentResponse).body).toBe('Revised thoughts');
+
+      const list = await withAuth(
+        request(server).get(`/tasks/${task.id}/comments`),
+      ).expect(200);
+      expect(
+        (list.body as { data: CommentResponse[] }).data.map(
+          (item) => item.body,
+        ),
+      ).toEqual(['Revised thoughts', 'Agreed']);
+
+      const tasks = await withAuth(request(server).get('/tasks')).expect(200);
+      expect(
+        (tasks.body as { data: { commentCount: number }[] }).data[0]
+          .commentCount,
+      ).toBe(2);
+
+      await withAuth(
+        request(server).delete(`/tasks/${task.id}/comments/${comment.id}`),
+      ).expect(204);
+      const afterDelete = await withAuth(
+        request(server).get(`/tasks/${task.id}`),
+      ).expect(200);
+      expect((afterDelete.body as { commentCount: number }).commentCount).toBe(
+        1,
+      );
+    });
+
+    it('guards writes and validates comment payloads', async () => {
+      const task = await createTask();
+
+      await request(server)
+        .post(`/tasks/${task.id}/comments`)
+        .send({ body: 'Hi' })
+        .expect(401);
+
+      const invalid = await postComment(task.id, { body: '   ' }).expect(400);
+      expect(
+        Object.keys(parseProblemDetailsResponse(invalid.body).errors ?? {}),
+      ).toEqual(['body']);
+      await postComment(task.id, { author: 'Ada', body: 'Hi' }).expect(400);
+
+      const other = await createTask({ title: 'Other' });
+      const posted = await postComment(other.id, {
+        body: 'Elsewhere',
+      }).expect(201);
+      await withAuth(
+        request(server).patch(
+          `/tasks/${task.id}/comments/${(posted.body as CommentResponse).id}`,
+        ),
+      )
+        .send({ body: 'Moved?' })
+        .expect(404);
+      await withAuth(
+        request(server).get(
+          '/tasks/8f14e45f-ceea-4e6b-9b5c-9a1b2c3d4e5f/comments',
+        ),
+      ).expect(404);
+    });
+
+    it('lets only the author or an admin change a comment', async () => {
+      const memberToken = async (name: string) => {
+        const response = await withAuth(request(server).post('/api-tokens'))
+          .send({ name, scopes: ['tasks:write'], role: 'member' })
+          .expect(201);
+        return `Bearer ${(response.body as { token: string }).token}`;
+      };
+      const ada = await memberToken('Ada script');
+      const grace = await memberToken('Grace script');
+      const task = await createTask({ title: 'Whose words' });
+      const posted = await request(server)
+        .post(`/tasks/${task.id}/comments`)
+        .set('Authorization', ada)
+        .send({ body: 'Mine' })
+        .expect(201);
+      const path = `/tasks/${task.id}/comments/${(posted.body as CommentResponse).id}`;
+
+      const denied = await request(server)
+        .patch(path)
+        .set('Authorization', grace)
+        .send({ body: 'Hijacked' })
+        .expect(403);
+      expect(parseProblemDetailsResponse(denied.body).type).toBe(
+        'https://example.com/problems/insufficient-role',
+      );
+      await request(server)
+        .delete(path)
+        .set('Authorization', grace)
+        .expect(403);
+
+      await request(server)
+        .patch(path)
+        .set('Authorization', ada)
+        .send({ body: 'Still mine' })
+        .expect(200);
+      await withAuth(request(server).delete(path)).expect(204);
+    });
+  });
+
+  describe('trash', () => {
+    type TrashResponse = {
+      data: { id: string; deletedAt: string | null; tags: string[] }[];
+      meta: { total: number; page: number; pageSize: number };
+    };
+
+    const trashTask = (task: TaskResponse) =>
+      withAuth(request(server).delete(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .expect(204);
+
+    it('hides deleted tasks until they are restored', async () => {
+      const task = await createTask({ title: 'Oops', tags: ['keep'] });
+      const other = await createTask({ title: 'Still here' });
+      await trashTask(task);
+
+      const list = parseTaskListResponse(
+        (await withAuth(request(server).get('/tasks')).expect(200)).body,
+      );
+      expect(list.data.map((item) => item.id)).toEqual([other.id]);
+      expect(list.meta.statusCounts).toEqual({ todo: 1, doing: 0, done: 0 });
+      await withAuth(request(server).get(`/tasks/${task.id}`)).expect(404);
+
+      const trash = await withAuth(request(server).get('/tasks/trash')).expect(
+        200,
+      );
+      const trashBody = trash.body as TrashResponse;
+      expect(trashBody.meta).toEqual({ total: 1, page: 1, pageSize: 25 });
+      expect(trashBody.data[0]).toMatchObject({ id: task.id, tags: ['keep'] });
+      expect(trashBody.data[0].deletedAt).not.toBeNull();
+
+      await request(server).post(`/tasks/${task.id}/restore`).expect(401);
+      const restored = await withAuth(
+        request(server).post(`/tasks/${task.id}/restore`),
+      ).expect(200);
+      expect(restored.headers.etag).toBeDefined();
+      expect(restored.body).toMatchObject({
+        id: task.id,
+        tags: ['keep'],
+        deletedAt: null,
+      });
+      await withAuth(request(server).post(`/tasks/${task.id}/restore`)).expect(
+        404,
+      );
+
+      const history = await withAuth(
+        request(server).get(`/tasks/${task.id}/history`),
+      ).expect(200);
+      expect(
+        (history.body as { data: { action: string }[] }).data.map(
+          (entry) => entry.action,
+        ),
+      ).toEqual(['restored', 'deleted', 'created']);
+    });
+
+    it('turns the subtasks of a trashed task into top-level tasks', async () => {
+      const parent = await createTask({ title: 'Parent' });
+      const kept = await createTask({ title: 'Kept', parentId: parent.id });
+      const trashed = await createTask({ title: 'Gone', parentId: parent.id });
+      const parentIdOf = async (id: string) =>
+        (
+          (await withAuth(request(server).get(`/tasks/${id}`)).expect(200))
+            .body as { parentId: string | null }
+        ).parentId;
+
+      await trashTask(trashed);
+      await trashTask(parent);
+      await expect(parentIdOf(kept.id)).resolves.toBeNull();
+      const history = await withAuth(
+        request(server).get(`/tasks/${kept.id}/history`),
+      ).expect(200);
+      expect(
+        (history.body as { data: { action: string }[] }).data[0],
+      ).toMatchObject({
+        action: 'updated',
+        changes: { parentId: { before: parent.id, after: null } },
+      });
+
+      await withAuth(
+        request(server).post(`/tasks/${trashed.id}/restore`),
+      ).expect(200);
+      await expect(parentIdOf(trashed.id)).resolves.toBeNull();
+    });
+
+    it('keeps the subtask hierarchy across delete and undo', async () => {
+      const epic = await createTask({ title: 'Epic' });
+      const story = await createTask({ title: 'Story', parentId: epic.id });
+      const subtask = await createTask({ title: 'Sub', parentId: story.id });
+      const moved = await createTask({ title: 'Moved', parentId: story.id });
+      const getTask = async (id: string) =>
+        (await withAuth(request(server).get(`/tasks/${id}`)).expect(200))
+          .body as TaskResponse & {
+          parentId: string | null;
+          progress: { total: number };
+        };
+
+      await trashTask(story);
+      await withAuth(request(server).put(`/tasks/${moved.id}/parent`))
+        .set('If-Match', '*')
+        .send({ parentId: epic.id })
+        .expect(200);
+
+      await withAuth(request(server).post(`/tasks/${story.id}/restore`)).expect(
+        200,
+      );
+      expect(await getTask(story.id)).toMatchObject({
+        parentId: epic.id,
+        progress: { total: 1 },
+      });
+      expect((await getTask(subtask.id)).parentId).toBe(story.id);
+      expect((await getTask(moved.id)).parentId).toBe(epic.id);
+      const children = await withAuth(
+        request(server).get(`/tasks/${story.id}/children`),
+      ).expect(200);
+      expect(
+        (children.body as { data: { id: string }[] }).data.map(({ id }) => id),
+      ).toEqual([subtask.id]);
+      expect((await getTask(epic.id)).progress.total).toBe(3);
+    });
+
+    it('purges tasks once the retention period has passed', async () => {
+      const task = await createTask({ title: 'Old news' });
+      await trashTask(task);
+      const purger = app.get(TaskTrashPurger);
+
+      await expect(purger.purge()).resolves.toBe(0);
+      await expect(
+        purger.purge(new Date(Date.now() + 31 * DAY_MS)),
+      ).resolves.toBe(1);
+
+      const trash = await withAuth(request(server).get('/tasks/trash')).expect(
+        200,
+      );
+      expect((trash.body as TrashResponse).meta.total).toBe(0);
+      await withAuth(request(server).post(`/tasks/${task.id}/restore`)).expect(
+        404,
+      );
+    });
+  });
+
+  describe('activity log', () => {
+    type ActivityResponse = {
+      data: {
+        taskId: string;
+        action: string;
+        actor: string;
+        changes: Record<string, { before: unknown; after: unknown }>;
+      }[];
+      meta: { total: number; page: number; pageSize: number };
+    };
+
+    it('records field-level history that outlives the task', async () => {
+      const task = await createTask({ title: 'Audited', tags: ['ops'] });
+      await withAuth(request(server).patch(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version}"`)
+        .send({ status: 'doing', tags: ['ops', 'infra'] })
+        .expect(200);
+      await withAuth(request(server).delete(`/tasks/${task.id}`))
+        .set('If-Match', `"${task.version + 1}"`)
+        .expect(204);
+
+      const history = await withAuth(
+        request(server).get(`/tasks/${task.id}/history`),
+      ).expect(200);
+      const body = history.body as ActivityResponse;
+      expect(body.meta).toEqual({ total: 3, page: 1, pageSize: 25 });
+      expect(body.data.map((entry) => entry.action)).toEqual([
+        'deleted',
+        'updated',
+        'created',
+      ]);
+      expect(body.data[1].changes).toEqual({
+        status: { before: 'todo', after: 'doing' },
+        tags: { before: ['ops'], after: ['ops', 'infra'] },
+      });
+      expect(body.data[0].actor).toMatch(/^api-token:[0-9a-f]{12}$/);
+      expect(JSON.stringify(body)).not.toContain(apiToken);
+
+      await withAuth(
+        request(server).get(
+          '/tasks/8f14e45f-ceea-4e6b-9b5c-9a1b2c3d4e5f/history',
+        ),
+      ).expect(404);
+    });
+
+    it('pages through the global activity feed', async () => {
+      const first = await createTask({ title: 'First' });
+      const second = await createTask({ title: 'Second' });
+      await withAuth(request(server).post('/tasks/bulk'))
+        .send({
+          operations: [
+            { op: 'update', id: first.id, version: 99, data: { priority: 1 } },
+          ],
+        })
+        .expect(422);
+
+      const page = await withAuth(request(server).get('/activity'))
+        .query({ page: 1, pageSize: 1 })
+        .expect(200);
+      const body = page.body as ActivityResponse;
+      expect(body.meta.total).toBe(2);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]).toMatchObject({
+        taskId: second.id,
+        action: 'created',
+      });
+    });
+  });
+
+  describe('POST /tasks/bulk', () => {
+    it('applies mixed operations in one request', async () => {
+      const toClose = await createTask({ title: 'Close out' });
+      const toDelete = await createTask({ title: 'Drop' });
+
+      const response = await withAuth(request(server).post('/tasks/bulk'))
+        .send({
+          operations: [
+            { op: 'create', data: { title: 'Added in bulk', tags: ['bulk'] } },
+            {
+              op: 'update',
+              id: toClose.id,
+              version: toClose.version,
+              data: { status: 'done' },
+            },
+            { op: 'delete', id: toDelete.id, version: toDelete.version },
+          ],
+        })
+        .expect(200);
+
+      const { results } = response.body as {
+        results: { status: number; data?: unknown }[];
+      };
+      expect(results.map((result) => result.status)).toEqual([201, 200, 204]);
+      expect(parseTaskResponse(results[1].data).status).toBe('done');
+
+      const list = parseTaskListResponse(
+        (await withAuth(request(server).get('/tasks')).expect(200)).body,
+      );
+      expect(list.data.map((task) => task.title).sort()).toEqual([
+        'Added in bulk',
+        'Close out',
+      ]);
+    });
+
+    it('is all-or-nothing and reports per-item problems', async () => {
+      const task = await createTask({ title: 'Untouched' });
+
+      const response = await withAuth(request(server).post('/tasks/bulk'))
+        .send({
+          operations: [
+            { op: 'create', data: { title: 'Never persisted' } },
+            {
+              op: 'update',
+              id: task.id,
+              version: task.version + 5,
+              data: { title: 'Stale rename' },
+            },
+            {
+              op: 'delete',
+              id: '00000000-0000-4000-8000-000000000003',
+              version: 0,
+            },
+          ],
+        })
+        .expect(422);
+
+      expect(response.type).toContain('application/problem+json');
+      const body = response.body as {
+        type: string;
+        results: { status: number; problem?: { type: string } }[];
+      };
+      expect(body.type).toBe(
+        'https://example.com/problems/bulk-operation-failed',
+      );
+      expect(body.results.map((result) => result.status)).toEqual([
+        424, 409, 404,
+      ]);
+      expect(body.results[1].problem?.type).toBe(
+        'https://example.com/problems/version-conflict',
+      );
+
+      const list = parseTaskListResponse(
+        (await withAuth(request(server).get('/tasks')).expect(200)).body,
+      );
+      expect(list.data.map((task) => task.title)).toEqual(['Untouched']);
+    });
+
+    it('validates nested operation payloads', async () => {
+      const response = await withAuth(request(server).post('/tasks/bulk'))
+        .send({ operations: [{ op: 'archive' }] })
+        .expect(400);
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.errors?.['operations.0.op']).toBeDefined();
+    });
+  });
+
+  describe('GET /tasks/events', () => {
+    type StreamEvent = { id: string; event: string; data: unknown };
+
+    const readEvents = async (
+      path: string,
+      count: number,
+      headers: Record<string, string> = {},
+      trigger?: () => Promise<unknown>,
+    ): Promise<StreamEvent[]> => {
+      const response = await fetch(`${await app.getUrl()}${path}`, {
+        headers: { Authorization: `Bearer ${apiToken}`, ...headers },
+      });
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      if (!response.body) {
+        throw new Error('Expected a streamed body');
+      }
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const events: StreamEvent[] = [];
+      let buffer = '';
+      await trigger?.();
+      while (events.length < count) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+          const fields = new Map(
+            block
+              .split('\n')
+              .filter((line) => line.includes(': '))
+              .map((line) => [
+                line.slice(0, line.indexOf(': ')),
+                line.slice(line.indexOf(': ') + 2),
+              ]),
+          );
+          if (fields.has('data')) {
+            events.push({
+              id: fields.get('id') ?? '',
+              event: fields.get('event') ?? 'message',
+              data: JSON.parse(fields.get('data') ?? 'null'),
+            });
+          }
+        }
+      }
+      await reader.cancel();
+      return events;
+    };
+
+    beforeEach(async () => {
+      await app.listen(0, '127.0.0.1');
+    });
+
+    afterEach(() => {
+      // Idle keep-alive sockets would otherwise hold up `app.close()`.
+      (app.getHttpServer() as Server).closeAllConnections();
+    });
+
+    it('streams task changes and resumes after Last-Event-ID', async () => {
+      let task: TaskResponse | undefined;
+      const live = await readEvents('/tasks/events', 2, {}, async () => {
+        task = await createTask({ title: 'Watched' });
+        await withAuth(request(server).patch(`/tasks/${task.id}`))
+          .set('If-Match', `"${task.version}"`)
+          .send({ status: 'doing' })
+          .expect(200);
+      });
+      expect(live.map(({ event }) => event)).toEqual([
+        'task.created',
+        'task.updated',
+      ]);
+      const version = (task?.version ?? 0) + 1;
+      expect(live[1].data).toMatchObject({
+        task: { id: task?.id, status: 'doing', version },
+        version,
+      });
+
+      await withAuth(request(server).delete(`/tasks/${task?.id}`))
+        .set('If-Match', `"${version}"`)
+        .expect(204);
+      const resumed = await readEvents('/tasks/events', 2, {
+        'Last-Event-ID': live[0].id,
+      });
+      expect(resumed.map(({ event }) => event)).toEqual([
+        'task.updated',
+        'task.deleted',
+      ]);
+
+      const reset = await readEvents('/tasks/events', 1, {
+        'Last-Event-ID': 'before-restart-7',
+      });
+      expect(reset.map(({ event }) => event)).toEqual(['reset']);
+    });
+  });
+
+  describe('GET /tasks/:id', () => {
+    it('returns a single task with an ETag derived from its version', async () => {
+      const created = await createTask({ title: 'Deep link target' });
+      const response = await withAuth(
+        request(server).get(`/tasks/${created.id}`),
+      ).expect(200);
+      const task = parseTaskResponse(response.body);
+      expect(task.id).toBe(created.id);
+      expect(task.title).toBe('Deep link target');
+      expect(response.headers.etag).toMatch(
+        new RegExp(`^W/"${created.version}-`),
+      );
+    });
+
+    it('answers a matching If-None-Match with 304', async () => {
+      const created = await createTask({ title: 'Cached detail' });
+      const first = await withAuth(
+        request(server).get(`/tasks/${created.id}`),
+      ).expect(200);
+      const etag = first.headers.etag;
+
+      await withAuth(request(server).get(`/tasks/${created.id}`))
+        .set('If-None-Match', etag)
+        .expect(304);
+
+      await withAuth(request(server).patch(`/tasks/${created.id}`))
+        .send({ title: 'Cached detail v2', version: created.version })
+        .expect(200);
+
+      const refreshed = await withAuth(
+        request(server).get(`/tasks/${created.id}`),
+      )
+        .set('If-None-Match', etag)
+        .expect(200);
+      expect(refreshed.headers.etag).not.toBe(etag);
+      expect(parseTaskResponse(refreshed.body).title).toBe('Cached detail v2');
+    });
+
+    it('changes the ETag when a comment is posted', async () => {
+      const created = await createTask({ title: 'Discussed detail' });
+      const first = await withAuth(
+        request(server).get(`/tasks/${created.id}`),
+      ).expect(200);
+
+      await withAuth(request(server).post(`/tasks/${created.id}/comments`))
+        .send({ body: 'First thoughts' })
+        .expect(201);
+
+      const refreshed = await withAuth(
+        request(server).get(`/tasks/${created.id}`),
+      )
+        .set('If-None-Match', first.headers.etag)
+        .expect(200);
+      expect(refreshed.body).toMatchObject({
+        version: created.version,
+        commentCount: 1,
+      });
+    });
+
+    it('returns 404 for unknown identifiers', async () => {
+      await withAuth(
+        request(server).get('/tasks/00000000-0000-4000-8000-000000000002'),
       ).expect(404);
     });
   });
+
+  describe('PATCH /tasks/:id', () => {
+    it('updates a task when the version matches', async () => {
+      const created = await createTask({ title: 'Needs update' });
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .send({
+          title: 'Updated title',
+          version: created.version,
+        })
+        .expect(200);
+      const updated = parseTaskResponse(response.body);
+      expect(updated.title).toBe('Updated title');
+      expect(updated.version).toBeGreaterThan(created.version);
+    });
+
+    it('rejects updates with mismatched versions', async () => {
+      const created = await createTask({ title: 'Conflict task' });
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .send({
+          title: 'Attempted update',
+          version: created.version + 1,
+        })
+        .expect(409);
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.type).toBe(
+        'https://example.com/problems/version-conflict',
+      );
+    });
+
+    it('accepts If-Match and returns the new ETag', async () => {
+      const created = await createTask({ title: 'Header concurrency' });
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .set('If-Match', `"${created.version}"`)
+        .send({ title: 'Header concurrency v2' })
+        .expect(200);
+      const updated = parseTaskResponse(response.body);
+      expect(updated.title).toBe('Header concurrency v2');
+      expect(response.headers.etag).toMatch(
+        new RegExp(`^W/"${updated.version}-`),
+      );
+    });
+
+    it('rejects stale If-Match headers with 412', async () => {
+      const created = await createTask({ title: 'Stale header' });
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .set('If-Match', `"${created.version + 1}"`)
+        .send({ title: 'Stale write', version: created.version })
+        .expect(412);
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.type).toBe(
+        'https://example.com/problems/precondition-failed',
+      );
+    });
+
+    it('requires a precondition when neither If-Match nor version is sent', async () => {
+      const created = await createTask({ title: 'Blind write' });
+      const response = await withAuth(
+        request(server).patch(`/tasks/${created.id}`),
+      )
+        .send({ title: 'Blind overwrite' })
+        .expect(428);
+      expect(response.type).toContain('application/problem+json');
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.type).toBe(
+        'https://example.com/problems/precondition-required',
+      );
+    });
+
+    it('returns 404 when the task does not exist', async () => {
+      await withAuth(
+        request(server).patch('/tasks/00000000-0000-4000-8000-000000000000'),
+      )
+        .send({
+          title: 'Non-existent',
+          version: 0,
+        })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /tasks/:id', () => {
+    it('requires authentication', async () => {
+      const created = await createTask({ title: 'Delete auth' });
+      const response = await request(server).delete(`/tasks/${created.id}`);
+      expect(response.status).toBe(401);
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.type).toBe('https://example.com/problems/missing-token');
+    });
+
+    it('removes a task and makes it disappear from listings', async () => {
+      const created = await createTask({ title: 'To be deleted' });
+      await withAuth(request(server).delete(`/tasks/${created.id}`))
+        .set('If-Match', `"${created.version}"`)
+        .expect(204);
+
+      const listResponse = await withAuth(request(server).get('/tasks'));
+      const list = parseTaskListResponse(listResponse.body);
+      expect(list.data.find((task) => task.id === created.id)).toBeUndefined();
+    });
+
+    it('requires If-Match before deleting', async () => {
+      const created = await createTask({ title: 'Unconditional delete' });
+      const response = await withAuth(
+        request(server).delete(`/tasks/${created.id}`),
+      ).expect(428);
+      const problem = parseProblemDetailsResponse(response.body);
+      expect(problem.type).toBe(
+        'https://example.com/problems/precondition-required',
+      );
+    });
+
+    it('refuses to delete a task that changed since it was read', async () => {
+      const created = await createTask({ title: 'Edited elsewhere' });
+      await withAuth(request(server).patch(`/tasks/${created.id}`))
+        .set('If-Match', `"${created.version}"`)
+        .send({ title: 'Edited by someone else' })
+        .expect(200);
+
+      await withAuth(request(server).delete(`/tasks/${created.id}`))
+        .set('If-Match', `"${created.version}"`)
+        .expect(412);
+      await withAuth(request(server).get(`/tasks/${created.id}`)).expect(200);
+    });
+
+    it('returns 404 for unknown identifiers', async () => {
+      await withAuth(
+        request(server).delete('/tasks/00000000-0000-4000-8000-000000000001'),
+      )
+        .set('If-Match', '"1"')
+        .expect(404);
+    });
+  });
 });
@@ -1,20 +1,65 @@
+import { LoginForm } from '@/features/auth/components/LoginForm';
+import { useSession } from '@/features/auth/hooks/useSession';
+import { taskPermissionsFor } from '@/features/auth/utils/permissions';
 import { TaskTableView } from '@/features/tasks/components/TaskTableView';
+import { WorkspaceSwitcher } from '@/features/workspaces/components/WorkspaceSwitcher';
+import { useActiveWorkspace } from '@/features/workspaces/hooks/useWorkspaces';
 import { ToastProvider } from '@/app/providers/ToastProvider';
 import styles from './App.module.css';
 
-export const App = (): JSX.Element => (
-  <div className={styles.page}>
-    <header className={styles.pageHeader}>
-      <h1 className={styles.title}>Task Tracker</h1>
-      <p className={styles.subtitle}>
-        Organise your work across Todo, Doing, and Done. Filter, sort, and manage tasks
-        with optimistic updates against the backend API.
-      </p>
-    </header>
-    <main className={styles.main}>
+export const App = (): JSX.Element => {
+  const { user, isLoading, logoutMutation } = useSession();
+  const activeWorkspace = useActiveWorkspace();
+
+  const renderMain = () => {
+    if (isLoading) {
+      return <p className={styles.subtitle}>Loading…</p>;
+    }
+    if (!user) {
+      return (
+        <div className={styles.login}>
+          <LoginForm />
+        </div>
+      );
+    }
+    return (
       <ToastProvider>
-        <TaskTableView />
+        {/* Remount on a switch so filters, selection and the event stream start over. */}
+        <TaskTableView
+          key={activeWorkspace ?? ''}
+          permissions={taskPermissionsFor(user.role)}
+          currentUserId={user.id}
+        />
       </ToastProvider>
-    </main>
-  </div>
-);
+    );
+  };
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.pageHeader}>
+        <div className={styles.titleRow}>
+          <h1 className={styles.title}>Task Tracker</h1>
+          {user ? (
+            <div className={styles.account}>
+              <WorkspaceSwitcher />
+              <span>{user.displayName}</span>
+              <button
+                type="button"
+                className={styles.signOutButton}
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                Sign out
+              </button>
+            </div>
+          ) : null}
+        </div>
+        <p className={styles.subtitle}>
+          Organise your work across Todo, Doing, and Done. Filter, sort, and manage tasks
+          with optimistic updates against the backend API.
+        </p>
+      </header>
+      <main className={styles.main}>{renderMain()}</main>
+    </div>
+  );
+};
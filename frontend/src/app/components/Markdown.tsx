@@ -0,0 +1,66 @@
+import { useMemo, type ReactNode } from 'react';
+import clsx from 'clsx';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/markdown';
+import styles from './Markdown.module.css';
+
+const renderInline = (nodes: readonly MarkdownInline[]): ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'emphasis':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const renderBlock = (block: MarkdownBlock, index: number): ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level + 3}` as 'h4' | 'h5' | 'h6';
+      return <Heading key={index}>{renderInline(block.children)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case 'quote':
+      return <blockquote key={index}>{renderInline(block.children)}</blockquote>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index}>
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'codeBlock':
+      return (
+        <pre key={index}>
+          <code>{block.text}</code>
+        </pre>
+      );
+  }
+};
+
+export interface MarkdownProps {
+  readonly source: string;
+  readonly className?: string;
+}
+
+/** Renders task Markdown as React elements; source HTML is never interpreted. */
+export const Markdown = ({ source, className }: MarkdownProps): JSX.Element => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className={clsx(styles.markdown, className)}>{blocks.map(renderBlock)}</div>
+  );
+};
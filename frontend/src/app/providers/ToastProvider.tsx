@@ -4,17 +4,27 @@ import styles from './ToastProvider.module.css';
 
 type ToastType = 'success' | 'info' | 'error';
 
+interface ToastAction {
+  readonly label: string;
+  readonly onClick: () => void;
+}
+
 interface Toast {
   readonly id: number;
   readonly message: string;
   readonly type: ToastType;
+  readonly action?: ToastAction;
+}
+
+interface ToastOptions {
+  readonly message: string;
+  readonly type?: ToastType;
+  /** Button shown beside the message; clicking it also dismisses the toast. */
+  readonly action?: ToastAction;
 }
 
 interface ToastContextValue {
-  readonly showToast: (toast: {
-    readonly message: string;
-    readonly type?: ToastType;
-  }) => void;
+  readonly showToast: (toast: ToastOptions) => void;
 }
 
 const ToastContext = createContext<ToastContextValue | undefined>(undefined);
@@ -40,18 +50,13 @@ export const ToastProvider = ({ children }: ToastProviderProps): JSX.Element =>
   }, []);
 
   const showToast = useCallback(
-    ({
-      message,
-      type = 'info',
-    }: {
-      readonly message: string;
-      readonly type?: ToastType;
-    }) => {
+    ({ message, type = 'info', action }: ToastOptions) => {
       nextId.current += 1;
       const toast: Toast = {
         id: nextId.current,
         message,
         type,
+        ...(action ? { action } : {}),
       };
       setToasts((current) => [...current, toast]);
       const timeout = setTimeout(() => {
@@ -71,6 +76,18 @@ export const ToastProvider = ({ children }: ToastProviderProps): JSX.Element =>
         {toasts.map((toast) => (
           <div key={toast.id} className={clsx(styles.toast, styles[toast.type])}>
             <span>{toast.message}</span>
+            {toast.action ? (
+              <button
+                type="button"
+                className={styles.actionButton}
+                onClick={() => {
+                  toast.action?.onClick();
+                  dismissToast(toast.id);
+                }}
+              >
+                {toast.action.label}
+              </button>
+            ) : null}
             <button
               type="button"
               className={styles.dismissButton}
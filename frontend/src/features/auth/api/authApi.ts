@@ -0,0 +1,50 @@
+import { HttpMethod, request } from '@/lib/apiClient';
+import { TaskApiError } from '@/lib/problem';
+import {
+  type LoginCredentials,
+  type User,
+  authSessionSchema,
+  loginCredentialsSchema,
+  userSchema,
+} from './authSchemas';
+
+/**
+ * Signs in. The API sets the httpOnly session cookies; the access token in
+ * the body is ignored so it never reaches script-readable storage.
+ */
+export const login = async (
+  credentials: LoginCredentials,
+  signal?: AbortSignal,
+): Promise<User> => {
+  const response = await request('/auth/login', {
+    method: HttpMethod.POST,
+    body: loginCredentialsSchema.parse(credentials),
+    schema: authSessionSchema,
+    signal,
+    skipSessionRefresh: true,
+  });
+  return response.user;
+};
+
+export const logout = (signal?: AbortSignal): Promise<void> =>
+  request('/auth/logout', {
+    method: HttpMethod.POST,
+    signal,
+    skipSessionRefresh: true,
+  });
+
+/** The signed-in user, or `null` when there is no session to resume. */
+export const getCurrentUser = async (signal?: AbortSignal): Promise<User | null> => {
+  try {
+    return await request('/auth/me', { schema: userSchema, signal });
+  } catch (error) {
+    if (
+      error instanceof TaskApiError &&
+      error.detail.kind === 'problem' &&
+      error.detail.problem.status === 401
+    ) {
+      return null;
+    }
+    throw error;
+  }
+};
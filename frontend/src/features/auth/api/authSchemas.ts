@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+/** Password limit, matching the API. */
+export const PASSWORD_MAX_LENGTH = 200;
+
+export const userRoleSchema = z.enum(['viewer', 'member', 'admin']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const userSchema = z.object({
+  id: z.string().uuid(),
+  email: z.string().email(),
+  displayName: z.string(),
+  role: userRoleSchema,
+  createdAt: z
+    .string()
+    .datetime({ offset: true })
+    .transform((value) => new Date(value)),
+});
+
+export type User = z.infer<typeof userSchema>;
+
+export const authSessionSchema = z.object({
+  user: userSchema,
+  accessTokenExpiresAt: z.string().datetime({ offset: true }),
+});
+
+export const loginCredentialsSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1).max(PASSWORD_MAX_LENGTH),
+});
+
+export type LoginCredentials = z.input<typeof loginCredentialsSchema>;
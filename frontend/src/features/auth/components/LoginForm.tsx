@@ -0,0 +1,68 @@
+import { useState, type FormEvent } from 'react';
+import { describeApiError } from '@/lib/problem';
+import { loginCredentialsSchema } from '../api/authSchemas';
+import { useSession } from '../hooks/useSession';
+import styles from './LoginForm.module.css';
+
+/** Email and password sign-in; the session lives in httpOnly cookies. */
+export const LoginForm = (): JSX.Element => {
+  const { loginMutation } = useSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const result = loginCredentialsSchema.safeParse({ email, password });
+    if (!result.success) {
+      setFormError('Enter your email address and password.');
+      return;
+    }
+    setFormError(null);
+    loginMutation.mutate(result.data, { onError: () => setPassword('') });
+  };
+
+  const errorMessage =
+    formError ??
+    (loginMutation.error ? describeApiError(loginMutation.error.detail) : null);
+
+  return (
+    <form className={styles.form} onSubmit={handleSubmit} noValidate>
+      <h2 className={styles.heading}>Sign in</h2>
+      <label className={styles.field}>
+        <span className={styles.label}>Email</span>
+        <input
+          className={styles.input}
+          type="email"
+          autoComplete="username"
+          value={email}
+          onChange={(event) => setEmail(event.currentTarget.value)}
+          disabled={loginMutation.isPending}
+        />
+      </label>
+      <label className={styles.field}>
+        <span className={styles.label}>Password</span>
+        <input
+          className={styles.input}
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(event) => setPassword(event.currentTarget.value)}
+          disabled={loginMutation.isPending}
+        />
+      </label>
+      {errorMessage ? (
+        <span className={styles.error} role="alert">
+          {errorMessage}
+        </span>
+      ) : null}
+      <button
+        type="submit"
+        className={styles.submitButton}
+        disabled={loginMutation.isPending}
+      >
+        {loginMutation.isPending ? 'Signing in…' : 'Sign in'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { setActiveWorkspace } from '@/features/workspaces/state/activeWorkspace';
+import { onSessionExpired } from '@/lib/apiClient';
+import type { TaskApiError } from '@/lib/problem';
+import { getCurrentUser, login, logout } from '../api/authApi';
+import type { LoginCredentials, User } from '../api/authSchemas';
+
+export const SESSION_QUERY_KEY = ['session'] as const;
+
+export const useSession = () => {
+  const queryClient = useQueryClient();
+
+  const sessionQuery = useQuery<User | null, TaskApiError>({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: ({ signal }) => getCurrentUser(signal),
+    staleTime: Infinity,
+    throwOnError: false,
+  });
+
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        queryClient.setQueryData<User | null>(SESSION_QUERY_KEY, null);
+      }),
+    [queryClient],
+  );
+
+  const loginMutation = useMutation<User, TaskApiError, LoginCredentials>({
+    mutationFn: (credentials) => login(credentials),
+    onSuccess: (user) => {
+      queryClient.setQueryData<User | null>(SESSION_QUERY_KEY, user);
+    },
+  });
+
+  const logoutMutation = useMutation<void, TaskApiError>({
+    mutationFn: () => logout(),
+    onSettled: () => {
+      // Drop everything fetched for the previous user.
+      queryClient.removeQueries({
+        predicate: (query) => query.queryKey[0] !== SESSION_QUERY_KEY[0],
+      });
+      queryClient.setQueryData<User | null>(SESSION_QUERY_KEY, null);
+      setActiveWorkspace(null);
+    },
+  });
+
+  return {
+    user: sessionQuery.data ?? null,
+    isLoading: sessionQuery.isPending,
+    loginMutation,
+    logoutMutation,
+  };
+};
@@ -0,0 +1,12 @@
+import type { UserRole } from '../api/authSchemas';
+
+/** Task actions a role may take, mirroring the API's `@RequireRole` checks. */
+export interface TaskPermissions {
+  readonly canEdit: boolean;
+  readonly canDelete: boolean;
+}
+
+export const taskPermissionsFor = (role: UserRole): TaskPermissions => ({
+  canEdit: role !== 'viewer',
+  canDelete: role === 'admin',
+});
@@ -1,14 +1,13 @@
 import { http, HttpResponse } from 'msw';
 import { afterEach, describe, expect, it } from 'vitest';
+import { setActiveWorkspace } from '@/features/workspaces/state/activeWorkspace';
 import { TaskApiError } from '@/lib/problem';
 import { server } from '@/test/server';
 
 const API_BASE_URL = 'http://localhost:3100/';
-const API_TOKEN = 'test-token';
 
 const loadModule = async () => {
   import.meta.env.VITE_API_BASE_URL = API_BASE_URL;
-  import.meta.env.VITE_API_TOKEN = API_TOKEN;
   const module = await import('./taskApi');
   module.clearTaskListCache();
   return module;
@@ -29,6 +28,7 @@ const sampleTask = {
 describe('taskApi', () => {
   afterEach(() => {
     server.resetHandlers();
+    setActiveWorkspace(null);
   });
 
   it('lists tasks', async () => {
@@ -52,11 +52,23 @@ describe('taskApi', () => {
     expect(response.tasks[0].title).toBe('Sample task');
   });
 
-  it('creates a task with authentication', async () => {
+  it('fetches a single task by id', async () => {
+    server.use(
+      http.get(`${API_BASE_URL}tasks/:id`, ({ params }) =>
+        HttpResponse.json({ ...sampleTask, id: params.id }, { headers: { ETag: '"1"' } }),
+      ),
+    );
+
+    const { getTask } = await loadModule();
+    const task = await getTask(sampleTask.id as Parameters<typeof getTask>[0]);
+    expect(task.id).toBe(sampleTask.id);
+    expect(task.dueDate).toBeInstanceOf(Date);
+  });
+
+  it('creates a task with the session cookies', async () => {
     server.use(
       http.post(`${API_BASE_URL}tasks`, async ({ request }) => {
-        const auth = request.headers.get('authorization');
-        if (auth !== `Bearer ${API_TOKEN}`) {
+        if (request.credentials !== 'include') {
           return HttpResponse.json(
             {
               type: 'https://example.com/problems/missing-token',
@@ -121,6 +133,36 @@ describe('taskApi', () => {
     }
   });
 
+  it('sends the task version as an If-Match precondition', async () => {
+    const seen: { readonly method: string; readonly ifMatch: string | null }[] = [];
+    server.use(
+      http.patch(`${API_BASE_URL}tasks/:id`, async ({ request }) => {
+        seen.push({ method: 'PATCH', ifMatch: request.headers.get('if-match') });
+        const body = (await request.json()) as Record<string, unknown>;
+        expect(body).not.toHaveProperty('version');
+        return HttpResponse.json({ ...sampleTask, version: 2 });
+      }),
+      http.delete(`${API_BASE_URL}tasks/:id`, ({ request }) => {
+        seen.push({ method: 'DELETE', ifMatch: request.headers.get('if-match') });
+        return new HttpResponse(null, { status: 204 });
+      }),
+    );
+
+    const { updateTask, deleteTask } = await loadModule();
+    const taskId = sampleTask.id as Parameters<typeof deleteTask>[0];
+    await updateTask(
+      taskId,
+      { title: 'Sample task', status: 'doing', priority: 3, dueDate: null, tags: [] },
+      1,
+    );
+    await deleteTask(taskId, 2);
+
+    expect(seen).toEqual([
+      { method: 'PATCH', ifMatch: '"1"' },
+      { method: 'DELETE', ifMatch: '"2"' },
+    ]);
+  });
+
   it('caches list responses until invalidated', async () => {
     let callCount = 0;
     server.use(
@@ -188,4 +230,30 @@ describe('taskApi', () => {
     expect(listCallCount).toBe(2);
     expect(refreshed.tasks[0].title).toBe('Created via API');
   });
+
+  it('scopes requests and the list cache to the active workspace', async () => {
+    const listedFrom: string[] = [];
+    const listHandler = (workspace: string) => () => {
+      listedFrom.push(workspace);
+      return HttpResponse.json({
+        data: [{ ...sampleTask, title: `${workspace} task` }],
+        meta: {
+          total: 1,
+          page: 1,
+          pageSize: 25,
+          statusCounts: { todo: 1, doing: 0, done: 0 },
+        },
+      });
+    };
+    server.use(
+      http.get(`${API_BASE_URL}tasks`, listHandler('default')),
+      http.get(`${API_BASE_URL}workspaces/ops/tasks`, listHandler('ops')),
+    );
+
+    const { listTasks } = await loadModule();
+    expect((await listTasks({})).tasks[0].title).toBe('default task');
+    setActiveWorkspace('ops');
+    expect((await listTasks({})).tasks[0].title).toBe('ops task');
+    expect(listedFrom).toEqual(['default', 'ops']);
+  });
 });
@@ -1,234 +1,71 @@
-import { ZodError, type ZodType } from 'zod';
-import { TaskApiError, isProblemDetails, problemDetailsSchema } from '@/lib/problem';
+import {
+  getActiveWorkspace,
+  workspacePath,
+} from '@/features/workspaces/state/activeWorkspace';
+import { HttpMethod, buildUrl, refreshSession, request } from '@/lib/apiClient';
 import {
   type CreateTaskPayload,
   type ListTasksParams,
   type NormalizedListTasksParams,
   type Task,
+  type TaskComment,
+  type TaskCommentDraft,
   type TaskDraft,
   type TaskId,
   type TaskStatus,
   type TaskSortOrder,
+  type TaskWorkflow,
+  type TaskStreamEvent,
+  type TaskStreamEventType,
   type UpdateTaskPayload,
+  type WorkspaceTag,
   createTaskPayloadSchema,
   listTasksParamsSchema,
+  taskChildrenSchema,
+  taskCommentDraftSchema,
+  taskCommentListSchema,
+  taskCommentSchema,
   taskCollectionSchema,
   taskDraftSchema,
   taskSchema,
-  taskStatusSchema,
+  taskWorkflowSchema,
+  taskStreamEventSchema,
+  taskStreamEventTypeSchema,
   updateTaskPayloadSchema,
+  workspaceTagListSchema,
 } from './taskSchemas';
 
-const HttpMethod = {
-  DELETE: 'DELETE',
-  GET: 'GET',
-  PATCH: 'PATCH',
-  POST: 'POST',
-} as const;
-
-type HttpMethod = (typeof HttpMethod)[keyof typeof HttpMethod];
-
-const readEnvString = (value: unknown): string | undefined =>
-  typeof value === 'string' ? value : undefined;
-
-function normalizeBaseUrl(value: string): string {
-  const trimmed = value.trim();
-  if (trimmed.length === 0) {
-    throw new Error('VITE_API_BASE_URL must not be empty');
-  }
-  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
-}
-
-const rawBaseUrl = readEnvString(import.meta.env.VITE_API_BASE_URL);
-const API_BASE_URL = normalizeBaseUrl(
-  rawBaseUrl && rawBaseUrl.trim().length > 0 ? rawBaseUrl : 'http://localhost:3000',
-);
-const rawToken = readEnvString(import.meta.env.VITE_API_TOKEN);
-const API_TOKEN = rawToken ?? '';
-
-const JSON_MEDIA_TYPE = 'application/json';
-
-const parseJson = async (response: Response): Promise<unknown> => {
-  if (response.status === 204) {
-    return undefined;
-  }
-  const contentLength = response.headers.get('content-length');
-  if (contentLength === '0') {
-    return undefined;
-  }
-  const text = await response.text();
-  if (!text) {
-    return undefined;
-  }
-  try {
-    const parsed: unknown = JSON.parse(text);
-    return parsed;
-  } catch (error) {
-    const message =
-      error instanceof Error ? error.message : 'Failed to parse JSON response';
-    throw createUnexpectedError(`Failed to parse JSON response: ${message}`);
-  }
-};
-
-const createUnexpectedError = (message: string): TaskApiError =>
-  new TaskApiError({ kind: 'unexpected', error: new Error(message) });
-
-const ensureAuthToken = (): TaskApiError | null =>
-  API_TOKEN.trim().length === 0
-    ? new TaskApiError({
-        kind: 'configuration',
-        message:
-          'VITE_API_TOKEN is required for mutating task requests. Please define it in your frontend .env file.',
-      })
-    : null;
-
-const buildUrl = (
-  path: string,
-  params?: Partial<Record<string, string | number>>,
-): URL => {
-  const url = new URL(path, API_BASE_URL);
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value === undefined || value === null || value === '') {
-        return;
-      }
-      url.searchParams.set(key, String(value));
-    });
-  }
-  return url;
-};
-
-interface RequestOptionsBase {
-  readonly method?: HttpMethod | undefined;
-  readonly body?: unknown;
-  readonly params?: Partial<Record<string, string | number>>;
-  readonly signal?: AbortSignal | undefined;
-  readonly requiresAuth?: boolean | undefined;
-}
-
-type SchemaOutput<TSchema extends ZodType<unknown>> = TSchema['_output'];
-
-interface RequestOptionsWithSchema<TSchema extends ZodType<unknown>>
-  extends RequestOptionsBase {
-  readonly schema: TSchema;
-}
-
-type RequestOptionsWithoutSchema = RequestOptionsBase & {
-  readonly schema?: undefined;
-};
-
-async function request<TSchema extends ZodType<unknown>>(
-  path: string,
-  options: RequestOptionsWithSchema<TSchema>,
-): Promise<SchemaOutput<TSchema>>;
-async function request(
-  path: string,
-  options?: RequestOptionsWithoutSchema,
-): Promise<void>;
-async function request<TSchema extends ZodType<unknown>>(
-  path: string,
-  options: RequestOptionsWithSchema<TSchema> | RequestOptionsWithoutSchema = {},
-): Promise<SchemaOutput<TSchema> | void> {
-  const { method = HttpMethod.GET, body, params, requiresAuth, signal } = options;
-  const schema =
-    'schema' in options && options.schema !== undefined ? options.schema : undefined;
-
-  if (requiresAuth) {
-    const missingTokenError = ensureAuthToken();
-    if (missingTokenError) {
-      throw missingTokenError;
-    }
-  }
-
-  const headers = new Headers();
-  headers.set('Accept', JSON_MEDIA_TYPE);
-  if (body !== undefined) {
-    headers.set('Content-Type', JSON_MEDIA_TYPE);
-  }
-  if (requiresAuth && API_TOKEN) {
-    headers.set('Authorization', `Bearer ${API_TOKEN}`);
-  }
-
-  const requestInit: RequestInit = {
-    method,
-    headers,
-  };
-
-  if (body !== undefined) {
-    requestInit.body = JSON.stringify(body);
-  }
-
-  if (signal && typeof AbortSignal !== 'undefined' && signal instanceof AbortSignal) {
-    requestInit.signal = signal;
-  }
-
-  try {
-    const response = await fetch(buildUrl(path, params), requestInit);
-
-    if (!response.ok) {
-      const parsed = await parseJson(response).catch(() => {
-        throw createUnexpectedError(
-          `Failed to read error response (HTTP ${response.status})`,
-        );
-      });
-      if (parsed && isProblemDetails(parsed)) {
-        throw new TaskApiError({
-          kind: 'problem',
-          problem: problemDetailsSchema.parse(parsed),
-        });
-      }
-      throw createUnexpectedError(`Unexpected error response (HTTP ${response.status})`);
-    }
-
-    if (!schema) {
-      return undefined;
-    }
-
-    const data = await parseJson(response);
-    try {
-      return schema.parse(data) as TSchema['_output'];
-    } catch (error) {
-      if (error instanceof ZodError) {
-        throw createUnexpectedError(`Response validation failed: ${error.message}`);
-      }
-      throw createUnexpectedError('Response validation failed.');
-    }
-  } catch (error) {
-    if (error instanceof TaskApiError) {
-      throw error;
-    }
-    if (error instanceof DOMException && error.name === 'AbortError') {
-      throw error;
-    }
-    throw new TaskApiError({
-      kind: 'network',
-      error: error instanceof Error ? error : new Error(String(error)),
-    });
-  }
-}
-
 const normalizeListParams = (params: ListTasksParams): NormalizedListTasksParams =>
   listTasksParamsSchema.parse(params);
 
 const toCreatePayload = (draft: TaskDraft): CreateTaskPayload =>
   createTaskPayloadSchema.parse({
     title: draft.title,
+    description: draft.description?.length ? draft.description : undefined,
     status: draft.status,
     priority: draft.priority,
     dueDate: draft.dueDate,
     tags: draft.tags.length > 0 ? draft.tags : undefined,
+    assignees: draft.assignees.length > 0 ? draft.assignees : undefined,
+    recurrence: draft.recurrence?.length ? draft.recurrence : undefined,
   });
 
-const toUpdatePayload = (draft: TaskDraft, version: number): UpdateTaskPayload =>
+const toUpdatePayload = (draft: TaskDraft): UpdateTaskPayload =>
   updateTaskPayloadSchema.parse({
     title: draft.title,
+    description: draft.description,
     status: draft.status,
     priority: draft.priority,
     dueDate: draft.dueDate,
     tags: draft.tags,
-    version,
+    assignees: draft.assignees,
+    recurrence: draft.recurrence,
   });
 
+const toIfMatchHeader = (version: number): Record<string, string> => ({
+  'If-Match': `"${version}"`,
+});
+
 export interface TaskListResponse {
   readonly tasks: Task[];
   readonly total: number;
@@ -247,7 +84,7 @@ interface TaskListCacheEntry {
 const taskListCache = new Map<string, TaskListCacheEntry>();
 
 const buildListCacheKey = (params: NormalizedListTasksParams): string =>
-  JSON.stringify(params);
+  JSON.stringify({ workspace: getActiveWorkspace(), ...params });
 
 const cloneTask = (task: Task): Task => ({
   ...task,
@@ -309,6 +146,12 @@ export const listTasks = async (
   if (normalized.tag) {
     queryParams.tag = normalized.tag;
   }
+  if (normalized.assignee) {
+    queryParams.assignee = normalized.assignee;
+  }
+  if (normalized.unassigned) {
+    queryParams.unassigned = 'true';
+  }
   if (normalized.search) {
     queryParams.search = normalized.search;
   }
@@ -316,7 +159,7 @@ export const listTasks = async (
     queryParams.sortBy = normalized.sortBy;
   }
 
-  const response = await request('/tasks', {
+  const response = await request(workspacePath('/tasks'), {
     params: queryParams,
     schema: taskCollectionSchema,
     signal,
@@ -332,18 +175,65 @@ export const listTasks = async (
   return result;
 };
 
+export const getTask = (taskId: TaskId, signal?: AbortSignal): Promise<Task> =>
+  request(workspacePath(`/tasks/${taskId}`), {
+    schema: taskSchema,
+    signal,
+  });
+
+/** Statuses and the moves between them; the same for every workspace. */
+export const getTaskWorkflow = (signal?: AbortSignal): Promise<TaskWorkflow> =>
+  request(workspacePath('/workflow'), {
+    schema: taskWorkflowSchema,
+    signal,
+  });
+
+/** Every tag in the workspace, most used first. */
+export const listTags = async (signal?: AbortSignal): Promise<WorkspaceTag[]> => {
+  const response = await request(workspacePath('/tags'), {
+    schema: workspaceTagListSchema,
+    signal,
+  });
+  return response.data;
+};
+
+const TAG_SUGGESTIONS_LIMIT = 8;
+
+/** Tags starting with `prefix`, the likeliest first. */
+export const suggestTags = async (
+  prefix: string,
+  signal?: AbortSignal,
+): Promise<WorkspaceTag[]> => {
+  const response = await request(workspacePath('/tags/suggest'), {
+    params: { prefix, limit: TAG_SUGGESTIONS_LIMIT },
+    schema: workspaceTagListSchema,
+    signal,
+  });
+  return response.data;
+};
+
+export const listTaskChildren = async (
+  taskId: TaskId,
+  signal?: AbortSignal,
+): Promise<Task[]> => {
+  const response = await request(workspacePath(`/tasks/${taskId}/children`), {
+    schema: taskChildrenSchema,
+    signal,
+  });
+  return response.data;
+};
+
 export const createTask = async (
   draft: TaskDraft,
   signal?: AbortSignal,
 ): Promise<Task> => {
   const normalizedDraft = taskDraftSchema.parse(draft);
   const payload = toCreatePayload(normalizedDraft);
-  const response = await request('/tasks', {
+  const response = await request(workspacePath('/tasks'), {
     method: HttpMethod.POST,
     body: payload,
     schema: taskSchema,
     signal,
-    requiresAuth: true,
   });
   clearTaskListCache();
   return response;
@@ -356,29 +246,149 @@ export const updateTask = async (
   signal?: AbortSignal,
 ): Promise<Task> => {
   const normalizedDraft = taskDraftSchema.parse(draft);
-  const payload = toUpdatePayload(normalizedDraft, version);
-  const response = await request(`/tasks/${taskId}`, {
+  const payload = toUpdatePayload(normalizedDraft);
+  const response = await request(workspacePath(`/tasks/${taskId}`), {
     method: HttpMethod.PATCH,
     body: payload,
+    headers: toIfMatchHeader(version),
     schema: taskSchema,
     signal,
-    requiresAuth: true,
   });
   clearTaskListCache();
   return response;
 };
 
-export const deleteTask = async (taskId: TaskId, signal?: AbortSignal): Promise<void> => {
-  await request(`/tasks/${taskId}`, {
+export const deleteTask = async (
+  taskId: TaskId,
+  version: number,
+  signal?: AbortSignal,
+): Promise<void> => {
+  await request(workspacePath(`/tasks/${taskId}`), {
     method: HttpMethod.DELETE,
+    headers: toIfMatchHeader(version),
     signal,
-    requiresAuth: true,
   });
   clearTaskListCache();
 };
 
-export const isTaskStatus = (value: string): value is TaskStatus =>
-  taskStatusSchema.safeParse(value).success;
+export const restoreTask = async (
+  taskId: TaskId,
+  signal?: AbortSignal,
+): Promise<Task> => {
+  const response = await request(workspacePath(`/tasks/${taskId}/restore`), {
+    method: HttpMethod.POST,
+    schema: taskSchema,
+    signal,
+  });
+  clearTaskListCache();
+  return response;
+};
+
+export const listTaskComments = async (
+  taskId: TaskId,
+  signal?: AbortSignal,
+): Promise<TaskComment[]> => {
+  const response = await request(workspacePath(`/tasks/${taskId}/comments`), {
+    schema: taskCommentListSchema,
+    signal,
+  });
+  return response.data;
+};
+
+export const createTaskComment = async (
+  taskId: TaskId,
+  draft: TaskCommentDraft,
+  signal?: AbortSignal,
+): Promise<TaskComment> => {
+  const response = await request(workspacePath(`/tasks/${taskId}/comments`), {
+    method: HttpMethod.POST,
+    body: taskCommentDraftSchema.parse(draft),
+    schema: taskCommentSchema,
+    signal,
+  });
+  // Listed tasks carry a comment count.
+  clearTaskListCache();
+  return response;
+};
+
+export const deleteTaskComment = async (
+  taskId: TaskId,
+  commentId: string,
+  signal?: AbortSignal,
+): Promise<void> => {
+  await request(workspacePath(`/tasks/${taskId}/comments/${commentId}`), {
+    method: HttpMethod.DELETE,
+    signal,
+  });
+  clearTaskListCache();
+};
+
+export interface TaskStreamHandlers {
+  readonly onChange: (type: TaskStreamEventType, event: TaskStreamEvent) => void;
+  /** The server could not replay what was missed; refetch everything. */
+  readonly onReset: () => void;
+}
+
+/**
+ * Listens to `GET /tasks/events` of the active workspace. `EventSource`
+ * reconnects by itself and sends `Last-Event-ID`, so nothing is missed across
+ * short drops. It gives up for good once the server refuses it, usually
+ * because the access cookie expired; the session is then refreshed and a new
+ * stream opened, and since that one starts without `Last-Event-ID`, the
+ * caller is asked to refetch. Returns a function that closes the stream.
+ */
+export const subscribeToTaskEvents = (handlers: TaskStreamHandlers): (() => void) => {
+  if (typeof EventSource === 'undefined') {
+    return () => undefined;
+  }
+  let closed = false;
+  let source: EventSource;
+
+  const open = (): void => {
+    source = new EventSource(buildUrl(workspacePath('/tasks/events')), {
+      withCredentials: true,
+    });
+    for (const type of taskStreamEventTypeSchema.options) {
+      source.addEventListener(type, (message: MessageEvent<string>) => {
+        let data: unknown;
+        try {
+          data = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        const parsed = taskStreamEventSchema.safeParse(data);
+        if (!parsed.success) {
+          return;
+        }
+        clearTaskListCache();
+        handlers.onChange(type, parsed.data);
+      });
+    }
+    source.addEventListener('reset', () => {
+      clearTaskListCache();
+      handlers.onReset();
+    });
+    source.addEventListener('error', () => {
+      if (source.readyState !== EventSource.CLOSED) {
+        return;
+      }
+      void refreshSession().then((refreshed) => {
+        if (!refreshed || closed) {
+          return;
+        }
+        open();
+        clearTaskListCache();
+        handlers.onReset();
+      });
+    });
+  };
+
+  open();
+  return () => {
+    closed = true;
+    source.close();
+  };
+};
 
 export const isSortOrder = (value: string): value is TaskSortOrder =>
   value === 'asc' || value === 'desc';
@@ -1,10 +1,39 @@
 import { z } from 'zod';
 import type { Brand } from '@/lib/brand';
 
-export const taskStatusSchema = z.enum(['todo', 'doing', 'done']);
+/** Key of a status in the workflow the API serves at `GET /workflow`. */
+export const taskStatusSchema = z.string().regex(/^[a-z][a-z0-9-]{0,29}$/);
 
 export type TaskStatus = z.infer<typeof taskStatusSchema>;
 
+export const taskStatusCategorySchema = z.enum(['todo', 'in-progress', 'done']);
+
+/** What a status means whatever it is called; "done" tasks never expire. */
+export type TaskStatusCategory = z.infer<typeof taskStatusCategorySchema>;
+
+export const workflowStatusSchema = z.object({
+  key: taskStatusSchema,
+  label: z.string(),
+  category: taskStatusCategorySchema,
+  /** Statuses a task in this one may move to. */
+  transitions: z.array(taskStatusSchema),
+  /** Most tasks the status may hold at once; `null` for no limit. */
+  wipLimit: z.number().int().positive().nullable().default(null),
+});
+
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>;
+
+/** Statuses in board order; new tasks start in the first one. */
+export const taskWorkflowSchema = z.object({
+  statuses: z.array(workflowStatusSchema),
+  /** Whether WIP limits count across the workspace or per assignee. */
+  wipLimitScope: z.enum(['workspace', 'assignee']).default('workspace'),
+  /** Whether going over a WIP limit is refused or only flagged. */
+  wipLimitEnforcement: z.enum(['reject', 'warn']).default('reject'),
+});
+
+export type TaskWorkflow = z.infer<typeof taskWorkflowSchema>;
+
 export type TaskId = Brand<string, 'TaskId'>;
 
 const taskIdSchema = z
@@ -35,6 +64,18 @@ const tagSchema = z
     message: 'Tags must contain a non-whitespace character',
   });
 
+/** A user or API token, named like actors: `user:<id>` or `api-token:<id>`. */
+export const assigneeSchema = z
+  .string()
+  .regex(/^(?:user|api-token):[0-9a-f-]{12,36}$/, 'Unknown assignee');
+
+export const ASSIGNEES_MAX = 10;
+
+/** Markdown body limit, matching the API. */
+export const DESCRIPTION_MAX_LENGTH = 10_000;
+
+export const RECURRENCE_MAX_LENGTH = 200;
+
 export const taskSchema = z.object({
   id: taskIdSchema,
   title: z
@@ -45,16 +86,35 @@ export const taskSchema = z.object({
     .refine((value) => /\S/.test(value), {
       message: 'Title must contain a non-whitespace character',
     }),
+  description: z.string().max(DESCRIPTION_MAX_LENGTH).nullable().default(null),
   status: taskStatusSchema,
+  statusCategory: taskStatusCategorySchema.default('todo'),
   priority: z.number().int().min(1).max(5),
   dueDate: nullableIsoDateSchema,
   tags: z
     .array(tagSchema)
     .max(20)
     .transform((tags) => Array.from(new Set(tags))),
+  assignees: z.array(z.string()).default([]),
+  parentId: taskIdSchema.nullable().default(null),
+  /** RRULE; completing the task creates its next occurrence. */
+  recurrence: z.string().nullable().default(null),
+  /** Done and total counts across every descendant. */
+  progress: z
+    .object({
+      done: z.number().int().min(0),
+      total: z.number().int().min(0),
+    })
+    .default({ done: 0, total: 0 }),
+  /** Set while a task this one depends on is unfinished. */
+  isBlocked: z.boolean().default(false),
+  commentCount: z.number().int().min(0).default(0),
+  deletedAt: nullableIsoDateSchema.default(null),
   version: z.number().int().min(0),
   createdAt: isoDateTimeStringSchema,
   updatedAt: isoDateTimeStringSchema,
+  /** Search hits wrapped in `<mark>`; only present on searched lists. */
+  snippet: z.string().optional(),
 });
 
 export type Task = z.infer<typeof taskSchema>;
@@ -65,17 +125,81 @@ export const taskCollectionSchema = z.object({
     total: z.number().int().min(0),
     page: z.number().int().min(1),
     pageSize: z.number().int().min(1).max(100),
-    statusCounts: z.object({
-      todo: z.number().int().min(0),
-      doing: z.number().int().min(0),
-      done: z.number().int().min(0),
-    }),
+    /** Every status of the workflow, in board order. */
+    statusCounts: z.record(z.number().int().min(0)),
   }),
 });
 
 export type TaskCollection = z.infer<typeof taskCollectionSchema>;
 
-export const taskSortBySchema = z.enum(['priority', 'dueDate']);
+export const taskChildrenSchema = z.object({
+  data: z.array(taskSchema),
+});
+
+export const taskStreamEventTypeSchema = z.enum([
+  'task.created',
+  'task.updated',
+  'task.deleted',
+]);
+
+export type TaskStreamEventType = z.infer<typeof taskStreamEventTypeSchema>;
+
+/** `data` of a `GET /tasks/events` message; deleted tasks arrive as trashed. */
+export const taskStreamEventSchema = z.object({
+  task: taskSchema,
+  version: z.number().int().min(0),
+});
+
+export type TaskStreamEvent = z.infer<typeof taskStreamEventSchema>;
+
+/** A tag as `GET /tags` lists it, in the spelling the workspace uses. */
+export const workspaceTagSchema = z.object({
+  name: z.string(),
+  /** Untrashed tasks carrying the tag. */
+  usageCount: z.number().int().nonnegative(),
+  /** `#rrggbb`, or `null` for the default chip color. */
+  color: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i)
+    .nullable(),
+  description: z.string().nullable(),
+});
+
+export type WorkspaceTag = z.infer<typeof workspaceTagSchema>;
+
+export const workspaceTagListSchema = z.object({
+  data: z.array(workspaceTagSchema),
+});
+
+export const COMMENT_BODY_MAX_LENGTH = 5_000;
+
+export const taskCommentSchema = z.object({
+  id: z.string().uuid(),
+  taskId: taskIdSchema,
+  author: z.string(),
+  body: z.string(),
+  createdAt: isoDateTimeStringSchema,
+  updatedAt: isoDateTimeStringSchema,
+});
+
+export type TaskComment = z.infer<typeof taskCommentSchema>;
+
+export const taskCommentListSchema = z.object({
+  data: z.array(taskCommentSchema),
+});
+
+/** The API records whoever posts the comment as its author. */
+export const taskCommentDraftSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Comment is required')
+    .max(COMMENT_BODY_MAX_LENGTH, 'Comment must be 5,000 characters or fewer'),
+});
+
+export type TaskCommentDraft = z.infer<typeof taskCommentDraftSchema>;
+
+export const taskSortBySchema = z.enum(['priority', 'dueDate', 'relevance']);
 
 export type TaskSortBy = z.infer<typeof taskSortBySchema>;
 
@@ -95,6 +219,9 @@ const optionalFilterString = (min: number, max: number) =>
 export const listTasksParamsSchema = z.object({
   status: taskStatusSchema.optional(),
   tag: optionalFilterString(1, 30),
+  /** A principal, or `me` for the signed-in user. */
+  assignee: optionalFilterString(1, 80),
+  unassigned: z.boolean().optional(),
   search: optionalFilterString(1, 120),
   sortBy: taskSortBySchema.optional(),
   sortOrder: taskSortOrderSchema.default('asc'),
@@ -115,29 +242,47 @@ export const taskDraftSchema = z.object({
     .refine((value) => /\S/.test(value), {
       message: 'Title must contain a non-whitespace character',
     }),
-  status: taskStatusSchema,
+  /** Omitted leaves the description unchanged; blank clears it. */
+  description: z
+    .string()
+    .trim()
+    .max(DESCRIPTION_MAX_LENGTH, 'Description must be 10,000 characters or fewer')
+    .optional(),
+  /** Omitted on create, the task starts in the workflow's first status. */
+  status: taskStatusSchema.optional(),
   priority: z.number().int().min(1).max(5),
   dueDate: z.union([z.string().datetime({ offset: true }), z.null()]),
   tags: z
     .array(tagSchema)
     .max(20)
     .transform((tags) => Array.from(new Set(tags))),
+  assignees: z
+    .array(assigneeSchema)
+    .max(ASSIGNEES_MAX, `At most ${ASSIGNEES_MAX} assignees`)
+    .default([]),
+  /** Omitted leaves the rule unchanged; blank stops the task recurring. */
+  recurrence: z
+    .string()
+    .trim()
+    .max(RECURRENCE_MAX_LENGTH, 'Recurrence rule is too long')
+    .optional(),
 });
 
 export type TaskDraft = z.infer<typeof taskDraftSchema>;
 
 export const createTaskPayloadSchema = z.object({
   title: taskDraftSchema.shape.title,
-  status: taskDraftSchema.shape.status.optional(),
+  description: taskDraftSchema.shape.description,
+  status: taskDraftSchema.shape.status,
   priority: taskDraftSchema.shape.priority.optional(),
   dueDate: taskDraftSchema.shape.dueDate.optional(),
   tags: taskDraftSchema.shape.tags.optional(),
+  assignees: z.array(assigneeSchema).max(ASSIGNEES_MAX).optional(),
+  recurrence: taskDraftSchema.shape.recurrence,
 });
 
 export type CreateTaskPayload = z.infer<typeof createTaskPayloadSchema>;
 
-export const updateTaskPayloadSchema = createTaskPayloadSchema.partial().extend({
-  version: z.number().int().min(0),
-});
+export const updateTaskPayloadSchema = createTaskPayloadSchema.partial();
 
 export type UpdateTaskPayload = z.infer<typeof updateTaskPayloadSchema>;
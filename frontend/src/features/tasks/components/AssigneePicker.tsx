@@ -0,0 +1,54 @@
+import type { WorkspaceMember } from '@/features/workspaces/api/workspaceSchemas';
+import { ASSIGNEES_MAX } from '../api/taskSchemas';
+import { assigneeOptions } from '../utils/taskAssignees';
+import styles from './AssigneePicker.module.css';
+
+export interface AssigneePickerProps {
+  readonly value: readonly string[];
+  readonly members: readonly WorkspaceMember[];
+  readonly onChange: (value: string[]) => void;
+  readonly disabled?: boolean;
+}
+
+/** Toggles workspace members on and off a task. */
+export const AssigneePicker = ({
+  value,
+  members,
+  onChange,
+  disabled = false,
+}: AssigneePickerProps): JSX.Element => {
+  const options = assigneeOptions(members, value);
+
+  if (options.length === 0) {
+    return <span className={styles.empty}>No workspace members to assign.</span>;
+  }
+
+  return (
+    <div className={styles.picker} role="group" aria-label="Assignees">
+      {options.map((option) => {
+        const selected = value.includes(option.principal);
+        return (
+          <button
+            key={option.principal}
+            type="button"
+            className={styles.option}
+            aria-pressed={selected}
+            onClick={() =>
+              onChange(
+                selected
+                  ? value.filter((principal) => principal !== option.principal)
+                  : [...value, option.principal],
+              )
+            }
+            disabled={disabled || (!selected && value.length >= ASSIGNEES_MAX)}
+          >
+            <span className={styles.avatar} aria-hidden="true">
+              {option.initials}
+            </span>
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import type {
+  RecurrenceChoice,
+  RecurrenceEnd,
+  RecurrenceFrequency,
+} from '@/lib/recurrence';
+import { WEEKDAYS } from '@/lib/recurrence';
+import styles from './RecurrencePicker.module.css';
+
+const FREQUENCY_OPTIONS: readonly { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const UNITS: Record<Exclude<RecurrenceFrequency, 'none'>, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+export interface RecurrencePickerProps {
+  readonly value: RecurrenceChoice;
+  readonly onChange: (value: RecurrenceChoice) => void;
+  readonly disabled?: boolean;
+}
+
+/** Builds the RRULE subset the API supports without typing rule syntax. */
+export const RecurrencePicker = ({
+  value,
+  onChange,
+  disabled = false,
+}: RecurrencePickerProps): JSX.Element => {
+  const update = (changes: Partial<RecurrenceChoice>) =>
+    onChange({ ...value, ...changes });
+  const { frequency } = value;
+
+  return (
+    <div className={styles.picker}>
+      <select
+        id="task-recurrence"
+        className={styles.select}
+        value={frequency}
+        onChange={(event) =>
+          update({ frequency: event.currentTarget.value as RecurrenceFrequency })
+        }
+        disabled={disabled}
+      >
+        {FREQUENCY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {frequency === 'none' ? null : (
+        <>
+          <div className={styles.row}>
+            <span>Every</span>
+            <input
+              className={styles.numberInput}
+              type="number"
+              min={1}
+              max={99}
+              value={value.interval}
+              onChange={(event) =>
+                update({
+                  interval: Math.max(
+                    1,
+                    Number.parseInt(event.currentTarget.value, 10) || 1,
+                  ),
+                })
+              }
+              aria-label="Repeat interval"
+              disabled={disabled}
+            />
+            <span>{UNITS[frequency]}</span>
+          </div>
+          {frequency === 'weekly' ? (
+            <div className={styles.row} role="group" aria-label="Repeat on">
+              {WEEKDAYS.map((weekday) => {
+                const selected = value.weekdays.includes(weekday.code);
+                return (
+                  <button
+                    key={weekday.code}
+                    type="button"
+                    className={styles.weekday}
+                    aria-pressed={selected}
+                    onClick={() =>
+                      update({
+                        weekdays: selected
+                          ? value.weekdays.filter((code) => code !== weekday.code)
+                          : [...value.weekdays, weekday.code],
+                      })
+                    }
+                    disabled={disabled}
+                  >
+                    {weekday.label}
+                  </button>
+                );
+              })}
+            </div>
+          ) : null}
+          {frequency === 'monthly' ? (
+            <input
+              className={styles.input}
+              type="text"
+              value={value.monthDays}
+              onChange={(event) => update({ monthDays: event.currentTarget.value })}
+              placeholder="Days of the month, e.g. 1, 15"
+              aria-label="Days of the month"
+              disabled={disabled}
+            />
+          ) : null}
+          <div className={styles.row}>
+            <select
+              className={styles.select}
+              value={value.end}
+              onChange={(event) =>
+                update({ end: event.currentTarget.value as RecurrenceEnd })
+              }
+              aria-label="Ends"
+              disabled={disabled}
+            >
+              <option value="never">Never ends</option>
+              <option value="count">Ends after</option>
+              <option value="until">Ends on</option>
+            </select>
+            {value.end === 'count' ? (
+              <>
+                <input
+                  className={styles.numberInput}
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(event) =>
+                    update({
+                      count: Math.max(
+                        1,
+                        Number.parseInt(event.currentTarget.value, 10) || 1,
+                      ),
+                    })
+                  }
+                  aria-label="Occurrences"
+                  disabled={disabled}
+                />
+                <span>occurrence(s)</span>
+              </>
+            ) : null}
+            {value.end === 'until' ? (
+              <input
+                className={styles.input}
+                type="date"
+                value={value.until}
+                onChange={(event) => update({ until: event.currentTarget.value })}
+                aria-label="End date"
+                disabled={disabled}
+              />
+            ) : null}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { describeApiError } from '@/lib/problem';
+import type { Task, TaskId } from '../api/taskSchemas';
+import { useTaskChildrenQuery } from '../hooks/useTaskChildrenQuery';
+import { useTaskWorkflow } from '../hooks/useTaskWorkflow';
+import { statusLabel } from '../utils/taskWorkflow';
+import styles from './SubtaskList.module.css';
+
+export const toggleExpanded = (
+  expanded: ReadonlySet<TaskId>,
+  taskId: TaskId,
+): ReadonlySet<TaskId> => {
+  const next = new Set(expanded);
+  if (!next.delete(taskId)) {
+    next.add(taskId);
+  }
+  return next;
+};
+
+export interface SubtaskToggleProps {
+  readonly task: Task;
+  readonly expanded: boolean;
+  readonly onToggle: () => void;
+}
+
+export const SubtaskToggle = ({
+  task,
+  expanded,
+  onToggle,
+}: SubtaskToggleProps): JSX.Element => (
+  <button
+    type="button"
+    className={styles.toggle}
+    aria-expanded={expanded}
+    aria-label={`${expanded ? 'Hide' : 'Show'} subtasks of ${task.title}`}
+    onClick={onToggle}
+  >
+    <span aria-hidden="true">{expanded ? '▾' : '▸'}</span>
+    <span>
+      {task.progress.done}/{task.progress.total} subtasks done
+    </span>
+  </button>
+);
+
+export interface SubtaskListProps {
+  readonly parentId: TaskId;
+}
+
+/** Lists a task's direct children; each can expand into its own subtasks. */
+export const SubtaskList = ({ parentId }: SubtaskListProps): JSX.Element => {
+  const { data, isLoading, error } = useTaskChildrenQuery(parentId);
+  const workflow = useTaskWorkflow();
+  const [expanded, setExpanded] = useState<ReadonlySet<TaskId>>(() => new Set());
+
+  if (isLoading) {
+    return <p className={styles.message}>Loading subtasks…</p>;
+  }
+  if (error) {
+    return (
+      <p className={styles.error} role="alert">
+        {describeApiError(error.detail)}
+      </p>
+    );
+  }
+  if (!data || data.length === 0) {
+    return <p className={styles.message}>No subtasks.</p>;
+  }
+
+  return (
+    <ul className={styles.list} aria-label="Subtasks">
+      {data.map((task) => (
+        <li key={task.id}>
+          <div className={styles.item}>
+            <span className={styles.title}>{task.title}</span>
+            <span className={styles.status}>{statusLabel(workflow, task.status)}</span>
+            {task.progress.total > 0 ? (
+              <SubtaskToggle
+                task={task}
+                expanded={expanded.has(task.id)}
+                onToggle={() =>
+                  setExpanded((current) => toggleExpanded(current, task.id))
+                }
+              />
+            ) : null}
+          </div>
+          {expanded.has(task.id) ? <SubtaskList parentId={task.id} /> : null}
+        </li>
+      ))}
+    </ul>
+  );
+};
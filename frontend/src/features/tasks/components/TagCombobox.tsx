@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import clsx from 'clsx';
+import { useTagSuggestions } from '../hooks/useTagSuggestions';
+import styles from './TagCombobox.module.css';
+
+export interface TagComboboxProps {
+  readonly id: string;
+  readonly value: string;
+  readonly onChange: (value: string) => void;
+  /** Receives the suggestion picked with Enter or a click. */
+  readonly onSelect: (tag: string) => void;
+  /** Sees the keys the suggestion list does not use itself. */
+  readonly onKeyDown?: (event: KeyboardEvent<HTMLInputElement>) => void;
+  /** Tags never suggested, compared regardless of case. */
+  readonly exclude?: readonly string[];
+  readonly className?: string;
+  readonly placeholder?: string | undefined;
+  readonly disabled?: boolean;
+  readonly invalid?: boolean;
+}
+
+/**
+ * A text input suggesting the workspace's tags as you type. Arrow keys move
+ * through the suggestions, Enter picks one and Escape hides them.
+ */
+export const TagCombobox = ({
+  id,
+  value,
+  onChange,
+  onSelect,
+  onKeyDown,
+  exclude = [],
+  className,
+  placeholder,
+  disabled = false,
+  invalid = false,
+}: TagComboboxProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const excluded = new Set(exclude.map((tag) => tag.toLowerCase()));
+  const options = useTagSuggestions(value, open).filter(
+    (tag) => !excluded.has(tag.name.toLowerCase()),
+  );
+  const expanded = open && options.length > 0;
+  const active = expanded && activeIndex < options.length ? activeIndex : -1;
+  const listboxId = `${id}-suggestions`;
+  const optionId = (index: number) => `${id}-suggestion-${index}`;
+
+  const select = (tag: string) => {
+    setOpen(false);
+    setActiveIndex(-1);
+    onSelect(tag);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (expanded && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      const start = active === -1 && step === -1 ? 0 : active;
+      setActiveIndex((start + step + options.length) % options.length);
+      return;
+    }
+    if (event.key === 'ArrowDown' && !open) {
+      event.preventDefault();
+      setOpen(true);
+      return;
+    }
+    const picked = options[active];
+    if (event.key === 'Enter' && picked) {
+      event.preventDefault();
+      select(picked.name);
+      return;
+    }
+    if (event.key === 'Escape' && expanded) {
+      event.preventDefault();
+      // Only the suggestions close, not a modal the input sits in.
+      event.stopPropagation();
+      setOpen(false);
+      setActiveIndex(-1);
+      return;
+    }
+    onKeyDown?.(event);
+  };
+
+  return (
+    <div className={styles.combobox}>
+      <input
+        type="text"
+        id={id}
+        className={className}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={expanded ? listboxId : undefined}
+        aria-activedescendant={active === -1 ? undefined : optionId(active)}
+        aria-invalid={invalid}
+        autoComplete="off"
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        onChange={(event) => {
+          setOpen(true);
+          setActiveIndex(-1);
+          onChange(event.currentTarget.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false);
+          setActiveIndex(-1);
+        }}
+      />
+      {expanded ? (
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label="Tag suggestions"
+          className={styles.listbox}
+        >
+          {options.map((tag, index) => (
+            <li
+              key={tag.name}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === active}
+              className={clsx(styles.option, { [styles.optionActive]: index === active })}
+              // Keeps focus in the input, which would otherwise blur and close the list.
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => select(tag.name)}
+            >
+              <span
+                className={styles.swatch}
+                style={tag.color ? { backgroundColor: tag.color } : undefined}
+                aria-hidden="true"
+              />
+              <span className={styles.name}>{tag.name}</span>
+              <span className={styles.usage} aria-label={`${tag.usageCount} tasks`}>
+                {tag.usageCount}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState, type FormEvent } from 'react';
+import { Markdown } from '@/app/components/Markdown';
+import type { TaskPermissions } from '@/features/auth/utils/permissions';
+import type { WorkspaceMember } from '@/features/workspaces/api/workspaceSchemas';
+import { formatDateTime } from '@/lib/date';
+import { describeApiError } from '@/lib/problem';
+import type { TaskId } from '../api/taskSchemas';
+import { taskCommentDraftSchema } from '../api/taskSchemas';
+import { useTaskCommentMutations, useTaskCommentsQuery } from '../hooks/useTaskComments';
+import { describeAssignee, userPrincipal } from '../utils/taskAssignees';
+import styles from './TaskComments.module.css';
+
+export interface TaskCommentsProps {
+  readonly taskId: TaskId;
+  readonly permissions: TaskPermissions;
+  readonly members: readonly WorkspaceMember[];
+  /** The signed-in user, whose own comments can be deleted without `canDelete`. */
+  readonly currentUserId?: string | undefined;
+}
+
+/** Comments from before authors were principals keep the name typed in. */
+const authorLabel = (author: string, members: readonly WorkspaceMember[]): string =>
+  /^(user|api-token):/.test(author) ? describeAssignee(author, members).label : author;
+
+/** Discussion thread for one task, oldest comment first. */
+export const TaskComments = ({
+  taskId,
+  permissions,
+  members,
+  currentUserId,
+}: TaskCommentsProps): JSX.Element => {
+  const { data: comments, isLoading, error } = useTaskCommentsQuery(taskId);
+  const { createCommentMutation, deleteCommentMutation } =
+    useTaskCommentMutations(taskId);
+  const [body, setBody] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const result = taskCommentDraftSchema.safeParse({ body });
+    if (!result.success) {
+      setFormError(result.error.flatten().fieldErrors.body?.[0] ?? null);
+      return;
+    }
+    setFormError(null);
+    createCommentMutation.mutate(
+      { draft: result.data },
+      { onSuccess: () => setBody('') },
+    );
+  };
+
+  const mutationError = createCommentMutation.error ?? deleteCommentMutation.error;
+  const errorMessage =
+    formError ?? (mutationError ? describeApiError(mutationError.detail) : null);
+
+  return (
+    <section className={styles.panel} aria-label="Comments">
+      <h3 className={styles.heading}>Comments</h3>
+      {isLoading ? <p className={styles.message}>Loading comments…</p> : null}
+      {error ? (
+        <p className={styles.error} role="alert">
+          {describeApiError(error.detail)}
+        </p>
+      ) : null}
+      {comments?.length === 0 ? <p className={styles.message}>No comments yet.</p> : null}
+      {comments && comments.length > 0 ? (
+        <ul className={styles.list}>
+          {comments.map((comment) => {
+            const author = authorLabel(comment.author, members);
+            const canDelete =
+              permissions.canDelete ||
+              (currentUserId !== undefined &&
+                comment.author === userPrincipal(currentUserId));
+            return (
+              <li key={comment.id} className={styles.comment}>
+                <div className={styles.meta}>
+                  <strong>{author}</strong>
+                  <time dateTime={comment.createdAt.toISOString()}>
+                    {formatDateTime(comment.createdAt)}
+                  </time>
+                  {canDelete ? (
+                    <button
+                      type="button"
+                      className={styles.deleteButton}
+                      aria-label={`Delete comment by ${author}`}
+                      disabled={deleteCommentMutation.isPending}
+                      onClick={() =>
+                        deleteCommentMutation.mutate({ commentId: comment.id })
+                      }
+                    >
+                      Delete
+                    </button>
+                  ) : null}
+                </div>
+                <Markdown source={comment.body} className={styles.body} />
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+      <form className={styles.form} onSubmit={handleSubmit} noValidate>
+        <textarea
+          className={styles.input}
+          rows={3}
+          placeholder="Add a comment (Markdown supported)"
+          aria-label="Comment"
+          value={body}
+          onChange={(event) => setBody(event.currentTarget.value)}
+          disabled={createCommentMutation.isPending}
+        />
+        {errorMessage ? (
+          <span className={styles.error} role="alert">
+            {errorMessage}
+          </span>
+        ) : null}
+        <button
+          type="submit"
+          className={styles.submitButton}
+          disabled={createCommentMutation.isPending}
+        >
+          {createCommentMutation.isPending ? 'Posting…' : 'Post comment'}
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -1,16 +1,20 @@
 import type { FormEvent } from 'react';
-import { isTaskStatus } from '../api/taskApi';
-import type { TaskFiltersState } from '../state/taskFilters';
+import type { TaskWorkflow } from '../api/taskSchemas';
+import type { AssigneeFilter, TaskFiltersState } from '../state/taskFilters';
+import { statusOptions } from '../utils/taskWorkflow';
+import { TagCombobox } from './TagCombobox';
 import styles from './TaskFilters.module.css';
 
 export interface TaskFiltersProps {
   readonly filters: TaskFiltersState;
+  readonly workflow?: TaskWorkflow | undefined;
   readonly onFiltersChange: (filters: TaskFiltersState) => void;
   readonly onReset: () => void;
 }
 
 export const TaskFilters = ({
   filters,
+  workflow,
   onFiltersChange,
   onReset,
 }: TaskFiltersProps): JSX.Element => {
@@ -18,6 +22,13 @@ export const TaskFilters = ({
     event.preventDefault();
   };
 
+  const handleTagChange = (tag: string) =>
+    onFiltersChange({
+      ...filters,
+      tag,
+      page: 1,
+    });
+
   return (
     <form className={styles.form} onSubmit={handleSubmit}>
       <div className={styles.field}>
@@ -28,19 +39,20 @@ export const TaskFilters = ({
           id="status-filter"
           className={styles.select}
           value={filters.status}
-          onChange={(event) => {
-            const value = event.currentTarget.value;
+          onChange={(event) =>
             onFiltersChange({
               ...filters,
-              status: isTaskStatus(value) ? value : 'all',
+              status: event.currentTarget.value,
               page: 1,
-            });
-          }}
+            })
+          }
         >
           <option value="all">All</option>
-          <option value="todo">Todo</option>
-          <option value="doing">Doing</option>
-          <option value="done">Done</option>
+          {statusOptions(workflow).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
         </select>
       </div>
       <div className={styles.field}>
@@ -51,7 +63,7 @@ export const TaskFilters = ({
           id="search-filter"
           className={styles.input}
           type="search"
-          placeholder="Search title…"
+          placeholder="Search titles and tags…"
           value={filters.search}
           onChange={(event) =>
             onFiltersChange({
@@ -66,20 +78,35 @@ export const TaskFilters = ({
         <label className={styles.label} htmlFor="tag-filter">
           Tag
         </label>
-        <input
+        <TagCombobox
           id="tag-filter"
           className={styles.input}
-          type="text"
           placeholder="Tag name"
           value={filters.tag}
+          onChange={handleTagChange}
+          onSelect={handleTagChange}
+        />
+      </div>
+      <div className={styles.field}>
+        <label className={styles.label} htmlFor="assignee-filter">
+          Assignee
+        </label>
+        <select
+          id="assignee-filter"
+          className={styles.select}
+          value={filters.assignee}
           onChange={(event) =>
             onFiltersChange({
               ...filters,
-              tag: event.currentTarget.value,
+              assignee: event.currentTarget.value as AssigneeFilter,
               page: 1,
             })
           }
-        />
+        >
+          <option value="all">Anyone</option>
+          <option value="me">Assigned to me</option>
+          <option value="unassigned">Unassigned</option>
+        </select>
       </div>
       <div className={styles.actions}>
         <button
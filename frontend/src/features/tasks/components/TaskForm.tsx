@@ -1,35 +1,62 @@
 import { useEffect, useMemo, useState, type FormEvent, type KeyboardEvent } from 'react';
+import { Markdown } from '@/app/components/Markdown';
+import type { WorkspaceMember } from '@/features/workspaces/api/workspaceSchemas';
 import { fromInputDate, toInputDate } from '@/lib/date';
-import type { Task, TaskDraft, TaskStatus } from '../api/taskSchemas';
+import type { RecurrenceChoice } from '@/lib/recurrence';
+import { fromRecurrenceRule, toRecurrenceRule } from '@/lib/recurrence';
+import type { Task, TaskDraft, TaskStatus, TaskWorkflow } from '../api/taskSchemas';
 import { taskDraftSchema } from '../api/taskSchemas';
+import { reachableStatusOptions } from '../utils/taskWorkflow';
+import { AssigneePicker } from './AssigneePicker';
+import { RecurrencePicker } from './RecurrencePicker';
+import { TagCombobox } from './TagCombobox';
 import styles from './TaskForm.module.css';
 
 interface TaskFormState {
   readonly title: string;
+  readonly description: string;
   readonly status: TaskStatus;
   readonly priority: number;
   readonly dueDate: string;
   readonly tags: string[];
   readonly tagInput: string;
+  readonly assignees: string[];
+  readonly recurrence: RecurrenceChoice;
 }
 
 type FieldError = Partial<
-  Record<'title' | 'status' | 'priority' | 'dueDate' | 'tags', string>
+  Record<
+    | 'title'
+    | 'description'
+    | 'status'
+    | 'priority'
+    | 'dueDate'
+    | 'tags'
+    | 'assignees'
+    | 'recurrence',
+    string
+  >
 >;
 
 const createInitialState = (task?: Task): TaskFormState => ({
   title: task?.title ?? '',
-  status: task?.status ?? 'todo',
+  description: task?.description ?? '',
+  status: task?.status ?? '',
   priority: task?.priority ?? 3,
   dueDate: toInputDate(task?.dueDate ?? null),
   tags: task ? [...task.tags] : [],
   tagInput: '',
+  assignees: task ? [...task.assignees] : [],
+  recurrence: fromRecurrenceRule(task?.recurrence ?? null),
 });
 
 export interface TaskFormProps {
   readonly mode: 'create' | 'edit';
   readonly task?: Task | undefined;
   readonly submitting: boolean;
+  /** Who the task can be assigned to. */
+  readonly members?: readonly WorkspaceMember[] | undefined;
+  readonly workflow?: TaskWorkflow | undefined;
   readonly apiError?: string | undefined;
   readonly onSubmit: (draft: TaskDraft) => void;
   readonly onCancel?: (() => void) | undefined;
@@ -39,16 +66,20 @@ export const TaskForm = ({
   mode,
   task,
   submitting,
+  members = [],
+  workflow,
   apiError,
   onSubmit,
   onCancel,
 }: TaskFormProps): JSX.Element => {
   const [state, setState] = useState<TaskFormState>(() => createInitialState(task));
   const [errors, setErrors] = useState<FieldError>({});
+  const [previewingDescription, setPreviewingDescription] = useState(false);
 
   useEffect(() => {
     setState(createInitialState(task));
     setErrors({});
+    setPreviewingDescription(false);
   }, [task, mode]);
 
   const todayInputValue = useMemo(() => toInputDate(new Date()), []);
@@ -59,14 +90,19 @@ export const TaskForm = ({
 
     const dueDateIso = fromInputDate(state.dueDate);
     const tags = state.tags;
-    const statusValue: TaskStatus = mode === 'create' ? 'todo' : state.status;
+    // New tasks start wherever the workflow begins.
+    const statusValue: TaskStatus | undefined =
+      mode === 'create' ? undefined : state.status;
 
     const draftResult = taskDraftSchema.safeParse({
       title: state.title,
+      description: state.description,
       status: statusValue,
       priority: state.priority,
       dueDate: dueDateIso,
       tags,
+      assignees: state.assignees,
+      recurrence: toRecurrenceRule(state.recurrence),
     });
 
     if (!draftResult.success) {
@@ -75,6 +111,9 @@ export const TaskForm = ({
       if (flattened.fieldErrors.title?.length) {
         fieldErrors.title = flattened.fieldErrors.title[0];
       }
+      if (flattened.fieldErrors.description?.length) {
+        fieldErrors.description = flattened.fieldErrors.description[0];
+      }
       if (flattened.fieldErrors.status?.length) {
         fieldErrors.status = flattened.fieldErrors.status[0];
       }
@@ -87,6 +126,12 @@ export const TaskForm = ({
       if (flattened.fieldErrors.tags?.length) {
         fieldErrors.tags = flattened.fieldErrors.tags[0];
       }
+      if (flattened.fieldErrors.assignees?.length) {
+        fieldErrors.assignees = flattened.fieldErrors.assignees[0];
+      }
+      if (flattened.fieldErrors.recurrence?.length) {
+        fieldErrors.recurrence = flattened.fieldErrors.recurrence[0];
+      }
       setErrors(fieldErrors);
       return;
     }
@@ -101,12 +146,8 @@ export const TaskForm = ({
       : todayInputValue;
 
   const statusOptions = useMemo(
-    () => [
-      { value: 'todo', label: 'Todo' },
-      { value: 'doing', label: 'Doing' },
-      { value: 'done', label: 'Done' },
-    ],
-    [],
+    () => reachableStatusOptions(workflow, state.status),
+    [workflow, state.status],
   );
 
   const addTag = (rawValue: string) => {
@@ -203,6 +244,61 @@ export const TaskForm = ({
           </span>
         ) : null}
       </div>
+      <div className={styles.field}>
+        <div className={styles.editorHeader}>
+          <label className={styles.label} htmlFor="task-description">
+            Description
+          </label>
+          <div className={styles.editorTabs}>
+            <button
+              type="button"
+              className={styles.editorTab}
+              aria-pressed={!previewingDescription}
+              onClick={() => setPreviewingDescription(false)}
+            >
+              Write
+            </button>
+            <button
+              type="button"
+              className={styles.editorTab}
+              aria-pressed={previewingDescription}
+              onClick={() => setPreviewingDescription(true)}
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+        {previewingDescription ? (
+          <div className={styles.preview}>
+            {state.description.trim().length > 0 ? (
+              <Markdown source={state.description} />
+            ) : (
+              <span className={styles.helper}>Nothing to preview.</span>
+            )}
+          </div>
+        ) : (
+          <textarea
+            id="task-description"
+            className={styles.textarea}
+            rows={5}
+            value={state.description}
+            onChange={(event) =>
+              setState({ ...state, description: event.currentTarget.value })
+            }
+            aria-invalid={Boolean(errors.description)}
+            disabled={disabled}
+          />
+        )}
+        <span className={styles.helper}>
+          Optional. Supports Markdown: headings, lists, **bold**, _italic_, `code` and
+          links.
+        </span>
+        {errors.description ? (
+          <span className={styles.error} role="alert">
+            {errors.description}
+          </span>
+        ) : null}
+      </div>
       {mode === 'edit' ? (
         <div className={styles.field}>
           <label className={styles.label} htmlFor="task-status">
@@ -215,7 +311,7 @@ export const TaskForm = ({
             onChange={(event) =>
               setState({
                 ...state,
-                status: event.currentTarget.value as TaskFormState['status'],
+                status: event.currentTarget.value,
               })
             }
             aria-invalid={Boolean(errors.status)}
@@ -289,6 +385,24 @@ export const TaskForm = ({
           </span>
         ) : null}
       </div>
+      <div className={styles.field}>
+        <label className={styles.label} htmlFor="task-recurrence">
+          Repeat
+        </label>
+        <RecurrencePicker
+          value={state.recurrence}
+          onChange={(recurrence) => setState({ ...state, recurrence })}
+          disabled={disabled}
+        />
+        <span className={styles.helper}>
+          Completing a repeating task creates its next occurrence, due one step later.
+        </span>
+        {errors.recurrence ? (
+          <span className={styles.error} role="alert">
+            {errors.recurrence}
+          </span>
+        ) : null}
+      </div>
       <div className={styles.field}>
         <label className={styles.label} htmlFor="task-tag-input">
           Tags
@@ -308,24 +422,24 @@ export const TaskForm = ({
               </button>
             </span>
           ))}
-          <input
-            type="text"
+          <TagCombobox
             id="task-tag-input"
             className={styles.tagInput}
             value={state.tagInput}
-            onChange={(event) =>
-              setState({ ...state, tagInput: event.currentTarget.value })
-            }
+            onChange={(tagInput) => setState({ ...state, tagInput })}
+            onSelect={addTag}
             onKeyDown={handleTagInputKeyDown}
+            exclude={state.tags}
             disabled={disabled}
             placeholder={
               state.tags.length === 0 ? 'Add a tag and press space' : undefined
             }
-            aria-invalid={Boolean(errors.tags)}
+            invalid={Boolean(errors.tags)}
           />
         </div>
         <span className={styles.helper}>
-          Type a tag and press space to add it. Max 20 tags.
+          Type a tag and press space to add it, or pick a suggestion with the arrow keys
+          and Enter. Max 20 tags.
         </span>
         {errors.tags ? (
           <span className={styles.error} role="alert">
@@ -333,6 +447,20 @@ export const TaskForm = ({
           </span>
         ) : null}
       </div>
+      <div className={styles.field}>
+        <span className={styles.label}>Assignees</span>
+        <AssigneePicker
+          value={state.assignees}
+          members={members}
+          onChange={(assignees) => setState({ ...state, assignees })}
+          disabled={disabled}
+        />
+        {errors.assignees ? (
+          <span className={styles.error} role="alert">
+            {errors.assignees}
+          </span>
+        ) : null}
+      </div>
       <div className={styles.actions}>
         {onCancel ? (
           <button
@@ -0,0 +1,41 @@
+import type { TaskStatus, TaskWorkflow } from '../api/taskSchemas';
+import { statusCounts } from '../utils/taskWorkflow';
+import styles from './TaskStatusCounts.module.css';
+
+export interface TaskStatusCountsProps {
+  readonly counts: Readonly<Record<TaskStatus, number>>;
+  readonly workflow: TaskWorkflow | undefined;
+}
+
+/** Tasks per status across the workspace, with each status's WIP limit. */
+export const TaskStatusCounts = ({
+  counts,
+  workflow,
+}: TaskStatusCountsProps): JSX.Element => {
+  const perAssignee = workflow?.wipLimitScope === 'assignee';
+  return (
+    <ul className={styles.counts} aria-label="Tasks per status">
+      {statusCounts(workflow, counts).map(({ status, label, count, wipLimit, full }) => (
+        <li
+          key={status}
+          className={full ? `${styles.count} ${styles.countFull}` : styles.count}
+        >
+          <span className={styles.label}>{label}</span>
+          <span className={styles.value}>
+            {count}
+            {wipLimit !== null ? (
+              <span
+                className={styles.limit}
+                title={`WIP limit: at most ${wipLimit} ${
+                  perAssignee ? 'per assignee' : 'in this workspace'
+                }`}
+              >
+                {perAssignee ? ` · max ${wipLimit} each` : ` / ${wipLimit}`}
+              </span>
+            ) : null}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,20 +1,28 @@
-import { useMemo } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import clsx from 'clsx';
+import { Markdown } from '@/app/components/Markdown';
+import type { TaskPermissions } from '@/features/auth/utils/permissions';
+import type { WorkspaceMember } from '@/features/workspaces/api/workspaceSchemas';
 import { formatDateTime } from '@/lib/date';
+import { describeRecurrence } from '@/lib/recurrence';
+import { describeAssignee } from '../utils/taskAssignees';
+import { splitHighlights } from '../utils/taskHighlights';
 import { isTaskExpired } from '../utils/taskPredicates';
 import { EXPIRED_COLOR, getPriorityColor, hexToRgba } from '../utils/taskStyles';
-import type { Task, TaskStatus, TaskSortOrder } from '../api/taskSchemas';
-import { isTaskStatus } from '../api/taskApi';
+import { reachableStatusOptions } from '../utils/taskWorkflow';
+import type {
+  Task,
+  TaskId,
+  TaskStatus,
+  TaskSortOrder,
+  TaskWorkflow,
+  WorkspaceTag,
+} from '../api/taskSchemas';
+import { SubtaskList, SubtaskToggle, toggleExpanded } from './SubtaskList';
 import styles from './TaskTable.module.css';
 
 type SortableColumn = 'priority' | 'dueDate';
 
-const STATUS_OPTIONS: readonly { value: TaskStatus; label: string }[] = [
-  { value: 'todo', label: 'Todo' },
-  { value: 'doing', label: 'Doing' },
-  { value: 'done', label: 'Done' },
-];
-
 const formatDueDate = (dueDate: Date | null): string =>
   dueDate ? formatDateTime(dueDate) : 'No due date';
 
@@ -37,6 +45,14 @@ export interface TaskTableProps {
   readonly sortBy: SortableColumn | null;
   readonly sortOrder: TaskSortOrder;
   readonly onRequestSort: (column: SortableColumn) => void;
+  /** Actions the signed-in role may not take are disabled. */
+  readonly permissions: TaskPermissions;
+  /** Names assignees; anyone not listed shows as a placeholder avatar. */
+  readonly members?: readonly WorkspaceMember[] | undefined;
+  /** The status select only offers the moves the workflow allows. */
+  readonly workflow?: TaskWorkflow | undefined;
+  /** Colors and describes the chips of tags that have them. */
+  readonly tags?: readonly WorkspaceTag[] | undefined;
 }
 
 export const TaskTable = ({
@@ -47,7 +63,17 @@ export const TaskTable = ({
   sortBy,
   sortOrder,
   onRequestSort,
+  permissions,
+  members = [],
+  workflow,
+  tags = [],
 }: TaskTableProps): JSX.Element => {
+  const [expanded, setExpanded] = useState<ReadonlySet<TaskId>>(() => new Set());
+  // The API matches tags regardless of case, so look them up the same way.
+  const tagDetails = useMemo(
+    () => new Map(tags.map((tag) => [tag.name.toLowerCase(), tag])),
+    [tags],
+  );
   const rows = useMemo(
     () =>
       tasks.map((task) => {
@@ -123,6 +149,9 @@ export const TaskTable = ({
                 </span>
               </button>
             </th>
+            <th scope="col" className={styles.headerCell}>
+              Assignees
+            </th>
             <th scope="col" className={styles.headerCell}>
               Tags
             </th>
@@ -136,88 +165,189 @@ export const TaskTable = ({
         </thead>
         <tbody>
           {rows.map(({ task, expired, accentColor, backgroundColor }) => (
-            <tr
-              key={task.id}
-              className={styles.row}
-              style={{
-                borderLeft: `0.4rem solid ${accentColor}`,
-                backgroundColor,
-              }}
-            >
-              <td className={styles.cell}>
-                <div>
-                  <strong>{task.title}</strong>
-                </div>
-                {expired ? (
-                  <div className={styles.expiredCell} role="status" aria-live="polite">
-                    ⚠️ Expired
-                  </div>
-                ) : null}
-              </td>
-              <td className={styles.cell}>
-                <select
-                  className={styles.statusSelect}
-                  value={task.status}
-                  onChange={(event) => {
-                    const value = event.currentTarget.value;
-                    if (isTaskStatus(value) && value !== task.status) {
-                      onChangeStatus(task, value);
-                    }
-                  }}
-                >
-                  {STATUS_OPTIONS.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
-              </td>
-              <td className={styles.cell}>
-                <span
-                  className={styles.priorityBadge}
-                  aria-label={`Priority ${task.priority}`}
-                >
-                  P{task.priority}
-                </span>
-              </td>
-              <td className={styles.cell}>
-                <span className={clsx({ [styles.noDueDate]: !task.dueDate })}>
-                  {formatDueDate(task.dueDate)}
-                </span>
-              </td>
-              <td className={styles.cell}>
-                {task.tags.length > 0 ? (
-                  <div className={styles.tagList}>
-                    {task.tags.map((tag) => (
-                      <span key={tag} className={styles.tagChip}>
-                        {tag}
+            <Fragment key={task.id}>
+              <tr
+                className={styles.row}
+                style={{
+                  borderLeft: `0.4rem solid ${accentColor}`,
+                  backgroundColor,
+                }}
+              >
+                <td className={styles.cell}>
+                  <div>
+                    <strong>{task.title}</strong>
+                    {task.isBlocked ? (
+                      <span
+                        className={styles.blockedBadge}
+                        title="Waiting on unfinished dependencies"
+                      >
+                        Blocked
                       </span>
-                    ))}
+                    ) : null}
+                    {task.recurrence ? (
+                      <span
+                        className={styles.recurrenceBadge}
+                        title={describeRecurrence(task.recurrence)}
+                        aria-label={`Repeats: ${describeRecurrence(task.recurrence)}`}
+                      >
+                        ↻
+                      </span>
+                    ) : null}
+                    {task.commentCount > 0 ? (
+                      <span
+                        className={styles.commentCount}
+                        aria-label={`${task.commentCount} comments`}
+                      >
+                        💬 {task.commentCount}
+                      </span>
+                    ) : null}
                   </div>
-                ) : (
-                  <span>—</span>
-                )}
-              </td>
-              <td className={styles.cell}>{formatDateTime(task.updatedAt)}</td>
-              <td className={styles.cell}>
-                <div className={styles.actionGroup}>
-                  <button
-                    type="button"
-                    className={styles.actionButton}
-                    onClick={() => onEdit(task)}
+                  {task.description ? (
+                    <Markdown source={task.description} className={styles.description} />
+                  ) : null}
+                  {task.snippet ? (
+                    <div className={styles.snippet}>
+                      {splitHighlights(task.snippet).map((segment, index) =>
+                        segment.highlighted ? (
+                          <mark key={index}>{segment.text}</mark>
+                        ) : (
+                          <span key={index}>{segment.text}</span>
+                        ),
+                      )}
+                    </div>
+                  ) : null}
+                  {task.progress.total > 0 ? (
+                    <SubtaskToggle
+                      task={task}
+                      expanded={expanded.has(task.id)}
+                      onToggle={() =>
+                        setExpanded((current) => toggleExpanded(current, task.id))
+                      }
+                    />
+                  ) : null}
+                  {expired ? (
+                    <div className={styles.expiredCell} role="status" aria-live="polite">
+                      ⚠️ Expired
+                    </div>
+                  ) : null}
+                </td>
+                <td className={styles.cell}>
+                  <select
+                    className={styles.statusSelect}
+                    value={task.status}
+                    disabled={!permissions.canEdit}
+                    onChange={(event) => {
+                      const value = event.currentTarget.value;
+                      if (value !== task.status) {
+                        onChangeStatus(task, value);
+                      }
+                    }}
                   >
-                    Edit
-                  </button>
-                  <button
-                    type="button"
-                    className={clsx(styles.actionButton, styles.deleteAction)}
-                    onClick={() => onDelete(task)}
+                    {reachableStatusOptions(workflow, task.status).map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className={styles.cell}>
+                  <span
+                    className={styles.priorityBadge}
+                    aria-label={`Priority ${task.priority}`}
                   >
-                    Delete
-                  </button>
-                </div>
-              </td>
-            </tr>
+                    P{task.priority}
+                  </span>
+                </td>
+                <td className={styles.cell}>
+                  <span className={clsx({ [styles.noDueDate]: !task.dueDate })}>
+                    {formatDueDate(task.dueDate)}
+                  </span>
+                </td>
+                <td className={styles.cell}>
+                  {task.assignees.length > 0 ? (
+                    <div className={styles.avatarList}>
+                      {task.assignees.map((principal) => {
+                        const assignee = describeAssignee(principal, members);
+                        return (
+                          <span
+                            key={principal}
+                            className={styles.avatar}
+                            title={assignee.label}
+                            aria-label={assignee.label}
+                          >
+                            {assignee.initials}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <span>—</span>
+                  )}
+                </td>
+                <td className={styles.cell}>
+                  {task.tags.length > 0 ? (
+                    <div className={styles.tagList}>
+                      {task.tags.map((tag) => {
+                        const details = tagDetails.get(tag.toLowerCase());
+                        return (
+                          <span
+                            key={tag}
+                            className={styles.tagChip}
+                            title={details?.description ?? undefined}
+                            style={
+                              details?.color
+                                ? {
+                                    backgroundColor: hexToRgba(details.color, 0.18),
+                                    color: details.color,
+                                  }
+                                : undefined
+                            }
+                          >
+                            {tag}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <span>—</span>
+                  )}
+                </td>
+                <td className={styles.cell}>{formatDateTime(task.updatedAt)}</td>
+                <td className={styles.cell}>
+                  <div className={styles.actionGroup}>
+                    <button
+                      type="button"
+                      className={styles.actionButton}
+                      onClick={() => onEdit(task)}
+                      disabled={!permissions.canEdit}
+                      title={
+                        permissions.canEdit ? undefined : 'Viewers cannot edit tasks'
+                      }
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      className={clsx(styles.actionButton, styles.deleteAction)}
+                      onClick={() => onDelete(task)}
+                      disabled={!permissions.canDelete}
+                      title={
+                        permissions.canDelete ? undefined : 'Only admins can delete tasks'
+                      }
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+              {expanded.has(task.id) ? (
+                <tr className={styles.subtaskRow}>
+                  <td className={styles.cell} colSpan={8}>
+                    <SubtaskList parentId={task.id} />
+                  </td>
+                </tr>
+              ) : null}
+            </Fragment>
           ))}
         </tbody>
       </table>
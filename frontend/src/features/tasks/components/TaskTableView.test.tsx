@@ -10,23 +10,31 @@ import {
   vi,
 } from 'vitest';
 import userEvent from '@testing-library/user-event';
-import { screen, waitFor, within } from '@testing-library/react';
+import { act, screen, waitFor, within } from '@testing-library/react';
+import { taskPermissionsFor } from '@/features/auth/utils/permissions';
 import { renderWithProviders } from '@/test/render';
 import { server } from '@/test/server';
 import type { TaskTableView } from './TaskTableView';
 
 const API_BASE_URL = 'http://localhost:3100/';
-const API_TOKEN = 'test-token';
 
 type TaskTableViewType = typeof TaskTableView;
 
+const ADMIN = taskPermissionsFor('admin');
+
 interface ApiTask {
   id: string;
   title: string;
-  status: 'todo' | 'doing' | 'done';
+  description?: string | null;
+  status: string;
   priority: number;
   dueDate: string | null;
   tags: string[];
+  assignees?: string[];
+  parentId?: string | null;
+  progress?: { done: number; total: number };
+  isBlocked?: boolean;
+  commentCount?: number;
   version: number;
   createdAt: string;
   updatedAt: string;
@@ -34,6 +42,51 @@ interface ApiTask {
 
 const now = () => new Date().toISOString();
 
+const ADA_ID = '0f1c2d3e-4b5a-4c6d-8e7f-90a1b2c3d4e5';
+const GRACE_ID = '5e4d3c2b-1a09-4f8e-9d7c-6b5a49382716';
+
+const WORKSPACE = {
+  id: '00000000-0000-4000-8000-000000000001',
+  name: 'Default',
+  slug: 'default',
+  createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const WORKFLOW = {
+  statuses: [
+    { key: 'todo', label: 'Todo', category: 'todo', transitions: ['doing', 'done'] },
+    {
+      key: 'doing',
+      label: 'Doing',
+      category: 'in-progress',
+      transitions: ['todo', 'done'],
+    },
+    { key: 'done', label: 'Done', category: 'done', transitions: ['todo', 'doing'] },
+  ],
+};
+
+/** Most likely first, as `GET /tags/suggest` ranks them. */
+const SUGGESTED_TAGS = [
+  { name: 'ops', usageCount: 3, color: '#16a34a', description: null },
+  { name: 'onboarding', usageCount: 1, color: null, description: null },
+  { name: 'alpha', usageCount: 1, color: null, description: null },
+];
+
+const MEMBERS = [
+  {
+    userId: ADA_ID,
+    email: 'ada@example.com',
+    displayName: 'Ada Lovelace',
+    joinedAt: '2026-01-01T00:00:00.000Z',
+  },
+  {
+    userId: GRACE_ID,
+    email: 'grace@example.com',
+    displayName: 'Grace Hopper',
+    joinedAt: '2026-01-01T00:00:00.000Z',
+  },
+];
+
 const buildListResponse = (tasks: readonly ApiTask[]) => ({
   data: tasks,
   meta: {
@@ -51,6 +104,7 @@ const buildListResponse = (tasks: readonly ApiTask[]) => ({
 describe('TaskTableView', () => {
   let tasks: ApiTask[];
   let TaskTableViewComponent: TaskTableViewType;
+  let clearTaskListCache: () => void;
   let originalFetch: typeof fetch;
 
   beforeAll(async () => {
@@ -65,11 +119,22 @@ describe('TaskTableView', () => {
     }) as typeof fetch;
 
     import.meta.env.VITE_API_BASE_URL = API_BASE_URL;
-    import.meta.env.VITE_API_TOKEN = API_TOKEN;
     TaskTableViewComponent = (await import('./TaskTableView')).TaskTableView;
+    ({ clearTaskListCache } = await import('../api/taskApi'));
   });
 
   beforeEach(() => {
+    clearTaskListCache();
+    server.use(
+      http.get(`${API_BASE_URL}workspaces`, () =>
+        HttpResponse.json({ data: [WORKSPACE] }),
+      ),
+      http.get(`${API_BASE_URL}workspaces/:slug/members`, () =>
+        HttpResponse.json({ data: MEMBERS }),
+      ),
+      http.get(`${API_BASE_URL}workflow`, () => HttpResponse.json(WORKFLOW)),
+      http.get(`${API_BASE_URL}tags`, () => HttpResponse.json({ data: [] })),
+    );
     tasks = [
       {
         id: '2ebb0d3e-4816-4d8f-80c5-91a8beb783d5',
@@ -110,9 +175,22 @@ describe('TaskTableView', () => {
     );
   };
 
-  const expectAuthorized = (headers: Headers) => {
-    const auth = headers.get('authorization');
-    if (auth !== `Bearer ${API_TOKEN}`) {
+  const registerSuggestHandler = (prefixes: string[]) => {
+    server.use(
+      http.get(`${API_BASE_URL}tags/suggest`, ({ request }) => {
+        const prefix = new URL(request.url).searchParams.get('prefix') ?? '';
+        prefixes.push(prefix);
+        return HttpResponse.json({
+          data: SUGGESTED_TAGS.filter((tag) =>
+            tag.name.toLowerCase().startsWith(prefix.toLowerCase()),
+          ),
+        });
+      }),
+    );
+  };
+
+  const expectAuthorized = (request: Request) => {
+    if (request.credentials !== 'include') {
       return HttpResponse.json(
         {
           type: 'https://example.com/problems/missing-token',
@@ -128,18 +206,441 @@ describe('TaskTableView', () => {
   it('renders rows returned by the API', async () => {
     registerListHandler();
 
-    renderWithProviders(<TaskTableViewComponent />);
+    renderWithProviders(<TaskTableViewComponent permissions={ADMIN} />);
 
     expect(await screen.findByText('Alpha task')).toBeInTheDocument();
     expect(screen.getByText('Bravo task')).toBeInTheDocument();
     expect(screen.getAllByRole('row')).toHaveLength(3); // header + two data rows
   });
 
+  it('renders task descriptions as Markdown without interpreting HTML', async () => {
+    tasks[0] = {
+      ...tasks[0],
+      description: 'Ship **today** <img src=x onerror=alert(1)>',
+    };
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    expect(await view.findByText('today', { selector: 'strong' })).toBeInTheDocument();
+    expect(view.getByText(/<img src=x onerror=alert\(1\)>/)).toBeInTheDocument();
+    expect(container.querySelector('img')).toBeNull();
+  });
+
+  it('marks tasks that are blocked by unfinished dependencies', async () => {
+    tasks[1] = { ...tasks[1], isBlocked: true };
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    await view.findByText('Alpha task');
+    const rows = view.getAllByRole('row');
+    const blockedRow = rows.find((row) => within(row).queryByText('Bravo task'));
+    const openRow = rows.find((row) => within(row).queryByText('Alpha task'));
+    expect(blockedRow && within(blockedRow).getByText('Blocked')).toBeInTheDocument();
+    expect(openRow && within(openRow).queryByText('Blocked')).toBeNull();
+  });
+
+  it('colors tag chips with the workspace tag colors', async () => {
+    server.use(
+      http.get(`${API_BASE_URL}tags`, () =>
+        HttpResponse.json({
+          data: [
+            {
+              name: 'Ops',
+              usageCount: 1,
+              color: '#16a34a',
+              description: 'Infrastructure work',
+            },
+            { name: 'alpha', usageCount: 1, color: null, description: null },
+          ],
+        }),
+      ),
+    );
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    const ops = await view.findByText('ops');
+    await waitFor(() => expect(ops).toHaveStyle({ color: 'rgb(22, 163, 74)' }));
+    expect(ops).toHaveAttribute('title', 'Infrastructure work');
+    expect(view.getByText('alpha')).not.toHaveAttribute('style');
+  });
+
+  it('suggests workspace tags in the tag filter and picks one with the keyboard', async () => {
+    const prefixes: string[] = [];
+    const tagFilters: (string | null)[] = [];
+    registerSuggestHandler(prefixes);
+    server.use(
+      http.get(`${API_BASE_URL}tasks`, ({ request }) => {
+        tagFilters.push(new URL(request.url).searchParams.get('tag'));
+        return HttpResponse.json(buildListResponse(tasks));
+      }),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    await view.findByText('Alpha task');
+    const input = view.getByPlaceholderText('Tag name');
+    await userEvent.type(input, 'o');
+    const listbox = await view.findByRole('listbox', { name: 'Tag suggestions' });
+    expect(
+      within(listbox)
+        .getAllByRole('option')
+        .map((option) => option.textContent),
+    ).toEqual(['ops3', 'onboarding1']);
+
+    await userEvent.keyboard('{ArrowDown}{ArrowDown}');
+    expect(input).toHaveAttribute(
+      'aria-activedescendant',
+      within(listbox).getByRole('option', { name: /onboarding/ }).id,
+    );
+    await userEvent.keyboard('{Enter}');
+
+    expect(input).toHaveValue('onboarding');
+    expect(view.queryByRole('listbox')).toBeNull();
+    await waitFor(() => expect(tagFilters[tagFilters.length - 1]).toBe('onboarding'));
+    expect(prefixes).toEqual(['o']);
+  });
+
+  it('adds a suggested tag from the task form, skipping tags it already has', async () => {
+    const prefixes: string[] = [];
+    registerSuggestHandler(prefixes);
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    await view.findByText('Alpha task');
+    const alphaRow = view
+      .getAllByRole('row')
+      .find((row) => within(row).queryByText('Alpha task'));
+    if (!alphaRow) {
+      throw new Error('Expected to find row for Alpha task');
+    }
+    await userEvent.click(within(alphaRow).getByRole('button', { name: 'Edit' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Edit task' });
+    const input = within(dialog).getByRole('combobox', { name: 'Tags' });
+    await userEvent.type(input, 'a');
+    await waitFor(() => expect(prefixes).toEqual(['a']));
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+
+    await userEvent.clear(input);
+    await userEvent.type(input, 'O');
+    await within(dialog).findByRole('listbox', { name: 'Tag suggestions' });
+    await userEvent.keyboard('{Escape}');
+    expect(within(dialog).queryByRole('listbox')).toBeNull();
+    expect(dialog).toBeInTheDocument();
+
+    await userEvent.keyboard('{ArrowDown}');
+    await within(dialog).findByRole('listbox', { name: 'Tag suggestions' });
+    await userEvent.keyboard('{ArrowUp}{Enter}');
+
+    expect(
+      within(dialog).getByRole('button', { name: 'Remove tag onboarding' }),
+    ).toBeInTheDocument();
+    expect(input).toHaveValue('');
+    expect(within(dialog).queryByRole('listbox')).toBeNull();
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+    await waitFor(() => expect(dialog).not.toBeInTheDocument());
+  });
+
+  it('shows and edits the recurrence of a repeating task', async () => {
+    tasks[0] = { ...tasks[0], recurrence: 'FREQ=WEEKLY;BYDAY=MO' };
+    const patches: Record<string, unknown>[] = [];
+    registerListHandler();
+    server.use(
+      http.patch(`${API_BASE_URL}tasks/:id`, async ({ request }) => {
+        const body = (await request.json()) as Record<string, unknown>;
+        patches.push(body);
+        tasks[0] = {
+          ...tasks[0],
+          recurrence: body.recurrence as string,
+          version: tasks[0].version + 1,
+        };
+        return HttpResponse.json(tasks[0]);
+      }),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    expect(await view.findByLabelText('Repeats: Weekly on Mon')).toBeInTheDocument();
+    const alphaRow = view
+      .getAllByRole('row')
+      .find((row) => within(row).queryByText('Alpha task'));
+    if (!alphaRow) {
+      throw new Error('Expected to find row for Alpha task');
+    }
+    await userEvent.click(within(alphaRow).getByRole('button', { name: 'Edit' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Edit task' });
+    expect(within(dialog).getByLabelText('Repeat')).toHaveValue('weekly');
+    const weekdays = within(dialog).getByRole('group', { name: 'Repeat on' });
+    expect(within(weekdays).getByRole('button', { name: 'Mon' })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+    await userEvent.click(within(weekdays).getByRole('button', { name: 'Thu' }));
+    await userEvent.selectOptions(within(dialog).getByLabelText('Ends'), 'count');
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Save changes' }));
+
+    await waitFor(() => expect(dialog).not.toBeInTheDocument());
+    expect(patches[0]?.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=5');
+    expect(
+      await view.findByLabelText('Repeats: Weekly on Mon, Thu, 5 occurrences left'),
+    ).toBeInTheDocument();
+  });
+
+  it('shows assignees and assigns members from the edit form', async () => {
+    tasks[0] = { ...tasks[0], assignees: [`user:${ADA_ID}`] };
+    const patches: Record<string, unknown>[] = [];
+    const listRequests: URL[] = [];
+    server.use(
+      http.get(`${API_BASE_URL}tasks`, ({ request }) => {
+        const url = new URL(request.url);
+        listRequests.push(url);
+        return HttpResponse.json(
+          buildListResponse(
+            url.searchParams.get('unassigned') === 'true'
+              ? tasks.filter((task) => !task.assignees?.length)
+              : tasks,
+          ),
+        );
+      }),
+      http.patch(`${API_BASE_URL}tasks/:id`, async ({ request }) => {
+        const body = (await request.json()) as Record<string, unknown>;
+        patches.push(body);
+        tasks[0] = {
+          ...tasks[0],
+          assignees: body.assignees as string[],
+          version: tasks[0].version + 1,
+        };
+        return HttpResponse.json(tasks[0]);
+      }),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    expect(await view.findByLabelText('Ada Lovelace')).toHaveTextContent('AL');
+    const alphaRow = view
+      .getAllByRole('row')
+      .find((row) => within(row).queryByText('Alpha task'));
+    if (!alphaRow) {
+      throw new Error('Expected to find row for Alpha task');
+    }
+    await userEvent.click(within(alphaRow).getByRole('button', { name: 'Edit' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Edit task' });
+    const picker = within(dialog).getByRole('group', { name: 'Assignees' });
+    expect(within(picker).getByRole('button', { name: /Ada Lovelace/ })).toHaveAttribute(
+      'aria-pressed',
+      'true',
+    );
+    await userEvent.click(within(picker).getByRole('button', { name: /Grace Hopper/ }));
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Save changes' }));
+
+    await waitFor(() => expect(dialog).not.toBeInTheDocument());
+    expect(patches[0]?.assignees).toEqual([`user:${ADA_ID}`, `user:${GRACE_ID}`]);
+    expect(await view.findByLabelText('Grace Hopper')).toHaveTextContent('GH');
+
+    await userEvent.selectOptions(view.getByDisplayValue('Anyone'), 'unassigned');
+    await waitFor(() => expect(view.queryByText('Alpha task')).not.toBeInTheDocument());
+    expect(listRequests.at(-1)?.searchParams.get('unassigned')).toBe('true');
+  });
+
+  it('expands a task row to show its subtasks inline', async () => {
+    const subtask: ApiTask = {
+      id: 'f1d5b5a4-8c1e-4f4e-9a38-0c3a8c7e8b11',
+      title: 'Alpha subtask',
+      status: 'done',
+      priority: 3,
+      dueDate: null,
+      tags: [],
+      parentId: tasks[0].id,
+      version: 0,
+      createdAt: now(),
+      updatedAt: now(),
+    };
+    tasks[0] = { ...tasks[0], progress: { done: 1, total: 1 } };
+    registerListHandler();
+    server.use(
+      http.get(`${API_BASE_URL}tasks/:id/children`, ({ params }) =>
+        HttpResponse.json({ data: params.id === tasks[0].id ? [subtask] : [] }),
+      ),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    const toggle = await view.findByRole('button', {
+      name: 'Show subtasks of Alpha task',
+    });
+    expect(toggle).toHaveTextContent('1/1 subtasks done');
+    await userEvent.click(toggle);
+
+    const subtasks = await view.findByRole('list', { name: 'Subtasks' });
+    expect(within(subtasks).getByText('Alpha subtask')).toBeInTheDocument();
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('applies task changes streamed from other clients', async () => {
+    const sources: FakeEventSource[] = [];
+    class FakeEventSource extends EventTarget {
+      readonly url: string;
+      readonly close = vi.fn();
+
+      constructor(url: string | URL) {
+        super();
+        this.url = String(url);
+        sources.push(this);
+      }
+    }
+    vi.stubGlobal('EventSource', FakeEventSource);
+    registerListHandler();
+
+    const { container, unmount } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+    await view.findByText('Alpha task');
+    const [source] = sources;
+    expect(source?.url).toBe(`${API_BASE_URL}tasks/events`);
+
+    const emit = (type: string, task: ApiTask) =>
+      act(() => {
+        source?.dispatchEvent(
+          new MessageEvent(type, {
+            data: JSON.stringify({ task, version: task.version }),
+          }),
+        );
+      });
+    emit('task.updated', { ...tasks[0], title: 'Alpha renamed', version: 1 });
+    expect(await view.findByText('Alpha renamed')).toBeInTheDocument();
+    emit('task.updated', { ...tasks[0], title: 'Stale echo', version: 0 });
+    emit('task.deleted', { ...tasks[1], version: 2 });
+    await waitFor(() => expect(view.queryByText('Bravo task')).toBeNull());
+    expect(view.getByText('Alpha renamed')).toBeInTheDocument();
+
+    unmount();
+    expect(source?.close).toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+
+  it('reopens the stream with a fresh session once the server closes it', async () => {
+    const sources: FakeEventSource[] = [];
+    class FakeEventSource extends EventTarget {
+      static readonly CLOSED = 2;
+      readyState = 1;
+      readonly close = vi.fn();
+
+      constructor() {
+        super();
+        sources.push(this);
+      }
+    }
+    vi.stubGlobal('EventSource', FakeEventSource);
+    let listRequests = 0;
+    let refreshes = 0;
+    server.use(
+      http.get(`${API_BASE_URL}tasks`, () => {
+        listRequests += 1;
+        return HttpResponse.json(buildListResponse(tasks));
+      }),
+      http.post(`${API_BASE_URL}auth/refresh`, () => {
+        refreshes += 1;
+        return HttpResponse.json({});
+      }),
+    );
+
+    const { container, unmount } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    await within(container).findByText('Alpha task');
+    const [first] = sources;
+    const fetched = listRequests;
+
+    act(() => {
+      first?.dispatchEvent(new Event('error'));
+    });
+    expect(refreshes).toBe(0);
+
+    if (first) {
+      first.readyState = FakeEventSource.CLOSED;
+    }
+    act(() => {
+      first?.dispatchEvent(new Event('error'));
+    });
+    await waitFor(() => expect(sources).toHaveLength(2));
+    expect(refreshes).toBe(1);
+    await waitFor(() => expect(listRequests).toBeGreaterThan(fetched));
+
+    unmount();
+    expect(sources[1]?.close).toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+
+  it('ranks searches by relevance and highlights the matched snippet', async () => {
+    const searches: { search: string | null; sortBy: string | null }[] = [];
+    server.use(
+      http.get(`${API_BASE_URL}tasks`, ({ request }) => {
+        const params = new URL(request.url).searchParams;
+        const search = params.get('search');
+        searches.push({ search, sortBy: params.get('sortBy') });
+        if (!search) {
+          return HttpResponse.json(buildListResponse(tasks));
+        }
+        return HttpResponse.json(
+          buildListResponse(
+            tasks
+              .filter((task) => task.title.toLowerCase().startsWith(search))
+              .map((task) => ({ ...task, snippet: '<mark>Alpha</mark> task' })),
+          ),
+        );
+      }),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+    await view.findByText('Alpha task');
+
+    await userEvent.type(view.getByRole('searchbox'), 'alpha');
+
+    await waitFor(() => expect(view.queryByText('Bravo task')).not.toBeInTheDocument());
+    expect(view.getByText('Alpha', { selector: 'mark' })).toBeInTheDocument();
+    expect(searches.at(-1)).toEqual({ search: 'alpha', sortBy: 'relevance' });
+  });
+
   it('allows updating a task status via the inline select', async () => {
     registerListHandler();
     server.use(
       http.patch(`${API_BASE_URL}tasks/:id`, async ({ params, request }) => {
-        const authProblem = expectAuthorized(request.headers);
+        const authProblem = expectAuthorized(request);
         if (authProblem) {
           return authProblem;
         }
@@ -159,10 +660,7 @@ describe('TaskTableView', () => {
         const updated: ApiTask = {
           ...current,
           title: typeof body.title === 'string' ? body.title : current.title,
-          status:
-            typeof body.status === 'string'
-              ? (body.status as ApiTask['status'])
-              : current.status,
+          status: typeof body.status === 'string' ? body.status : current.status,
           priority: typeof body.priority === 'number' ? body.priority : current.priority,
           dueDate: 'dueDate' in body ? (body.dueDate as string | null) : current.dueDate,
           tags: Array.isArray(body.tags) ? (body.tags as string[]) : current.tags,
@@ -174,7 +672,7 @@ describe('TaskTableView', () => {
       }),
     );
 
-    renderWithProviders(<TaskTableViewComponent />);
+    renderWithProviders(<TaskTableViewComponent permissions={ADMIN} />);
 
     const rows = await screen.findAllByRole('row');
     const taskRow = rows.find((row) => within(row).queryByText('Alpha task'));
@@ -190,11 +688,196 @@ describe('TaskTableView', () => {
     expect((statusSelect as HTMLSelectElement).value).toBe('done');
   });
 
-  it('supports creating and deleting tasks via the UI', async () => {
+  it('offers the statuses and moves of the configured workflow', async () => {
+    tasks[0] = { ...tasks[0], status: 'review' };
+    server.use(
+      http.get(`${API_BASE_URL}workflow`, () =>
+        HttpResponse.json({
+          statuses: [
+            { key: 'backlog', label: 'Backlog', category: 'todo', transitions: [] },
+            {
+              key: 'review',
+              label: 'In review',
+              category: 'in-progress',
+              transitions: ['shipped'],
+            },
+            { key: 'shipped', label: 'Shipped', category: 'done', transitions: [] },
+          ],
+        }),
+      ),
+    );
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    await view.findByText('Alpha task');
+    const alphaRow = view
+      .getAllByRole('row')
+      .find((row) => within(row).queryByText('Alpha task'));
+    if (!alphaRow) {
+      throw new Error('Expected to find row for Alpha task');
+    }
+    const statusSelect = within(alphaRow).getByRole('combobox');
+    await waitFor(() =>
+      expect(
+        within(statusSelect)
+          .getAllByRole('option')
+          .map((option) => option.textContent),
+      ).toEqual(['In review', 'Shipped']),
+    );
+    const statusFilter = view.getByDisplayValue('All');
+    expect(
+      within(statusFilter)
+        .getAllByRole('option')
+        .map((option) => option.textContent),
+    ).toEqual(['All', 'Backlog', 'In review', 'Shipped']);
+  });
+
+  it('shows the WIP limit next to the status counts', async () => {
+    server.use(
+      http.get(`${API_BASE_URL}workflow`, () =>
+        HttpResponse.json({
+          ...WORKFLOW,
+          statuses: WORKFLOW.statuses.map((status) =>
+            status.key === 'doing' ? { ...status, wipLimit: 1 } : status,
+          ),
+          wipLimitScope: 'workspace',
+          wipLimitEnforcement: 'reject',
+        }),
+      ),
+    );
+    registerListHandler();
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent permissions={ADMIN} />,
+    );
+    const view = within(container);
+
+    const counts = await view.findByRole('list', { name: 'Tasks per status' });
+    await waitFor(() =>
+      expect(
+        within(counts)
+          .getAllByRole('listitem')
+          .map((item) => item.textContent),
+      ).toEqual(['Todo1', 'Doing1 / 1', 'Done0']),
+    );
+    expect(
+      within(counts).getByTitle('WIP limit: at most 1 in this workspace'),
+    ).toBeVisible();
+  });
+
+  it('shows and posts comments for the task being edited', async () => {
+    tasks[0] = { ...tasks[0], commentCount: 1 };
+    const comments = [
+      {
+        id: '5b0c9f3e-6f0e-4d8e-9a5b-1c2d3e4f5a6b',
+        taskId: tasks[0].id,
+        author: 'user:8a6e0804-2bd0-4672-b79d-d97027f9071a',
+        body: 'Looks **good**',
+        createdAt: now(),
+        updatedAt: now(),
+      },
+    ];
+    registerListHandler();
+    server.use(
+      http.get(`${API_BASE_URL}tasks/:id/comments`, () =>
+        HttpResponse.json({ data: comments }),
+      ),
+      http.post(`${API_BASE_URL}tasks/:id/comments`, async ({ params, request }) => {
+        const authProblem = expectAuthorized(request);
+        if (authProblem) {
+          return authProblem;
+        }
+        const body = (await request.json()) as { body: string };
+        const comment = {
+          id: '7c1d0a4f-7a1f-4e9f-8b6c-2d3e4f5a6b7c',
+          taskId: String(params.id),
+          author: 'user:3f2b8c1d-5e6a-4b7c-8d9e-0f1a2b3c4d5e',
+          body: body.body,
+          createdAt: now(),
+          updatedAt: now(),
+        };
+        comments.push(comment);
+        return HttpResponse.json(comment, { status: 201 });
+      }),
+    );
+
+    const { container } = renderWithProviders(
+      <TaskTableViewComponent
+        permissions={taskPermissionsFor('member')}
+        currentUserId="3f2b8c1d-5e6a-4b7c-8d9e-0f1a2b3c4d5e"
+      />,
+    );
+    const view = within(container);
+
+    expect(await view.findByLabelText('1 comments')).toBeInTheDocument();
+    const alphaRow = view
+      .getAllByRole('row')
+      .find((row) => within(row).queryByText('Alpha task'));
+    if (!alphaRow) {
+      throw new Error('Expected to find row for Alpha task');
+    }
+    await userEvent.click(within(alphaRow).getByRole('button', { name: 'Edit' }));
+
+    const dialog = await screen.findByRole('dialog', { name: 'Edit task' });
+    const panel = within(dialog).getByRole('region', { name: 'Comments' });
+    expect(await within(panel).findByText('good', { selector: 'strong' })).toBeVisible();
+
+    expect(within(panel).queryByRole('button', { name: /Delete comment/ })).toBeNull();
+
+    await userEvent.type(within(panel).getByLabelText('Comment'), 'Ship it');
+    await userEvent.click(within(panel).getByRole('button', { name: 'Post comment' }));
+
+    expect(await within(panel).findByText('Ship it')).toBeInTheDocument();
+    expect(within(panel).getByLabelText('Comment')).toHaveValue('');
+    expect(within(panel).getAllByRole('button', { name: /Delete comment/ })).toHaveLength(
+      1,
+    );
+
+    await userEvent.click(within(dialog).getByRole('button', { name: 'Cancel' }));
+    await waitFor(() => expect(dialog).not.toBeInTheDocument());
+  });
+
+  it('disables the actions a viewer or member may not take', async () => {
+    registerListHandler();
+    const findRow = async (container: HTMLElement) => {
+      const row = (await within(container).findByText('Alpha task')).closest('tr');
+      if (!row) {
+        throw new Error('Expected task row to exist');
+      }
+      return within(row);
+    };
+
+    const viewer = renderWithProviders(
+      <TaskTableViewComponent permissions={taskPermissionsFor('viewer')} />,
+    );
+    const viewerRow = await findRow(viewer.container);
+    expect(
+      within(viewer.container).getByRole('button', { name: /\+ New task/i }),
+    ).toBeDisabled();
+    expect(viewerRow.getByRole('combobox')).toBeDisabled();
+    expect(viewerRow.getByRole('button', { name: 'Edit' })).toBeDisabled();
+    expect(viewerRow.getByRole('button', { name: 'Delete' })).toBeDisabled();
+    viewer.unmount();
+
+    const member = renderWithProviders(
+      <TaskTableViewComponent permissions={taskPermissionsFor('member')} />,
+    );
+    const memberRow = await findRow(member.container);
+    expect(memberRow.getByRole('button', { name: 'Edit' })).toBeEnabled();
+    expect(memberRow.getByRole('button', { name: 'Delete' })).toBeDisabled();
+    member.unmount();
+  });
+
+  it('supports creating, deleting and restoring tasks via the UI', async () => {
+    const trash: ApiTask[] = [];
     registerListHandler();
     server.use(
       http.post(`${API_BASE_URL}tasks`, async ({ request }) => {
-        const authProblem = expectAuthorized(request.headers);
+        const authProblem = expectAuthorized(request);
         if (authProblem) {
           return authProblem;
         }
@@ -215,7 +898,7 @@ describe('TaskTableView', () => {
         return HttpResponse.json(newTask, { status: 201 });
       }),
       http.delete(`${API_BASE_URL}tasks/:id`, ({ params, request }) => {
-        const authProblem = expectAuthorized(request.headers);
+        const authProblem = expectAuthorized(request);
         if (authProblem) {
           return authProblem;
         }
@@ -230,12 +913,22 @@ describe('TaskTableView', () => {
             { status: 404 },
           );
         }
-        tasks.splice(index, 1);
+        trash.push(...tasks.splice(index, 1));
         return new HttpResponse(null, { status: 204 });
       }),
+      http.post(`${API_BASE_URL}tasks/:id/restore`, ({ params, request }) => {
+        const authProblem = expectAuthorized(request);
+        if (authProblem) {
+          return authProblem;
+        }
+        const index = trash.findIndex((task) => task.id === params.id);
+        const [restored] = trash.splice(index, 1);
+        tasks = [restored, ...tasks];
+        return HttpResponse.json(restored);
+      }),
     );
 
-    renderWithProviders(<TaskTableViewComponent />);
+    renderWithProviders(<TaskTableViewComponent permissions={ADMIN} />);
 
     const newTaskButtons = await screen.findAllByRole('button', { name: /\+ New task/i });
     await userEvent.click(newTaskButtons[0]);
@@ -272,8 +965,16 @@ describe('TaskTableView', () => {
     await waitFor(() =>
       expect(screen.queryByText('New integration task')).not.toBeInTheDocument(),
     );
+    const deletedToast = await screen.findByText('Task "New integration task" deleted');
+    const toast = deletedToast.parentElement;
+    if (!toast) {
+      throw new Error('Expected the delete toast to exist');
+    }
+    await userEvent.click(within(toast).getByRole('button', { name: 'Undo' }));
+
     expect(
-      await screen.findByText('Task "New integration task" deleted'),
+      await screen.findByText('Task "New integration task" restored'),
     ).toBeInTheDocument();
+    expect(await screen.findByText('New integration task')).toBeInTheDocument();
   });
 });
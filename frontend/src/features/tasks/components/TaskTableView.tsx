@@ -1,49 +1,68 @@
 import { useEffect, useMemo, useState } from 'react';
 import { Modal } from '@/app/components/Modal';
 import { useToast } from '@/app/providers/ToastProvider';
+import type { TaskPermissions } from '@/features/auth/utils/permissions';
+import { useWorkspaceMembers } from '@/features/workspaces/hooks/useWorkspaceMembers';
 import { describeApiError } from '@/lib/problem';
 import type { TaskApiError } from '@/lib/problem';
 import { TaskTable } from './TaskTable';
 import { TaskFilters } from './TaskFilters';
 import { TaskPagination } from './TaskPagination';
 import { TaskForm } from './TaskForm';
+import { TaskComments } from './TaskComments';
+import { TaskStatusCounts } from './TaskStatusCounts';
 import {
   DEFAULT_FILTERS,
   toListParams,
   type TaskFiltersState,
 } from '../state/taskFilters';
+import { useTaskEventStream } from '../hooks/useTaskEventStream';
 import { useTaskListQuery } from '../hooks/useTaskListQuery';
 import { useTaskMutations } from '../hooks/useTaskMutations';
+import { useTags } from '../hooks/useTags';
+import { useTaskWorkflow } from '../hooks/useTaskWorkflow';
+import { statusLabel } from '../utils/taskWorkflow';
 import type { Task, TaskDraft, TaskId, TaskStatus } from '../api/taskSchemas';
 import styles from './TaskTableView.module.css';
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const;
 
-const STATUS_LABELS: Record<TaskStatus, string> = {
-  todo: 'Todo',
-  doing: 'Doing',
-  done: 'Done',
-};
-
 const toErrorMessage = (error: TaskApiError | null | undefined): string | undefined =>
   error ? describeApiError(error.detail) : undefined;
 
 type SortableColumn = 'priority' | 'dueDate';
 
-export const TaskTableView = (): JSX.Element => {
+export interface TaskTableViewProps {
+  readonly permissions: TaskPermissions;
+  /** The signed-in user, who may delete their own comments. */
+  readonly currentUserId?: string | undefined;
+}
+
+export const TaskTableView = ({
+  permissions,
+  currentUserId,
+}: TaskTableViewProps): JSX.Element => {
   const [filters, setFilters] = useState<TaskFiltersState>(DEFAULT_FILTERS);
   const [modalMode, setModalMode] = useState<'closed' | 'create' | 'edit'>('closed');
   const [editingTaskId, setEditingTaskId] = useState<TaskId | null>(null);
   const [formKey, setFormKey] = useState(0);
   const [pendingDeleteTask, setPendingDeleteTask] = useState<Task | null>(null);
   const { showToast } = useToast();
+  const members = useWorkspaceMembers();
+  const workflow = useTaskWorkflow();
+  const tags = useTags();
 
   const listParams = useMemo(() => toListParams(filters), [filters]);
   const taskQuery = useTaskListQuery(listParams);
   const { data, isLoading, isFetching, error } = taskQuery;
+  useTaskEventStream();
 
-  const { createTaskMutation, updateTaskMutation, deleteTaskMutation } =
-    useTaskMutations();
+  const {
+    createTaskMutation,
+    updateTaskMutation,
+    deleteTaskMutation,
+    restoreTaskMutation,
+  } = useTaskMutations();
 
   const tasks: readonly Task[] = data?.tasks ?? [];
   const visibleTasks = tasks;
@@ -169,13 +188,14 @@ export const TaskTableView = (): JSX.Element => {
       return;
     }
     deleteTaskMutation.mutate(
-      { taskId: task.id },
+      { taskId: task.id, version: task.version },
       {
         onSuccess: () => {
           setPendingDeleteTask(null);
           showToast({
             type: 'info',
             message: `Task "${task.title}" deleted`,
+            action: { label: 'Undo', onClick: () => handleRestoreTask(task) },
           });
           if (editingTaskId === task.id) {
             handleCloseModal();
@@ -185,6 +205,23 @@ export const TaskTableView = (): JSX.Element => {
     );
   };
 
+  const handleRestoreTask = (task: Task) => {
+    restoreTaskMutation.mutate(
+      { taskId: task.id },
+      {
+        onSuccess: () => {
+          showToast({ type: 'success', message: `Task "${task.title}" restored` });
+        },
+        onError: (error) => {
+          showToast({
+            type: 'error',
+            message: toErrorMessage(error) ?? `Could not restore "${task.title}"`,
+          });
+        },
+      },
+    );
+  };
+
   const handleStatusChange = (task: Task, status: TaskStatus) => {
     const draft: TaskDraft = {
       title: task.title,
@@ -192,13 +229,14 @@ export const TaskTableView = (): JSX.Element => {
       priority: task.priority,
       dueDate: task.dueDate ? task.dueDate.toISOString() : null,
       tags: task.tags,
+      assignees: task.assignees,
     };
     handleUpdateTask(task, draft, {
       closeModal: false,
       onSuccess: (updated) => {
         showToast({
           type: 'success',
-          message: `Task "${updated.title}" moved to ${STATUS_LABELS[updated.status]}`,
+          message: `Task "${updated.title}" moved to ${statusLabel(workflow, updated.status)}`,
         });
       },
     });
@@ -217,6 +255,7 @@ export const TaskTableView = (): JSX.Element => {
             type="button"
             className={styles.primaryAction}
             onClick={handleOpenCreate}
+            disabled={!permissions.canEdit}
           >
             + New task
           </button>
@@ -240,10 +279,14 @@ export const TaskTableView = (): JSX.Element => {
         <div className={styles.filters}>
           <TaskFilters
             filters={filters}
+            workflow={workflow}
             onFiltersChange={handleFiltersChange}
             onReset={handleResetFilters}
           />
         </div>
+        {data ? (
+          <TaskStatusCounts counts={data.statusCounts} workflow={workflow} />
+        ) : null}
         {listErrorMessage ? (
           <div
             className={`${styles.feedback} ${styles.feedbackError}`}
@@ -281,6 +324,10 @@ export const TaskTableView = (): JSX.Element => {
           onEdit={handleEditRequest}
           onDelete={handleDeleteTask}
           onChangeStatus={handleStatusChange}
+          permissions={permissions}
+          members={members}
+          workflow={workflow}
+          tags={tags}
         />
         <div className={styles.pagination}>
           <TaskPagination
@@ -302,6 +349,8 @@ export const TaskTableView = (): JSX.Element => {
                 ? updateTaskMutation.isPending
                 : createTaskMutation.isPending
             }
+            members={members}
+            workflow={workflow}
             apiError={modalMode === 'edit' ? updateErrorMessage : createErrorMessage}
             onSubmit={(draft) => {
               if (modalMode === 'edit' && activeTask) {
@@ -320,6 +369,14 @@ export const TaskTableView = (): JSX.Element => {
             onCancel={handleCloseModal}
           />
         ) : null}
+        {modalMode === 'edit' && activeTask ? (
+          <TaskComments
+            taskId={activeTask.id}
+            permissions={permissions}
+            members={members}
+            currentUserId={currentUserId}
+          />
+        ) : null}
       </Modal>
       <Modal
         isOpen={isDeleteModalOpen}
@@ -330,8 +387,8 @@ export const TaskTableView = (): JSX.Element => {
         {pendingDeleteTask ? (
           <div className={styles.deleteContent}>
             <p className={styles.deleteMessage}>
-              Are you sure you want to delete "{pendingDeleteTask.title}"? This action
-              cannot be undone.
+              Are you sure you want to delete "{pendingDeleteTask.title}"? It will be
+              moved to the trash, where it can be restored until it is purged.
             </p>
             {deleteErrorMessage ? (
               <div className={styles.deleteError} role="alert" aria-live="assertive">
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { suggestTags } from '../api/taskApi';
+import type { WorkspaceTag } from '../api/taskSchemas';
+
+export const TAG_SUGGESTIONS_QUERY_KEY = ['tagSuggestions'] as const;
+
+/** How long typing has to pause before suggestions are fetched. */
+export const TAG_SUGGESTIONS_DEBOUNCE_MS = 200;
+
+/**
+ * Tags that `input` could be the start of, fetched once typing pauses. The
+ * previous suggestions stay up meanwhile; nothing is fetched while `enabled`
+ * is false or `input` is blank.
+ */
+export const useTagSuggestions = (
+  input: string,
+  enabled = true,
+): readonly WorkspaceTag[] => {
+  const prefix = input.trim();
+  const [debouncedPrefix, setDebouncedPrefix] = useState(prefix);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setDebouncedPrefix(prefix),
+      TAG_SUGGESTIONS_DEBOUNCE_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [prefix]);
+
+  const suggestionsQuery = useQuery<WorkspaceTag[], TaskApiError>({
+    queryKey: [...TAG_SUGGESTIONS_QUERY_KEY, debouncedPrefix.toLowerCase()],
+    queryFn: ({ signal }) => suggestTags(debouncedPrefix, signal),
+    enabled: enabled && debouncedPrefix.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30_000,
+    throwOnError: false,
+  });
+
+  return enabled && prefix.length > 0 ? (suggestionsQuery.data ?? []) : [];
+};
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { listTags } from '../api/taskApi';
+import type { WorkspaceTag } from '../api/taskSchemas';
+
+export const TAGS_QUERY_KEY = ['tags'] as const;
+
+/** Tags of the workspace in use, with their colors; empty until loaded. */
+export const useTags = (): readonly WorkspaceTag[] =>
+  useQuery<WorkspaceTag[], TaskApiError>({
+    queryKey: TAGS_QUERY_KEY,
+    queryFn: ({ signal }) => listTags(signal),
+    staleTime: 60_000,
+    throwOnError: false,
+  }).data ?? [];
@@ -0,0 +1,14 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { listTaskChildren } from '../api/taskApi';
+import type { Task, TaskId } from '../api/taskSchemas';
+
+/** Kept apart from `['tasks']`, whose entries are all list responses. */
+export const TASK_CHILDREN_QUERY_KEY = ['task-children'] as const;
+
+export const useTaskChildrenQuery = (taskId: TaskId) =>
+  useQuery<Task[], TaskApiError>({
+    queryKey: [...TASK_CHILDREN_QUERY_KEY, taskId],
+    queryFn: ({ signal }) => listTaskChildren(taskId, signal),
+    throwOnError: false,
+  });
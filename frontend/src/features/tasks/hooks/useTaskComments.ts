@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { createTaskComment, deleteTaskComment, listTaskComments } from '../api/taskApi';
+import type { TaskComment, TaskCommentDraft, TaskId } from '../api/taskSchemas';
+
+export const TASK_COMMENTS_QUERY_KEY = ['task-comments'] as const;
+
+export const useTaskCommentsQuery = (taskId: TaskId) =>
+  useQuery<TaskComment[], TaskApiError>({
+    queryKey: [...TASK_COMMENTS_QUERY_KEY, taskId],
+    queryFn: ({ signal }) => listTaskComments(taskId, signal),
+    throwOnError: false,
+  });
+
+export const useTaskCommentMutations = (taskId: TaskId) => {
+  const queryClient = useQueryClient();
+  const commentsKey = [...TASK_COMMENTS_QUERY_KEY, taskId];
+
+  const invalidate = () => {
+    // Task lists show a comment count, so they refresh as well.
+    for (const queryKey of [commentsKey, ['tasks']]) {
+      queryClient.invalidateQueries({ queryKey }).catch(() => {
+        // best effort
+      });
+    }
+  };
+
+  const createCommentMutation = useMutation<
+    TaskComment,
+    TaskApiError,
+    { readonly draft: TaskCommentDraft }
+  >({
+    mutationFn: ({ draft }) => createTaskComment(taskId, draft),
+    onSuccess: (comment) => {
+      queryClient.setQueryData<TaskComment[]>(commentsKey, (comments) =>
+        comments ? [...comments, comment] : [comment],
+      );
+    },
+    onSettled: invalidate,
+  });
+
+  const deleteCommentMutation = useMutation<
+    void,
+    TaskApiError,
+    { readonly commentId: string }
+  >({
+    mutationFn: ({ commentId }) => deleteTaskComment(taskId, commentId),
+    onSuccess: (_result, { commentId }) => {
+      queryClient.setQueryData<TaskComment[]>(commentsKey, (comments) =>
+        comments?.filter((comment) => comment.id !== commentId),
+      );
+    },
+    onSettled: invalidate,
+  });
+
+  return { createCommentMutation, deleteCommentMutation };
+};
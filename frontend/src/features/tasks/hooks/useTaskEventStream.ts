@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { subscribeToTaskEvents } from '../api/taskApi';
+import {
+  applyToTaskQueries,
+  invalidateTaskQueries,
+  removeTaskFromResponse,
+  updateTaskInResponse,
+} from './useTaskMutations';
+
+/**
+ * Keeps cached task lists in step with changes made elsewhere. Updates and
+ * deletions are patched in place; new tasks trigger a refetch, since only
+ * the server knows where they land in each filtered, sorted page.
+ */
+export const useTaskEventStream = (): void => {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeToTaskEvents({
+        onChange: (type, { task, version }) => {
+          if (type === 'task.created') {
+            invalidateTaskQueries(queryClient);
+            return;
+          }
+          applyToTaskQueries(queryClient, (data) => {
+            if (!data.tasks.some((cached) => cached.id === task.id)) {
+              return data;
+            }
+            return type === 'task.deleted'
+              ? removeTaskFromResponse(data, task.id)
+              : // Our own optimistic writes may already be this far ahead.
+                updateTaskInResponse(data, task.id, (cached) =>
+                  cached.version < version ? task : cached,
+                );
+          });
+        },
+        onReset: () => invalidateTaskQueries(queryClient),
+      }),
+    [queryClient],
+  );
+};
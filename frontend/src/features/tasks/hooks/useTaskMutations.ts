@@ -1,15 +1,18 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { createTask, deleteTask, updateTask } from '../api/taskApi';
-import type { Task, TaskDraft, TaskId } from '../api/taskSchemas';
+import { createTask, deleteTask, restoreTask, updateTask } from '../api/taskApi';
+import type { Task, TaskDraft, TaskId, TaskWorkflow } from '../api/taskSchemas';
 import type { TaskApiError } from '@/lib/problem';
 import type { TaskListResponse } from '../api/taskApi';
+import { statusCategory } from '../utils/taskWorkflow';
+import { TASK_CHILDREN_QUERY_KEY } from './useTaskChildrenQuery';
+import { TASK_WORKFLOW_QUERY_KEY } from './useTaskWorkflow';
 
 const TASKS_QUERY_KEY = ['tasks'] as const;
 
 const toTaskDate = (value: string | null): Date | null =>
   value ? new Date(value) : null;
 
-const updateTaskInResponse = (
+export const updateTaskInResponse = (
   response: TaskListResponse,
   taskId: TaskId,
   updater: (task: Task) => Task,
@@ -18,7 +21,7 @@ const updateTaskInResponse = (
   tasks: response.tasks.map((task) => (task.id === taskId ? updater(task) : task)),
 });
 
-const removeTaskFromResponse = (
+export const removeTaskFromResponse = (
   response: TaskListResponse,
   taskId: TaskId,
 ): TaskListResponse => ({
@@ -43,7 +46,7 @@ const addTaskToResponse = (response: TaskListResponse, task: Task): TaskListResp
 
 type TaskQuerySnapshot = readonly [readonly unknown[], TaskListResponse | undefined];
 
-const applyToTaskQueries = (
+export const applyToTaskQueries = (
   queryClient: ReturnType<typeof useQueryClient>,
   apply: (data: TaskListResponse, queryKey: readonly unknown[]) => TaskListResponse,
 ) => {
@@ -58,6 +61,14 @@ const applyToTaskQueries = (
   }
 };
 
+export const invalidateTaskQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  for (const queryKey of [TASKS_QUERY_KEY, TASK_CHILDREN_QUERY_KEY]) {
+    queryClient.invalidateQueries({ queryKey }).catch(() => {
+      // best effort
+    });
+  }
+};
+
 export const useTaskMutations = () => {
   const queryClient = useQueryClient();
 
@@ -71,9 +82,7 @@ export const useTaskMutations = () => {
       applyToTaskQueries(queryClient, (data) => addTaskToResponse(data, task));
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: TASKS_QUERY_KEY }).catch(() => {
-        // best effort
-      });
+      invalidateTaskQueries(queryClient);
     },
   });
 
@@ -90,14 +99,23 @@ export const useTaskMutations = () => {
       }) as TaskQuerySnapshot[];
 
       const optimisticUpdatedAt = new Date();
+      const workflow = queryClient.getQueryData<TaskWorkflow>(TASK_WORKFLOW_QUERY_KEY);
 
       applyToTaskQueries(queryClient, (data) =>
         updateTaskInResponse(data, taskId, (task) => ({
           ...task,
           title: draft.title,
-          status: draft.status,
+          description:
+            draft.description === undefined
+              ? task.description
+              : draft.description || null,
+          status: draft.status ?? task.status,
+          statusCategory: statusCategory(workflow, draft.status ?? task.status, task),
           priority: draft.priority,
           tags: draft.tags,
+          assignees: draft.assignees,
+          recurrence:
+            draft.recurrence === undefined ? task.recurrence : draft.recurrence || null,
           dueDate: toTaskDate(draft.dueDate),
           version: version + 1,
           updatedAt: optimisticUpdatedAt,
@@ -120,19 +138,17 @@ export const useTaskMutations = () => {
       );
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: TASKS_QUERY_KEY }).catch(() => {
-        // best effort
-      });
+      invalidateTaskQueries(queryClient);
     },
   });
 
   const deleteTaskMutation = useMutation<
     void,
     TaskApiError,
-    { readonly taskId: TaskId },
+    { readonly taskId: TaskId; readonly version: number },
     { readonly snapshots: readonly TaskQuerySnapshot[] }
   >({
-    mutationFn: ({ taskId }) => deleteTask(taskId),
+    mutationFn: ({ taskId, version }) => deleteTask(taskId, version),
     onMutate: ({ taskId }) => {
       const snapshots = queryClient.getQueriesData<TaskListResponse>({
         queryKey: TASKS_QUERY_KEY,
@@ -149,9 +165,18 @@ export const useTaskMutations = () => {
       }
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: TASKS_QUERY_KEY }).catch(() => {
-        // best effort
-      });
+      invalidateTaskQueries(queryClient);
+    },
+  });
+
+  const restoreTaskMutation = useMutation<
+    Task,
+    TaskApiError,
+    { readonly taskId: TaskId }
+  >({
+    mutationFn: ({ taskId }) => restoreTask(taskId),
+    onSettled: () => {
+      invalidateTaskQueries(queryClient);
     },
   });
 
@@ -159,5 +184,6 @@ export const useTaskMutations = () => {
     createTaskMutation,
     updateTaskMutation,
     deleteTaskMutation,
+    restoreTaskMutation,
   };
 };
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { getTaskWorkflow } from '../api/taskApi';
+import type { TaskWorkflow } from '../api/taskSchemas';
+
+export const TASK_WORKFLOW_QUERY_KEY = ['taskWorkflow'] as const;
+
+/** Undefined until the workflow has loaded. */
+export const useTaskWorkflow = (): TaskWorkflow | undefined =>
+  useQuery<TaskWorkflow, TaskApiError>({
+    queryKey: TASK_WORKFLOW_QUERY_KEY,
+    queryFn: ({ signal }) => getTaskWorkflow(signal),
+    staleTime: Infinity,
+    throwOnError: false,
+  }).data;
@@ -1,10 +1,14 @@
 import { listTasksParamsSchema, type TaskStatus } from '../api/taskSchemas';
 
-export type StatusFilter = 'all' | TaskStatus;
+/** A status key of the workflow, or `all` for every status. */
+export type StatusFilter = TaskStatus;
+
+export type AssigneeFilter = 'all' | 'me' | 'unassigned';
 
 export interface TaskFiltersState {
   readonly status: StatusFilter;
   readonly tag: string;
+  readonly assignee: AssigneeFilter;
   readonly search: string;
   readonly sortBy: 'priority' | 'dueDate' | '';
   readonly sortOrder: 'asc' | 'desc';
@@ -15,6 +19,7 @@ export interface TaskFiltersState {
 export const DEFAULT_FILTERS: TaskFiltersState = {
   status: 'all',
   tag: '',
+  assignee: 'all',
   search: '',
   sortBy: '',
   sortOrder: 'asc',
@@ -22,13 +27,19 @@ export const DEFAULT_FILTERS: TaskFiltersState = {
   pageSize: 25,
 };
 
-export const toListParams = (filters: TaskFiltersState) =>
-  listTasksParamsSchema.parse({
+export const toListParams = (filters: TaskFiltersState) => {
+  const search = filters.search.trim();
+  // Search results rank by relevance until a column sort is chosen.
+  const defaultSortBy = search.length > 0 ? 'relevance' : undefined;
+  return listTasksParamsSchema.parse({
     status: filters.status === 'all' ? undefined : filters.status,
     tag: filters.tag.trim().length > 0 ? filters.tag.trim() : undefined,
-    search: filters.search.trim().length > 0 ? filters.search.trim() : undefined,
-    sortBy: filters.sortBy === '' ? undefined : filters.sortBy,
+    assignee: filters.assignee === 'me' ? 'me' : undefined,
+    unassigned: filters.assignee === 'unassigned' ? true : undefined,
+    search: search.length > 0 ? search : undefined,
+    sortBy: filters.sortBy === '' ? defaultSortBy : filters.sortBy,
     sortOrder: filters.sortOrder,
     page: filters.page,
     pageSize: filters.pageSize,
   });
+};
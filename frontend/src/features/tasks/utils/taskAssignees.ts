@@ -0,0 +1,51 @@
+import type { WorkspaceMember } from '@/features/workspaces/api/workspaceSchemas';
+
+export interface AssigneeOption {
+  /** `user:<id>` or `api-token:<id>`, as the API stores it. */
+  readonly principal: string;
+  readonly label: string;
+  readonly initials: string;
+}
+
+export const userPrincipal = (userId: string): string => `user:${userId}`;
+
+const initialsOf = (label: string): string =>
+  label
+    .split(/[\s@._-]+/)
+    .filter((part) => part.length > 0)
+    .slice(0, 2)
+    .map((part) => part.charAt(0).toLocaleUpperCase())
+    .join('') || '?';
+
+/**
+ * How to show an assignee. Members are named; API tokens and users who have
+ * since left the workspace fall back to what kind of principal they are.
+ */
+export const describeAssignee = (
+  principal: string,
+  members: readonly WorkspaceMember[],
+): AssigneeOption => {
+  const member = members.find(
+    (candidate) => userPrincipal(candidate.userId) === principal,
+  );
+  if (member) {
+    const label = member.displayName || member.email;
+    return { principal, label, initials: initialsOf(label) };
+  }
+  if (principal.startsWith('api-token:')) {
+    return { principal, label: 'API token', initials: '⚙' };
+  }
+  return { principal, label: 'Former member', initials: '?' };
+};
+
+/** Every member, plus whoever is already assigned but no longer a member. */
+export const assigneeOptions = (
+  members: readonly WorkspaceMember[],
+  assigned: readonly string[],
+): AssigneeOption[] => {
+  const principals = members.map((member) => userPrincipal(member.userId));
+  const extra = assigned.filter((principal) => !principals.includes(principal));
+  return [...principals, ...extra].map((principal) =>
+    describeAssignee(principal, members),
+  );
+};
@@ -0,0 +1,26 @@
+export interface HighlightSegment {
+  readonly text: string;
+  readonly highlighted: boolean;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+/**
+ * Splits a search snippet into plain and highlighted segments so hits can
+ * be rendered as elements rather than injected as HTML.
+ */
+export const splitHighlights = (snippet: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of snippet.matchAll(MARK_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: snippet.slice(lastIndex, match.index), highlighted: false });
+    }
+    segments.push({ text: match[1], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < snippet.length) {
+    segments.push({ text: snippet.slice(lastIndex), highlighted: false });
+  }
+  return segments;
+};
@@ -1,7 +1,7 @@
 import type { Task } from '../api/taskSchemas';
 
 export const isTaskExpired = (task: Task, reference = new Date()): boolean => {
-  if (task.status === 'done') {
+  if (task.statusCategory === 'done') {
     return false;
   }
   if (!task.dueDate) {
@@ -0,0 +1,76 @@
+import type {
+  Task,
+  TaskStatus,
+  TaskStatusCategory,
+  TaskWorkflow,
+} from '../api/taskSchemas';
+
+export interface StatusOption {
+  readonly value: TaskStatus;
+  readonly label: string;
+}
+
+/** The status's label, or its key while the workflow loads. */
+export const statusLabel = (
+  workflow: TaskWorkflow | undefined,
+  status: TaskStatus,
+): string =>
+  workflow?.statuses.find((candidate) => candidate.key === status)?.label ?? status;
+
+/** Category of `status`, keeping the task's own when the workflow has no say. */
+export const statusCategory = (
+  workflow: TaskWorkflow | undefined,
+  status: TaskStatus,
+  task: Task,
+): TaskStatusCategory =>
+  workflow?.statuses.find((candidate) => candidate.key === status)?.category ??
+  task.statusCategory;
+
+export const statusOptions = (workflow: TaskWorkflow | undefined): StatusOption[] =>
+  (workflow?.statuses ?? []).map((status) => ({
+    value: status.key,
+    label: status.label,
+  }));
+
+/**
+ * `current` and the statuses it may move to, in board order. A status the
+ * workflow no longer has may move anywhere, as the API allows.
+ */
+export const reachableStatusOptions = (
+  workflow: TaskWorkflow | undefined,
+  current: TaskStatus,
+): StatusOption[] => {
+  const status = workflow?.statuses.find((candidate) => candidate.key === current);
+  const options = statusOptions(workflow).filter(
+    (option) =>
+      !status || option.value === current || status.transitions.includes(option.value),
+  );
+  return status ? options : [{ value: current, label: current }, ...options];
+};
+
+export interface StatusCount {
+  readonly status: TaskStatus;
+  readonly label: string;
+  readonly count: number;
+  readonly wipLimit: number | null;
+  /** A workspace-wide limit is used up; per-assignee use is not known here. */
+  readonly full: boolean;
+}
+
+/** The workspace's task count per status in board order, with WIP limits. */
+export const statusCounts = (
+  workflow: TaskWorkflow | undefined,
+  counts: Readonly<Record<TaskStatus, number>>,
+): StatusCount[] =>
+  Object.entries(counts).map(([status, count]) => {
+    const wipLimit =
+      workflow?.statuses.find((candidate) => candidate.key === status)?.wipLimit ?? null;
+    return {
+      status,
+      label: statusLabel(workflow, status),
+      count,
+      wipLimit,
+      full:
+        wipLimit !== null && workflow?.wipLimitScope === 'workspace' && count >= wipLimit,
+    };
+  });
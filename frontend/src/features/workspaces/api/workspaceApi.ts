@@ -0,0 +1,28 @@
+import { request } from '@/lib/apiClient';
+import {
+  type Workspace,
+  type WorkspaceMember,
+  workspaceListSchema,
+  workspaceMemberListSchema,
+} from './workspaceSchemas';
+
+/** Workspaces the signed-in user is a member of. */
+export const listWorkspaces = async (signal?: AbortSignal): Promise<Workspace[]> => {
+  const response = await request('/workspaces', {
+    schema: workspaceListSchema,
+    signal,
+  });
+  return response.data;
+};
+
+/** People who can be assigned tasks in a workspace. */
+export const listWorkspaceMembers = async (
+  slug: string,
+  signal?: AbortSignal,
+): Promise<WorkspaceMember[]> => {
+  const response = await request(`/workspaces/${encodeURIComponent(slug)}/members`, {
+    schema: workspaceMemberListSchema,
+    signal,
+  });
+  return response.data;
+};
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+/** Slug of the workspace every account starts in. */
+export const DEFAULT_WORKSPACE_SLUG = 'default';
+
+export const workspaceSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  slug: z.string(),
+  createdAt: z
+    .string()
+    .datetime({ offset: true })
+    .transform((value) => new Date(value)),
+});
+
+export type Workspace = z.infer<typeof workspaceSchema>;
+
+export const workspaceListSchema = z.object({
+  data: z.array(workspaceSchema),
+});
+
+export const workspaceMemberSchema = z.object({
+  userId: z.string().uuid(),
+  email: z.string(),
+  displayName: z.string(),
+  joinedAt: z
+    .string()
+    .datetime({ offset: true })
+    .transform((value) => new Date(value)),
+});
+
+export type WorkspaceMember = z.infer<typeof workspaceMemberSchema>;
+
+export const workspaceMemberListSchema = z.object({
+  data: z.array(workspaceMemberSchema),
+});
@@ -0,0 +1,26 @@
+import { useWorkspaces } from '../hooks/useWorkspaces';
+import styles from './WorkspaceSwitcher.module.css';
+
+/** Picks the workspace the task views load from; hidden with a single workspace. */
+export const WorkspaceSwitcher = (): JSX.Element | null => {
+  const { workspaces, current, selectWorkspace } = useWorkspaces();
+
+  if (!current || workspaces.length < 2) {
+    return null;
+  }
+
+  return (
+    <select
+      className={styles.select}
+      value={current.slug}
+      onChange={(event) => selectWorkspace(event.currentTarget.value)}
+      aria-label="Workspace"
+    >
+      {workspaces.map((workspace) => (
+        <option key={workspace.id} value={workspace.slug}>
+          {workspace.name}
+        </option>
+      ))}
+    </select>
+  );
+};
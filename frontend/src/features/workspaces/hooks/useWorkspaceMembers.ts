@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TaskApiError } from '@/lib/problem';
+import { listWorkspaceMembers } from '../api/workspaceApi';
+import type { WorkspaceMember } from '../api/workspaceSchemas';
+import { useWorkspaces } from './useWorkspaces';
+
+export const WORKSPACE_MEMBERS_QUERY_KEY = ['workspaceMembers'] as const;
+
+/** Members of the workspace in use, for picking and showing assignees. */
+export const useWorkspaceMembers = (): readonly WorkspaceMember[] => {
+  const { current } = useWorkspaces();
+  const slug = current?.slug ?? null;
+
+  const membersQuery = useQuery<WorkspaceMember[], TaskApiError>({
+    queryKey: [...WORKSPACE_MEMBERS_QUERY_KEY, slug],
+    queryFn: ({ signal }) => listWorkspaceMembers(slug ?? '', signal),
+    enabled: slug !== null,
+    staleTime: 60_000,
+    throwOnError: false,
+  });
+
+  return membersQuery.data ?? [];
+};
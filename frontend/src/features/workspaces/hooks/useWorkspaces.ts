@@ -0,0 +1,57 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { SESSION_QUERY_KEY } from '@/features/auth/hooks/useSession';
+import type { TaskApiError } from '@/lib/problem';
+import { listWorkspaces } from '../api/workspaceApi';
+import { DEFAULT_WORKSPACE_SLUG, type Workspace } from '../api/workspaceSchemas';
+import {
+  getActiveWorkspace,
+  setActiveWorkspace,
+  subscribeToActiveWorkspace,
+} from '../state/activeWorkspace';
+
+export const WORKSPACES_QUERY_KEY = ['workspaces'] as const;
+
+const KEPT_QUERY_KEYS = new Set<unknown>([SESSION_QUERY_KEY[0], WORKSPACES_QUERY_KEY[0]]);
+
+/** Slug of the workspace task requests currently go to, if one was picked. */
+export const useActiveWorkspace = (): string | null =>
+  useSyncExternalStore(subscribeToActiveWorkspace, getActiveWorkspace);
+
+export const useWorkspaces = () => {
+  const queryClient = useQueryClient();
+  const activeSlug = useActiveWorkspace();
+
+  const workspacesQuery = useQuery<Workspace[], TaskApiError>({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: ({ signal }) => listWorkspaces(signal),
+    staleTime: Infinity,
+    throwOnError: false,
+  });
+
+  const workspaces = workspacesQuery.data ?? [];
+  // Until one is picked, show what the API resolves to without a prefix.
+  const current =
+    workspaces.find((workspace) => workspace.slug === activeSlug) ??
+    workspaces.find((workspace) => workspace.slug === DEFAULT_WORKSPACE_SLUG) ??
+    workspaces[0] ??
+    null;
+
+  const selectWorkspace = useCallback(
+    (slug: string) => {
+      setActiveWorkspace(slug);
+      // Cached tasks, comments and children belong to the previous workspace.
+      queryClient.removeQueries({
+        predicate: (query) => !KEPT_QUERY_KEYS.has(query.queryKey[0]),
+      });
+    },
+    [queryClient],
+  );
+
+  return {
+    workspaces,
+    current,
+    isLoading: workspacesQuery.isPending,
+    selectWorkspace,
+  };
+};
@@ -0,0 +1,27 @@
+let activeWorkspace: string | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Slug task requests are scoped to. `null` leaves the choice to the API,
+ * which falls back to the default workspace.
+ */
+export const getActiveWorkspace = (): string | null => activeWorkspace;
+
+export const setActiveWorkspace = (slug: string | null): void => {
+  if (slug === activeWorkspace) {
+    return;
+  }
+  activeWorkspace = slug;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToActiveWorkspace = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Prefixes a path with the active workspace, e.g. `/workspaces/ops/tasks`. */
+export const workspacePath = (path: string): string =>
+  activeWorkspace ? `/workspaces/${encodeURIComponent(activeWorkspace)}${path}` : path;
@@ -0,0 +1,104 @@
+import { http, HttpResponse } from 'msw';
+import { describe, expect, it, vi } from 'vitest';
+import { TaskApiError } from '@/lib/problem';
+import { server } from '@/test/server';
+
+const API_BASE_URL = 'http://localhost:3100/';
+
+const loadModule = async () => {
+  import.meta.env.VITE_API_BASE_URL = API_BASE_URL;
+  return import('./apiClient');
+};
+
+const unauthorized = () =>
+  HttpResponse.json(
+    {
+      type: 'https://example.com/problems/invalid-token',
+      title: 'Unauthorized',
+      status: 401,
+    },
+    { status: 401 },
+  );
+
+const rateLimited = (retryAfter: string) =>
+  HttpResponse.json(
+    {
+      type: 'https://example.com/problems/rate-limited',
+      title: 'Too Many Requests',
+      status: 429,
+    },
+    { status: 429, headers: { 'Retry-After': retryAfter } },
+  );
+
+describe('apiClient', () => {
+  it('refreshes the session once for concurrent 401s and retries', async () => {
+    let sessionValid = false;
+    let refreshCount = 0;
+    server.use(
+      http.post(`${API_BASE_URL}auth/refresh`, () => {
+        refreshCount += 1;
+        sessionValid = true;
+        return HttpResponse.json({});
+      }),
+      http.get(`${API_BASE_URL}ping`, () =>
+        sessionValid ? new HttpResponse(null, { status: 204 }) : unauthorized(),
+      ),
+    );
+
+    const { request } = await loadModule();
+    await Promise.all([request('/ping'), request('/ping')]);
+
+    expect(refreshCount).toBe(1);
+  });
+
+  it('reports an expired session when the refresh is rejected', async () => {
+    server.use(
+      http.post(`${API_BASE_URL}auth/refresh`, unauthorized),
+      http.get(`${API_BASE_URL}ping`, unauthorized),
+    );
+
+    const { onSessionExpired, request } = await loadModule();
+    const listener = vi.fn();
+    const unsubscribe = onSessionExpired(listener);
+    const error: unknown = await request('/ping').catch((caught: unknown) => caught);
+    unsubscribe();
+
+    expect(error).toBeInstanceOf(TaskApiError);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a 429 once its Retry-After has passed', async () => {
+    let calls = 0;
+    server.use(
+      http.get(`${API_BASE_URL}ping`, () => {
+        calls += 1;
+        return calls === 1 ? rateLimited('0') : new HttpResponse(null, { status: 204 });
+      }),
+    );
+
+    const { request } = await loadModule();
+    await request('/ping');
+
+    expect(calls).toBe(2);
+  });
+
+  it('reports a 429 whose Retry-After is too far away', async () => {
+    let calls = 0;
+    server.use(
+      http.get(`${API_BASE_URL}ping`, () => {
+        calls += 1;
+        return rateLimited('120');
+      }),
+    );
+
+    const { request } = await loadModule();
+    const error: unknown = await request('/ping').catch((caught: unknown) => caught);
+
+    expect(calls).toBe(1);
+    expect(error).toBeInstanceOf(TaskApiError);
+    expect((error as TaskApiError).detail).toMatchObject({
+      kind: 'problem',
+      problem: { status: 429 },
+    });
+  });
+});
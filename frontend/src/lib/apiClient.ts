@@ -0,0 +1,286 @@
+import { ZodError, type ZodType } from 'zod';
+import { TaskApiError, isProblemDetails, problemDetailsSchema } from '@/lib/problem';
+
+export const HttpMethod = {
+  DELETE: 'DELETE',
+  GET: 'GET',
+  PATCH: 'PATCH',
+  POST: 'POST',
+} as const;
+
+export type HttpMethod = (typeof HttpMethod)[keyof typeof HttpMethod];
+
+const readEnvString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+function normalizeBaseUrl(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    throw new Error('VITE_API_BASE_URL must not be empty');
+  }
+  return trimmed.endsWith('/') ? trimmed : `${trimmed}/`;
+}
+
+const rawBaseUrl = readEnvString(import.meta.env.VITE_API_BASE_URL);
+const API_BASE_URL = normalizeBaseUrl(
+  rawBaseUrl && rawBaseUrl.trim().length > 0 ? rawBaseUrl : 'http://localhost:3000',
+);
+
+const JSON_MEDIA_TYPE = 'application/json';
+
+const SESSION_REFRESH_PATH = '/auth/refresh';
+
+const parseJson = async (response: Response): Promise<unknown> => {
+  if (response.status === 204) {
+    return undefined;
+  }
+  const contentLength = response.headers.get('content-length');
+  if (contentLength === '0') {
+    return undefined;
+  }
+  const text = await response.text();
+  if (!text) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return parsed;
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to parse JSON response';
+    throw createUnexpectedError(`Failed to parse JSON response: ${message}`);
+  }
+};
+
+const createUnexpectedError = (message: string): TaskApiError =>
+  new TaskApiError({ kind: 'unexpected', error: new Error(message) });
+
+export const buildUrl = (
+  path: string,
+  params?: Partial<Record<string, string | number>>,
+): URL => {
+  const url = new URL(path, API_BASE_URL);
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === null || value === '') {
+        return;
+      }
+      url.searchParams.set(key, String(value));
+    });
+  }
+  return url;
+};
+
+/** Waits longer than this are reported instead of retried. */
+const MAX_RETRY_AFTER_MS = 30_000;
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+/** `Retry-After` in milliseconds; it may be delta-seconds or an HTTP date. */
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The request was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+/**
+ * `fetch` that sits out a `429` for as long as `Retry-After` asks and tries
+ * again, a couple of times at most.
+ */
+const fetchHonoringRetryAfter = async (
+  url: URL,
+  init: RequestInit,
+): Promise<Response> => {
+  for (let attempt = 0; ; attempt += 1) {
+    const response = await fetch(url, init);
+    const delay =
+      response.status === 429
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : null;
+    if (
+      delay === null ||
+      delay > MAX_RETRY_AFTER_MS ||
+      attempt >= MAX_RATE_LIMIT_RETRIES
+    ) {
+      return response;
+    }
+    await wait(delay, init.signal);
+  }
+};
+
+const sessionExpiredListeners = new Set<() => void>();
+let pendingRefresh: Promise<boolean> | null = null;
+
+/** Called when a request was rejected and the session could not be renewed. */
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+/**
+ * Rotates the refresh cookie for a new access cookie. Requests that hit a 401
+ * at the same time share one attempt, because the server revokes every
+ * session when a rotated refresh token is replayed.
+ */
+export const refreshSession = (): Promise<boolean> => {
+  pendingRefresh ??= fetch(buildUrl(SESSION_REFRESH_PATH), {
+    method: HttpMethod.POST,
+    credentials: 'include',
+    headers: { Accept: JSON_MEDIA_TYPE },
+  })
+    .then(
+      (response) => response.ok,
+      () => false,
+    )
+    .finally(() => {
+      pendingRefresh = null;
+    });
+  return pendingRefresh;
+};
+
+interface RequestOptionsBase {
+  readonly method?: HttpMethod | undefined;
+  readonly body?: unknown;
+  readonly params?: Partial<Record<string, string | number>>;
+  readonly signal?: AbortSignal | undefined;
+  readonly headers?: Readonly<Record<string, string>> | undefined;
+  /** Answer a 401 as is instead of refreshing the session and retrying. */
+  readonly skipSessionRefresh?: boolean | undefined;
+}
+
+type SchemaOutput<TSchema extends ZodType<unknown>> = TSchema['_output'];
+
+interface RequestOptionsWithSchema<TSchema extends ZodType<unknown>>
+  extends RequestOptionsBase {
+  readonly schema: TSchema;
+}
+
+type RequestOptionsWithoutSchema = RequestOptionsBase & {
+  readonly schema?: undefined;
+};
+
+/**
+ * Sends a JSON request with the session cookies. A 401 refreshes the session
+ * once and retries; if that fails the session-expired listeners are told.
+ * A 429 is retried after its `Retry-After`.
+ */
+export async function request<TSchema extends ZodType<unknown>>(
+  path: string,
+  options: RequestOptionsWithSchema<TSchema>,
+): Promise<SchemaOutput<TSchema>>;
+export async function request(
+  path: string,
+  options?: RequestOptionsWithoutSchema,
+): Promise<void>;
+export async function request<TSchema extends ZodType<unknown>>(
+  path: string,
+  options: RequestOptionsWithSchema<TSchema> | RequestOptionsWithoutSchema = {},
+): Promise<SchemaOutput<TSchema> | void> {
+  const {
+    method = HttpMethod.GET,
+    body,
+    params,
+    signal,
+    headers: extraHeaders,
+    skipSessionRefresh = false,
+  } = options;
+  const schema =
+    'schema' in options && options.schema !== undefined ? options.schema : undefined;
+
+  const headers = new Headers(extraHeaders);
+  headers.set('Accept', JSON_MEDIA_TYPE);
+  if (body !== undefined) {
+    headers.set('Content-Type', JSON_MEDIA_TYPE);
+  }
+
+  const requestInit: RequestInit = {
+    method,
+    headers,
+    credentials: 'include',
+  };
+
+  if (body !== undefined) {
+    requestInit.body = JSON.stringify(body);
+  }
+
+  if (signal && typeof AbortSignal !== 'undefined' && signal instanceof AbortSignal) {
+    requestInit.signal = signal;
+  }
+
+  try {
+    const url = buildUrl(path, params);
+    let response = await fetchHonoringRetryAfter(url, requestInit);
+    if (response.status === 401 && !skipSessionRefresh) {
+      if (await refreshSession()) {
+        response = await fetchHonoringRetryAfter(url, requestInit);
+      }
+      if (response.status === 401) {
+        sessionExpiredListeners.forEach((listener) => listener());
+      }
+    }
+
+    if (!response.ok) {
+      const parsed = await parseJson(response).catch(() => {
+        throw createUnexpectedError(
+          `Failed to read error response (HTTP ${response.status})`,
+        );
+      });
+      if (parsed && isProblemDetails(parsed)) {
+        throw new TaskApiError({
+          kind: 'problem',
+          problem: problemDetailsSchema.parse(parsed),
+        });
+      }
+      throw createUnexpectedError(`Unexpected error response (HTTP ${response.status})`);
+    }
+
+    if (!schema) {
+      return undefined;
+    }
+
+    const data = await parseJson(response);
+    try {
+      return schema.parse(data) as TSchema['_output'];
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw createUnexpectedError(`Response validation failed: ${error.message}`);
+      }
+      throw createUnexpectedError('Response validation failed.');
+    }
+  } catch (error) {
+    if (error instanceof TaskApiError) {
+      throw error;
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw error;
+    }
+    throw new TaskApiError({
+      kind: 'network',
+      error: error instanceof Error ? error : new Error(String(error)),
+    });
+  }
+}
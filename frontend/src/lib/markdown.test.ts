@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from './markdown';
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists, quotes and fenced code', () => {
+    const blocks = parseMarkdown(
+      [
+        '## Plan',
+        '',
+        '- one',
+        '- **two**',
+        '',
+        '> note',
+        '',
+        '```',
+        '<b>raw</b>',
+        '```',
+      ].join('\n'),
+    );
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      'heading',
+      'list',
+      'quote',
+      'codeBlock',
+    ]);
+    expect(blocks[1]).toEqual({
+      type: 'list',
+      ordered: false,
+      items: [
+        [{ type: 'text', text: 'one' }],
+        [{ type: 'strong', children: [{ type: 'text', text: 'two' }] }],
+      ],
+    });
+    expect(blocks[3]).toEqual({ type: 'codeBlock', text: '<b>raw</b>' });
+  });
+
+  it('joins consecutive lines into one paragraph', () => {
+    expect(parseMarkdown('first line\nsecond _line_')).toEqual([
+      {
+        type: 'paragraph',
+        children: [
+          { type: 'text', text: 'first line second ' },
+          { type: 'emphasis', children: [{ type: 'text', text: 'line' }] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('keeps safe links and unwraps unsafe ones', () => {
+    expect(parseInline('[docs](https://example.com) [x](javascript:alert)')).toEqual([
+      {
+        type: 'link',
+        href: 'https://example.com/',
+        children: [{ type: 'text', text: 'docs' }],
+      },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: 'x' },
+    ]);
+  });
+
+  it('treats HTML as plain text', () => {
+    expect(parseInline('<img src=x onerror=alert(1)>')).toEqual([
+      { type: 'text', text: '<img src=x onerror=alert(1)>' },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+export type MarkdownInline =
+  | { readonly type: 'text'; readonly text: string }
+  | { readonly type: 'code'; readonly text: string }
+  | { readonly type: 'strong'; readonly children: MarkdownInline[] }
+  | { readonly type: 'emphasis'; readonly children: MarkdownInline[] }
+  | { readonly type: 'link'; readonly href: string; readonly children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | {
+      readonly type: 'heading';
+      readonly level: 1 | 2 | 3;
+      readonly children: MarkdownInline[];
+    }
+  | { readonly type: 'paragraph'; readonly children: MarkdownInline[] }
+  | { readonly type: 'quote'; readonly children: MarkdownInline[] }
+  | {
+      readonly type: 'list';
+      readonly ordered: boolean;
+      readonly items: MarkdownInline[][];
+    }
+  | { readonly type: 'codeBlock'; readonly text: string };
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+/** Only absolute http(s) and mailto links survive; anything else renders as text. */
+export const toSafeHref = (raw: string): string | null => {
+  try {
+    const url = new URL(raw);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|_([^_\s](?:[^_]*[^_\s])?)_|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest.length > 0) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+    const [whole, code, strong, strongAlt, emphasis, emphasisAlt, label, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt ?? '') });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({
+        type: 'emphasis',
+        children: parseInline(emphasis ?? emphasisAlt ?? ''),
+      });
+    } else if (label !== undefined && href !== undefined) {
+      const safeHref = toSafeHref(href);
+      const children = parseInline(label);
+      if (safeHref) {
+        nodes.push({ type: 'link', href: safeHref, children });
+      } else {
+        nodes.push(...children);
+      }
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const FENCE_PATTERN = /^\s*```/;
+
+/**
+ * Parses the Markdown subset task descriptions support: headings, lists,
+ * quotes, fenced code, emphasis, inline code and links. The output is a
+ * plain tree rendered as React elements, so raw HTML in the source is shown
+ * as text and never reaches the DOM as markup.
+ */
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? '';
+
+    if (FENCE_PATTERN.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length && !FENCE_PATTERN.test(lines[index] ?? '')) {
+        code.push(lines[index] ?? '');
+        index += 1;
+      }
+      blocks.push({ type: 'codeBlock', text: code.join('\n') });
+      continue;
+    }
+
+    if (line.trim().length === 0) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      const level = Math.min(heading[1]?.length ?? 1, 3) as 1 | 2 | 3;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2] ?? '') });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM_PATTERN.test(line);
+    if (ordered || UNORDERED_ITEM_PATTERN.test(line)) {
+      flushParagraph();
+      const pattern = ordered ? ORDERED_ITEM_PATTERN : UNORDERED_ITEM_PATTERN;
+      const items: MarkdownInline[][] = [];
+      let item = pattern.exec(lines[index] ?? '');
+      while (item) {
+        items.push(parseInline(item[1] ?? ''));
+        index += 1;
+        item = pattern.exec(lines[index] ?? '');
+      }
+      index -= 1;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const quote = QUOTE_PATTERN.exec(line);
+    if (quote) {
+      flushParagraph();
+      const quoted: string[] = [];
+      let quoteLine: RegExpExecArray | null = quote;
+      while (quoteLine) {
+        quoted.push(quoteLine[1] ?? '');
+        index += 1;
+        quoteLine = QUOTE_PATTERN.exec(lines[index] ?? '');
+      }
+      index -= 1;
+      blocks.push({ type: 'quote', children: parseInline(quoted.join(' ')) });
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+};
@@ -14,7 +14,6 @@ export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
 export type TaskApiErrorDetail =
   | { readonly kind: 'network'; readonly error: Error }
   | { readonly kind: 'problem'; readonly problem: ProblemDetails }
-  | { readonly kind: 'configuration'; readonly message: string }
   | { readonly kind: 'unexpected'; readonly error: Error };
 
 const detailToMessage = (detail: TaskApiErrorDetail): string => {
@@ -23,8 +22,6 @@ const detailToMessage = (detail: TaskApiErrorDetail): string => {
       return detail.error.message;
     case 'problem':
       return detail.problem.detail ?? detail.problem.title;
-    case 'configuration':
-      return detail.message;
     case 'unexpected':
       return detail.error.message;
   }
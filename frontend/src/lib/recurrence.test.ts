@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RECURRENCE,
+  describeRecurrence,
+  fromRecurrenceRule,
+  toRecurrenceRule,
+} from './recurrence';
+
+describe('recurrence rules', () => {
+  it('round-trips the picker choices through an RRULE', () => {
+    const rule = toRecurrenceRule({
+      ...DEFAULT_RECURRENCE,
+      frequency: 'weekly',
+      interval: 2,
+      weekdays: ['TH', 'MO'],
+      end: 'until',
+      until: '2026-12-31',
+    });
+
+    expect(rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231');
+    expect(
+      fromRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20261231T235959Z'),
+    ).toEqual({
+      ...DEFAULT_RECURRENCE,
+      frequency: 'weekly',
+      interval: 2,
+      weekdays: ['MO', 'TH'],
+      end: 'until',
+      until: '2026-12-31',
+    });
+  });
+
+  it('keeps only valid month days and drops fields of other frequencies', () => {
+    expect(
+      toRecurrenceRule({
+        ...DEFAULT_RECURRENCE,
+        frequency: 'monthly',
+        weekdays: ['MO'],
+        monthDays: '31, 15, 0, x, 15',
+        end: 'count',
+        count: 3,
+      }),
+    ).toBe('FREQ=MONTHLY;BYMONTHDAY=15,31;COUNT=3');
+    expect(toRecurrenceRule(DEFAULT_RECURRENCE)).toBe('');
+  });
+
+  it('describes rules for the task table', () => {
+    expect(describeRecurrence('FREQ=DAILY')).toBe('Daily');
+    expect(describeRecurrence('FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=1')).toBe(
+      'Monthly on day 1, 15, 1 occurrence left',
+    );
+  });
+});
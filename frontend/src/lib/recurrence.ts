@@ -0,0 +1,141 @@
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceEnd = 'never' | 'count' | 'until';
+
+export const WEEKDAYS = [
+  { code: 'MO', label: 'Mon' },
+  { code: 'TU', label: 'Tue' },
+  { code: 'WE', label: 'Wed' },
+  { code: 'TH', label: 'Thu' },
+  { code: 'FR', label: 'Fri' },
+  { code: 'SA', label: 'Sat' },
+  { code: 'SU', label: 'Sun' },
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number]['code'];
+
+/** Form-friendly view of the RRULE subset the API accepts. */
+export interface RecurrenceChoice {
+  readonly frequency: RecurrenceFrequency;
+  readonly interval: number;
+  readonly weekdays: readonly Weekday[];
+  /** Comma-separated days of the month, as typed. */
+  readonly monthDays: string;
+  readonly end: RecurrenceEnd;
+  readonly count: number;
+  /** `YYYY-MM-DD`, as used by date inputs. */
+  readonly until: string;
+}
+
+export const DEFAULT_RECURRENCE: RecurrenceChoice = {
+  frequency: 'none',
+  interval: 1,
+  weekdays: [],
+  monthDays: '',
+  end: 'never',
+  count: 5,
+  until: '',
+};
+
+const FREQUENCY_UNITS = {
+  daily: { rule: 'DAILY', adverb: 'Daily', unit: 'day' },
+  weekly: { rule: 'WEEKLY', adverb: 'Weekly', unit: 'week' },
+  monthly: { rule: 'MONTHLY', adverb: 'Monthly', unit: 'month' },
+} as const;
+
+const isWeekday = (value: string): value is Weekday =>
+  WEEKDAYS.some((weekday) => weekday.code === value);
+
+const parseParts = (rule: string): Map<string, string> =>
+  new Map(
+    rule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map((part) => {
+        const [name = '', value = ''] = part.split('=');
+        return [name.trim().toUpperCase(), value.trim().toUpperCase()] as const;
+      }),
+  );
+
+const parseMonthDays = (value: string): number[] =>
+  Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((day) => Number.parseInt(day.trim(), 10))
+        .filter((day) => Number.isInteger(day) && day >= 1 && day <= 31),
+    ),
+  ).sort((a, b) => a - b);
+
+export const fromRecurrenceRule = (rule: string | null): RecurrenceChoice => {
+  if (!rule) {
+    return DEFAULT_RECURRENCE;
+  }
+  const parts = parseParts(rule);
+  const frequency = (
+    Object.keys(FREQUENCY_UNITS) as (keyof typeof FREQUENCY_UNITS)[]
+  ).find((key) => FREQUENCY_UNITS[key].rule === parts.get('FREQ'));
+  if (!frequency) {
+    return DEFAULT_RECURRENCE;
+  }
+  const count = parts.get('COUNT');
+  const until = /^(\d{4})(\d{2})(\d{2})/.exec(parts.get('UNTIL') ?? '');
+  return {
+    frequency,
+    interval: Number.parseInt(parts.get('INTERVAL') ?? '1', 10) || 1,
+    weekdays: (parts.get('BYDAY') ?? '').split(',').filter(isWeekday),
+    monthDays: (parts.get('BYMONTHDAY') ?? '').split(',').join(', '),
+    end: count ? 'count' : until ? 'until' : 'never',
+    count: count ? Number.parseInt(count, 10) : DEFAULT_RECURRENCE.count,
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : '',
+  };
+};
+
+/** Builds the RRULE for a choice; an empty string means "does not repeat". */
+export const toRecurrenceRule = (choice: RecurrenceChoice): string => {
+  if (choice.frequency === 'none') {
+    return '';
+  }
+  const parts = [`FREQ=${FREQUENCY_UNITS[choice.frequency].rule}`];
+  if (choice.interval > 1) {
+    parts.push(`INTERVAL=${choice.interval}`);
+  }
+  if (choice.frequency === 'weekly' && choice.weekdays.length > 0) {
+    const weekdays = WEEKDAYS.filter((weekday) => choice.weekdays.includes(weekday.code));
+    parts.push(`BYDAY=${weekdays.map((weekday) => weekday.code).join(',')}`);
+  }
+  const monthDays = parseMonthDays(choice.monthDays);
+  if (choice.frequency === 'monthly' && monthDays.length > 0) {
+    parts.push(`BYMONTHDAY=${monthDays.join(',')}`);
+  }
+  if (choice.end === 'count' && choice.count >= 1) {
+    parts.push(`COUNT=${choice.count}`);
+  }
+  if (choice.end === 'until' && choice.until) {
+    parts.push(`UNTIL=${choice.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+};
+
+/** Short human summary, e.g. "Every 2 weeks on Mon, Thu, until 2026-12-31". */
+export const describeRecurrence = (rule: string): string => {
+  const choice = fromRecurrenceRule(rule);
+  if (choice.frequency === 'none') {
+    return rule;
+  }
+  const { adverb, unit } = FREQUENCY_UNITS[choice.frequency];
+  let summary = choice.interval > 1 ? `Every ${choice.interval} ${unit}s` : adverb;
+  if (choice.weekdays.length > 0) {
+    const labels = WEEKDAYS.filter((weekday) => choice.weekdays.includes(weekday.code));
+    summary += ` on ${labels.map((weekday) => weekday.label).join(', ')}`;
+  }
+  if (choice.monthDays) {
+    summary += ` on day ${choice.monthDays}`;
+  }
+  if (choice.end === 'count') {
+    summary += `, ${choice.count} ${choice.count === 1 ? 'occurrence' : 'occurrences'} left`;
+  } else if (choice.end === 'until') {
+    summary += `, until ${choice.until}`;
+  }
+  return summary;
+};
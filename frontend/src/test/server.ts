@@ -1,3 +1,12 @@
+import { http, HttpResponse } from 'msw';
 import { setupServer } from 'msw/node';
 
-export const server = setupServer();
+/**
+ * Answers requests most views make but few tests care about; `server.use`
+ * overrides them per test, and `resetHandlers` keeps them.
+ */
+const defaultHandlers = [
+  http.get('*/tasks/:id/comments', () => HttpResponse.json({ data: [] })),
+];
+
+export const server = setupServer(...defaultHandlers);